@@ -15,10 +15,13 @@ import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
 
 const AnalyzeTeamDataInputSchema = z.object({
-  githubMetrics: z.string().describe('GitHub metrics data in JSON format.'),
-  jiraMetrics: z.string().describe('Jira metrics data in JSON format.'),
+  githubMetrics: z.string().describe('Source control (GitHub, GitLab, Bitbucket Server or Azure DevOps; see scmProvider) metrics data in JSON format.'),
+  jiraMetrics: z.string().describe('Jira metrics data in JSON format, aggregated across the team\'s projects; projectBreakdown holds per-project sub-aggregates when the team owns several projects.'),
   sonarqubeMetrics: z.string().describe('SonarQube metrics data in JSON format.'),
-  teamComposition: z.string().describe('Team composition data in JSON format, including tech stack, band and rates.'),
+  doraMetrics: z.string().describe('DORA metrics (deployment frequency, lead time for changes, change failure rate, time to restore) in JSON format.'),
+  jenkinsMetrics: z.string().describe('Jenkins CI metrics in JSON format, per trailing period (7days, 30days, 90days): build counts by result, success rate (0-100, of completed builds), median and p90 build duration in seconds, a daily or weekly trend, the jobs ranked by failed and unstable builds, and per-job results.'),
+  teamComposition: z.string().describe('Team roster summary in JSON format: active headcount, full-time equivalent (FTE) by role, technology and band, each active member with role, rate (in the member\'s currency), location, allocation and tenure, plus recent leavers and upcoming joiners.'),
+  teamFinancials: z.string().describe('Team cost and capacity in JSON format: monthly and quarterly cost with capacity hours and FTE (the current period also has a projected cost), year-to-date cost, annual run rate, projected monthly cost by role and member, and cost per merged pull request, resolved Jira issue and story point over trailing windows (null when the source has no data). All amounts are in settings.reportingCurrency; member rates use the configured rate unit.'),
   geminiApiKey: z.string().describe('Gemini API Key for AI analysis.'),
   openAiApiKey: z.string().describe('OpenAI API Key for AI analysis.'),
   claudeAiApiKey: z.string().describe('ClaudeAI API Key for AI analysis.'),
@@ -44,7 +47,7 @@ const prompt = ai.definePrompt({
   output: {schema: AnalyzeTeamDataOutputSchema},
   prompt: `You are an AI assistant tasked with analyzing team data to provide insights on efficiency, bottlenecks, and optimal structure.
 
-  Analyze the provided data from GitHub, Jira, and SonarQube, along with the team composition.
+  Analyze the provided data from GitHub, Jira, and SonarQube, along with the team composition and financials.
   {{#if userPrompt}}
   Pay close attention to the following user-provided question or focus area:
   {{{userPrompt}}}
@@ -61,9 +64,18 @@ const prompt = ai.definePrompt({
   SonarQube Metrics:
   {{{sonarqubeMetrics}}}
 
-  Team Composition (Tech Stack, Band, Rates):
+  DORA Metrics:
+  {{{doraMetrics}}}
+
+  Jenkins CI Metrics:
+  {{{jenkinsMetrics}}}
+
+  Team Composition (Roster: Roles, Allocation, Tech Stack, Band, Rates, Tenure):
   {{{teamComposition}}}
 
+  Team Financials (Cost, Capacity, Burn, Cost per Delivered Unit):
+  {{{teamFinancials}}}
+
   Based on all this data, and explicitly considering the user's prompt if provided, provide a detailed analysis.
   Your analysis should cover:
   1. Team Efficiency: Detailed insights on the team's overall efficiency.
@@ -15,10 +15,12 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { saveApiKeys, getApiKeys } from "@/lib/actions";
+import { saveApiKeys, getApiKeys, clearStoredSecret } from "@/lib/actions";
+import { SECRET_PLACEHOLDER } from "@/lib/constants";
+import type { SecretFieldId } from "@/lib/schemas";
+import { SecretInput } from "./secret-input";
 import type { Team } from "./types";
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
@@ -27,11 +29,16 @@ interface ApiKeysFormProps {
   teams: Team[];
 }
 
+type ApiKeyField = "geminiApiKey" | "openAiApiKey" | "claudeAiApiKey";
+
+const NO_STORED_KEYS: Record<ApiKeyField, boolean> = { geminiApiKey: false, openAiApiKey: false, claudeAiApiKey: false };
+
 export function ApiKeysForm({ teams }: ApiKeysFormProps) {
   const { toast } = useToast();
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoadingConfig, setIsLoadingConfig] = useState(false);
+  const [hasStoredKey, setHasStoredKey] = useState<Record<ApiKeyField, boolean>>(NO_STORED_KEYS);
 
   const form = useForm<ApiKeysFormData>({
     resolver: zodResolver(ApiKeysSchema),
@@ -58,6 +65,7 @@ export function ApiKeysForm({ teams }: ApiKeysFormProps) {
               openAiApiKey: config.openAiApiKey || "",
               claudeAiApiKey: config.claudeAiApiKey || "",
             });
+            setHasStoredKey(config.hasSecret);
           } else {
             form.reset({
               teamId: watchTeamId,
@@ -65,6 +73,7 @@ export function ApiKeysForm({ teams }: ApiKeysFormProps) {
               openAiApiKey: "",
               claudeAiApiKey: "",
             });
+            setHasStoredKey(NO_STORED_KEYS);
           }
         } catch (error) {
           toast({ title: "Error", description: "Could not load API keys configuration.", variant: "destructive" });
@@ -74,6 +83,7 @@ export function ApiKeysForm({ teams }: ApiKeysFormProps) {
               openAiApiKey: "",
               claudeAiApiKey: "",
             });
+          setHasStoredKey(NO_STORED_KEYS);
         } finally {
           setIsLoadingConfig(false);
         }
@@ -84,6 +94,7 @@ export function ApiKeysForm({ teams }: ApiKeysFormProps) {
             openAiApiKey: "",
             claudeAiApiKey: "",
           });
+         setHasStoredKey(NO_STORED_KEYS);
       }
     }
     fetchConfig();
@@ -94,6 +105,14 @@ export function ApiKeysForm({ teams }: ApiKeysFormProps) {
     const result = await saveApiKeys(data);
     if (result.success) {
       toast({ title: "Success", description: result.message });
+      const nextStored = { ...hasStoredKey };
+      (Object.keys(nextStored) as ApiKeyField[]).forEach(key => {
+        if (data[key]) {
+          nextStored[key] = true;
+          form.setValue(key, SECRET_PLACEHOLDER);
+        }
+      });
+      setHasStoredKey(nextStored);
       router.refresh(); // To ensure data consistency if other components depend on this
     } else {
       toast({ title: "Error", description: result.message || "Failed to save API keys.", variant: "destructive" });
@@ -101,6 +120,17 @@ export function ApiKeysForm({ teams }: ApiKeysFormProps) {
     setIsSubmitting(false);
   }
 
+  async function handleClearKey(key: ApiKeyField) {
+    const result = await clearStoredSecret(watchTeamId, `apiKeys.${key}` as SecretFieldId);
+    if (result.success) {
+      setHasStoredKey(prev => ({ ...prev, [key]: false }));
+      form.setValue(key, "");
+      toast({ title: "Success", description: "API key cleared." });
+    } else {
+      toast({ title: "Error", description: result.message, variant: "destructive" });
+    }
+  }
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -140,7 +170,14 @@ export function ApiKeysForm({ teams }: ApiKeysFormProps) {
             <FormItem>
               <FormLabel>Gemini API Key</FormLabel>
               <FormControl>
-                <Input type="password" placeholder="Enter Gemini API Key" {...field} disabled={isLoadingConfig || !watchTeamId} />
+                <SecretInput
+                  value={field.value}
+                  onChange={field.onChange}
+                  hasSecret={hasStoredKey.geminiApiKey}
+                  onClear={() => handleClearKey("geminiApiKey")}
+                  placeholder="Enter Gemini API Key"
+                  disabled={isLoadingConfig || !watchTeamId}
+                />
               </FormControl>
               <FormMessage />
             </FormItem>
@@ -154,7 +191,14 @@ export function ApiKeysForm({ teams }: ApiKeysFormProps) {
             <FormItem>
               <FormLabel>OpenAI API Key</FormLabel>
               <FormControl>
-                <Input type="password" placeholder="Enter OpenAI API Key" {...field} disabled={isLoadingConfig || !watchTeamId} />
+                <SecretInput
+                  value={field.value}
+                  onChange={field.onChange}
+                  hasSecret={hasStoredKey.openAiApiKey}
+                  onClear={() => handleClearKey("openAiApiKey")}
+                  placeholder="Enter OpenAI API Key"
+                  disabled={isLoadingConfig || !watchTeamId}
+                />
               </FormControl>
               <FormMessage />
             </FormItem>
@@ -168,7 +212,14 @@ export function ApiKeysForm({ teams }: ApiKeysFormProps) {
             <FormItem>
               <FormLabel>ClaudeAI API Key</FormLabel>
               <FormControl>
-                <Input type="password" placeholder="Enter ClaudeAI API Key" {...field} disabled={isLoadingConfig || !watchTeamId} />
+                <SecretInput
+                  value={field.value}
+                  onChange={field.onChange}
+                  hasSecret={hasStoredKey.claudeAiApiKey}
+                  onClear={() => handleClearKey("claudeAiApiKey")}
+                  placeholder="Enter ClaudeAI API Key"
+                  disabled={isLoadingConfig || !watchTeamId}
+                />
               </FormControl>
               <FormMessage />
             </FormItem>
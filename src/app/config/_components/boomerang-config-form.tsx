@@ -12,12 +12,15 @@ import {
   FormField,
   FormItem,
   FormLabel,
+  FormDescription,
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { saveBoomerangConfig, getBoomerangConfig } from "@/lib/actions";
+import { saveBoomerangConfig, getBoomerangConfig, clearStoredSecret } from "@/lib/actions";
+import { SECRET_PLACEHOLDER } from "@/lib/constants";
+import { SecretInput } from "./secret-input";
 import type { Team } from "./types";
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
@@ -31,6 +34,7 @@ export function BoomerangConfigForm({ teams }: BoomerangConfigFormProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoadingConfig, setIsLoadingConfig] = useState(false);
+  const [hasAccessKey, setHasAccessKey] = useState(false);
 
   const form = useForm<BoomerangConfigFormData>({
     resolver: zodResolver(BoomerangConfigSchema),
@@ -50,22 +54,26 @@ export function BoomerangConfigForm({ teams }: BoomerangConfigFormProps) {
         try {
           const config = await getBoomerangConfig(watchTeamId);
           if (config) {
-            form.reset(config);
+            form.reset({ teamId: config.teamId, url: config.url, accessKey: config.accessKey });
+            setHasAccessKey(config.hasSecret.accessKey);
           } else {
             form.reset({
               teamId: watchTeamId,
               url: "",
               accessKey: "",
             });
+            setHasAccessKey(false);
           }
         } catch (error) {
           toast({ title: "Error", description: "Could not load Boomerang configuration.", variant: "destructive" });
           form.reset({ teamId: watchTeamId, url: "", accessKey: "" });
+          setHasAccessKey(false);
         } finally {
           setIsLoadingConfig(false);
         }
       } else {
         form.reset({ teamId: "", url: "", accessKey: "" });
+        setHasAccessKey(false);
       }
     }
     fetchConfig();
@@ -76,6 +84,10 @@ export function BoomerangConfigForm({ teams }: BoomerangConfigFormProps) {
     const result = await saveBoomerangConfig(data);
     if (result.success) {
       toast({ title: "Success", description: result.message });
+      if (data.accessKey) {
+        setHasAccessKey(true);
+        form.setValue("accessKey", SECRET_PLACEHOLDER);
+      }
       router.refresh();
     } else {
       toast({ title: "Error", description: result.message || "Failed to save Boomerang configuration.", variant: "destructive" });
@@ -83,6 +95,17 @@ export function BoomerangConfigForm({ teams }: BoomerangConfigFormProps) {
     setIsSubmitting(false);
   }
 
+  async function handleClearAccessKey() {
+    const result = await clearStoredSecret(watchTeamId, "boomerang.accessKey");
+    if (result.success) {
+      setHasAccessKey(false);
+      form.setValue("accessKey", "");
+      toast({ title: "Success", description: "Boomerang access key cleared." });
+    } else {
+      toast({ title: "Error", description: result.message, variant: "destructive" });
+    }
+  }
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -122,6 +145,7 @@ export function BoomerangConfigForm({ teams }: BoomerangConfigFormProps) {
               <FormControl>
                 <Input placeholder="Enter Boomerang URL" {...field} disabled={isLoadingConfig || !watchTeamId} />
               </FormControl>
+              <FormDescription>Base URL of the Boomerang Flow service; run history is read from its /api/v2/activity endpoint.</FormDescription>
               <FormMessage />
             </FormItem>
           )}
@@ -134,8 +158,16 @@ export function BoomerangConfigForm({ teams }: BoomerangConfigFormProps) {
             <FormItem>
               <FormLabel>Access Key</FormLabel>
               <FormControl>
-                <Input type="password" placeholder="Enter Boomerang access key" {...field} disabled={isLoadingConfig || !watchTeamId} />
+                <SecretInput
+                  value={field.value}
+                  onChange={field.onChange}
+                  hasSecret={hasAccessKey}
+                  onClear={handleClearAccessKey}
+                  placeholder="Enter Boomerang access key"
+                  disabled={isLoadingConfig || !watchTeamId}
+                />
               </FormControl>
+              <FormDescription>Sent as a bearer token. Saving fetches the team&apos;s workflow runs; a run whose properties name an environment counts as a deployment when it succeeds.</FormDescription>
               <FormMessage />
             </FormItem>
           )}
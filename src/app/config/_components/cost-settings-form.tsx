@@ -0,0 +1,202 @@
+// src/app/config/_components/cost-settings-form.tsx
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import type { CostSettingsFormData } from "@/lib/schemas";
+import { CostSettingsSchema } from "@/lib/schemas";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { saveCostSettings, getCostSettings } from "@/lib/actions";
+import { CURRENCIES, DEFAULT_COST_SETTINGS, RATE_UNITS } from "@/lib/constants";
+import type { Team } from "./types";
+import { useState, useEffect } from "react";
+
+interface CostSettingsFormProps {
+  teams: Team[];
+}
+
+export function CostSettingsForm({ teams }: CostSettingsFormProps) {
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLoadingSettings, setIsLoadingSettings] = useState(false);
+
+  const form = useForm<CostSettingsFormData>({
+    resolver: zodResolver(CostSettingsSchema),
+    defaultValues: { teamId: "", ...DEFAULT_COST_SETTINGS },
+  });
+
+  const watchTeamId = form.watch("teamId");
+
+  useEffect(() => {
+    async function fetchSettings() {
+      if (watchTeamId) {
+        setIsLoadingSettings(true);
+        try {
+          form.reset(await getCostSettings(watchTeamId));
+        } catch (error) {
+          toast({ title: "Error", description: "Could not load cost settings.", variant: "destructive" });
+          form.reset({ teamId: watchTeamId, ...DEFAULT_COST_SETTINGS });
+        } finally {
+          setIsLoadingSettings(false);
+        }
+      } else {
+        form.reset({ teamId: "", ...DEFAULT_COST_SETTINGS });
+      }
+    }
+    fetchSettings();
+  }, [watchTeamId, form, toast]);
+
+  async function onSubmit(data: CostSettingsFormData) {
+    setIsSubmitting(true);
+    const result = await saveCostSettings(data);
+    toast({ title: result.success ? "Success" : "Error", description: result.message, variant: result.success ? "default" : "destructive" });
+    setIsSubmitting(false);
+  }
+
+  const isDisabled = isLoadingSettings || !watchTeamId;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="teamId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Select Team</FormLabel>
+              <Select
+                onValueChange={field.onChange}
+                value={field.value || undefined}
+                disabled={isLoadingSettings}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a team" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {teams.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Cost is calculated from each team member&apos;s rate, allocation and start/end dates.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="reportingCurrency"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Reporting Currency</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value} disabled={isDisabled}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a currency" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {CURRENCIES.map((currency) => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Every member&apos;s rate is converted to this currency using the exchange rates on the Rates tab.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="rateUnit"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Rate Unit</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value} disabled={isDisabled}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a rate unit" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {RATE_UNITS.map((unit) => (
+                    <SelectItem key={unit.value} value={unit.value}>{unit.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>What the rates entered for team members are per. Monthly and yearly rates are spread over each month&apos;s working days.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="hoursPerDay"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Working Hours per Day</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.5" {...field} disabled={isDisabled} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="workingDaysPerWeek"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Working Days per Week</FormLabel>
+                <FormControl>
+                  <Input type="number" min={1} max={7} {...field} disabled={isDisabled} />
+                </FormControl>
+                <FormDescription>Counted from Monday.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="holidays"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Holidays</FormLabel>
+              <FormControl>
+                <Textarea rows={6} className="font-mono text-sm" placeholder={"2026-12-25\n2027-01-01"} {...field} disabled={isDisabled} />
+              </FormControl>
+              <FormDescription>One date per line (YYYY-MM-DD). Holidays are not working days and carry no cost.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={isSubmitting || isDisabled}>
+          {isSubmitting ? "Saving..." : "Save Cost Settings"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
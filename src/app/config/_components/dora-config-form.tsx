@@ -0,0 +1,170 @@
+// src/app/config/_components/dora-config-form.tsx
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import type { DoraConfigFormData } from "@/lib/schemas";
+import { DoraConfigSchema } from "@/lib/schemas";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { saveDoraConfig, getDoraConfig } from "@/lib/actions";
+import { DEFAULT_DORA_CONFIG, DORA_DEPLOYMENT_SOURCES, DORA_WINDOW_DAYS } from "@/lib/constants";
+import type { Team } from "./types";
+import { useState, useEffect } from "react";
+
+interface DoraConfigFormProps {
+  teams: Team[];
+}
+
+export function DoraConfigForm({ teams }: DoraConfigFormProps) {
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLoadingConfig, setIsLoadingConfig] = useState(false);
+
+  const form = useForm<DoraConfigFormData>({
+    resolver: zodResolver(DoraConfigSchema),
+    defaultValues: { teamId: "", ...DEFAULT_DORA_CONFIG },
+  });
+
+  const watchTeamId = form.watch("teamId");
+  const watchSource = form.watch("deploymentSource");
+
+  useEffect(() => {
+    async function fetchConfig() {
+      if (watchTeamId) {
+        setIsLoadingConfig(true);
+        try {
+          form.reset(await getDoraConfig(watchTeamId));
+        } catch (error) {
+          toast({ title: "Error", description: "Could not load DORA configuration.", variant: "destructive" });
+          form.reset({ teamId: watchTeamId, ...DEFAULT_DORA_CONFIG });
+        } finally {
+          setIsLoadingConfig(false);
+        }
+      } else {
+        form.reset({ teamId: "", ...DEFAULT_DORA_CONFIG });
+      }
+    }
+    fetchConfig();
+  }, [watchTeamId, form, toast]);
+
+  async function onSubmit(data: DoraConfigFormData) {
+    setIsSubmitting(true);
+    const result = await saveDoraConfig(data);
+    toast({ title: result.success ? "Success" : "Error", description: result.message, variant: result.success ? "default" : "destructive" });
+    setIsSubmitting(false);
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="teamId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Select Team</FormLabel>
+              <Select
+                onValueChange={field.onChange}
+                value={field.value || undefined}
+                disabled={isLoadingConfig}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a team" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {teams.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>DORA metrics use the repositories selected in the team&apos;s GitHub configuration.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="deploymentSource"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>What Counts as a Deployment</FormLabel>
+              <Select
+                onValueChange={field.onChange}
+                value={field.value}
+                disabled={isLoadingConfig || !watchTeamId}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a deployment source" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {DORA_DEPLOYMENT_SOURCES.map((source) => (
+                    <SelectItem key={source.value} value={source.value}>{source.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Automatic picks, per repository, the first source that has data in the last {DORA_WINDOW_DAYS} days.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {(watchSource === "auto" || watchSource === "deployments") && (
+          <FormField
+            control={form.control}
+            name="productionEnvironment"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Production Environment</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., production" {...field} disabled={isLoadingConfig || !watchTeamId} />
+                </FormControl>
+                <FormDescription>Only successful GitHub Deployments to this environment are counted.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="failurePatterns"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Revert / Hotfix Patterns</FormLabel>
+              <FormControl>
+                <Textarea rows={4} className="font-mono text-sm" {...field} disabled={isLoadingConfig || !watchTeamId} />
+              </FormControl>
+              <FormDescription>
+                One case-insensitive regular expression per line, matched against commit messages and release or tag names.
+                A deployment that matches is treated as fixing the previous deployment of that repository, which counts as a change failure.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={isSubmitting || isLoadingConfig || !watchTeamId}>
+          {isSubmitting ? "Saving..." : "Save DORA Configuration"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,195 @@
+// src/app/config/_components/exchange-rates-form.tsx
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import type { ExchangeRateFormData } from "@/lib/schemas";
+import { ExchangeRateSchema } from "@/lib/schemas";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { saveExchangeRate, getExchangeRates, deleteExchangeRate } from "@/lib/actions";
+import type { ExchangeRate } from "@/lib/db";
+import { BASE_CURRENCY, CURRENCIES } from "@/lib/constants";
+import { useState, useEffect, useCallback } from "react";
+import { Pencil, PlusCircle, Trash2 } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+const emptyRate = (): Partial<ExchangeRateFormData> => ({
+  id: undefined,
+  currency: undefined,
+  effectiveDate: new Date().toISOString().slice(0, 10),
+  unitsPerUsd: undefined,
+});
+
+export function ExchangeRatesForm() {
+  const { toast } = useToast();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [isLoadingRates, setIsLoadingRates] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<ExchangeRateFormData>({
+    resolver: zodResolver(ExchangeRateSchema),
+    defaultValues: emptyRate(),
+  });
+
+  const editingId = form.watch("id");
+
+  const loadRates = useCallback(async () => {
+    setIsLoadingRates(true);
+    try {
+      setRates(await getExchangeRates());
+    } catch (error) {
+      toast({ title: "Error", description: "Could not load exchange rates.", variant: "destructive" });
+    } finally {
+      setIsLoadingRates(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  async function onSubmit(data: ExchangeRateFormData) {
+    setIsSubmitting(true);
+    const result = await saveExchangeRate(data);
+    toast({ title: result.success ? "Success" : "Error", description: result.message, variant: result.success ? "default" : "destructive" });
+    if (result.success) {
+      form.reset(emptyRate());
+      await loadRates();
+    }
+    setIsSubmitting(false);
+  }
+
+  async function handleDelete(rate: ExchangeRate) {
+    const result = await deleteExchangeRate(rate.id);
+    toast({ title: result.success ? "Success" : "Error", description: result.message, variant: result.success ? "default" : "destructive" });
+    if (result.success) {
+      if (editingId === rate.id) form.reset(emptyRate());
+      await loadRates();
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <FormField
+              control={form.control}
+              name="currency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Currency</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value || undefined}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a currency" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {CURRENCIES.filter(currency => currency !== BASE_CURRENCY).map((currency) => (
+                        <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="unitsPerUsd"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Units per 1 {BASE_CURRENCY}</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="any" placeholder="e.g., 83.2" {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="effectiveDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Effective From</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormDescription>
+            A rate applies from its effective date until the next rate for that currency. Costs before a currency&apos;s first rate use that first rate.
+          </FormDescription>
+
+          <div className="flex gap-4">
+            <Button type="submit" disabled={isSubmitting}>
+              {editingId ? <Pencil className="mr-2 h-4 w-4" /> : <PlusCircle className="mr-2 h-4 w-4" />}
+              {isSubmitting ? "Saving..." : editingId ? "Save Changes" : "Add Exchange Rate"}
+            </Button>
+            {editingId && (
+              <Button type="button" variant="outline" onClick={() => form.reset(emptyRate())}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </Form>
+
+      {isLoadingRates ? (
+        <p className="text-muted-foreground">Loading...</p>
+      ) : rates.length > 0 ? (
+        <ScrollArea className="h-72">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Currency</TableHead>
+                <TableHead>Effective From</TableHead>
+                <TableHead className="text-right">Units per 1 {BASE_CURRENCY}</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map(rate => (
+                <TableRow key={rate.id}>
+                  <TableCell className="font-medium">{rate.currency}</TableCell>
+                  <TableCell>{rate.effectiveDate}</TableCell>
+                  <TableCell className="text-right">{rate.unitsPerUsd}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button type="button" variant="outline" size="sm" onClick={() => form.reset(rate)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="destructive" size="sm" onClick={() => handleDelete(rate)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      ) : (
+        <p className="text-muted-foreground">No exchange rates yet. Members paid in {BASE_CURRENCY} need none.</p>
+      )}
+    </div>
+  );
+}
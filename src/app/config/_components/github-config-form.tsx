@@ -20,7 +20,9 @@ import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { saveGithubConfig, scanGithubRepos, refreshGithubMetrics, getGithubConfig } from "@/lib/actions";
+import { saveGithubConfig, scanGithubRepos, refreshGithubMetrics, getGithubConfig, clearStoredSecret } from "@/lib/actions";
+import { SECRET_PLACEHOLDER, SCM_PROVIDERS } from "@/lib/constants";
+import { SecretInput } from "./secret-input";
 import type { Team } from "./types";
 import { useState, useEffect } from "react";
 import { RefreshCw, Search } from "lucide-react";
@@ -32,6 +34,42 @@ interface GithubConfigFormProps {
   teams: Team[];
 }
 
+type ScmProviderId = GithubConfigFormData["provider"];
+
+const PROVIDER_COPY: Record<ScmProviderId, { rootUrlLabel: string; rootUrlPlaceholder: string; rootUrlDescription: string; tokenPlaceholder: string; tokenDescription: string }> = {
+  github: {
+    rootUrlLabel: "GitHub Root URL (Organization, User, or API endpoint)",
+    rootUrlPlaceholder: "e.g., https://github.com/YourOrgOrUser or https://api.github.com/user/repos",
+    rootUrlDescription: "Enter the base URL for a GitHub organization/user (e.g., https://github.com/octocat) or a direct API endpoint for repositories (e.g., https://api.github.com/user/repos).",
+    tokenPlaceholder: "Enter GitHub Personal Access Token",
+    tokenDescription: "A personal access token with 'repo' scope is required to list repositories and fetch metrics.",
+  },
+  gitlab: {
+    rootUrlLabel: "GitLab URL (Group, User, or Instance)",
+    rootUrlPlaceholder: "e.g., https://gitlab.com/your-group or https://gitlab.example.com/",
+    rootUrlDescription: "Enter a group URL (subgroups are included) or a user URL. An instance URL without a path lists every project the token's user is a member of.",
+    tokenPlaceholder: "Enter GitLab Personal Access Token",
+    tokenDescription: "A personal access token with 'read_api' and 'read_repository' scopes is required to list projects, fetch metrics and clone for line counts.",
+  },
+  bitbucket_server: {
+    rootUrlLabel: "Bitbucket Server URL (Project, User, or Server)",
+    rootUrlPlaceholder: "e.g., https://bitbucket.example.com/projects/PROJ",
+    rootUrlDescription: "Enter a project URL (e.g., https://bitbucket.example.com/projects/PROJ) or a user URL (.../users/jdoe). A server URL without a path lists every repository the token can read.",
+    tokenPlaceholder: "Enter Bitbucket HTTP Access Token",
+    tokenDescription: "An HTTP access token with Repository read permission is required to list repositories, fetch metrics and clone for line counts.",
+  },
+  azure_devops: {
+    rootUrlLabel: "Azure DevOps URL (Organization or Project)",
+    rootUrlPlaceholder: "e.g., https://dev.azure.com/your-org/YourProject",
+    rootUrlDescription: "Enter a project URL, or an organization URL to list repositories across all its projects. Azure DevOps Server URLs start with the collection, e.g. https://tfs.example.com/DefaultCollection/YourProject.",
+    tokenPlaceholder: "Enter Azure DevOps Personal Access Token",
+    tokenDescription: "A personal access token with the Code (Read) scope is required to list repositories, fetch metrics and clone for line counts.",
+  },
+};
+
+const defaultRootUrlFor = (provider: ScmProviderId) =>
+  SCM_PROVIDERS.find(option => option.value === provider)?.defaultRootUrl ?? "https://github.com/";
+
 export function GithubConfigForm({ teams }: GithubConfigFormProps) {
   const { toast } = useToast();
   const router = useRouter();
@@ -40,11 +78,13 @@ export function GithubConfigForm({ teams }: GithubConfigFormProps) {
   const [isSaving, setIsSaving] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isLoadingConfig, setIsLoadingConfig] = useState(false);
+  const [hasAccessToken, setHasAccessToken] = useState(false);
 
   const form = useForm<GithubConfigFormData>({
     resolver: zodResolver(GithubConfigSchema),
     defaultValues: {
       teamId: "",
+      provider: "github",
       rootUrl: "https://github.com/",
       accessToken: "",
       selectedRepos: [],
@@ -52,6 +92,9 @@ export function GithubConfigForm({ teams }: GithubConfigFormProps) {
   });
 
   const watchTeamId = form.watch("teamId");
+  const watchProvider = form.watch("provider") || "github";
+  const providerLabel = SCM_PROVIDERS.find(option => option.value === watchProvider)?.label || "GitHub";
+  const copy = PROVIDER_COPY[watchProvider];
   const watchedSelectedRepos = form.watch("selectedRepos") || [];
 
   useEffect(() => {
@@ -64,10 +107,12 @@ export function GithubConfigForm({ teams }: GithubConfigFormProps) {
           if (config) {
             form.reset({
               teamId: watchTeamId,
-              rootUrl: config.rootUrl || "https://github.com/",
+              provider: config.provider || "github",
+              rootUrl: config.rootUrl || defaultRootUrlFor(config.provider || "github"),
               accessToken: config.accessToken || "",
               selectedRepos: config.selectedRepos || [],
             });
+            setHasAccessToken(config.hasSecret.accessToken);
             if (config.selectedRepos && config.selectedRepos.length > 0 && scannedRepos.length === 0) {
                  setScannedRepos(config.selectedRepos.map(repo => ({
                     id: repo.id,
@@ -79,19 +124,23 @@ export function GithubConfigForm({ teams }: GithubConfigFormProps) {
           } else {
             form.reset({
               teamId: watchTeamId,
+              provider: "github",
               rootUrl: "https://github.com/",
               accessToken: "",
               selectedRepos: [],
             });
+            setHasAccessToken(false);
           }
         } catch (error) {
-          toast({ title: "Error", description: "Could not load GitHub configuration.", variant: "destructive" });
-          form.reset({ teamId: watchTeamId, rootUrl: "https://github.com/", accessToken: "", selectedRepos: [] });
+          toast({ title: "Error", description: "Could not load source control configuration.", variant: "destructive" });
+          form.reset({ teamId: watchTeamId, provider: "github", rootUrl: "https://github.com/", accessToken: "", selectedRepos: [] });
+          setHasAccessToken(false);
         } finally {
           setIsLoadingConfig(false);
         }
       } else {
-         form.reset({ teamId: "", rootUrl: "https://github.com/", accessToken: "", selectedRepos: [] });
+         form.reset({ teamId: "", provider: "github", rootUrl: "https://github.com/", accessToken: "", selectedRepos: [] });
+         setHasAccessToken(false);
          setScannedRepos([]);
       }
     }
@@ -99,6 +148,20 @@ export function GithubConfigForm({ teams }: GithubConfigFormProps) {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [watchTeamId, form.reset, toast]);
 
+  // Repos and tokens belong to one provider, so switching clears them; a default root URL follows the provider.
+  function handleProviderChange(provider: ScmProviderId) {
+    const previous = form.getValues("provider") || "github";
+    if (provider === previous) return;
+    form.setValue("provider", provider, { shouldDirty: true });
+    if (!form.getValues("rootUrl") || form.getValues("rootUrl") === defaultRootUrlFor(previous)) {
+      form.setValue("rootUrl", defaultRootUrlFor(provider));
+    }
+    form.setValue("selectedRepos", []);
+    form.setValue("accessToken", "");
+    setHasAccessToken(false);
+    setScannedRepos([]);
+  }
+
   async function handleScanRepos() {
     const currentFormData = form.getValues();
     if (!currentFormData.teamId) {
@@ -106,27 +169,30 @@ export function GithubConfigForm({ teams }: GithubConfigFormProps) {
       return;
     }
     if (!currentFormData.rootUrl) {
-      toast({ title: "Error", description: "Please enter a GitHub Root URL.", variant: "destructive" });
+      toast({ title: "Error", description: `Please enter a ${providerLabel} URL.`, variant: "destructive" });
       return;
     }
      if (!currentFormData.accessToken) {
-      toast({ title: "Error", description: "Please enter a GitHub Access Token for scanning.", variant: "destructive" });
+      toast({ title: "Error", description: `Please enter a ${providerLabel} Access Token for scanning.`, variant: "destructive" });
       return;
     }
 
     setIsSaving(true);
     const saveResult = await saveGithubConfig({
         teamId: currentFormData.teamId,
+        provider: currentFormData.provider || "github",
         rootUrl: currentFormData.rootUrl,
         accessToken: currentFormData.accessToken,
         selectedRepos: currentFormData.selectedRepos || [] // Ensure selectedRepos is an array
     });
     if (!saveResult.success) {
-      toast({ title: "Error Saving Config", description: `Could not save GitHub config before scanning: ${saveResult.message}`, variant: "destructive" });
+      toast({ title: "Error Saving Config", description: `Could not save ${providerLabel} config before scanning: ${saveResult.message}`, variant: "destructive" });
       setIsSaving(false);
       return;
     }
-    toast({ title: "Config Saved", description: "GitHub configuration saved before scanning." });
+    toast({ title: "Config Saved", description: `${providerLabel} configuration saved before scanning.` });
+    setHasAccessToken(true);
+    form.setValue("accessToken", SECRET_PLACEHOLDER);
     setIsSaving(false);
 
     setIsScanning(true);
@@ -153,6 +219,10 @@ export function GithubConfigForm({ teams }: GithubConfigFormProps) {
     const result = await saveGithubConfig({...data, selectedRepos: data.selectedRepos || []});
     if (result.success) {
       toast({ title: "Success", description: result.message });
+      if (data.accessToken) {
+        setHasAccessToken(true);
+        form.setValue("accessToken", SECRET_PLACEHOLDER);
+      }
       router.refresh();
     } else {
       toast({ title: "Error", description: result.message || "Failed to save configuration.", variant: "destructive" });
@@ -160,6 +230,17 @@ export function GithubConfigForm({ teams }: GithubConfigFormProps) {
     setIsSaving(false);
   }
 
+  async function handleClearAccessToken() {
+    const result = await clearStoredSecret(watchTeamId, "github.accessToken");
+    if (result.success) {
+      setHasAccessToken(false);
+      form.setValue("accessToken", "");
+      toast({ title: "Success", description: `${providerLabel} access token cleared.` });
+    } else {
+      toast({ title: "Error", description: result.message, variant: "destructive" });
+    }
+  }
+
   async function handleRefreshMetrics(teamIdToRefresh: string, reposToRefresh: GithubRepoData[]) {
      if (!teamIdToRefresh || reposToRefresh.length === 0) {
       toast({ title: "Error", description: "Please select a team and ensure repos are selected for refresh.", variant: "destructive" });
@@ -208,18 +289,44 @@ export function GithubConfigForm({ teams }: GithubConfigFormProps) {
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="provider"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Provider</FormLabel>
+              <Select
+                onValueChange={(value) => handleProviderChange(value as ScmProviderId)}
+                value={field.value}
+                disabled={isLoadingConfig || !watchTeamId}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a provider" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {SCM_PROVIDERS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>GitHub (including Enterprise Server), GitLab (gitlab.com or self-managed), Bitbucket Server / Data Center, or Azure DevOps Repos (Services or Server).</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <FormField
           control={form.control}
           name="rootUrl"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>GitHub Root URL (Organization, User, or API endpoint)</FormLabel>
+              <FormLabel>{copy.rootUrlLabel}</FormLabel>
               <FormControl>
-                <Input placeholder="e.g., https://github.com/YourOrgOrUser or https://api.github.com/user/repos" {...field} disabled={isLoadingConfig || !watchTeamId} />
+                <Input placeholder={copy.rootUrlPlaceholder} {...field} disabled={isLoadingConfig || !watchTeamId} />
               </FormControl>
-              <FormDescription>
-                Enter the base URL for a GitHub organization/user (e.g., https://github.com/octocat) or a direct API endpoint for repositories (e.g., https://api.github.com/user/repos).
-              </FormDescription>
+              <FormDescription>{copy.rootUrlDescription}</FormDescription>
               <FormMessage />
             </FormItem>
           )}
@@ -230,13 +337,18 @@ export function GithubConfigForm({ teams }: GithubConfigFormProps) {
           name="accessToken"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>GitHub Access Token</FormLabel>
+              <FormLabel>{providerLabel} Access Token</FormLabel>
               <FormControl>
-                <Input type="password" placeholder="Enter GitHub Personal Access Token" {...field} disabled={isLoadingConfig || !watchTeamId} />
+                <SecretInput
+                  value={field.value}
+                  onChange={field.onChange}
+                  hasSecret={hasAccessToken}
+                  onClear={handleClearAccessToken}
+                  placeholder={copy.tokenPlaceholder}
+                  disabled={isLoadingConfig || !watchTeamId}
+                />
               </FormControl>
-              <FormDescription>
-                A personal access token with 'repo' scope is required to list repositories and fetch metrics.
-              </FormDescription>
+              <FormDescription>{copy.tokenDescription}</FormDescription>
               <FormMessage />
             </FormItem>
           )}
@@ -303,7 +415,7 @@ export function GithubConfigForm({ teams }: GithubConfigFormProps) {
         
         <div className="flex gap-4">
           <Button type="submit" disabled={isSaving || isLoadingConfig || !watchTeamId || isScanning}>
-            {isSaving ? "Saving..." : "Save GitHub Configuration"}
+            {isSaving ? "Saving..." : `Save ${providerLabel} Configuration`}
           </Button>
           <Button 
             type="button" 
@@ -0,0 +1,206 @@
+// src/app/config/_components/jenkins-config-form.tsx
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import type { JenkinsConfigFormData } from "@/lib/schemas";
+import { JenkinsConfigSchema } from "@/lib/schemas";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormDescription,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { saveJenkinsConfig, getJenkinsConfig, clearStoredSecret } from "@/lib/actions";
+import { SECRET_PLACEHOLDER } from "@/lib/constants";
+import { SecretInput } from "./secret-input";
+import type { Team } from "./types";
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+
+interface JenkinsConfigFormProps {
+  teams: Team[];
+}
+
+const EMPTY_CONFIG = { url: "", username: "", apiToken: "", jobNames: "" };
+
+export function JenkinsConfigForm({ teams }: JenkinsConfigFormProps) {
+  const { toast } = useToast();
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLoadingConfig, setIsLoadingConfig] = useState(false);
+  const [hasApiToken, setHasApiToken] = useState(false);
+
+  const form = useForm<JenkinsConfigFormData>({
+    resolver: zodResolver(JenkinsConfigSchema),
+    defaultValues: { teamId: "", ...EMPTY_CONFIG },
+  });
+
+  const watchTeamId = form.watch("teamId");
+
+  useEffect(() => {
+    async function fetchConfig() {
+      if (watchTeamId) {
+        setIsLoadingConfig(true);
+        try {
+          const config = await getJenkinsConfig(watchTeamId);
+          if (config) {
+            form.reset({ teamId: config.teamId, url: config.url, username: config.username, apiToken: config.apiToken, jobNames: config.jobNames });
+            setHasApiToken(config.hasSecret.apiToken);
+          } else {
+            form.reset({ teamId: watchTeamId, ...EMPTY_CONFIG });
+            setHasApiToken(false);
+          }
+        } catch (error) {
+          toast({ title: "Error", description: "Could not load Jenkins configuration.", variant: "destructive" });
+          form.reset({ teamId: watchTeamId, ...EMPTY_CONFIG });
+          setHasApiToken(false);
+        } finally {
+          setIsLoadingConfig(false);
+        }
+      } else {
+        form.reset({ teamId: "", ...EMPTY_CONFIG });
+        setHasApiToken(false);
+      }
+    }
+    fetchConfig();
+  }, [watchTeamId, form, toast]);
+
+  async function onSubmit(data: JenkinsConfigFormData) {
+    setIsSubmitting(true);
+    const result = await saveJenkinsConfig(data);
+    if (result.success) {
+      toast({ title: "Success", description: result.message });
+      if (data.apiToken) {
+        setHasApiToken(true);
+        form.setValue("apiToken", SECRET_PLACEHOLDER);
+      }
+      router.refresh();
+    } else {
+      toast({ title: "Error", description: result.message || "Failed to save Jenkins configuration.", variant: "destructive" });
+    }
+    setIsSubmitting(false);
+  }
+
+  async function handleClearApiToken() {
+    const result = await clearStoredSecret(watchTeamId, "jenkins.apiToken");
+    if (result.success) {
+      setHasApiToken(false);
+      form.setValue("apiToken", "");
+      toast({ title: "Success", description: "Jenkins API token cleared." });
+    } else {
+      toast({ title: "Error", description: result.message, variant: "destructive" });
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="teamId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Select Team</FormLabel>
+              <Select
+                onValueChange={field.onChange}
+                value={field.value || undefined}
+                disabled={isLoadingConfig}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a team" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {teams.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="url"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Jenkins URL</FormLabel>
+              <FormControl>
+                <Input placeholder="https://jenkins.example.com" {...field} disabled={isLoadingConfig || !watchTeamId} />
+              </FormControl>
+              <FormDescription>Base URL of the Jenkins controller; build history is read from each job&apos;s JSON API.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input placeholder="Enter Jenkins username" {...field} disabled={isLoadingConfig || !watchTeamId} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="apiToken"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>API Token</FormLabel>
+              <FormControl>
+                <SecretInput
+                  value={field.value}
+                  onChange={field.onChange}
+                  hasSecret={hasApiToken}
+                  onClear={handleClearApiToken}
+                  placeholder="Enter Jenkins API token"
+                  disabled={isLoadingConfig || !watchTeamId}
+                />
+              </FormControl>
+              <FormDescription>Generate one under your Jenkins user&apos;s Security settings; it needs read access to the jobs below.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="jobNames"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Jobs</FormLabel>
+              <FormControl>
+                <Textarea rows={4} className="font-mono text-sm" placeholder={"payments-api\nplatform/deploy-pipeline"} {...field} disabled={isLoadingConfig || !watchTeamId} />
+              </FormControl>
+              <FormDescription>One job per line. Jobs inside folders use their full name, e.g. folder/job; multibranch pipelines need the branch too, e.g. folder/job/main.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={isSubmitting || isLoadingConfig || !watchTeamId}>
+          {isSubmitting ? "Saving..." : "Save Jenkins Configuration"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
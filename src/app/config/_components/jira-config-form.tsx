@@ -3,7 +3,7 @@
 "use client";
 
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray } from "react-hook-form";
 import type { JiraConfigFormData } from "@/lib/schemas";
 import { JiraConfigSchema } from "@/lib/schemas";
 import { Button } from "@/components/ui/button";
@@ -19,34 +19,58 @@ import {
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { saveJiraConfig, getJiraConfig } from "@/lib/actions";
+import { saveJiraConfig, getJiraConfig, clearStoredSecret, testJiraConnection, detectJiraStoryPointsFields } from "@/lib/actions";
+import { SECRET_PLACEHOLDER, JIRA_AUTH_MODES } from "@/lib/constants";
+import { SecretInput } from "./secret-input";
 import type { Team } from "./types";
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { ExternalLink } from "lucide-react";
+import { ExternalLink, PlugZap, PlusCircle, Search, Trash2 } from "lucide-react";
 
 interface JiraConfigFormProps {
   teams: Team[];
 }
 
-const JIRA_SSO_URL = "https://jsw.ibm.com/plugins/servlet/samlsso?redirectTo=%2F";
+const ATLASSIAN_API_TOKENS_URL = "https://id.atlassian.com/manage-profile/security/api-tokens";
+const JIRA_DC_TOKENS_PATH = "/secure/ViewProfile.jspa?selectedTab=com.atlassian.pats.pats-plugin:jira-user-personal-access-tokens";
+
+const EMPTY_JIRA_PROJECT = { project: "", components: "" };
+
+const EMPTY_JIRA_CONFIG = {
+  projects: [EMPTY_JIRA_PROJECT],
+  url: "",
+  authMode: "basic" as const,
+  username: "",
+  accessKey: "",
+  storyPointsField: "",
+};
 
 export function JiraConfigForm({ teams }: JiraConfigFormProps) {
   const { toast } = useToast();
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [isDetectingFields, setIsDetectingFields] = useState(false);
+  const [storyPointCandidates, setStoryPointCandidates] = useState<Array<{ id: string; name: string }>>([]);
   const [isLoadingConfig, setIsLoadingConfig] = useState(false);
+  const [hasAccessKey, setHasAccessKey] = useState(false);
 
   const form = useForm<JiraConfigFormData>({
     resolver: zodResolver(JiraConfigSchema),
     defaultValues: {
       teamId: "",
-      projectName: "",
-      accessKey: "", 
+      ...EMPTY_JIRA_CONFIG,
     },
   });
 
+  const { fields: projectFields, append: appendProject, remove: removeProject } = useFieldArray({
+    control: form.control,
+    name: "projects",
+  });
+
   const watchTeamId = form.watch("teamId");
+  const watchAuthMode = form.watch("authMode");
+  const watchUrl = form.watch("url");
   const { reset } = form; 
 
   useEffect(() => {
@@ -58,34 +82,40 @@ export function JiraConfigForm({ teams }: JiraConfigFormProps) {
           if (config) {
             reset({ 
               teamId: watchTeamId,
-              projectName: config.projectName || "",
+              projects: config.projects.length > 0 ? config.projects : [EMPTY_JIRA_PROJECT],
+              url: config.url || "",
+              authMode: config.authMode || "basic",
+              username: config.username || "",
               accessKey: config.accessKey || "",
+              storyPointsField: config.storyPointsField || "",
             });
+            setHasAccessKey(config.hasSecret.accessKey);
           } else {
             reset({ 
               teamId: watchTeamId,
-              projectName: "",
-              accessKey: "",
+              ...EMPTY_JIRA_CONFIG,
             });
+            setHasAccessKey(false);
           }
         } catch (error: any) {
           toast({ title: "Error", description: error.message || "Could not load Jira configuration.", variant: "destructive" });
           reset({ 
             teamId: watchTeamId,
-            projectName: "",
-            accessKey: "",
+            ...EMPTY_JIRA_CONFIG,
           });
+          setHasAccessKey(false);
         } finally {
           setIsLoadingConfig(false);
         }
       } else {
          reset({ 
             teamId: "",
-            projectName: "",
-            accessKey: "",
+            ...EMPTY_JIRA_CONFIG,
           });
+         setHasAccessKey(false);
       }
     }
+    setStoryPointCandidates([]);
     fetchConfig();
   }, [watchTeamId, reset, toast]);
 
@@ -94,6 +124,8 @@ export function JiraConfigForm({ teams }: JiraConfigFormProps) {
     const result = await saveJiraConfig(data); 
     if (result.success) {
       toast({ title: "Success", description: result.message });
+      setHasAccessKey(true);
+      form.setValue("accessKey", SECRET_PLACEHOLDER);
       router.refresh(); 
     } else {
       toast({ title: "Error", description: result.message || "Failed to save Jira configuration or refresh metrics.", variant: "destructive" });
@@ -101,8 +133,54 @@ export function JiraConfigForm({ teams }: JiraConfigFormProps) {
     setIsSubmitting(false);
   }
 
-  const handleOpenJiraLogin = () => {
-    window.open(JIRA_SSO_URL, '_blank', 'noopener,noreferrer');
+  async function handleClearAccessKey() {
+    const result = await clearStoredSecret(watchTeamId, "jira.accessKey");
+    if (result.success) {
+      setHasAccessKey(false);
+      form.setValue("accessKey", "");
+      toast({ title: "Success", description: "Jira API token cleared." });
+    } else {
+      toast({ title: "Error", description: result.message, variant: "destructive" });
+    }
+  }
+
+  async function handleTestConnection() {
+    const isValid = await form.trigger();
+    if (!isValid) return;
+    setIsTesting(true);
+    const result = await testJiraConnection(form.getValues());
+    if (result.success) {
+      toast({ title: "Connection Successful", description: result.message });
+    } else {
+      toast({ title: "Connection Failed", description: result.message, variant: "destructive" });
+    }
+    setIsTesting(false);
+  }
+
+  async function handleDetectStoryPointsField() {
+    const isValid = await form.trigger(["url", "authMode", "username", "accessKey"]);
+    if (!isValid) return;
+    setIsDetectingFields(true);
+    const result = await detectJiraStoryPointsFields(form.getValues());
+    setStoryPointCandidates(result.fields);
+    if (result.fields.length === 1) {
+      form.setValue("storyPointsField", result.fields[0].id, { shouldDirty: true, shouldValidate: true });
+    }
+    toast({ title: result.success ? "Fields Found" : "No Fields Found", description: result.message, variant: result.success ? "default" : "destructive" });
+    setIsDetectingFields(false);
+  }
+
+  const handleOpenTokenPage = () => {
+    let tokenPageUrl = ATLASSIAN_API_TOKENS_URL;
+    if (watchAuthMode === "bearer") {
+      try {
+        tokenPageUrl = `${new URL(watchUrl).origin}${JIRA_DC_TOKENS_PATH}`;
+      } catch {
+        toast({ title: "Error", description: "Enter a valid Jira Server URL first.", variant: "destructive" });
+        return;
+      }
+    }
+    window.open(tokenPageUrl, '_blank', 'noopener,noreferrer');
   };
 
   return (
@@ -135,51 +213,194 @@ export function JiraConfigForm({ teams }: JiraConfigFormProps) {
           )}
         />
         
-        <FormDescription>
-          The Jira Server URL (<code>https://jsw.ibm.com</code>) and Username for API calls (<code>pradeep.basavarajappa2</code>) are pre-configured.
-          Please provide the Project Name and your API Token below.
-        </FormDescription>
-
         <FormField
           control={form.control}
-          name="projectName"
+          name="url"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Project Name or Key</FormLabel>
+              <FormLabel>Jira Server URL</FormLabel>
               <FormControl>
-                <Input placeholder="Enter Jira project name or key (e.g., ICAPML)" {...field} disabled={isLoadingConfig || !watchTeamId} />
+                <Input placeholder="e.g., https://your-company.atlassian.net" {...field} disabled={isLoadingConfig || !watchTeamId} />
               </FormControl>
-              <FormDescription>The exact name or key of the Jira project (e.g., "My Project" or "MP").</FormDescription>
+              <FormDescription>The base URL of the team&apos;s Jira instance (Cloud or Data Center).</FormDescription>
               <FormMessage />
             </FormItem>
           )}
         />
-        
+
+        <FormField
+          control={form.control}
+          name="authMode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Authentication</FormLabel>
+              <Select
+                onValueChange={field.onChange}
+                value={field.value}
+                disabled={isLoadingConfig || !watchTeamId}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select an authentication mode" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {JIRA_AUTH_MODES.map((mode) => (
+                    <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {watchAuthMode === "basic" && (
+          <FormField
+            control={form.control}
+            name="username"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Username (Email)</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., jane.doe@example.com" {...field} value={field.value || ""} disabled={isLoadingConfig || !watchTeamId} />
+                </FormControl>
+                <FormDescription>The Atlassian account email that owns the API token.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className="space-y-3">
+          <FormLabel>Projects</FormLabel>
+          {projectFields.map((projectField, index) => (
+            <div key={projectField.id} className="flex flex-col gap-2 sm:flex-row sm:items-start">
+              <FormField
+                control={form.control}
+                name={`projects.${index}.project`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input placeholder="Project name or key (e.g., ICAPML)" {...field} disabled={isLoadingConfig || !watchTeamId} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`projects.${index}.components`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input placeholder="Components (optional, comma-separated)" {...field} value={field.value || ""} disabled={isLoadingConfig || !watchTeamId} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => removeProject(index)}
+                disabled={projectFields.length === 1 || isLoadingConfig || !watchTeamId}
+                aria-label={`Remove project ${index + 1}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button type="button" variant="outline" size="sm" onClick={() => appendProject(EMPTY_JIRA_PROJECT)} disabled={isLoadingConfig || !watchTeamId}>
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Add Project
+          </Button>
+          <FormDescription>
+            The exact name or key of each Jira project the team owns (e.g., &quot;My Project&quot; or &quot;MP&quot;).
+            List components to only count issues in those components of that project.
+          </FormDescription>
+          {form.formState.errors.projects?.root?.message || form.formState.errors.projects?.message ? (
+            <p className="text-sm font-medium text-destructive">{form.formState.errors.projects?.root?.message || form.formState.errors.projects?.message}</p>
+          ) : null}
+        </div>
+
         <FormField
           control={form.control}
           name="accessKey"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Jira API Token (Access Key)</FormLabel>
+              <FormLabel>{watchAuthMode === "bearer" ? "Personal Access Token" : "Jira API Token (Access Key)"}</FormLabel>
               <FormControl>
-                <Input type="password" placeholder="Enter Jira API Token" {...field} disabled={isLoadingConfig || !watchTeamId} />
+                <SecretInput
+                  value={field.value}
+                  onChange={field.onChange}
+                  hasSecret={hasAccessKey}
+                  onClear={handleClearAccessKey}
+                  placeholder="Enter Jira API Token"
+                  disabled={isLoadingConfig || !watchTeamId}
+                />
               </FormControl>
               <FormDescription>
-                Generate an API Token from your Atlassian account settings. 
-                You can use the button below to log into Jira first.
+                {watchAuthMode === "bearer"
+                  ? "Create a personal access token from your Jira profile."
+                  : "Generate an API Token from your Atlassian account settings."}
+                {" "}Use the button below to open the token page.
               </FormDescription>
               <FormMessage />
             </FormItem>
           )}
         />
 
-        <Button type="button" variant="outline" onClick={handleOpenJiraLogin} className="mt-2">
+        <Button type="button" variant="outline" onClick={handleOpenTokenPage} className="mt-2">
           <ExternalLink className="mr-2 h-4 w-4" />
-          Open Jira Login (to get API Token)
+          Open Token Page
         </Button>
 
-        <div className="pt-4">
-            <Button type="submit" disabled={isSubmitting || isLoadingConfig || !watchTeamId}>
+        <FormField
+          control={form.control}
+          name="storyPointsField"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Story Point Field (optional)</FormLabel>
+              <div className="flex gap-2">
+                <FormControl>
+                  <Input placeholder="e.g., customfield_10016" {...field} value={field.value || ""} disabled={isLoadingConfig || !watchTeamId} />
+                </FormControl>
+                <Button type="button" variant="outline" onClick={handleDetectStoryPointsField} disabled={isDetectingFields || isLoadingConfig || !watchTeamId}>
+                  <Search className="mr-2 h-4 w-4" />
+                  {isDetectingFields ? "Looking up..." : "Detect"}
+                </Button>
+              </div>
+              {storyPointCandidates.length > 1 && (
+                <div className="flex flex-wrap gap-2">
+                  {storyPointCandidates.map(candidate => (
+                    <Button
+                      key={candidate.id}
+                      type="button"
+                      size="sm"
+                      variant={field.value === candidate.id ? "default" : "secondary"}
+                      onClick={() => form.setValue("storyPointsField", candidate.id, { shouldDirty: true, shouldValidate: true })}
+                    >
+                      {candidate.name} ({candidate.id})
+                    </Button>
+                  ))}
+                </div>
+              )}
+              <FormDescription>
+                Custom field that holds story point estimates on this Jira instance. Leave empty to measure sprint velocity in issue counts.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex flex-wrap gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={handleTestConnection} disabled={isTesting || isSubmitting || isLoadingConfig || !watchTeamId}>
+            <PlugZap className="mr-2 h-4 w-4" />
+            {isTesting ? "Testing..." : "Test Connection"}
+            </Button>
+            <Button type="submit" disabled={isSubmitting || isTesting || isLoadingConfig || !watchTeamId}>
             {isSubmitting ? "Saving & Refreshing..." : "Save Jira Configuration & Refresh Metrics"}
             </Button>
         </div>
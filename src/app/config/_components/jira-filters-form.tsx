@@ -0,0 +1,259 @@
+// src/app/config/_components/jira-filters-form.tsx
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import type { JiraFilterFormData } from "@/lib/schemas";
+import { JiraFilterSchema } from "@/lib/schemas";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { saveJiraFilter, getJiraFilters, deleteJiraFilter, validateJiraJql } from "@/lib/actions";
+import type { JiraFilter } from "@/lib/db";
+import type { Team } from "./types";
+import { useState, useEffect } from "react";
+import { Filter, Pencil, PlusCircle, Trash2, CheckCircle2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface JiraFiltersFormProps {
+  teams: Team[];
+}
+
+const FILTER_EXAMPLES = [
+  { name: "Open bugs", jql: "issuetype = Bug AND statusCategory != Done" },
+  { name: "Current quarter", jql: "created >= startOfQuarter() OR resolved >= startOfQuarter()" },
+  { name: "Excluding sub-tasks", jql: "issuetype not in subTaskIssueTypes()" },
+];
+
+export function JiraFiltersForm({ teams }: JiraFiltersFormProps) {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<JiraFilter[]>([]);
+  const [isLoadingFilters, setIsLoadingFilters] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isValidating, setIsValidating] = useState(false);
+
+  const form = useForm<JiraFilterFormData>({
+    resolver: zodResolver(JiraFilterSchema),
+    defaultValues: { teamId: "", id: undefined, name: "", jql: "" },
+  });
+
+  const watchTeamId = form.watch("teamId");
+  const editingId = form.watch("id");
+
+  useEffect(() => {
+    async function fetchFilters() {
+      if (watchTeamId) {
+        setIsLoadingFilters(true);
+        try {
+          setFilters(await getJiraFilters(watchTeamId));
+        } catch (error) {
+          toast({ title: "Error", description: "Could not load saved Jira filters.", variant: "destructive" });
+          setFilters([]);
+        } finally {
+          setIsLoadingFilters(false);
+        }
+      } else {
+        setFilters([]);
+      }
+      form.reset({ teamId: watchTeamId || "", id: undefined, name: "", jql: "" });
+    }
+    fetchFilters();
+  }, [watchTeamId, form, toast]);
+
+  async function handleValidate() {
+    const isValid = await form.trigger(["teamId", "jql"]);
+    if (!isValid) return;
+    setIsValidating(true);
+    const { teamId, jql } = form.getValues();
+    const result = await validateJiraJql(teamId, jql);
+    toast({ title: result.success ? "JQL Valid" : "JQL Invalid", description: result.message, variant: result.success ? "default" : "destructive" });
+    setIsValidating(false);
+  }
+
+  async function onSubmit(data: JiraFilterFormData) {
+    setIsSubmitting(true);
+    const result = await saveJiraFilter(data);
+    if (result.success && result.data) {
+      toast({ title: "Success", description: result.message });
+      const saved = result.data;
+      setFilters(prev => [...prev.filter(f => f.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      form.reset({ teamId: data.teamId, id: undefined, name: "", jql: "" });
+    } else {
+      toast({ title: "Error", description: result.message || "Failed to save filter.", variant: "destructive" });
+    }
+    setIsSubmitting(false);
+  }
+
+  async function handleDelete(filter: JiraFilter) {
+    const result = await deleteJiraFilter(filter.teamId, filter.id);
+    if (result.success) {
+      toast({ title: "Success", description: `Filter "${filter.name}" deleted.` });
+      setFilters(prev => prev.filter(f => f.id !== filter.id));
+      if (editingId === filter.id) {
+        form.reset({ teamId: filter.teamId, id: undefined, name: "", jql: "" });
+      }
+    } else {
+      toast({ title: "Error", description: result.message, variant: "destructive" });
+    }
+  }
+
+  function handleEdit(filter: JiraFilter) {
+    form.reset({ teamId: filter.teamId, id: filter.id, name: filter.name, jql: filter.jql });
+  }
+
+  return (
+    <div className="space-y-8">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <FormField
+            control={form.control}
+            name="teamId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Select Team</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  value={field.value || undefined}
+                  disabled={isLoadingFilters}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a team" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {teams.map((team) => (
+                      <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Filter Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., Open bugs" {...field} disabled={isLoadingFilters || !watchTeamId} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="jql"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>JQL</FormLabel>
+                <FormControl>
+                  <Textarea rows={3} className="font-mono text-sm" placeholder="e.g., issuetype = Bug AND statusCategory != Done" {...field} disabled={isLoadingFilters || !watchTeamId} />
+                </FormControl>
+                <FormDescription>
+                  Combined with the team&apos;s projects as <code>project = &quot;…&quot; AND (your JQL)</code>. Any ORDER BY clause is ignored.
+                </FormDescription>
+                <div className="flex flex-wrap gap-2">
+                  {FILTER_EXAMPLES.map(example => (
+                    <Button
+                      key={example.name}
+                      type="button"
+                      size="sm"
+                      variant="secondary"
+                      disabled={!watchTeamId}
+                      onClick={() => {
+                        form.setValue("name", form.getValues("name") || example.name);
+                        form.setValue("jql", example.jql, { shouldValidate: true });
+                      }}
+                    >
+                      {example.name}
+                    </Button>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" onClick={handleValidate} disabled={isValidating || isSubmitting || !watchTeamId}>
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+              {isValidating ? "Validating..." : "Validate JQL"}
+            </Button>
+            <Button type="submit" disabled={isSubmitting || isValidating || isLoadingFilters || !watchTeamId}>
+              <PlusCircle className="mr-2 h-4 w-4" />
+              {isSubmitting ? "Validating & Saving..." : editingId ? "Update Filter" : "Add Filter"}
+            </Button>
+            {editingId && (
+              <Button type="button" variant="ghost" onClick={() => form.reset({ teamId: watchTeamId, id: undefined, name: "", jql: "" })}>
+                Cancel Edit
+              </Button>
+            )}
+          </div>
+        </form>
+      </Form>
+
+      {watchTeamId && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Filter className="h-5 w-5" />
+              Saved Filters
+            </CardTitle>
+            <CardDescription>Each filter gets its own metrics on the Jira dashboard after the next refresh.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoadingFilters ? (
+              <p>Loading...</p>
+            ) : filters.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>JQL</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filters.map(filter => (
+                    <TableRow key={filter.id}>
+                      <TableCell className="font-medium">{filter.name}</TableCell>
+                      <TableCell className="font-mono text-xs">{filter.jql}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="icon" onClick={() => handleEdit(filter)} aria-label={`Edit ${filter.name}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(filter)} aria-label={`Delete ${filter.name}`}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-muted-foreground">No saved filters for this team yet.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
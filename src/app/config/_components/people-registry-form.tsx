@@ -0,0 +1,327 @@
+// src/app/config/_components/people-registry-form.tsx
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import type { PersonFormData, PersonIdentity } from "@/lib/schemas";
+import { PersonSchema } from "@/lib/schemas";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getPeopleRegistry,
+  savePerson,
+  deletePerson,
+  assignIdentity,
+  unassignIdentity,
+  acceptIdentityMergeSuggestion,
+  type PeopleRegistry,
+} from "@/lib/actions";
+import type { IdentityMergeSuggestion } from "@/lib/identity";
+import type { Person } from "@/lib/db";
+import { IDENTITY_KINDS } from "@/lib/constants";
+import type { Team } from "./types";
+import { useState, useEffect, useCallback } from "react";
+import { Users, Pencil, PlusCircle, Trash2, X, GitMerge, UserPlus } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+interface PeopleRegistryFormProps {
+  teams: Team[];
+}
+
+const EMPTY_REGISTRY: PeopleRegistry = { people: [], unmapped: [], suggestions: [] };
+
+const kindLabel = (kind: PersonIdentity["kind"]) => IDENTITY_KINDS.find(k => k.value === kind)?.label || kind;
+const identityId = (identity: PersonIdentity) => `${identity.kind}:${identity.value}`;
+
+export function PeopleRegistryForm({ teams }: PeopleRegistryFormProps) {
+  const { toast } = useToast();
+  const [registry, setRegistry] = useState<PeopleRegistry>(EMPTY_REGISTRY);
+  const [isLoadingRegistry, setIsLoadingRegistry] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<PersonFormData>({
+    resolver: zodResolver(PersonSchema),
+    defaultValues: { teamId: "", id: undefined, displayName: "" },
+  });
+
+  const watchTeamId = form.watch("teamId");
+  const editingId = form.watch("id");
+
+  const loadRegistry = useCallback(async (teamId: string) => {
+    setIsLoadingRegistry(true);
+    try {
+      setRegistry(await getPeopleRegistry(teamId));
+    } catch (error) {
+      toast({ title: "Error", description: "Could not load the people registry.", variant: "destructive" });
+      setRegistry(EMPTY_REGISTRY);
+    } finally {
+      setIsLoadingRegistry(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (watchTeamId) {
+      loadRegistry(watchTeamId);
+    } else {
+      setRegistry(EMPTY_REGISTRY);
+    }
+    form.reset({ teamId: watchTeamId || "", id: undefined, displayName: "" });
+  }, [watchTeamId, form, loadRegistry]);
+
+  // Every mutation reloads the registry, since it changes which identities are unmapped and what gets suggested.
+  async function runAndReload(action: () => Promise<{ success: boolean; message: string }>) {
+    const result = await action();
+    toast({ title: result.success ? "Success" : "Error", description: result.message, variant: result.success ? "default" : "destructive" });
+    if (result.success) await loadRegistry(watchTeamId);
+    return result.success;
+  }
+
+  async function onSubmit(data: PersonFormData) {
+    setIsSubmitting(true);
+    if (await runAndReload(() => savePerson(data))) {
+      form.reset({ teamId: data.teamId, id: undefined, displayName: "" });
+    }
+    setIsSubmitting(false);
+  }
+
+  async function handleDelete(person: Person) {
+    await runAndReload(() => deletePerson(person.teamId, person.id));
+    if (editingId === person.id) {
+      form.reset({ teamId: person.teamId, id: undefined, displayName: "" });
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <FormField
+            control={form.control}
+            name="teamId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Select Team</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value || undefined}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a team" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {teams.map((team) => (
+                      <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  Committers and Jira assignees are reported per person. Identities come from the last GitHub and Jira refresh.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="displayName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{editingId ? "Rename Person" : "Add Person"}</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., Jane Doe" {...field} disabled={!watchTeamId} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="flex gap-4">
+            <Button type="submit" disabled={isSubmitting || !watchTeamId}>
+              {editingId ? <Pencil className="mr-2 h-4 w-4" /> : <PlusCircle className="mr-2 h-4 w-4" />}
+              {isSubmitting ? "Saving..." : editingId ? "Save Name" : "Add Person"}
+            </Button>
+            {editingId && (
+              <Button type="button" variant="outline" onClick={() => form.reset({ teamId: watchTeamId, id: undefined, displayName: "" })}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </Form>
+
+      {watchTeamId && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <GitMerge className="h-5 w-5" /> Suggested Merges
+              </CardTitle>
+              <CardDescription>Identities seen on the same commits or Jira user, or with matching names.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoadingRegistry ? (
+                <p className="text-muted-foreground">Loading...</p>
+              ) : registry.suggestions.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Person</TableHead>
+                      <TableHead>Identities</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {registry.suggestions.map((suggestion: IdentityMergeSuggestion) => (
+                      <TableRow key={suggestion.identities.map(identityId).join("|")}>
+                        <TableCell>
+                          <div className="font-medium">{suggestion.displayName}{!suggestion.personId && <Badge variant="outline" className="ml-2">New</Badge>}</div>
+                          <div className="text-xs text-muted-foreground">{suggestion.reason}</div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {suggestion.identities.map(identity => (
+                              <Badge key={identityId(identity)} variant="secondary">{kindLabel(identity.kind)}: {identity.value}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button type="button" size="sm" onClick={() => runAndReload(() => acceptIdentityMergeSuggestion(watchTeamId, suggestion))}>
+                            Accept
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-muted-foreground">No merge suggestions.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Users className="h-5 w-5" /> People
+              </CardTitle>
+              <CardDescription>Remove an identity to undo a merge; assigning it to someone else overrides it.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoadingRegistry ? (
+                <p className="text-muted-foreground">Loading...</p>
+              ) : registry.people.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Identities</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {registry.people.map(person => (
+                      <TableRow key={person.id}>
+                        <TableCell className="font-medium">{person.displayName}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {person.identities.length > 0 ? person.identities.map(identity => (
+                              <Badge key={identityId(identity)} variant="secondary" className="gap-1">
+                                {kindLabel(identity.kind)}: {identity.value}
+                                <button
+                                  type="button"
+                                  aria-label={`Unassign ${identity.value}`}
+                                  onClick={() => runAndReload(() => unassignIdentity(person.teamId, identity))}
+                                >
+                                  <X className="h-3 w-3" />
+                                </button>
+                              </Badge>
+                            )) : <span className="text-xs text-muted-foreground">No identities yet</span>}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button type="button" variant="outline" size="sm" onClick={() => form.reset({ teamId: person.teamId, id: person.id, displayName: person.displayName })}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button type="button" variant="destructive" size="sm" onClick={() => handleDelete(person)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-muted-foreground">No people yet. Add one above or accept a suggested merge.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <UserPlus className="h-5 w-5" /> Unmapped Identities
+              </CardTitle>
+              <CardDescription>Reported under their own name until assigned to a person.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoadingRegistry ? (
+                <p className="text-muted-foreground">Loading...</p>
+              ) : registry.unmapped.length > 0 ? (
+                <ScrollArea className="h-[320px]">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Value</TableHead>
+                        <TableHead className="w-[220px]">Assign To</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {registry.unmapped.map(identity => (
+                        <TableRow key={identityId(identity)}>
+                          <TableCell>{kindLabel(identity.kind)}</TableCell>
+                          <TableCell className="font-mono text-xs">{identity.value}</TableCell>
+                          <TableCell>
+                            <Select
+                              onValueChange={personId => runAndReload(() => assignIdentity(watchTeamId, personId, identity))}
+                              disabled={registry.people.length === 0}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder={registry.people.length === 0 ? "Add a person first" : "Select person"} />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {registry.people.map(person => (
+                                  <SelectItem key={person.id} value={person.id}>{person.displayName}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              ) : (
+                <p className="text-muted-foreground">Every observed identity is mapped to a person.</p>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+// src/app/config/_components/rate-cards-form.tsx
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import type { RateCardFormData } from "@/lib/schemas";
+import { RateCardSchema } from "@/lib/schemas";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { saveRateCard, getRateCards, deleteRateCard } from "@/lib/actions";
+import type { RateCard } from "@/lib/db";
+import { BANDS, BASE_CURRENCY, CURRENCIES, LOCATIONS, RATE_UNITS } from "@/lib/constants";
+import { useState, useEffect, useCallback } from "react";
+import { Pencil, PlusCircle, Trash2 } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+const emptyCard = (): Partial<RateCardFormData> => ({
+  id: undefined,
+  location: undefined,
+  band: undefined,
+  currency: BASE_CURRENCY,
+  rateUnit: "hourly",
+  rate: undefined,
+});
+
+const rateUnitLabel = (unit: string) => RATE_UNITS.find(u => u.value === unit)?.label || unit;
+
+export function RateCardsForm() {
+  const { toast } = useToast();
+  const [cards, setCards] = useState<RateCard[]>([]);
+  const [isLoadingCards, setIsLoadingCards] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<RateCardFormData>({
+    resolver: zodResolver(RateCardSchema),
+    defaultValues: emptyCard(),
+  });
+
+  const editingId = form.watch("id");
+
+  const loadCards = useCallback(async () => {
+    setIsLoadingCards(true);
+    try {
+      setCards(await getRateCards());
+    } catch (error) {
+      toast({ title: "Error", description: "Could not load rate cards.", variant: "destructive" });
+    } finally {
+      setIsLoadingCards(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadCards();
+  }, [loadCards]);
+
+  async function onSubmit(data: RateCardFormData) {
+    setIsSubmitting(true);
+    const result = await saveRateCard(data);
+    toast({ title: result.success ? "Success" : "Error", description: result.message, variant: result.success ? "default" : "destructive" });
+    if (result.success) {
+      form.reset(emptyCard());
+      await loadCards();
+    }
+    setIsSubmitting(false);
+  }
+
+  async function handleDelete(card: RateCard) {
+    const result = await deleteRateCard(card.id);
+    toast({ title: result.success ? "Success" : "Error", description: result.message, variant: result.success ? "default" : "destructive" });
+    if (result.success) {
+      if (editingId === card.id) form.reset(emptyCard());
+      await loadCards();
+    }
+  }
+
+  const renderSelect = (name: "location" | "band" | "currency", label: string, options: readonly string[]) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select onValueChange={field.onChange} value={field.value || undefined}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue placeholder={`Select ${label.toLowerCase()}`} />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="space-y-8">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {renderSelect("location", "Location", LOCATIONS)}
+            {renderSelect("band", "Band", BANDS)}
+            {renderSelect("currency", "Currency", CURRENCIES)}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="rate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rate</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="any" placeholder="Enter rate" {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="rateUnit"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rate Unit</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a rate unit" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {RATE_UNITS.map((unit) => (
+                        <SelectItem key={unit.value} value={unit.value}>{unit.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormDescription>
+            Picking a location and band for a team member fills in this rate, converted to the team&apos;s rate unit. One card per location and band.
+          </FormDescription>
+
+          <div className="flex gap-4">
+            <Button type="submit" disabled={isSubmitting}>
+              {editingId ? <Pencil className="mr-2 h-4 w-4" /> : <PlusCircle className="mr-2 h-4 w-4" />}
+              {isSubmitting ? "Saving..." : editingId ? "Save Changes" : "Add Rate Card"}
+            </Button>
+            {editingId && (
+              <Button type="button" variant="outline" onClick={() => form.reset(emptyCard())}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </Form>
+
+      {isLoadingCards ? (
+        <p className="text-muted-foreground">Loading...</p>
+      ) : cards.length > 0 ? (
+        <ScrollArea className="h-72">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Location</TableHead>
+                <TableHead>Band</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {cards.map(card => (
+                <TableRow key={card.id}>
+                  <TableCell className="font-medium">{card.location}</TableCell>
+                  <TableCell>{card.band}</TableCell>
+                  <TableCell className="text-right">{card.currency} {card.rate.toFixed(2)}</TableCell>
+                  <TableCell>{rateUnitLabel(card.rateUnit)}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button type="button" variant="outline" size="sm" onClick={() => form.reset(card)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="destructive" size="sm" onClick={() => handleDelete(card)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      ) : (
+        <p className="text-muted-foreground">No rate cards yet.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+// src/app/config/_components/secret-input.tsx
+"use client";
+
+import { useState, useEffect } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { SECRET_PLACEHOLDER } from "@/lib/constants";
+
+interface SecretInputProps {
+  value: string | undefined;
+  onChange: (value: string) => void;
+  hasSecret: boolean;
+  onClear: () => Promise<void>;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+// Stored secrets are never sent to the browser. While a secret is stored the field holds
+// SECRET_PLACEHOLDER, which the save actions treat as "keep the current value".
+export function SecretInput({ value, onChange, hasSecret, onClear, placeholder, disabled }: SecretInputProps) {
+  const [isReplacing, setIsReplacing] = useState(false);
+  const [isClearing, setIsClearing] = useState(false);
+
+  useEffect(() => {
+    setIsReplacing(false);
+  }, [hasSecret]);
+
+  if (hasSecret && !isReplacing) {
+    return (
+      <div className="flex gap-2">
+        <Input type="text" value="Stored (hidden)" readOnly disabled className="italic" />
+        <Button
+          type="button"
+          variant="outline"
+          disabled={disabled || isClearing}
+          onClick={() => {
+            setIsReplacing(true);
+            onChange("");
+          }}
+        >
+          Replace
+        </Button>
+        <Button
+          type="button"
+          variant="destructive"
+          disabled={disabled || isClearing}
+          onClick={async () => {
+            setIsClearing(true);
+            await onClear();
+            setIsClearing(false);
+          }}
+        >
+          {isClearing ? "Clearing..." : "Clear"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        type="password"
+        placeholder={placeholder}
+        value={value === SECRET_PLACEHOLDER ? "" : value || ""}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        autoComplete="new-password"
+      />
+      {hasSecret && (
+        <Button
+          type="button"
+          variant="ghost"
+          disabled={disabled}
+          onClick={() => {
+            setIsReplacing(false);
+            onChange(SECRET_PLACEHOLDER);
+          }}
+        >
+          Cancel
+        </Button>
+      )}
+    </div>
+  );
+}
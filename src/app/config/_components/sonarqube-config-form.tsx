@@ -17,7 +17,9 @@ import {
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { saveSonarQubeConfig, getSonarQubeConfig } from "@/lib/actions";
+import { saveSonarQubeConfig, getSonarQubeConfig, clearStoredSecret } from "@/lib/actions";
+import { SECRET_PLACEHOLDER } from "@/lib/constants";
+import { SecretInput } from "./secret-input";
 import type { Team } from "./types";
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
@@ -31,6 +33,7 @@ export function SonarQubeConfigForm({ teams }: SonarQubeConfigFormProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoadingConfig, setIsLoadingConfig] = useState(false);
+  const [hasAccessKey, setHasAccessKey] = useState(false);
 
   const form = useForm<SonarQubeConfigFormData>({
     resolver: zodResolver(SonarQubeConfigSchema),
@@ -50,22 +53,26 @@ export function SonarQubeConfigForm({ teams }: SonarQubeConfigFormProps) {
         try {
           const config = await getSonarQubeConfig(watchTeamId);
           if (config) {
-            form.reset(config);
+            form.reset({ teamId: config.teamId, url: config.url, accessKey: config.accessKey });
+            setHasAccessKey(config.hasSecret.accessKey);
           } else {
             form.reset({
               teamId: watchTeamId,
               url: "",
               accessKey: "",
             });
+            setHasAccessKey(false);
           }
         } catch (error) {
           toast({ title: "Error", description: "Could not load SonarQube configuration.", variant: "destructive" });
           form.reset({ teamId: watchTeamId, url: "", accessKey: "" });
+          setHasAccessKey(false);
         } finally {
           setIsLoadingConfig(false);
         }
       } else {
         form.reset({ teamId: "", url: "", accessKey: "" });
+        setHasAccessKey(false);
       }
     }
     fetchConfig();
@@ -76,6 +83,10 @@ export function SonarQubeConfigForm({ teams }: SonarQubeConfigFormProps) {
     const result = await saveSonarQubeConfig(data);
     if (result.success) {
       toast({ title: "Success", description: result.message });
+      if (data.accessKey) {
+        setHasAccessKey(true);
+        form.setValue("accessKey", SECRET_PLACEHOLDER);
+      }
       router.refresh();
     } else {
       toast({ title: "Error", description: result.message || "Failed to save SonarQube configuration.", variant: "destructive" });
@@ -83,6 +94,17 @@ export function SonarQubeConfigForm({ teams }: SonarQubeConfigFormProps) {
     setIsSubmitting(false);
   }
 
+  async function handleClearAccessKey() {
+    const result = await clearStoredSecret(watchTeamId, "sonarqube.accessKey");
+    if (result.success) {
+      setHasAccessKey(false);
+      form.setValue("accessKey", "");
+      toast({ title: "Success", description: "SonarQube access key cleared." });
+    } else {
+      toast({ title: "Error", description: result.message, variant: "destructive" });
+    }
+  }
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -134,7 +156,14 @@ export function SonarQubeConfigForm({ teams }: SonarQubeConfigFormProps) {
             <FormItem>
               <FormLabel>Access Key</FormLabel>
               <FormControl>
-                <Input type="password" placeholder="Enter SonarQube access key" {...field} disabled={isLoadingConfig || !watchTeamId} />
+                <SecretInput
+                  value={field.value}
+                  onChange={field.onChange}
+                  hasSecret={hasAccessKey}
+                  onClear={handleClearAccessKey}
+                  placeholder="Enter SonarQube access key"
+                  disabled={isLoadingConfig || !watchTeamId}
+                />
               </FormControl>
               <FormMessage />
             </FormItem>
@@ -6,7 +6,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import type { TeamFormData } from "@/lib/schemas";
 import { TeamSchema } from "@/lib/schemas";
-import { Button } from "@/components/ui/button";
+import { Button, buttonVariants } from "@/components/ui/button";
 import {
   Form,
   FormControl,
@@ -21,20 +21,45 @@ import type { Team } from "./types";
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Users } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Archive, ArchiveRestore, Check, Pencil, Trash2, Users, X } from "lucide-react";
 import { useRouter } from 'next/navigation';
-import { useAddTeam } from '@/hooks/use-team-queries';
+import { useAddTeam, useRenameTeam, useArchiveTeam, useRestoreTeam, useDeleteTeam } from '@/hooks/use-team-queries';
+import { getTeamDataCounts } from "@/lib/actions";
+import type { TeamDataCount } from "@/lib/db";
 
 interface TeamFormProps {
+  // Includes archived teams, which are listed separately for restoring or deleting.
   initialTeams: Team[];
 }
 
+const DATA_GROUPS: TeamDataCount["group"][] = ["Configuration", "Metrics", "Members"];
+
 export function TeamForm({ initialTeams }: TeamFormProps) {
   const { toast } = useToast();
   const router = useRouter();
   const [teams, setTeams] = useState<Team[]>(initialTeams);
   
+  const [renamingTeamId, setRenamingTeamId] = useState<string | null>(null);
+  const [teamToDelete, setTeamToDelete] = useState<Team | null>(null);
+  const [deletionCounts, setDeletionCounts] = useState<TeamDataCount[] | null>(null);
+  const [isLoadingCounts, setIsLoadingCounts] = useState(false);
+
   const addTeamMutation = useAddTeam();
+  const renameTeamMutation = useRenameTeam();
+  const archiveTeamMutation = useArchiveTeam();
+  const restoreTeamMutation = useRestoreTeam();
+  const deleteTeamMutation = useDeleteTeam();
 
   const form = useForm<TeamFormData>({
     resolver: zodResolver(TeamSchema),
@@ -43,6 +68,16 @@ export function TeamForm({ initialTeams }: TeamFormProps) {
     },
   });
 
+  const renameForm = useForm<TeamFormData>({
+    resolver: zodResolver(TeamSchema),
+    defaultValues: {
+      name: "",
+    },
+  });
+
+  const activeTeams = teams.filter(team => !team.archivedAt);
+  const archivedTeams = teams.filter(team => team.archivedAt);
+
   useEffect(() => {
     setTeams(initialTeams);
   }, [initialTeams]);
@@ -76,6 +111,47 @@ export function TeamForm({ initialTeams }: TeamFormProps) {
     });
   }
 
+  const mutationCallbacks = (onDone?: () => void) => ({
+    onSuccess: (result: { success: boolean; message: string }) => {
+      toast({ title: result.success ? "Success" : "Error", description: result.message, variant: result.success ? "default" : "destructive" });
+      if (result.success) {
+        onDone?.();
+        router.refresh();
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    },
+  });
+
+  function startRename(team: Team) {
+    setRenamingTeamId(team.id);
+    renameForm.reset({ name: team.name });
+  }
+
+  function onRename(data: TeamFormData) {
+    if (!renamingTeamId) return;
+    renameTeamMutation.mutate({ teamId: renamingTeamId, data }, mutationCallbacks(() => setRenamingTeamId(null)));
+  }
+
+  async function openDeleteDialog(team: Team) {
+    setTeamToDelete(team);
+    setDeletionCounts(null);
+    setIsLoadingCounts(true);
+    try {
+      setDeletionCounts(await getTeamDataCounts(team.id));
+    } finally {
+      setIsLoadingCounts(false);
+    }
+  }
+
+  function onConfirmDelete() {
+    if (!teamToDelete) return;
+    deleteTeamMutation.mutate(teamToDelete.id, mutationCallbacks(() => setTeamToDelete(null)));
+  }
+
+  const isMutating = renameTeamMutation.isPending || archiveTeamMutation.isPending || restoreTeamMutation.isPending || deleteTeamMutation.isPending;
+
   return (
     <div className="space-y-6">
       <Form {...form}>
@@ -99,19 +175,55 @@ export function TeamForm({ initialTeams }: TeamFormProps) {
         </form>
       </Form>
 
-      {teams.length > 0 && (
+      {activeTeams.length > 0 && (
         <Card className="mt-6">
           <CardHeader>
             <CardTitle>Existing Teams</CardTitle>
-            <CardDescription>List of all configured teams.</CardDescription>
+            <CardDescription>Rename, archive or delete a team. Archived teams are hidden from team selectors until restored.</CardDescription>
           </CardHeader>
           <CardContent>
             <ScrollArea className="h-48">
               <ul className="space-y-2">
-                {teams.map((team) => (
+                {activeTeams.map((team) => (
                   <li key={team.id} className="flex items-center gap-2 p-2 border rounded-md shadow-sm">
                     <Users className="h-5 w-5 text-muted-foreground" />
-                    <span>{team.name}</span>
+                    {renamingTeamId === team.id ? (
+                      <Form {...renameForm}>
+                        <form onSubmit={renameForm.handleSubmit(onRename)} className="flex flex-1 items-start gap-2">
+                          <FormField
+                            control={renameForm.control}
+                            name="name"
+                            render={({ field }) => (
+                              <FormItem className="flex-1">
+                                <FormControl>
+                                  <Input aria-label="Team name" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <Button type="submit" size="sm" disabled={renameTeamMutation.isPending} aria-label="Save name">
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button type="button" variant="outline" size="sm" onClick={() => setRenamingTeamId(null)} aria-label="Cancel rename">
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </form>
+                      </Form>
+                    ) : (
+                      <>
+                        <span className="flex-1">{team.name}</span>
+                        <Button type="button" variant="outline" size="sm" onClick={() => startRename(team)} disabled={isMutating} aria-label={`Rename ${team.name}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button type="button" variant="outline" size="sm" onClick={() => archiveTeamMutation.mutate(team.id, mutationCallbacks())} disabled={isMutating} aria-label={`Archive ${team.name}`}>
+                          <Archive className="h-4 w-4" />
+                        </Button>
+                        <Button type="button" variant="destructive" size="sm" onClick={() => openDeleteDialog(team)} disabled={isMutating} aria-label={`Delete ${team.name}`}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
                   </li>
                 ))}
               </ul>
@@ -119,6 +231,81 @@ export function TeamForm({ initialTeams }: TeamFormProps) {
           </CardContent>
         </Card>
       )}
+
+      {archivedTeams.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Archived Teams</CardTitle>
+            <CardDescription>Archived teams keep their configuration and metrics. Restore a team to select it again.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2">
+              {archivedTeams.map((team) => (
+                <li key={team.id} className="flex items-center gap-2 p-2 border rounded-md text-muted-foreground">
+                  <Archive className="h-5 w-5" />
+                  <span className="flex-1">{team.name}</span>
+                  <Badge variant="secondary">Archived {team.archivedAt!.slice(0, 10)}</Badge>
+                  <Button type="button" variant="outline" size="sm" onClick={() => restoreTeamMutation.mutate(team.id, mutationCallbacks())} disabled={isMutating}>
+                    <ArchiveRestore className="mr-2 h-4 w-4" /> Restore
+                  </Button>
+                  <Button type="button" variant="destructive" size="sm" onClick={() => openDeleteDialog(team)} disabled={isMutating} aria-label={`Delete ${team.name}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={teamToDelete !== null} onOpenChange={(open) => { if (!open) setTeamToDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete &quot;{teamToDelete?.name}&quot;?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes the team and everything stored for it. Archive the team instead to hide it and keep its data.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {isLoadingCounts ? (
+            <p className="text-sm text-muted-foreground">Checking stored data...</p>
+          ) : deletionCounts === null ? (
+            <p className="text-sm text-destructive">Could not determine what will be removed.</p>
+          ) : deletionCounts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No configuration, metrics or members are stored for this team.</p>
+          ) : (
+            <div className="space-y-3 text-sm">
+              {DATA_GROUPS.map(group => {
+                const counts = deletionCounts.filter(count => count.group === group);
+                if (counts.length === 0) return null;
+                return (
+                  <div key={group}>
+                    <p className="font-medium">{group}</p>
+                    <ul className="list-disc pl-5 text-muted-foreground">
+                      {counts.map(count => (
+                        <li key={count.label}>{count.label}: {count.count}</li>
+                      ))}
+                    </ul>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteTeamMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className={buttonVariants({ variant: "destructive" })}
+              disabled={isLoadingCounts || deleteTeamMutation.isPending}
+              onClick={(event) => {
+                // Keep the dialog open until the deletion finishes.
+                event.preventDefault();
+                onConfirmDelete();
+              }}
+            >
+              {deleteTeamMutation.isPending ? "Deleting..." : "Delete Team"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
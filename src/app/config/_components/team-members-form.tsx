@@ -3,7 +3,7 @@
 
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
-import type { TeamMemberFormData } from "@/lib/schemas";
+import type { CostSettingsFormData, TeamMemberFormData } from "@/lib/schemas";
 import { TeamMemberSchema } from "@/lib/schemas";
 import { Button } from "@/components/ui/button";
 import {
@@ -13,15 +13,20 @@ import {
   FormItem,
   FormLabel,
   FormMessage,
+  FormDescription,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { saveTeamMember, getTeamMembers } from "@/lib/actions";
+import { saveTeamMember, getTeamMembers, deleteTeamMember, getPeople, getCostSettings, getRateCards } from "@/lib/actions";
+import type { Person, RateCard, TeamMember } from "@/lib/db";
+import { isActiveMember, UNKNOWN_START_DATE } from "@/lib/roster";
+import { convertRateUnit } from "@/lib/currency";
 import type { Team } from "./types";
-import { TECHNOLOGIES, BANDS } from "@/lib/constants";
+import { TECHNOLOGIES, BANDS, ROLES, LOCATIONS, CURRENCIES, BASE_CURRENCY, DEFAULT_COST_SETTINGS, RATE_UNITS } from "@/lib/constants";
 import { useState, useEffect } from "react";
-import { PlusCircle, Users, Trash2 } from "lucide-react";
+import { PlusCircle, Users, Trash2, Pencil } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -32,27 +37,47 @@ interface TeamMembersFormProps {
   teams: Team[];
 }
 
-type TeamMemberWithId = TeamMemberFormData & { id: string };
+// Radix Select can't hold an empty value, so "no linked person" gets its own sentinel.
+const NO_PERSON = "__none__";
+
+const emptyMember = (teamId: string): Partial<TeamMemberFormData> => ({
+  teamId,
+  id: undefined,
+  name: "",
+  role: "Engineer",
+  technology: undefined,
+  band: undefined,
+  rate: 0,
+  currency: BASE_CURRENCY,
+  location: undefined,
+  allocationPercent: 100,
+  startDate: new Date().toISOString().slice(0, 10),
+  endDate: "",
+  personId: undefined,
+});
 
 export function TeamMembersForm({ teams }: TeamMembersFormProps) {
   const { toast } = useToast();
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoadingMembers, setIsLoadingMembers] = useState(false);
-  const [currentTeamMembers, setCurrentTeamMembers] = useState<TeamMemberWithId[]>([]);
+  const [currentTeamMembers, setCurrentTeamMembers] = useState<TeamMember[]>([]);
+  const [people, setPeople] = useState<Person[]>([]);
+  const [rateCards, setRateCards] = useState<RateCard[]>([]);
+  const [costSettings, setCostSettings] = useState<Omit<CostSettingsFormData, "teamId">>(DEFAULT_COST_SETTINGS);
+  const [appliedRateCard, setAppliedRateCard] = useState<RateCard | null>(null);
 
   const form = useForm<TeamMemberFormData>({
     resolver: zodResolver(TeamMemberSchema),
-    defaultValues: {
-      teamId: "",
-      technology: undefined,
-      band: undefined,
-      rate: 0,
-      numResources: 1,
-    },
+    defaultValues: emptyMember(""),
   });
-  
+
   const watchTeamId = form.watch("teamId");
+  const editingId = form.watch("id");
+
+  useEffect(() => {
+    getRateCards().then(setRateCards).catch(() => setRateCards([]));
+  }, []);
 
   useEffect(() => {
     async function fetchTeamMembers() {
@@ -60,8 +85,10 @@ export function TeamMembersForm({ teams }: TeamMembersFormProps) {
         setIsLoadingMembers(true);
         setCurrentTeamMembers([]); // Clear previous members
         try {
-          const members = await getTeamMembers(watchTeamId);
+          const [members, teamPeople, settings] = await Promise.all([getTeamMembers(watchTeamId), getPeople(watchTeamId), getCostSettings(watchTeamId)]);
           setCurrentTeamMembers(members);
+          setPeople(teamPeople);
+          setCostSettings(settings);
         } catch (error) {
           toast({ title: "Error", description: "Could not load team members.", variant: "destructive" });
         } finally {
@@ -69,15 +96,11 @@ export function TeamMembersForm({ teams }: TeamMembersFormProps) {
         }
       } else {
         setCurrentTeamMembers([]);
+        setPeople([]);
       }
       // Reset form fields for new entry, keeping teamId if selected
-      form.reset({
-        teamId: watchTeamId || "",
-        technology: undefined,
-        band: undefined,
-        rate: 0,
-        numResources: 1,
-      });
+      form.reset(emptyMember(watchTeamId || ""));
+      setAppliedRateCard(null);
     }
     fetchTeamMembers();
   }, [watchTeamId, form, toast]);
@@ -87,16 +110,10 @@ export function TeamMembersForm({ teams }: TeamMembersFormProps) {
     setIsSubmitting(true);
     const result = await saveTeamMember(data);
     if (result.success && result.data) {
-      toast({ title: "Success", description: "Team member details saved." });
-      // Add to current list client-side for immediate feedback
-      setCurrentTeamMembers(prev => [...prev, result.data as TeamMemberWithId]);
-      form.reset({ // Reset form for next entry, keeping selected teamId
-        teamId: data.teamId, 
-        technology: undefined,
-        band: undefined,
-        rate: 0,
-        numResources: 1,
-      });
+      toast({ title: "Success", description: result.message });
+      const saved = result.data as TeamMember;
+      setCurrentTeamMembers(prev => [...prev.filter(member => member.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      form.reset(emptyMember(data.teamId)); // Reset form for next entry, keeping selected teamId
       router.refresh(); // Ensure other parts of app relying on this data get updated
     } else {
       toast({ title: "Error", description: result.message || "Failed to save team member.", variant: "destructive" });
@@ -104,11 +121,36 @@ export function TeamMembersForm({ teams }: TeamMembersFormProps) {
     setIsSubmitting(false);
   }
 
-  // Placeholder for delete functionality if needed in future
-  // async function handleDeleteMember(memberId: string) {
-  //   // Call a delete action, then refresh or update client state
-  //   toast({title: "Info", description: `Delete for ${memberId} not implemented.`})
-  // }
+  async function handleDeleteMember(member: TeamMember) {
+    const result = await deleteTeamMember(member.teamId, member.id);
+    if (result.success) {
+      toast({ title: "Success", description: `${member.name} removed from the team.` });
+      setCurrentTeamMembers(prev => prev.filter(m => m.id !== member.id));
+      if (editingId === member.id) form.reset(emptyMember(member.teamId));
+      router.refresh();
+    } else {
+      toast({ title: "Error", description: result.message, variant: "destructive" });
+    }
+  }
+
+  function handleEditMember(member: TeamMember) {
+    form.reset({ ...member, endDate: member.endDate || "" });
+    setAppliedRateCard(null);
+  }
+
+  // Choosing a location and band fills in the matching rate card, converted to the team's rate unit.
+  function applyRateCard(location: string | undefined, band: string | undefined) {
+    const card = rateCards.find(c => c.location === location && c.band === band);
+    if (!card) return;
+    const rate = convertRateUnit(card.rate, card.rateUnit, costSettings.rateUnit, costSettings);
+    form.setValue("rate", Math.round(rate * 100) / 100, { shouldValidate: true });
+    form.setValue("currency", card.currency, { shouldValidate: true });
+    setAppliedRateCard(card);
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const linkedPersonName = (personId?: string) => people.find(person => person.id === personId)?.displayName;
+  const isDisabled = isLoadingMembers || !watchTeamId;
 
   return (
     <div className="space-y-8">
@@ -120,8 +162,8 @@ export function TeamMembersForm({ teams }: TeamMembersFormProps) {
             render={({ field }) => (
               <FormItem>
                 <FormLabel>Select Team</FormLabel>
-                <Select 
-                  onValueChange={field.onChange} 
+                <Select
+                  onValueChange={field.onChange}
                   value={field.value || undefined}
                   disabled={isLoadingMembers}
                 >
@@ -141,6 +183,45 @@ export function TeamMembersForm({ teams }: TeamMembersFormProps) {
             )}
           />
 
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Jane Doe" {...field} disabled={isDisabled} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="role"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Role</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value || undefined} disabled={isDisabled}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select role" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>{role}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <FormField
               control={form.control}
@@ -148,10 +229,10 @@ export function TeamMembersForm({ teams }: TeamMembersFormProps) {
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Technology</FormLabel>
-                  <Select 
-                    onValueChange={field.onChange} 
+                  <Select
+                    onValueChange={field.onChange}
                     value={field.value || undefined}
-                    disabled={isLoadingMembers || !watchTeamId}
+                    disabled={isDisabled}
                   >
                     <FormControl>
                       <SelectTrigger>
@@ -175,10 +256,13 @@ export function TeamMembersForm({ teams }: TeamMembersFormProps) {
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Band</FormLabel>
-                  <Select 
-                    onValueChange={field.onChange} 
+                  <Select
+                    onValueChange={value => {
+                      field.onChange(value);
+                      applyRateCard(form.getValues("location"), value);
+                    }}
                     value={field.value || undefined}
-                    disabled={isLoadingMembers || !watchTeamId}
+                    disabled={isDisabled}
                   >
                     <FormControl>
                       <SelectTrigger>
@@ -197,15 +281,103 @@ export function TeamMembersForm({ teams }: TeamMembersFormProps) {
             />
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <FormField
+              control={form.control}
+              name="location"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Location</FormLabel>
+                  <Select
+                    onValueChange={value => {
+                      field.onChange(value);
+                      applyRateCard(value, form.getValues("band"));
+                    }}
+                    value={field.value || undefined}
+                    disabled={isDisabled}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select location" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {LOCATIONS.map((location) => (
+                        <SelectItem key={location} value={location}>{location}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="currency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Currency</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value || undefined} disabled={isDisabled}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select currency" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {CURRENCIES.map((currency) => (
+                        <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="rate"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Rate (USD)</FormLabel>
+                  <FormLabel>Rate</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="any" placeholder="Enter rate" {...field} disabled={isDisabled}/>
+                  </FormControl>
+                  <FormDescription>
+                    {RATE_UNITS.find(unit => unit.value === costSettings.rateUnit)?.label}, as set on the Cost tab.
+                    {appliedRateCard && ` Filled from the ${appliedRateCard.location} ${appliedRateCard.band} rate card.`}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <FormField
+              control={form.control}
+              name="allocationPercent"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Allocation (%)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} max={100} {...field} disabled={isDisabled} />
+                  </FormControl>
+                  <FormDescription>Share of this person&apos;s time spent on the team.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="startDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Start Date</FormLabel>
                   <FormControl>
-                    <Input type="number" placeholder="Enter rate" {...field} disabled={isLoadingMembers || !watchTeamId}/>
+                    <Input type="date" {...field} disabled={isDisabled} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
@@ -214,23 +386,62 @@ export function TeamMembersForm({ teams }: TeamMembersFormProps) {
 
             <FormField
               control={form.control}
-              name="numResources"
+              name="endDate"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Number of Resources</FormLabel>
+                  <FormLabel>End Date</FormLabel>
                   <FormControl>
-                    <Input type="number" placeholder="Enter number of resources" {...field} disabled={isLoadingMembers || !watchTeamId} />
+                    <Input type="date" {...field} value={field.value || ""} disabled={isDisabled} />
                   </FormControl>
+                  <FormDescription>Leave empty while they are still on the team.</FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
           </div>
-          
-          <Button type="submit" disabled={isSubmitting || isLoadingMembers || !watchTeamId}>
-            <PlusCircle className="mr-2 h-4 w-4" />
-            {isSubmitting ? "Saving..." : "Add Team Member Details"}
-          </Button>
+
+          <FormField
+            control={form.control}
+            name="personId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Linked Person</FormLabel>
+                <Select
+                  onValueChange={value => field.onChange(value === NO_PERSON ? undefined : value)}
+                  value={field.value || NO_PERSON}
+                  disabled={isDisabled}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Not linked" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_PERSON}>Not linked</SelectItem>
+                    {people.map(person => (
+                      <SelectItem key={person.id} value={person.id}>
+                        {person.displayName} ({person.identities.length} identities)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Links the member to their GitHub and Jira identities from the People tab.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="flex gap-4">
+            <Button type="submit" disabled={isSubmitting || isDisabled}>
+              {editingId ? <Pencil className="mr-2 h-4 w-4" /> : <PlusCircle className="mr-2 h-4 w-4" />}
+              {isSubmitting ? "Saving..." : editingId ? "Save Changes" : "Add Team Member"}
+            </Button>
+            {editingId && (
+              <Button type="button" variant="outline" onClick={() => form.reset(emptyMember(watchTeamId))}>
+                Cancel
+              </Button>
+            )}
+          </div>
         </form>
       </Form>
 
@@ -253,25 +464,43 @@ export function TeamMembersForm({ teams }: TeamMembersFormProps) {
                 <Table>
                   <TableHeader>
                     <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Role</TableHead>
                       <TableHead>Technology</TableHead>
                       <TableHead>Band</TableHead>
-                      <TableHead className="text-right">Rate (USD)</TableHead>
-                      <TableHead className="text-right">Resources</TableHead>
-                      {/* <TableHead className="text-right">Actions</TableHead> */}
+                      <TableHead className="text-right">Rate</TableHead>
+                      <TableHead className="text-right">Allocation</TableHead>
+                      <TableHead>Dates</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {currentTeamMembers.map((member) => (
                       <TableRow key={member.id}>
+                        <TableCell className="font-medium">
+                          {member.name}
+                          {!isActiveMember(member, today) && <Badge variant="outline" className="ml-2 text-muted-foreground">Inactive</Badge>}
+                          {linkedPersonName(member.personId) && (
+                            <div className="text-xs text-muted-foreground">Linked: {linkedPersonName(member.personId)}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{member.role}</TableCell>
                         <TableCell>{member.technology}</TableCell>
-                        <TableCell>{member.band}</TableCell>
-                        <TableCell className="text-right">${member.rate.toFixed(2)}</TableCell>
-                        <TableCell className="text-right">{member.numResources}</TableCell>
-                        {/* <TableCell className="text-right">
-                          <Button variant="ghost" size="icon" onClick={() => handleDeleteMember(member.id)} disabled>
+                        <TableCell>
+                          {member.band}
+                          {member.location && <div className="text-xs text-muted-foreground">{member.location}</div>}
+                        </TableCell>
+                        <TableCell className="text-right">{member.currency} {member.rate.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">{member.allocationPercent}%</TableCell>
+                        <TableCell className="text-xs">{member.startDate === UNKNOWN_START_DATE ? "Unknown" : member.startDate} – {member.endDate || "present"}</TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button type="button" variant="outline" size="sm" onClick={() => handleEditMember(member)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button type="button" variant="destructive" size="sm" onClick={() => handleDeleteMember(member)}>
                             <Trash2 className="h-4 w-4" />
                           </Button>
-                        </TableCell> */}
+                        </TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
@@ -2,4 +2,5 @@
 export interface Team {
   id: string;
   name: string;
+  archivedAt?: string;
 }
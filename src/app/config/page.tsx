@@ -4,28 +4,41 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { TeamForm } from "./_components/team-form";
 import { GithubConfigForm } from "./_components/github-config-form";
 import { TeamMembersForm } from "./_components/team-members-form";
+import { PeopleRegistryForm } from "./_components/people-registry-form";
+import { CostSettingsForm } from "./_components/cost-settings-form";
+import { ExchangeRatesForm } from "./_components/exchange-rates-form";
+import { RateCardsForm } from "./_components/rate-cards-form";
 import { JiraConfigForm } from "./_components/jira-config-form";
+import { JiraFiltersForm } from "./_components/jira-filters-form";
 import { SonarQubeConfigForm } from "./_components/sonarqube-config-form";
 import { BoomerangConfigForm } from "./_components/boomerang-config-form";
+import { JenkinsConfigForm } from "./_components/jenkins-config-form";
+import { DoraConfigForm } from "./_components/dora-config-form";
 import { ApiKeysForm } from "./_components/api-keys-form";
 import { DbConfigForm } from "./_components/db-config-form";
 import { getTeams } from "@/lib/actions";
 import type { Team } from "./_components/types"; // Will create this type file
 
 export default async function ConfigurationPage() {
-  const teams: Team[] = await getTeams();
+  const allTeams: Team[] = await getTeams(true);
+  const teams = allTeams.filter(team => !team.archivedAt);
 
   return (
     <div className="container mx-auto py-10">
       <h1 className="text-3xl font-bold mb-8 text-center">TeamOptiVision Configuration</h1>
       <Tabs defaultValue="team" className="w-full">
-        <TabsList className="grid w-full grid-cols-2 md:grid-cols-4 lg:grid-cols-8 mb-6">
+        <TabsList className="grid w-full grid-cols-2 md:grid-cols-4 lg:grid-cols-[repeat(13,minmax(0,1fr))] mb-6">
           <TabsTrigger value="team">Team</TabsTrigger>
-          <TabsTrigger value="github">GitHub</TabsTrigger>
+          <TabsTrigger value="github">Source Control</TabsTrigger>
           <TabsTrigger value="members">Team Members</TabsTrigger>
+          <TabsTrigger value="people">People</TabsTrigger>
+          <TabsTrigger value="cost">Cost</TabsTrigger>
+          <TabsTrigger value="rates">Rates</TabsTrigger>
           <TabsTrigger value="jira">Jira</TabsTrigger>
           <TabsTrigger value="sonarqube">SonarQube</TabsTrigger>
           <TabsTrigger value="boomerang">Boomerang</TabsTrigger>
+          <TabsTrigger value="jenkins">Jenkins</TabsTrigger>
+          <TabsTrigger value="dora">DORA</TabsTrigger>
           <TabsTrigger value="apikeys">AI Keys</TabsTrigger>
           <TabsTrigger value="dbconfig">DB Config</TabsTrigger>
         </TabsList>
@@ -34,10 +47,10 @@ export default async function ConfigurationPage() {
           <Card>
             <CardHeader>
               <CardTitle>Team Management</CardTitle>
-              <CardDescription>Add new teams or select an existing team to configure.</CardDescription>
+              <CardDescription>Add, rename, archive or delete teams.</CardDescription>
             </CardHeader>
             <CardContent>
-              <TeamForm initialTeams={teams} />
+              <TeamForm initialTeams={allTeams} />
             </CardContent>
           </Card>
         </TabsContent>
@@ -45,8 +58,8 @@ export default async function ConfigurationPage() {
         <TabsContent value="github">
           <Card>
             <CardHeader>
-              <CardTitle>GitHub Configuration</CardTitle>
-              <CardDescription>Configure GitHub integration for a selected team.</CardDescription>
+              <CardTitle>Source Control Configuration</CardTitle>
+              <CardDescription>Configure the source control integration (GitHub, GitLab, Bitbucket Server or Azure DevOps) for a selected team.</CardDescription>
             </CardHeader>
             <CardContent>
               <GithubConfigForm teams={teams} />
@@ -65,8 +78,53 @@ export default async function ConfigurationPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="people">
+          <Card>
+            <CardHeader>
+              <CardTitle>People</CardTitle>
+              <CardDescription>Map GitHub logins, commit emails and Jira users to the people on a selected team.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PeopleRegistryForm teams={teams} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="cost">
+          <Card>
+            <CardHeader>
+              <CardTitle>Cost Settings</CardTitle>
+              <CardDescription>Set the rate unit, working time and holidays used to cost a selected team.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CostSettingsForm teams={teams} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="rates" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Exchange Rates</CardTitle>
+              <CardDescription>Shared by all teams. Used to convert member rates to each team&apos;s reporting currency.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ExchangeRatesForm />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Rate Cards</CardTitle>
+              <CardDescription>Shared by all teams. Default rates per location and band.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RateCardsForm />
+            </CardContent>
+          </Card>
+        </TabsContent>
         
-        <TabsContent value="jira">
+        <TabsContent value="jira" className="space-y-6">
           <Card>
             <CardHeader>
               <CardTitle>Jira Configuration</CardTitle>
@@ -76,6 +134,15 @@ export default async function ConfigurationPage() {
               <JiraConfigForm teams={teams} />
             </CardContent>
           </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Saved JQL Filters</CardTitle>
+              <CardDescription>Define focused views such as open bugs or the current quarter. Metrics are computed for each filter.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <JiraFiltersForm teams={teams} />
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="sonarqube">
@@ -102,6 +169,30 @@ export default async function ConfigurationPage() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="jenkins">
+          <Card>
+            <CardHeader>
+              <CardTitle>Jenkins Configuration</CardTitle>
+              <CardDescription>Configure Jenkins integration for a selected team.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <JenkinsConfigForm teams={teams} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="dora">
+          <Card>
+            <CardHeader>
+              <CardTitle>DORA Configuration</CardTitle>
+              <CardDescription>Choose how deployments and change failures are detected for a selected team.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <DoraConfigForm teams={teams} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="apikeys">
           <Card>
             <CardHeader>
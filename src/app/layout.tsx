@@ -3,7 +3,7 @@ import { Geist, Geist_Mono } from 'next/font/google';
 import Link from 'next/link';
 import {
   Cog,
-  Github,
+  GitBranch,
   ListChecks,
   Brain,
   Gauge,
@@ -11,7 +11,10 @@ import {
   Rocket,
   LayoutDashboard,
   Users,
-  KeyRound
+  KeyRound,
+  Activity,
+  Wallet,
+  Hammer
 } from 'lucide-react';
 
 import './globals.css';
@@ -50,10 +53,13 @@ export const metadata: Metadata = {
 
 const navItems = [
   { href: '/config', icon: Cog, label: 'Team Configuration' },
-  { href: '/metrics/github', icon: Github, label: 'GitHub Metrics' },
+  { href: '/metrics/github', icon: GitBranch, label: 'Code Metrics' },
   { href: '/metrics/jira', icon: ListChecks, label: 'Jira Metrics' },
   { href: '/metrics/sonarqube', icon: Gauge, label: 'SonarQube Metrics' },
   { href: '/metrics/boomerang', icon: Rocket, label: 'Boomerang Metrics' },
+  { href: '/metrics/jenkins', icon: Hammer, label: 'Jenkins Metrics' },
+  { href: '/metrics/dora', icon: Activity, label: 'DORA Metrics' },
+  { href: '/metrics/financials', icon: Wallet, label: 'Financials' },
   { href: '/ai-insights', icon: Brain, label: 'AI Insights' },
 ];
 
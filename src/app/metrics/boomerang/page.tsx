@@ -5,21 +5,51 @@ import { useState, useEffect, useMemo } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { RefreshCw, Rocket, ShieldCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { RefreshCw, Rocket, ShieldCheck, Timer, PlayCircle, AlertTriangle } from "lucide-react";
 import { getBoomerangMetrics, refreshBoomerangMetrics } from "@/lib/actions";
 import { useToast } from "@/hooks/use-toast";
 import type { Team } from "../../config/_components/types";
 import { useGetTeams } from '@/hooks/use-team-queries'; // Import the hook
+import type { BoomerangPeriodMetrics, BoomerangRunStatus, BoomerangTeamMetricsData } from '@/lib/db';
+import { BOOMERANG_PERIODS } from '@/lib/constants';
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MetricTrendCard, type MetricTrendSeries } from '@/components/metric-trend-card';
 
+const SUCCESS_TREND_SERIES: MetricTrendSeries<BoomerangPeriodMetrics>[] = [
+  { key: "buildSuccessRate", label: "Build Success Rate (%)", select: d => d.succeededCount + d.failedCount > 0 ? d.buildSuccessRate : undefined },
+];
+
+const DURATION_TREND_SERIES: MetricTrendSeries<BoomerangPeriodMetrics>[] = [
+  { key: "medianDurationMinutes", label: "Median Duration (min)", select: d => d.medianDurationSeconds ? d.medianDurationSeconds / 60 : undefined },
+];
+
+const STATUS_BADGE_VARIANTS: Record<BoomerangRunStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  succeeded: "default",
+  failed: "destructive",
+  cancelled: "outline",
+  running: "secondary",
+};
+
+const formatDuration = (seconds?: number) => {
+  if (!seconds) return "—";
+  const minutes = Math.floor(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m ${Math.round(seconds % 60)}s`;
+};
+
+const formatCounts = (counts: Record<string, number>) =>
+  Object.entries(counts).sort((a, b) => b[1] - a[1]).map(([key, count]) => `${key} ${count}`).join(" · ");
 
 export default function BoomerangMetricsPage() {
   const { data: teamsData, isLoading: isLoadingTeams, error: teamsError } = useGetTeams();
   const teams: Team[] = teamsData || [];
-  
+
   const [selectedTeamId, setSelectedTeamId] = useState<string>("");
-  const [metrics, setMetrics] = useState<any>(null);
+  const [selectedPeriod, setSelectedPeriod] = useState<string>("30days");
+  const [metrics, setMetrics] = useState<BoomerangTeamMetricsData | null>(null);
   const [isLoadingMetrics, setIsLoadingMetrics] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const { toast } = useToast();
@@ -28,8 +58,8 @@ export default function BoomerangMetricsPage() {
     async function fetchMetrics() {
       if (selectedTeamId) {
         setIsLoadingMetrics(true);
-        const fetchedMetrics = await getBoomerangMetrics(selectedTeamId);
-        setMetrics(fetchedMetrics);
+        setMetrics(null);
+        setMetrics(await getBoomerangMetrics(selectedTeamId));
         setIsLoadingMetrics(false);
       } else {
         setMetrics(null);
@@ -45,22 +75,22 @@ export default function BoomerangMetricsPage() {
     }
     setIsRefreshing(true);
     const result = await refreshBoomerangMetrics(selectedTeamId);
-    if (result.success && result.data) {
-      setMetrics(result.data.metrics);
-      toast({ title: "Success", description: "Boomerang metrics refreshed." });
+    setMetrics(result.data.metrics);
+    if (result.success) {
+      toast({ title: "Success", description: result.message });
     } else {
       toast({ title: "Error", description: result.message || "Failed to refresh metrics.", variant: "destructive" });
     }
     setIsRefreshing(false);
   };
-  
-  const displayMetrics = useMemo(() => {
-    if (!metrics || metrics.info) return null;
-    return {
-      buildSuccessRate: metrics.buildSuccessRate || 0,
-      lastRefreshed: metrics.lastRefreshed ? new Date(metrics.lastRefreshed).toLocaleString() : "N/A"
-    };
-  }, [metrics]);
+
+  const period = metrics?.periods?.[selectedPeriod];
+  const periodLabel = BOOMERANG_PERIODS.find(p => p.key === selectedPeriod)?.label.toLowerCase() || selectedPeriod;
+  const recentRuns = useMemo(() => {
+    const days = BOOMERANG_PERIODS.find(p => p.key === selectedPeriod)?.days || 0;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    return (metrics?.recentRuns || []).filter(run => run.startedAt >= since);
+  }, [metrics, selectedPeriod]);
 
   if (teamsError) {
     return <div className="container mx-auto py-10 text-center text-destructive">Error loading teams: {teamsError.message}</div>;
@@ -72,10 +102,10 @@ export default function BoomerangMetricsPage() {
         <CardHeader className="flex flex-row items-center justify-between">
           <div>
             <CardTitle>Boomerang CI/CD Metrics</CardTitle>
-            <CardDescription>Monitor your team's pipeline performance.</CardDescription>
+            <CardDescription>Build success rate, pipeline duration and deployments from the team&apos;s Boomerang workflow runs.</CardDescription>
           </div>
-           <div className="flex items-center gap-4">
-            <Select onValueChange={setSelectedTeamId} value={selectedTeamId || undefined} disabled={isLoadingTeams}>
+          <div className="flex items-center gap-4">
+            <Select onValueChange={setSelectedTeamId} value={selectedTeamId || undefined} disabled={isLoadingTeams || isRefreshing}>
               <SelectTrigger className="w-[200px]">
                 <SelectValue placeholder={isLoadingTeams ? "Loading teams..." : "Select Team"} />
               </SelectTrigger>
@@ -85,58 +115,194 @@ export default function BoomerangMetricsPage() {
                 ))}
               </SelectContent>
             </Select>
+            <Select onValueChange={setSelectedPeriod} value={selectedPeriod}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BOOMERANG_PERIODS.map(p => (
+                  <SelectItem key={p.key} value={p.key}>{p.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Button onClick={handleRefreshMetrics} disabled={isRefreshing || !selectedTeamId || isLoadingMetrics}>
               <RefreshCw className={`mr-2 h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
-              Refresh
+              {isRefreshing ? "Refreshing..." : "Refresh Metrics"}
             </Button>
           </div>
         </CardHeader>
+        {metrics?.lastRefreshed && metrics.lastRefreshed !== "N/A" && (
+          <CardContent className="pt-2 text-sm text-muted-foreground text-right">
+            Last refreshed: {new Date(metrics.lastRefreshed).toLocaleString()}
+          </CardContent>
+        )}
       </Card>
 
-      {(isLoadingTeams || isLoadingMetrics) && !metrics && <p className="text-center">Loading metrics...</p>}
-      {!selectedTeamId && !isLoadingTeams && <p className="text-center text-muted-foreground">Please select a team to view metrics.</p>}
-      
-      {selectedTeamId && metrics?.info && 
-        <Card>
-          <CardContent className="pt-6">
-            <p className="text-center text-muted-foreground">{metrics.info}</p>
+      {(isLoadingTeams || (isLoadingMetrics && !metrics)) && <p className="text-center py-6">Loading metrics...</p>}
+      {!selectedTeamId && !isLoadingTeams && <p className="text-center text-muted-foreground py-6">Please select a team to view metrics.</p>}
+
+      {selectedTeamId && metrics?.info && (
+        <Card className="border-yellow-500 bg-yellow-50/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-yellow-700">
+              <AlertTriangle /> Info
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-yellow-700">{metrics.info.message}</p>
           </CardContent>
         </Card>
-      }
+      )}
 
-      {selectedTeamId && displayMetrics && (
-         <Tabs defaultValue="cumulative" className="w-full">
+      {selectedTeamId && metrics && period && (
+        <Tabs defaultValue="cumulative" className="w-full">
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="cumulative">Cumulative View</TabsTrigger>
-            <TabsTrigger value="repo-wise" disabled>Repo-wise View (NA)</TabsTrigger>
+            <TabsTrigger value="workflow-wise">Workflow-wise View</TabsTrigger>
           </TabsList>
-          <TabsContent value="cumulative">
-            <div className="grid gap-6 md:grid-cols-1 lg:grid-cols-2">
+          <TabsContent value="cumulative" className="space-y-6">
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
               <Card>
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                   <CardTitle className="text-sm font-medium">Build Success Rate</CardTitle>
                   <ShieldCheck className="h-5 w-5 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">{displayMetrics.buildSuccessRate.toFixed(1)}%</div>
-                  <Progress value={displayMetrics.buildSuccessRate} className="mt-2 h-2" />
+                  <div className="text-2xl font-bold">{period.buildSuccessRate.toFixed(1)}%</div>
+                  <Progress value={period.buildSuccessRate} className="mt-2 h-2" />
+                  <p className="text-xs text-muted-foreground mt-1">{period.succeededCount} of {period.succeededCount + period.failedCount} finished runs succeeded</p>
                 </CardContent>
               </Card>
               <Card>
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Average Deployment Time</CardTitle>
-                   <Rocket className="h-5 w-5 text-muted-foreground" />
+                  <CardTitle className="text-sm font-medium">Median Pipeline Duration</CardTitle>
+                  <Timer className="h-5 w-5 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
-                   <div className="text-2xl font-bold">15m 30s</div> 
-                   <p className="text-xs text-muted-foreground">(Placeholder data)</p>
+                  <div className="text-2xl font-bold">{formatDuration(period.medianDurationSeconds)}</div>
+                  <p className="text-xs text-muted-foreground">Succeeded and failed runs, {periodLabel}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">Deployments</CardTitle>
+                  <Rocket className="h-5 w-5 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{period.deploymentCount}</div>
+                  <p className="text-xs text-muted-foreground">{formatCounts(period.deploymentsByEnvironment) || "No runs with a target environment"}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">Pipeline Runs</CardTitle>
+                  <PlayCircle className="h-5 w-5 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{period.runCount}</div>
+                  <p className="text-xs text-muted-foreground">{formatCounts(period.runsByTrigger) || "No runs"}</p>
                 </CardContent>
               </Card>
             </div>
-             <p className="text-sm text-muted-foreground mt-4 text-right">Last refreshed: {displayMetrics.lastRefreshed}</p>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <MetricTrendCard
+                title="Build Success Rate Trend"
+                teamId={selectedTeamId}
+                source="boomerang"
+                snapshotKey={selectedPeriod}
+                series={SUCCESS_TREND_SERIES}
+                refreshToken={metrics.lastRefreshed}
+              />
+              <MetricTrendCard
+                title="Pipeline Duration Trend"
+                teamId={selectedTeamId}
+                source="boomerang"
+                snapshotKey={selectedPeriod}
+                series={DURATION_TREND_SERIES}
+                refreshToken={metrics.lastRefreshed}
+              />
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Recent Runs</CardTitle>
+                <CardDescription>Most recent workflow runs, newest first.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="h-72">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Started</TableHead>
+                        <TableHead>Workflow</TableHead>
+                        <TableHead>Trigger</TableHead>
+                        <TableHead>Environment</TableHead>
+                        <TableHead className="text-right">Duration</TableHead>
+                        <TableHead className="text-right">Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {recentRuns.map(run => (
+                        <TableRow key={run.runId}>
+                          <TableCell className="whitespace-nowrap">{new Date(run.startedAt).toLocaleString()}</TableCell>
+                          <TableCell className="font-medium">{run.workflowName}</TableCell>
+                          <TableCell>{run.trigger || "—"}</TableCell>
+                          <TableCell>{run.environment || "—"}</TableCell>
+                          <TableCell className="text-right">{formatDuration(run.durationSeconds)}</TableCell>
+                          <TableCell className="text-right">
+                            <Badge variant={STATUS_BADGE_VARIANTS[run.status]}>{run.status}</Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              </CardContent>
+            </Card>
           </TabsContent>
-           <TabsContent value="repo-wise">
-            <p className="text-center text-muted-foreground py-8">Repo-wise view is not yet available.</p>
+          <TabsContent value="workflow-wise">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Workflows</CardTitle>
+                <CardDescription>Per-workflow results, {periodLabel}.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {period.workflows.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Workflow</TableHead>
+                        <TableHead className="text-right">Runs</TableHead>
+                        <TableHead className="text-right">Success Rate</TableHead>
+                        <TableHead className="text-right">Median Duration</TableHead>
+                        <TableHead className="text-right">Deployments</TableHead>
+                        <TableHead className="text-right">Last Run</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {period.workflows.map(workflow => (
+                        <TableRow key={workflow.workflowId}>
+                          <TableCell className="font-medium">{workflow.workflowName}</TableCell>
+                          <TableCell className="text-right">{workflow.runCount}</TableCell>
+                          <TableCell className="text-right">
+                            {workflow.succeededCount + workflow.failedCount > 0 ? `${workflow.buildSuccessRate.toFixed(1)}%` : "—"}
+                          </TableCell>
+                          <TableCell className="text-right">{formatDuration(workflow.medianDurationSeconds)}</TableCell>
+                          <TableCell className="text-right">{workflow.deploymentCount}</TableCell>
+                          <TableCell className="text-right whitespace-nowrap space-x-2">
+                            <span className="text-muted-foreground">{new Date(workflow.lastRunAt).toLocaleDateString()}</span>
+                            <Badge variant={STATUS_BADGE_VARIANTS[workflow.lastStatus]}>{workflow.lastStatus}</Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-center text-muted-foreground py-8">No workflow runs {periodLabel}.</p>
+                )}
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
       )}
@@ -0,0 +1,332 @@
+// src/app/metrics/dora/page.tsx
+"use client";
+
+import * as React from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { RefreshCw, Rocket, Hourglass, AlertTriangle, LifeBuoy, CalendarDays } from "lucide-react";
+import { getDoraMetrics, refreshDoraMetrics } from "@/lib/actions";
+import { useToast } from "@/hooks/use-toast";
+import type { Team } from "../../config/_components/types";
+import { useGetTeams } from '@/hooks/use-team-queries';
+import type { DoraTeamMetricsData } from '@/lib/db';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+} from "@/components/ui/chart";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid } from "recharts";
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MetricTrendCard, type MetricTrendSeries } from '@/components/metric-trend-card';
+
+const weeklyChartConfig = {
+  deployments: { label: "Deployments", color: "hsl(var(--chart-1))" },
+  failures: { label: "Failed", color: "hsl(var(--chart-5))" },
+};
+
+const FREQUENCY_TREND_SERIES: MetricTrendSeries<DoraTeamMetricsData>[] = [
+  { key: "deploymentsPerWeek", label: "Deployments / Week", select: d => d.deploymentsPerWeek },
+];
+
+const LEAD_TIME_TREND_SERIES: MetricTrendSeries<DoraTeamMetricsData>[] = [
+  { key: "leadTimeP50", label: "Lead Time p50 (days)", select: d => d.leadTimeForChanges?.p50Days },
+  { key: "timeToRestoreAvg", label: "Mean Time to Restore (days)", select: d => d.timeToRestore?.count ? d.timeToRestore.averageDays : undefined },
+];
+
+const FAILURE_TREND_SERIES: MetricTrendSeries<DoraTeamMetricsData>[] = [
+  { key: "changeFailureRate", label: "Change Failure Rate (%)", select: d => d.changeFailureRate === undefined ? undefined : d.changeFailureRate * 100 },
+];
+
+const formatDuration = (days: number) => days < 1 ? `${(days * 24).toFixed(1)}h` : `${days.toFixed(1)}d`;
+
+export default function DoraMetricsPage() {
+  const { data: teamsData, isLoading: isLoadingTeams, error: teamsError } = useGetTeams();
+  const teams: Team[] = teamsData || [];
+
+  const [selectedTeamId, setSelectedTeamId] = useState<string>("");
+  const [metrics, setMetrics] = useState<DoraTeamMetricsData | null>(null);
+  const [isLoadingMetrics, setIsLoadingMetrics] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    async function fetchMetrics() {
+      if (selectedTeamId) {
+        setIsLoadingMetrics(true);
+        setMetrics(null);
+        setMetrics(await getDoraMetrics(selectedTeamId));
+        setIsLoadingMetrics(false);
+      } else {
+        setMetrics(null);
+      }
+    }
+    fetchMetrics();
+  }, [selectedTeamId]);
+
+  const handleRefreshMetrics = async () => {
+    if (!selectedTeamId) {
+      toast({ title: "Error", description: "Please select a team.", variant: "destructive" });
+      return;
+    }
+    setIsRefreshing(true);
+    const result = await refreshDoraMetrics(selectedTeamId);
+    setMetrics(result.data.metrics);
+    if (result.success) {
+      toast({ title: "Success", description: result.message });
+    } else {
+      toast({ title: "Error", description: result.message || "Failed to refresh DORA metrics.", variant: "destructive" });
+    }
+    setIsRefreshing(false);
+  };
+
+  const weeklyData = useMemo(() => (metrics?.weekly || []).map(point => ({
+    week: new Date(point.weekStart).toLocaleDateString(),
+    deployments: point.deployments,
+    failures: point.failures,
+  })), [metrics]);
+
+  if (teamsError) {
+    return <div className="container mx-auto py-10 text-center text-destructive">Error loading teams: {teamsError.message}</div>;
+  }
+
+  // A failed refresh keeps the previous numbers alongside the error message.
+  const hasMetrics = metrics?.deploymentCount !== undefined;
+
+  return (
+    <div className="container mx-auto py-10 space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>DORA Metrics</CardTitle>
+            <CardDescription>
+              Deployment frequency, lead time for changes, change failure rate and time to restore across the team&apos;s GitHub repositories
+              {metrics?.windowDays ? ` over the last ${metrics.windowDays} days` : ""}.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-4">
+            <Select onValueChange={setSelectedTeamId} value={selectedTeamId || undefined} disabled={isLoadingTeams || isRefreshing}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder={isLoadingTeams ? "Loading teams..." : "Select Team"} />
+              </SelectTrigger>
+              <SelectContent>
+                {teams.map((team) => (
+                  <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleRefreshMetrics} disabled={isRefreshing || !selectedTeamId || isLoadingMetrics}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+              {isRefreshing ? "Refreshing..." : "Refresh Metrics"}
+            </Button>
+          </div>
+        </CardHeader>
+        {metrics?.lastRefreshed && (
+          <CardContent className="pt-2 text-sm text-muted-foreground text-right">
+            Last refreshed: {new Date(metrics.lastRefreshed).toLocaleString()}
+          </CardContent>
+        )}
+      </Card>
+
+      {(isLoadingTeams || (isLoadingMetrics && !metrics)) && <p className="text-center py-6">Loading metrics...</p>}
+      {!selectedTeamId && !isLoadingTeams && <p className="text-center text-muted-foreground py-6">Please select a team to view metrics.</p>}
+      {selectedTeamId && !isLoadingMetrics && !metrics && (
+        <p className="text-center text-muted-foreground py-6">No DORA metrics yet. Configure GitHub repositories for this team, then refresh.</p>
+      )}
+
+      {selectedTeamId && metrics?.info && (
+        <Card className="border-yellow-500 bg-yellow-50/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-yellow-700">
+              <AlertTriangle /> Info
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-yellow-700">{metrics.info.message}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {selectedTeamId && metrics && hasMetrics && (
+        <>
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Deployment Frequency</CardTitle>
+                <Rocket className="h-5 w-5 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{(metrics.deploymentsPerWeek || 0).toFixed(1)} <span className="text-sm font-normal text-muted-foreground">per week</span></div>
+                <p className="text-xs text-muted-foreground">{metrics.deploymentCount} deployments</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Lead Time for Changes</CardTitle>
+                <Hourglass className="h-5 w-5 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                {metrics.leadTimeForChanges && metrics.leadTimeForChanges.count > 0 ? (
+                  <>
+                    <div className="text-2xl font-bold">{formatDuration(metrics.leadTimeForChanges.p50Days)} <span className="text-sm font-normal text-muted-foreground">median</span></div>
+                    <p className="text-xs text-muted-foreground">p85 {formatDuration(metrics.leadTimeForChanges.p85Days)} · {metrics.leadTimeForChanges.count} commits</p>
+                  </>
+                ) : (
+                  <p className="text-muted-foreground">No data</p>
+                )}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Change Failure Rate</CardTitle>
+                <AlertTriangle className="h-5 w-5 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{((metrics.changeFailureRate || 0) * 100).toFixed(1)}%</div>
+                <p className="text-xs text-muted-foreground">{metrics.failedDeploymentCount} of {metrics.deploymentCount} deployments needed a revert or hotfix</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Mean Time to Restore</CardTitle>
+                <LifeBuoy className="h-5 w-5 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                {metrics.timeToRestore && metrics.timeToRestore.count > 0 ? (
+                  <>
+                    <div className="text-2xl font-bold">{formatDuration(metrics.timeToRestore.averageDays)}</div>
+                    <p className="text-xs text-muted-foreground">median {formatDuration(metrics.timeToRestore.p50Days)} · {metrics.timeToRestore.count} restores</p>
+                  </>
+                ) : (
+                  <p className="text-muted-foreground">No failures detected</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <CalendarDays className="h-5 w-5" /> Weekly Deployments
+              </CardTitle>
+              <CardDescription>Deployments per week, with those later remediated by a revert or hotfix.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={weeklyChartConfig} className="h-[300px] w-full">
+                <BarChart data={weeklyData} margin={{ top: 10, right: 10, bottom: 10, left: 0 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="week" tickLine={false} axisLine={false} tick={{ fontSize: 10 }} />
+                  <YAxis allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="deployments" fill="var(--color-deployments)" radius={4} />
+                  <Bar dataKey="failures" fill="var(--color-failures)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-3">
+            <MetricTrendCard
+              title="Deployment Frequency Trend"
+              teamId={selectedTeamId}
+              source="dora"
+              snapshotKey="team"
+              series={FREQUENCY_TREND_SERIES}
+              refreshToken={metrics.lastRefreshed}
+            />
+            <MetricTrendCard
+              title="Lead Time & Restore Trend"
+              teamId={selectedTeamId}
+              source="dora"
+              snapshotKey="team"
+              series={LEAD_TIME_TREND_SERIES}
+              refreshToken={metrics.lastRefreshed}
+            />
+            <MetricTrendCard
+              title="Change Failure Rate Trend"
+              teamId={selectedTeamId}
+              source="dora"
+              snapshotKey="team"
+              series={FAILURE_TREND_SERIES}
+              refreshToken={metrics.lastRefreshed}
+            />
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-3">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Deployment Sources</CardTitle>
+                <CardDescription>What was counted as a deployment in each repository.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="h-72">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Repository</TableHead>
+                        <TableHead className="text-right">Source</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {Object.entries(metrics.deploymentSourceByRepo || {}).map(([repo, source]) => (
+                        <TableRow key={repo}>
+                          <TableCell className="font-medium">{repo}</TableCell>
+                          <TableCell className="text-right">
+                            <Badge variant={source === 'none' ? "outline" : "secondary"}>{source === 'none' ? "no data" : source}</Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="text-lg">Recent Deployments</CardTitle>
+                <CardDescription>Most recent deployments in the window, newest first.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="h-72">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Deployed</TableHead>
+                        <TableHead>Repository</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead className="text-right">Commits</TableHead>
+                        <TableHead className="text-right">Outcome</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {(metrics.recentDeployments || []).map(deployment => (
+                        <TableRow key={`${deployment.repoFullName}-${deployment.deployedAt}-${deployment.name}`}>
+                          <TableCell className="whitespace-nowrap">{new Date(deployment.deployedAt).toLocaleString()}</TableCell>
+                          <TableCell>{deployment.repoFullName}</TableCell>
+                          <TableCell className="font-mono text-xs">{deployment.name}</TableCell>
+                          <TableCell className="text-right">{deployment.commitCount}</TableCell>
+                          <TableCell className="text-right space-x-1">
+                            {deployment.isFailure && <Badge variant="destructive">failed</Badge>}
+                            {deployment.isRemediation && <Badge variant="secondary">fix</Badge>}
+                            {!deployment.isFailure && !deployment.isRemediation && <span className="text-muted-foreground">—</span>}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
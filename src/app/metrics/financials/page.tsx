@@ -0,0 +1,367 @@
+// src/app/metrics/financials/page.tsx
+"use client";
+
+import * as React from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Wallet, CalendarRange, TrendingUp, Clock, AlertTriangle, Users } from "lucide-react";
+import { getTeamFinancials } from "@/lib/actions";
+import type { Team } from "../../config/_components/types";
+import { useGetTeams } from '@/hooks/use-team-queries';
+import type { CostPeriodSummary, TeamFinancials } from '@/lib/cost';
+import { BASE_CURRENCY, RATE_UNITS } from '@/lib/constants';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+} from "@/components/ui/chart";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid } from "recharts";
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const burnChartConfig = {
+  cost: { label: "Cost", color: "hsl(var(--chart-1))" },
+  remaining: { label: "Projected Remainder", color: "hsl(var(--chart-4))" },
+};
+
+
+export default function FinancialsPage() {
+  const { data: teamsData, isLoading: isLoadingTeams, error: teamsError } = useGetTeams();
+  const teams: Team[] = teamsData || [];
+
+  const [selectedTeamId, setSelectedTeamId] = useState<string>("");
+  const [financials, setFinancials] = useState<TeamFinancials | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isLoadingFinancials, setIsLoadingFinancials] = useState(false);
+
+  useEffect(() => {
+    async function fetchFinancials() {
+      if (selectedTeamId) {
+        setIsLoadingFinancials(true);
+        setFinancials(null);
+        setMessage(null);
+        const result = await getTeamFinancials(selectedTeamId);
+        setFinancials(result.data || null);
+        setMessage(result.success ? null : result.message);
+        setIsLoadingFinancials(false);
+      } else {
+        setFinancials(null);
+        setMessage(null);
+      }
+    }
+    fetchFinancials();
+  }, [selectedTeamId]);
+
+  const currencyFormatter = useMemo(() => new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency: financials?.settings.reportingCurrency || BASE_CURRENCY,
+    maximumFractionDigits: 0,
+  }), [financials]);
+  const formatCurrency = (value: number | null | undefined) => value === null || value === undefined ? "N/A" : currencyFormatter.format(value);
+
+  const burnData = useMemo(() => (financials?.monthly || []).map(month => ({
+    month: month.label,
+    cost: Math.round(month.cost),
+    remaining: Math.round(Math.max(0, (month.projectedCost ?? month.cost) - month.cost)),
+  })), [financials]);
+
+  if (teamsError) {
+    return <div className="container mx-auto py-10 text-center text-destructive">Error loading teams: {teamsError.message}</div>;
+  }
+
+  const currentMonth = financials?.monthly[financials.monthly.length - 1];
+  const currentQuarter = financials?.quarterly[financials.quarterly.length - 1];
+  const rateUnitLabel = RATE_UNITS.find(unit => unit.value === financials?.settings.rateUnit)?.label.toLowerCase();
+
+  const renderPeriodRows = (periods: CostPeriodSummary[]) => [...periods].reverse().map(period => (
+    <TableRow key={period.label}>
+      <TableCell className="font-medium">{period.label}</TableCell>
+      <TableCell className="text-right">{formatCurrency(period.cost)}</TableCell>
+      <TableCell className="text-right">{period.projectedCost !== undefined ? formatCurrency(period.projectedCost) : "—"}</TableCell>
+      <TableCell className="text-right">{Math.round(period.capacityHours).toLocaleString()}</TableCell>
+      <TableCell className="text-right">{period.fullTimeEquivalent.toFixed(1)}</TableCell>
+      <TableCell className="text-right">{period.workingDays}</TableCell>
+    </TableRow>
+  ));
+
+  const periodTableHeader = (
+    <TableHeader>
+      <TableRow>
+        <TableHead>Period</TableHead>
+        <TableHead className="text-right">Cost</TableHead>
+        <TableHead className="text-right">Projected</TableHead>
+        <TableHead className="text-right">Capacity (h)</TableHead>
+        <TableHead className="text-right">FTE</TableHead>
+        <TableHead className="text-right">Working Days</TableHead>
+      </TableRow>
+    </TableHeader>
+  );
+
+  return (
+    <div className="container mx-auto py-10 space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Financials</CardTitle>
+            <CardDescription>
+              Team cost, capacity and burn from the roster, with cost per delivered unit from the latest GitHub and Jira metrics.
+            </CardDescription>
+          </div>
+          <Select onValueChange={setSelectedTeamId} value={selectedTeamId || undefined} disabled={isLoadingTeams}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder={isLoadingTeams ? "Loading teams..." : "Select Team"} />
+            </SelectTrigger>
+            <SelectContent>
+              {teams.map((team) => (
+                <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        {financials && (
+          <CardContent className="pt-2 text-sm text-muted-foreground text-right">
+            Reported in {financials.settings.reportingCurrency}. Rates {rateUnitLabel}, {financials.settings.hoursPerDay}h days, {financials.settings.workingDaysPerWeek}-day weeks, {financials.settings.holidayCount} holidays.{" "}
+            <Link href="/config" className="underline">Change cost settings</Link>
+          </CardContent>
+        )}
+      </Card>
+
+      {(isLoadingTeams || isLoadingFinancials) && <p className="text-center py-6">Loading financials...</p>}
+      {!selectedTeamId && !isLoadingTeams && <p className="text-center text-muted-foreground py-6">Please select a team to view financials.</p>}
+
+      {selectedTeamId && message && (
+        <Card className="border-yellow-500 bg-yellow-50/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-yellow-700">
+              <AlertTriangle /> Info
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-yellow-700">{message}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {selectedTeamId && financials && financials.missingExchangeRates.length > 0 && (
+        <Card className="border-yellow-500 bg-yellow-50/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-yellow-700">
+              <AlertTriangle /> Missing Exchange Rates
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-yellow-700">
+              No exchange rate for {financials.missingExchangeRates.join(", ")}, so members paid in {financials.missingExchangeRates.length > 1 ? "these currencies" : "it"} are left out of the totals.
+              Add rates on the <Link href="/config" className="underline">Rates tab</Link>.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {selectedTeamId && financials && currentMonth && currentQuarter && (
+        <>
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">This Month</CardTitle>
+                <Wallet className="h-5 w-5 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatCurrency(currentMonth.cost)}</div>
+                <p className="text-xs text-muted-foreground">to date · {formatCurrency(currentMonth.projectedCost ?? currentMonth.cost)} projected</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">This Quarter</CardTitle>
+                <CalendarRange className="h-5 w-5 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatCurrency(currentQuarter.cost)}</div>
+                <p className="text-xs text-muted-foreground">to date · {formatCurrency(currentQuarter.projectedCost ?? currentQuarter.cost)} projected</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Year to Date</CardTitle>
+                <TrendingUp className="h-5 w-5 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatCurrency(financials.yearToDateCost)}</div>
+                <p className="text-xs text-muted-foreground">{formatCurrency(financials.annualRunRate)} annual run rate</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Capacity This Month</CardTitle>
+                <Clock className="h-5 w-5 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{Math.round(currentMonth.capacityHours).toLocaleString()} <span className="text-sm font-normal text-muted-foreground">hours</span></div>
+                <p className="text-xs text-muted-foreground">{currentMonth.fullTimeEquivalent.toFixed(1)} FTE over {currentMonth.workingDays} working days</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Cost per Delivered Unit</CardTitle>
+              <CardDescription>
+                Team cost over each trailing window divided by merged pull requests, resolved Jira issues and story points completed in closed sprints.
+                N/A means the source has no data for the window; refresh GitHub and Jira metrics to update the counts.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Window</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                    <TableHead className="text-right">Merged PRs</TableHead>
+                    <TableHead className="text-right">Per PR</TableHead>
+                    <TableHead className="text-right">Resolved Issues</TableHead>
+                    <TableHead className="text-right">Per Issue</TableHead>
+                    <TableHead className="text-right">Story Points</TableHead>
+                    <TableHead className="text-right">Per Point</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {financials.efficiency.map(row => (
+                    <TableRow key={row.windowDays}>
+                      <TableCell className="font-medium">Last {row.windowDays} days</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.cost)}</TableCell>
+                      <TableCell className="text-right">{row.mergedPullRequests ?? "N/A"}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatCurrency(row.costPerMergedPullRequest)}</TableCell>
+                      <TableCell className="text-right">{row.resolvedIssues ?? "N/A"}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatCurrency(row.costPerResolvedIssue)}</TableCell>
+                      <TableCell className="text-right">{row.storyPoints ?? "N/A"}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatCurrency(row.costPerStoryPoint)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Monthly Burn</CardTitle>
+              <CardDescription>Cost per calendar month; the current month shows cost to date and the projected remainder.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={burnChartConfig} className="h-[300px] w-full">
+                <BarChart data={burnData} margin={{ top: 10, right: 10, bottom: 10, left: 10 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="month" tickLine={false} axisLine={false} tick={{ fontSize: 10 }} />
+                  <YAxis tickFormatter={value => currencyFormatter.format(value)} width={80} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="cost" stackId="burn" fill="var(--color-cost)" />
+                  <Bar dataKey="remaining" stackId="burn" fill="var(--color-remaining)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Quarters</CardTitle>
+                <CardDescription>Calendar quarters, newest first.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  {periodTableHeader}
+                  <TableBody>{renderPeriodRows(financials.quarterly)}</TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Months</CardTitle>
+                <CardDescription>Calendar months, newest first.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="h-72">
+                  <Table>
+                    {periodTableHeader}
+                    <TableBody>{renderPeriodRows(financials.monthly)}</TableBody>
+                  </Table>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-3">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Monthly Cost by Role</CardTitle>
+                <CardDescription>Projected for the current month.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Role</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {Object.entries(financials.projectedMonthlyCostByRole).sort((a, b) => b[1] - a[1]).map(([role, cost]) => (
+                      <TableRow key={role}>
+                        <TableCell className="font-medium">{role}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(cost)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Users className="h-5 w-5" /> Monthly Cost by Member
+                </CardTitle>
+                <CardDescription>Projected for the current month, including members joining or leaving during it.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {financials.members.length > 0 ? (
+                  <ScrollArea className="h-72">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Name</TableHead>
+                          <TableHead>Role</TableHead>
+                          <TableHead className="text-right">Allocation</TableHead>
+                          <TableHead className="text-right">Cost</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {financials.members.map(member => (
+                          <TableRow key={member.memberId}>
+                            <TableCell className="font-medium">{member.name}</TableCell>
+                            <TableCell>{member.role}</TableCell>
+                            <TableCell className="text-right">{member.allocationPercent}%</TableCell>
+                            <TableCell className="text-right">{formatCurrency(member.projectedMonthlyCost)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </ScrollArea>
+                ) : (
+                  <p className="text-muted-foreground">Nobody is on the team this month.</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
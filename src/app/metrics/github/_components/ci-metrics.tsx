@@ -0,0 +1,159 @@
+// src/app/metrics/github/_components/ci-metrics.tsx
+"use client";
+
+import * as React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { ShieldCheck, Timer, Hourglass, Shuffle, Workflow, XCircle } from "lucide-react";
+import type { GithubCiDurationStats, GithubCiMetrics } from '@/lib/db';
+
+// Runs take minutes and queue for seconds, so durations are shown in the largest whole unit.
+const formatSeconds = (seconds: number) => {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.floor(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m ${Math.round(seconds % 60)}s`;
+};
+
+interface CiMetricsProps {
+  metrics: GithubCiMetrics;
+}
+
+export function CiMetrics({ metrics }: CiMetricsProps) {
+  const renderDurationCard = (title: string, stats: GithubCiDurationStats, icon: React.ElementType, unitLabel: string) => (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        {React.createElement(icon, { className: "h-5 w-5 text-muted-foreground" })}
+      </CardHeader>
+      <CardContent>
+        {stats.count > 0 ? (
+          <>
+            <div className="text-2xl font-bold">{formatSeconds(stats.medianSeconds)} <span className="text-sm font-normal text-muted-foreground">median</span></div>
+            <p className="text-xs text-muted-foreground">p90 {formatSeconds(stats.p90Seconds)} · {stats.count} {unitLabel}</p>
+          </>
+        ) : (
+          <p className="text-muted-foreground">No data</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  if (metrics.runs === 0) {
+    return <p className="text-sm text-muted-foreground">No GitHub Actions workflow runs in this period.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Workflow Success Rate</CardTitle>
+            <ShieldCheck className="h-5 w-5 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{(metrics.successRate * 100).toFixed(1)}%</div>
+            <Progress value={metrics.successRate * 100} className="mt-2 h-2" />
+            <p className="text-xs text-muted-foreground mt-1">{metrics.succeeded} passed · {metrics.failed} failed · {metrics.runs} runs</p>
+          </CardContent>
+        </Card>
+        {renderDurationCard("Run Duration", metrics.duration, Timer, "finished runs")}
+        {renderDurationCard("Queue Time", metrics.queueTime, Hourglass, "runs with job details")}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Flaky Commits</CardTitle>
+            <Shuffle className="h-5 w-5 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{metrics.flakyCommits}</div>
+            <p className="text-xs text-muted-foreground">Workflow failed, then passed on the same commit</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Workflow className="h-5 w-5" /> Workflows
+            </CardTitle>
+            <CardDescription>Runs started in this period, most failures first.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="h-[250px]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Workflow</TableHead>
+                    <TableHead className="text-right">Runs</TableHead>
+                    <TableHead className="text-right">Success</TableHead>
+                    <TableHead className="text-right">Median</TableHead>
+                    <TableHead className="text-right">Flaky</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {metrics.workflows.map(workflow => (
+                    <TableRow key={`${workflow.repoFullName}-${workflow.workflowName}`}>
+                      <TableCell>
+                        <div className="font-medium">{workflow.workflowName}</div>
+                        <div className="text-xs text-muted-foreground">{workflow.repoFullName}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{workflow.runs}</TableCell>
+                      <TableCell className="text-right">
+                        {workflow.succeeded + workflow.failed > 0 ? `${(workflow.successRate * 100).toFixed(0)}%` : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">{workflow.medianDurationSeconds ? formatSeconds(workflow.medianDurationSeconds) : "—"}</TableCell>
+                      <TableCell className="text-right">
+                        {workflow.flakyCommits > 0 ? <Badge variant="secondary">{workflow.flakyCommits}</Badge> : <span className="text-muted-foreground">0</span>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <XCircle className="h-5 w-5" /> Most-Failing Jobs
+            </CardTitle>
+            <CardDescription>Job failures in this period, including attempts that were later re-run.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {metrics.failingJobs.length > 0 ? (
+              <ScrollArea className="h-[250px]">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Job</TableHead>
+                      <TableHead>Workflow</TableHead>
+                      <TableHead className="text-right">Failures</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {metrics.failingJobs.map(job => (
+                      <TableRow key={`${job.repoFullName}-${job.workflowName}-${job.jobName}`}>
+                        <TableCell className="font-medium">{job.jobName}</TableCell>
+                        <TableCell>
+                          <div>{job.workflowName}</div>
+                          <div className="text-xs text-muted-foreground">{job.repoFullName}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{job.failures}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            ) : (
+              <p className="text-muted-foreground text-center py-4">No failed jobs in this period.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
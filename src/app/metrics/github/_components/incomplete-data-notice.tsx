@@ -0,0 +1,40 @@
+// src/app/metrics/github/_components/incomplete-data-notice.tsx
+"use client";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import type { GithubFetchScope, GithubIncompleteFetch } from '@/lib/db';
+
+const SCOPE_LABELS: Record<GithubFetchScope, string> = {
+  languages: "Languages",
+  tags: "Tags",
+  clonedLoC: "Cloned LoC",
+  commits: "Commits",
+  pullRequests: "Pull requests",
+  workflowRuns: "Workflow runs",
+};
+
+interface IncompleteDataNoticeProps {
+  incomplete?: GithubIncompleteFetch[];
+}
+
+export function IncompleteDataNotice({ incomplete }: IncompleteDataNoticeProps) {
+  if (!incomplete || incomplete.length === 0) return null;
+
+  return (
+    <Alert variant="destructive" className="mt-4">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Incomplete data</AlertTitle>
+      <AlertDescription>
+        <p>Some GitHub requests failed during the last refresh (for example due to rate limits), so these figures are missing data:</p>
+        <ul className="mt-2 list-disc pl-5 text-xs">
+          {incomplete.map(entry => (
+            <li key={`${entry.repoFullName}-${entry.scope}`}>
+              <span className="font-medium">{entry.repoFullName}</span> · {SCOPE_LABELS[entry.scope]}: {entry.reason}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,146 @@
+// src/app/metrics/github/_components/pull-request-metrics.tsx
+"use client";
+
+import * as React from 'react';
+import { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid } from "recharts";
+import { GitPullRequest, GitMerge, Timer, Hourglass, Repeat, Users } from "lucide-react";
+import type { DurationStats, GithubPullRequestMetrics } from '@/lib/db';
+import { GITHUB_PR_SIZE_BUCKETS } from '@/lib/constants';
+
+const sizeChartConfig = {
+  count: { label: "Pull Requests", color: "hsl(var(--chart-1))" },
+};
+
+// Review and merge latency is usually hours, so sub-day durations are shown in hours.
+const formatDuration = (days: number) => days < 1 ? `${(days * 24).toFixed(1)}h` : `${days.toFixed(1)}d`;
+
+interface PullRequestMetricsProps {
+  metrics: GithubPullRequestMetrics;
+}
+
+export function PullRequestMetrics({ metrics }: PullRequestMetricsProps) {
+  const sizeData = useMemo(() => GITHUB_PR_SIZE_BUCKETS.map(bucket => ({
+    size: bucket.maxLines === Infinity ? `${bucket.label} (>${GITHUB_PR_SIZE_BUCKETS[GITHUB_PR_SIZE_BUCKETS.length - 2].maxLines})` : `${bucket.label} (≤${bucket.maxLines})`,
+    count: metrics.sizeDistribution[bucket.label] || 0,
+  })), [metrics]);
+
+  const renderDurationCard = (title: string, stats: DurationStats, icon: React.ElementType, unitLabel: string) => (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        {React.createElement(icon, { className: "h-5 w-5 text-muted-foreground" })}
+      </CardHeader>
+      <CardContent>
+        {stats.count > 0 ? (
+          <>
+            <div className="text-2xl font-bold">{formatDuration(stats.p50Days)} <span className="text-sm font-normal text-muted-foreground">median</span></div>
+            <p className="text-xs text-muted-foreground">p85 {formatDuration(stats.p85Days)} · avg {formatDuration(stats.averageDays)} · {stats.count} {unitLabel}</p>
+          </>
+        ) : (
+          <p className="text-muted-foreground">No data</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Pull Requests</CardTitle>
+            <GitPullRequest className="h-5 w-5 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{metrics.opened} opened</div>
+            <p className="text-xs text-muted-foreground">{metrics.merged} merged · {metrics.closed} closed without merging</p>
+          </CardContent>
+        </Card>
+        {renderDurationCard("Time to First Review", metrics.timeToFirstReview, Timer, "reviewed PRs")}
+        {renderDurationCard("Time to Merge", metrics.timeToMerge, Hourglass, "merged PRs")}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Review Rounds</CardTitle>
+            <Repeat className="h-5 w-5 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            {metrics.reviewRounds.reviewedCount > 0 ? (
+              <>
+                <div className="text-2xl font-bold">{metrics.reviewRounds.averageRounds.toFixed(1)} <span className="text-sm font-normal text-muted-foreground">avg per merged PR</span></div>
+                <p className="text-xs text-muted-foreground">Max {metrics.reviewRounds.maxRounds} · {metrics.reviewRounds.reviewedCount} reviewed merged PRs</p>
+              </>
+            ) : (
+              <p className="text-muted-foreground">No reviewed PRs merged</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <GitMerge className="h-5 w-5" /> PR Size Distribution
+            </CardTitle>
+            <CardDescription>PRs opened in this period by lines changed (additions + deletions).</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={sizeChartConfig} className="h-[250px] w-full">
+              <BarChart data={sizeData} margin={{ top: 10, right: 10, bottom: 10, left: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="size" tickLine={false} axisLine={false} tick={{ fontSize: 10 }} />
+                <YAxis allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Users className="h-5 w-5" /> Reviewer Load
+            </CardTitle>
+            <CardDescription>Reviews submitted in this period, excluding authors reviewing their own PRs.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {metrics.reviewerLoad.length > 0 ? (
+              <ScrollArea className="h-[250px]">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Reviewer</TableHead>
+                      <TableHead className="text-right">PRs Reviewed</TableHead>
+                      <TableHead className="text-right">Reviews</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {metrics.reviewerLoad.map(reviewer => (
+                      <TableRow key={reviewer.login}>
+                        <TableCell className="font-medium">{reviewer.login}</TableCell>
+                        <TableCell className="text-right">{reviewer.pullRequestsReviewed}</TableCell>
+                        <TableCell className="text-right">{reviewer.reviews}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            ) : (
+              <p className="text-muted-foreground text-center py-4">No reviews submitted in this period.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
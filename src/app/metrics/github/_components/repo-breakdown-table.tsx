@@ -0,0 +1,171 @@
+// src/app/metrics/github/_components/repo-breakdown-table.tsx
+"use client";
+
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { ArrowDown, ArrowUp, ArrowUpDown, FolderGit2 } from "lucide-react";
+import type { GithubRepoPeriodMetrics, GithubRepoSnapshotMetrics } from '@/lib/db';
+
+// A repo with no commit in this many days is flagged as dormant on the snapshot tab.
+const DORMANT_AFTER_DAYS = 90;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+type SortKey = 'repoFullName' | 'loc' | 'lastCommitDate' | 'commits' | 'committers' | 'linesAdded' | 'linesDeleted';
+
+interface RepoRow {
+  repoFullName: string;
+  topLanguage: string | null;
+  loc: number;
+  locIsEstimate: boolean;
+  latestTag: string | null;
+  lastCommitDate: string | null;
+  commits: number;
+  committers: number;
+  linesAdded: number;
+  linesDeleted: number;
+}
+
+interface RepoBreakdownTableProps {
+  repos: GithubRepoSnapshotMetrics[];
+  // When given, the table shows commit activity for that period and dormancy means no commits in it.
+  periodRepos?: GithubRepoPeriodMetrics[];
+  periodLabel?: string;
+}
+
+export function RepoBreakdownTable({ repos, periodRepos, periodLabel }: RepoBreakdownTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>(periodRepos ? 'commits' : 'loc');
+  const [sortDescending, setSortDescending] = useState(true);
+
+  const rows = useMemo<RepoRow[]>(() => {
+    const periodByRepo = new Map((periodRepos || []).map(entry => [entry.repoFullName, entry]));
+    const snapshotByRepo = new Map(repos.map(entry => [entry.repoFullName, entry]));
+    const repoFullNames = Array.from(new Set([...snapshotByRepo.keys(), ...periodByRepo.keys()]));
+
+    return repoFullNames.map(repoFullName => {
+      const snapshot = snapshotByRepo.get(repoFullName);
+      const period = periodByRepo.get(repoFullName);
+      const topLanguage = Object.entries(snapshot?.apiBytesByLanguage || {}).sort((a, b) => b[1] - a[1])[0]?.[0] || null;
+      return {
+        repoFullName,
+        topLanguage,
+        loc: snapshot?.clonedTotalLines ?? snapshot?.apiEstimatedTotalLines ?? 0,
+        locIsEstimate: snapshot?.clonedTotalLines === null || snapshot?.clonedTotalLines === undefined,
+        latestTag: snapshot?.latestTag?.name || null,
+        lastCommitDate: snapshot?.lastCommitDate || null,
+        commits: period?.commits || 0,
+        committers: period?.committers.length || 0,
+        linesAdded: period?.linesAdded || 0,
+        linesDeleted: period?.linesDeleted || 0,
+      };
+    });
+  }, [repos, periodRepos]);
+
+  const sortedRows = useMemo(() => {
+    const direction = sortDescending ? -1 : 1;
+    return [...rows].sort((a, b) => {
+      const left = a[sortKey] ?? '';
+      const right = b[sortKey] ?? '';
+      if (left < right) return -direction;
+      if (left > right) return direction;
+      return a.repoFullName.localeCompare(b.repoFullName);
+    });
+  }, [rows, sortKey, sortDescending]);
+
+  const isDormant = (row: RepoRow) => periodRepos
+    ? row.commits === 0
+    : !row.lastCommitDate || Date.now() - new Date(row.lastCommitDate).getTime() > DORMANT_AFTER_DAYS * MS_PER_DAY;
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDescending(!sortDescending);
+    } else {
+      setSortKey(key);
+      setSortDescending(key !== 'repoFullName');
+    }
+  };
+
+  const renderSortableHead = (key: SortKey, label: string, className?: string) => {
+    const Icon = key !== sortKey ? ArrowUpDown : sortDescending ? ArrowDown : ArrowUp;
+    return (
+      <TableHead className={className}>
+        <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => toggleSort(key)}>
+          {label} <Icon className="h-3 w-3" />
+        </button>
+      </TableHead>
+    );
+  };
+
+  const dormantCount = rows.filter(isDormant).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FolderGit2 className="h-5 w-5" /> Per-Repository Breakdown
+        </CardTitle>
+        <CardDescription>
+          {periodRepos
+            ? `Commit activity per repository in ${periodLabel || "this period"}. ${dormantCount} of ${rows.length} had no commits.`
+            : `Size and activity per repository. ${dormantCount} of ${rows.length} have had no commits in the last ${DORMANT_AFTER_DAYS} days.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {rows.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {renderSortableHead('repoFullName', 'Repository')}
+                {periodRepos ? (
+                  <>
+                    {renderSortableHead('commits', 'Commits', 'text-right')}
+                    {renderSortableHead('committers', 'Committers', 'text-right')}
+                    {renderSortableHead('linesAdded', 'Lines Added', 'text-right')}
+                    {renderSortableHead('linesDeleted', 'Lines Deleted', 'text-right')}
+                  </>
+                ) : (
+                  <>
+                    <TableHead>Top Language</TableHead>
+                    {renderSortableHead('loc', 'LoC', 'text-right')}
+                    <TableHead>Latest Tag</TableHead>
+                    {renderSortableHead('lastCommitDate', 'Last Commit')}
+                  </>
+                )}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedRows.map(row => (
+                <TableRow key={row.repoFullName}>
+                  <TableCell className="font-medium">
+                    {row.repoFullName}
+                    {isDormant(row) && <Badge variant="outline" className="ml-2 text-muted-foreground">Dormant</Badge>}
+                  </TableCell>
+                  {periodRepos ? (
+                    <>
+                      <TableCell className="text-right">{row.commits.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{row.committers}</TableCell>
+                      <TableCell className="text-right text-green-600">+{row.linesAdded.toLocaleString()}</TableCell>
+                      <TableCell className="text-right text-red-600">-{row.linesDeleted.toLocaleString()}</TableCell>
+                    </>
+                  ) : (
+                    <>
+                      <TableCell>{row.topLanguage || "N/A"}</TableCell>
+                      <TableCell className="text-right">
+                        {row.loc.toLocaleString()}{row.locIsEstimate && <span className="text-xs text-muted-foreground"> (est.)</span>}
+                      </TableCell>
+                      <TableCell>{row.latestTag || "None"}</TableCell>
+                      <TableCell>{row.lastCommitDate ? new Date(row.lastCommitDate).toLocaleDateString() : "Over a year ago"}</TableCell>
+                    </>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-muted-foreground text-center py-4">No per-repository data yet. Refresh metrics to collect it.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -16,6 +16,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Separator } from '@/components/ui/separator';
+import { GITHUB_ACTIONS_HISTORY_DAYS, SCM_PROVIDERS } from '@/lib/constants';
+import { MetricTrendCard, type MetricTrendSeries } from '@/components/metric-trend-card';
+import { PullRequestMetrics } from './_components/pull-request-metrics';
+import { CiMetrics } from './_components/ci-metrics';
+import { IncompleteDataNotice } from './_components/incomplete-data-notice';
+import { RepoBreakdownTable } from './_components/repo-breakdown-table';
 
 const PERIODS = [
   { key: "overall_snapshot", label: "Overall Snapshot" },
@@ -29,6 +35,29 @@ const PERIODS = [
 
 const API_ESTIMATED_BYTES_PER_LINE = 50; 
 
+const PERIOD_TREND_SERIES: MetricTrendSeries<GithubMetricsPeriodData>[] = [
+  { key: "linesAdded", label: "Lines Added", select: d => d.linesAdded_period },
+];
+
+const COMMITTER_TREND_SERIES: MetricTrendSeries<GithubMetricsPeriodData>[] = [
+  { key: "uniqueCommitters", label: "Unique Committers", select: d => d.uniqueCommitters_period },
+];
+
+const PULL_REQUEST_TREND_SERIES: MetricTrendSeries<GithubMetricsPeriodData>[] = [
+  { key: "prsOpened", label: "Opened", select: d => d.pullRequests_period?.opened },
+  { key: "prsMerged", label: "Merged", select: d => d.pullRequests_period?.merged },
+];
+
+const CI_TREND_SERIES: MetricTrendSeries<GithubMetricsPeriodData>[] = [
+  { key: "ciSuccessRate", label: "Success Rate (%)", select: d => d.ci_period?.runs ? d.ci_period.successRate * 100 : undefined },
+  { key: "ciFlakyCommits", label: "Flaky Commits", select: d => d.ci_period?.flakyCommits },
+];
+
+const LOC_TREND_SERIES: MetricTrendSeries<GithubMetricsPeriodData>[] = [
+  { key: "clonedLoC", label: "Actual LoC (Cloned)", select: d => d.clonedActualTotalLines },
+  { key: "estimatedLoC", label: "Estimated LoC (API)", select: d => d.apiEstimatedTotalLines_current },
+];
+
 export default function GithubMetricsPage() {
   const { data: teamsData, isLoading: isLoadingTeams, error: teamsError } = useGetTeams();
   const teams: Team[] = teamsData || [];
@@ -54,16 +83,16 @@ export default function GithubMetricsPage() {
     fetchTeamMetrics();
   }, [selectedTeamId]);
 
-  const handleRefreshMetrics = async () => {
+  const handleRefreshMetrics = async (forceFullResync = false) => {
     if (!selectedTeamId) {
       toast({ title: "Error", description: "Please select a team.", variant: "destructive" });
       return;
     }
     setIsRefreshing(true);
-    const result = await refreshGithubMetrics(selectedTeamId); // For this page, refresh uses saved config
+    const result = await refreshGithubMetrics(selectedTeamId, undefined, { forceFullResync }); // For this page, refresh uses saved config
     if (result.success && result.data) {
       setMetricsByPeriod(result.data);
-      toast({ title: "Success", description: result.message || "GitHub metrics refreshed." });
+      toast({ title: "Success", description: result.message || "Code metrics refreshed." });
     } else {
       const existingMetrics = await getGithubMetrics(selectedTeamId); 
       setMetricsByPeriod(existingMetrics);
@@ -73,6 +102,9 @@ export default function GithubMetricsPage() {
   };
 
   const overallSnapshot = useMemo(() => metricsByPeriod["overall_snapshot"], [metricsByPeriod]);
+  const providerOption = SCM_PROVIDERS.find(option => option.value === (overallSnapshot?.scmProvider || "github")) || SCM_PROVIDERS[0];
+  const providerLabel = providerOption.label;
+  const hasWorkflowRuns = providerOption.ciRuns;
   
   const apiEstimatedLinesByLanguageData = useMemo(() => {
     if (!overallSnapshot?.apiEstimatedLinesByLanguage_current) return [];
@@ -93,14 +125,14 @@ export default function GithubMetricsPage() {
     return <div className="container mx-auto py-10 text-center text-destructive">Error loading teams: {teamsError.message}</div>;
   }
   
-  const anyMetricsExist = overallSnapshot && !overallSnapshot.info;
+  const anyMetricsExist = overallSnapshot && (!overallSnapshot.info || !!overallSnapshot.info.incomplete);
 
   return (
     <div className="container mx-auto py-10 space-y-6">
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
           <div>
-            <CardTitle>GitHub Metrics Dashboard</CardTitle>
+            <CardTitle>Code Metrics Dashboard</CardTitle>
             <CardDescription>Aggregated insights for the selected team's repositories.</CardDescription>
           </div>
           <div className="flex items-center gap-4">
@@ -114,10 +146,18 @@ export default function GithubMetricsPage() {
                 ))}
               </SelectContent>
             </Select>
-            <Button onClick={handleRefreshMetrics} disabled={isRefreshing || !selectedTeamId || isLoadingMetrics}>
+            <Button onClick={() => handleRefreshMetrics()} disabled={isRefreshing || !selectedTeamId || isLoadingMetrics}>
               <RefreshCw className={`mr-2 h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
               Refresh All Metrics
             </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleRefreshMetrics(true)}
+              disabled={isRefreshing || !selectedTeamId || isLoadingMetrics}
+              title="Ignore stored sync cursors: re-fetch a full year of commits and re-clone every repository."
+            >
+              Force Full Resync
+            </Button>
           </div>
         </CardHeader>
       </Card>
@@ -149,11 +189,12 @@ export default function GithubMetricsPage() {
           </TabsList>
           
           <TabsContent value="overall_snapshot">
+            <IncompleteDataNotice incomplete={overallSnapshot?.info?.incomplete} />
             <div className="my-4 p-4 border border-amber-500 bg-amber-50 rounded-md">
                 <p className="text-sm text-amber-700">
                     <AlertTriangle className="inline h-4 w-4 mr-1" />
                     <strong>Note on "Lines of Code":</strong> 
-                    "Estimated LoC (API)" figures are rough estimations based on code byte counts from the GitHub API (using a general heuristic of ~{API_ESTIMATED_BYTES_PER_LINE} bytes per line). 
+                    "Estimated LoC (API)" figures are rough estimations based on code byte counts from the {providerLabel} API (using a general heuristic of ~{API_ESTIMATED_BYTES_PER_LINE} bytes per line). 
                     "Actual LoC (Cloned)" figures are calculated by cloning the repo and counting non-empty lines in code files (more accurate but resource-intensive).
                     "Lines of Code Added" in periodic tabs are actual lines from commit data.
                 </p>
@@ -166,7 +207,11 @@ export default function GithubMetricsPage() {
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">{(overallSnapshot?.apiEstimatedTotalLines_current || 0).toLocaleString()} Lines</div>
-                  <p className="text-xs text-muted-foreground">(From ~{(overallSnapshot?.apiTotalBytes_current || 0).toLocaleString()} bytes)</p>
+                  <p className="text-xs text-muted-foreground">
+                    {providerOption.languageBytes
+                      ? `(From ~${(overallSnapshot?.apiTotalBytes_current || 0).toLocaleString()} bytes)`
+                      : `(${providerLabel} doesn't report language sizes; see the cloned count)`}
+                  </p>
                   <p className="text-xs text-muted-foreground mt-1">API Data Last Refreshed: {overallSnapshot?.apiLastRefreshed && overallSnapshot.apiLastRefreshed !== "N/A" ? new Date(overallSnapshot.apiLastRefreshed).toLocaleString() : "N/A"}</p>
                 </CardContent>
               </Card>
@@ -233,7 +278,7 @@ export default function GithubMetricsPage() {
               <Card className="mt-6">
                 <CardHeader>
                   <CardTitle>Estimated LoC Breakdown by Language (API)</CardTitle>
-                  <CardDescription>Estimated LoC by programming language (based on byte counts from GitHub API).</CardDescription>
+                  <CardDescription>Estimated LoC by programming language (based on byte counts from the {providerLabel} API).</CardDescription>
                 </CardHeader>
                 <CardContent>
                   <ScrollArea className="h-72">
@@ -321,6 +366,24 @@ export default function GithubMetricsPage() {
                     </CardContent>
                 </Card>
             )}
+
+            <div className="mt-6">
+              <MetricTrendCard
+                title="Lines of Code Trend"
+                description="Total LoC across past refreshes."
+                teamId={selectedTeamId}
+                source="github"
+                snapshotKey="overall_snapshot"
+                series={LOC_TREND_SERIES}
+                refreshToken={overallSnapshot?.apiLastRefreshed}
+              />
+            </div>
+
+            {overallSnapshot?.repos_current && (
+              <div className="mt-6">
+                <RepoBreakdownTable repos={overallSnapshot.repos_current} />
+              </div>
+            )}
           </TabsContent>
           
           {PERIODS.filter(p => p.key !== "overall_snapshot").map(period => {
@@ -331,8 +394,9 @@ export default function GithubMetricsPage() {
 
             return (
              <TabsContent key={period.key} value={period.key}>
-                {periodData && !periodData.info ? (
+                {periodData && (!periodData.info || periodData.info.incomplete) ? (
                   <div className="space-y-6">
+                    <IncompleteDataNotice incomplete={periodData.info?.incomplete} />
                     <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 mt-4">
                         <Card>
                             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -364,6 +428,71 @@ export default function GithubMetricsPage() {
                             </CardContent>
                         </Card>
                     </div>
+                    <div className="grid gap-6 lg:grid-cols-2">
+                      <MetricTrendCard
+                        title={`Lines Added (${period.label}) Trend`}
+                        description={`Lines added in the trailing ${period.label.toLowerCase()} window, per refresh.`}
+                        teamId={selectedTeamId}
+                        source="github"
+                        snapshotKey={period.key}
+                        series={PERIOD_TREND_SERIES}
+                        refreshToken={periodData.periodLastRefreshed}
+                      />
+                      <MetricTrendCard
+                        title={`Committers (${period.label}) Trend`}
+                        description={`Unique committers in the trailing ${period.label.toLowerCase()} window, per refresh.`}
+                        teamId={selectedTeamId}
+                        source="github"
+                        snapshotKey={period.key}
+                        series={COMMITTER_TREND_SERIES}
+                        refreshToken={periodData.periodLastRefreshed}
+                      />
+                    </div>
+                    {periodData.pullRequests_period ? (
+                      <>
+                        <Separator />
+                        <h3 className="text-lg font-semibold">Pull Requests</h3>
+                        <PullRequestMetrics metrics={periodData.pullRequests_period} />
+                        <MetricTrendCard
+                          title={`Pull Requests (${period.label}) Trend`}
+                          description={`PRs opened and merged in the trailing ${period.label.toLowerCase()} window, per refresh.`}
+                          teamId={selectedTeamId}
+                          source="github"
+                          snapshotKey={period.key}
+                          series={PULL_REQUEST_TREND_SERIES}
+                          refreshToken={periodData.periodLastRefreshed}
+                        />
+                      </>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">Pull request metrics will appear after the next refresh.</p>
+                    )}
+                    <Separator />
+                    <h3 className="text-lg font-semibold">{hasWorkflowRuns ? "GitHub Actions CI" : "CI"}</h3>
+                    {periodData.ci_period ? (
+                      <>
+                        <CiMetrics metrics={periodData.ci_period} />
+                        <MetricTrendCard
+                          title={`CI Reliability (${period.label}) Trend`}
+                          description={`Workflow success rate and flaky commits in the trailing ${period.label.toLowerCase()} window, per refresh.`}
+                          teamId={selectedTeamId}
+                          source="github"
+                          snapshotKey={period.key}
+                          series={CI_TREND_SERIES}
+                          refreshToken={periodData.periodLastRefreshed}
+                        />
+                      </>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        {!hasWorkflowRuns
+                          ? `CI run history isn't read from ${providerLabel}; see the Jenkins or Boomerang dashboards for pipeline metrics.`
+                          : parseInt(period.key, 10) > GITHUB_ACTIONS_HISTORY_DAYS
+                          ? `Workflow runs are fetched for the last ${GITHUB_ACTIONS_HISTORY_DAYS} days only; pick a shorter period for CI metrics.`
+                          : "CI metrics will appear after the next refresh."}
+                      </p>
+                    )}
+                    {periodData.repos_period && (
+                      <RepoBreakdownTable repos={overallSnapshot?.repos_current || []} periodRepos={periodData.repos_period} periodLabel={period.label} />
+                    )}
                     {periodData.apiProcessedRepoFullNames && periodData.apiProcessedRepoFullNames.length > 0 && (
                        <Card>
                           <CardHeader>
@@ -386,14 +515,20 @@ export default function GithubMetricsPage() {
                                 <CardTitle className="flex items-center gap-2">
                                   <UserCheck className="h-5 w-5"/> Unique Committer Names
                                 </CardTitle>
-                                <CardDescription>List of unique committers active in this period.</CardDescription>
+                                <CardDescription>List of unique committers active in this period, merged per person using the team&apos;s People registry.</CardDescription>
                             </CardHeader>
                             <CardContent>
                                 <ScrollArea className="h-48">
                                     <ul className="list-disc pl-5 space-y-1 text-sm">
-                                        {periodData.uniqueCommitterNames_period.map(name => (
-                                            <li key={`committer-${period.key}-${name}`}>{name}</li>
-                                        ))}
+                                        {periodData.resolvedCommitters_period
+                                          ? periodData.resolvedCommitters_period.map(committer => (
+                                              <li key={`committer-${period.key}-${committer.personId || committer.displayName}`}>
+                                                {committer.displayName} <span className="text-muted-foreground">({committer.count} commits)</span>
+                                              </li>
+                                            ))
+                                          : periodData.uniqueCommitterNames_period.map(name => (
+                                              <li key={`committer-${period.key}-${name}`}>{name}</li>
+                                            ))}
                                     </ul>
                                 </ScrollArea>
                             </CardContent>
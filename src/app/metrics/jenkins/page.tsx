@@ -0,0 +1,395 @@
+// src/app/metrics/jenkins/page.tsx
+"use client";
+
+import { useState, useEffect, useMemo } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { RefreshCw, ShieldCheck, Timer, Hammer, XCircle, AlertTriangle, TrendingUp } from "lucide-react";
+import { getJenkinsMetrics, refreshJenkinsMetrics } from "@/lib/actions";
+import { useToast } from "@/hooks/use-toast";
+import type { Team } from "../../config/_components/types";
+import { useGetTeams } from '@/hooks/use-team-queries';
+import type { JenkinsBuildResult, JenkinsPeriodMetrics, JenkinsTeamMetricsData } from '@/lib/db';
+import { JENKINS_PERIODS } from '@/lib/constants';
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+} from "@/components/ui/chart";
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid } from "recharts";
+import { MetricTrendCard, type MetricTrendSeries } from '@/components/metric-trend-card';
+
+const trendChartConfig = {
+  builds: { label: "Builds", color: "hsl(var(--chart-2))" },
+  medianMinutes: { label: "Median Duration (min)", color: "hsl(var(--chart-1))" },
+};
+
+const SUCCESS_TREND_SERIES: MetricTrendSeries<JenkinsPeriodMetrics>[] = [
+  { key: "successRate", label: "Build Success Rate (%)", select: d => d.succeededCount + d.failedCount + d.unstableCount > 0 ? d.successRate : undefined },
+];
+
+const DURATION_TREND_SERIES: MetricTrendSeries<JenkinsPeriodMetrics>[] = [
+  { key: "medianDurationMinutes", label: "Median Duration (min)", select: d => d.medianDurationSeconds ? d.medianDurationSeconds / 60 : undefined },
+  { key: "p90DurationMinutes", label: "p90 Duration (min)", select: d => d.p90DurationSeconds ? d.p90DurationSeconds / 60 : undefined },
+];
+
+const RESULT_BADGE_VARIANTS: Record<JenkinsBuildResult, "default" | "secondary" | "destructive" | "outline"> = {
+  success: "default",
+  failure: "destructive",
+  unstable: "destructive",
+  aborted: "outline",
+  not_built: "outline",
+  building: "secondary",
+};
+
+const formatDuration = (seconds?: number) => {
+  if (!seconds) return "—";
+  const minutes = Math.floor(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m ${Math.round(seconds % 60)}s`;
+};
+
+export default function JenkinsMetricsPage() {
+  const { data: teamsData, isLoading: isLoadingTeams, error: teamsError } = useGetTeams();
+  const teams: Team[] = teamsData || [];
+
+  const [selectedTeamId, setSelectedTeamId] = useState<string>("");
+  const [selectedPeriod, setSelectedPeriod] = useState<string>("30days");
+  const [metrics, setMetrics] = useState<JenkinsTeamMetricsData | null>(null);
+  const [isLoadingMetrics, setIsLoadingMetrics] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    async function fetchMetrics() {
+      if (selectedTeamId) {
+        setIsLoadingMetrics(true);
+        setMetrics(null);
+        setMetrics(await getJenkinsMetrics(selectedTeamId));
+        setIsLoadingMetrics(false);
+      } else {
+        setMetrics(null);
+      }
+    }
+    fetchMetrics();
+  }, [selectedTeamId]);
+
+  const handleRefreshMetrics = async () => {
+    if (!selectedTeamId) {
+      toast({ title: "Error", description: "Please select a team.", variant: "destructive" });
+      return;
+    }
+    setIsRefreshing(true);
+    const result = await refreshJenkinsMetrics(selectedTeamId);
+    setMetrics(result.data.metrics);
+    if (result.success) {
+      toast({ title: "Success", description: result.message });
+    } else {
+      toast({ title: "Error", description: result.message || "Failed to refresh metrics.", variant: "destructive" });
+    }
+    setIsRefreshing(false);
+  };
+
+  const period = metrics?.periods?.[selectedPeriod];
+  const periodConfig = JENKINS_PERIODS.find(p => p.key === selectedPeriod);
+  const periodLabel = periodConfig?.label.toLowerCase() || selectedPeriod;
+  const recentBuilds = useMemo(() => {
+    const since = new Date(Date.now() - (periodConfig?.days || 0) * 24 * 60 * 60 * 1000).toISOString();
+    return (metrics?.recentBuilds || []).filter(build => build.startedAt >= since);
+  }, [metrics, periodConfig]);
+  const trendData = useMemo(() => (period?.trend || []).map(point => ({
+    bucket: new Date(point.bucketStart).toLocaleDateString(),
+    builds: point.buildCount,
+    medianMinutes: point.medianDurationSeconds ? Number((point.medianDurationSeconds / 60).toFixed(1)) : null,
+  })), [period]);
+
+  if (teamsError) {
+    return <div className="container mx-auto py-10 text-center text-destructive">Error loading teams: {teamsError.message}</div>;
+  }
+
+  return (
+    <div className="container mx-auto py-10 space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Jenkins CI Metrics</CardTitle>
+            <CardDescription>Build success rate, build duration and the most-failing jobs from the team&apos;s Jenkins jobs.</CardDescription>
+          </div>
+          <div className="flex items-center gap-4">
+            <Select onValueChange={setSelectedTeamId} value={selectedTeamId || undefined} disabled={isLoadingTeams || isRefreshing}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder={isLoadingTeams ? "Loading teams..." : "Select Team"} />
+              </SelectTrigger>
+              <SelectContent>
+                {teams.map((team) => (
+                  <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select onValueChange={setSelectedPeriod} value={selectedPeriod}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {JENKINS_PERIODS.map(p => (
+                  <SelectItem key={p.key} value={p.key}>{p.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleRefreshMetrics} disabled={isRefreshing || !selectedTeamId || isLoadingMetrics}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+              {isRefreshing ? "Refreshing..." : "Refresh Metrics"}
+            </Button>
+          </div>
+        </CardHeader>
+        {metrics?.lastRefreshed && metrics.lastRefreshed !== "N/A" && (
+          <CardContent className="pt-2 text-sm text-muted-foreground text-right">
+            Last refreshed: {new Date(metrics.lastRefreshed).toLocaleString()}
+          </CardContent>
+        )}
+      </Card>
+
+      {(isLoadingTeams || (isLoadingMetrics && !metrics)) && <p className="text-center py-6">Loading metrics...</p>}
+      {!selectedTeamId && !isLoadingTeams && <p className="text-center text-muted-foreground py-6">Please select a team to view metrics.</p>}
+
+      {selectedTeamId && metrics?.info && (
+        <Card className="border-yellow-500 bg-yellow-50/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-yellow-700">
+              <AlertTriangle /> Info
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-yellow-700">{metrics.info.message}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {selectedTeamId && metrics && period && (
+        <Tabs defaultValue="cumulative" className="w-full">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="cumulative">Cumulative View</TabsTrigger>
+            <TabsTrigger value="job-wise">Job-wise View</TabsTrigger>
+          </TabsList>
+          <TabsContent value="cumulative" className="space-y-6">
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">Build Success Rate</CardTitle>
+                  <ShieldCheck className="h-5 w-5 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{period.successRate.toFixed(1)}%</div>
+                  <Progress value={period.successRate} className="mt-2 h-2" />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {period.succeededCount} of {period.succeededCount + period.failedCount + period.unstableCount} completed builds succeeded
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">Median Build Duration</CardTitle>
+                  <Timer className="h-5 w-5 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{formatDuration(period.medianDurationSeconds)}</div>
+                  <p className="text-xs text-muted-foreground">p90 {formatDuration(period.p90DurationSeconds)}, completed builds {periodLabel}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">Builds</CardTitle>
+                  <Hammer className="h-5 w-5 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{period.buildCount}</div>
+                  <p className="text-xs text-muted-foreground">{period.jobs.length} jobs · {period.abortedCount} aborted</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">Failed Builds</CardTitle>
+                  <XCircle className="h-5 w-5 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{period.failedCount + period.unstableCount}</div>
+                  <p className="text-xs text-muted-foreground">{period.failedCount} failed · {period.unstableCount} unstable</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <TrendingUp className="h-5 w-5" /> Build Duration Trend
+                </CardTitle>
+                <CardDescription>Builds and median build duration per {periodConfig && periodConfig.days > 14 ? "week" : "day"}, {periodLabel}.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={trendChartConfig} className="h-[300px] w-full">
+                  <ComposedChart data={trendData} margin={{ top: 10, right: 10, bottom: 10, left: 0 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="bucket" tickLine={false} axisLine={false} tick={{ fontSize: 10 }} />
+                    <YAxis yAxisId="builds" allowDecimals={false} />
+                    <YAxis yAxisId="minutes" orientation="right" />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar yAxisId="builds" dataKey="builds" fill="var(--color-builds)" radius={4} />
+                    <Line yAxisId="minutes" dataKey="medianMinutes" stroke="var(--color-medianMinutes)" strokeWidth={2} connectNulls dot={false} />
+                  </ComposedChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <MetricTrendCard
+                title="Build Success Rate Trend"
+                teamId={selectedTeamId}
+                source="jenkins"
+                snapshotKey={selectedPeriod}
+                series={SUCCESS_TREND_SERIES}
+                refreshToken={metrics.lastRefreshed}
+              />
+              <MetricTrendCard
+                title="Build Duration History"
+                teamId={selectedTeamId}
+                source="jenkins"
+                snapshotKey={selectedPeriod}
+                series={DURATION_TREND_SERIES}
+                refreshToken={metrics.lastRefreshed}
+              />
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <XCircle className="h-5 w-5" /> Most-Failing Jobs
+                  </CardTitle>
+                  <CardDescription>Failed and unstable builds per job, {periodLabel}.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {period.failingJobs.length > 0 ? (
+                    <ScrollArea className="h-72">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Job</TableHead>
+                            <TableHead className="text-right">Failures</TableHead>
+                            <TableHead className="text-right">Failure Rate</TableHead>
+                            <TableHead className="text-right">Last Failure</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {period.failingJobs.map(job => (
+                            <TableRow key={job.jobName}>
+                              <TableCell className="font-medium">{job.jobName}</TableCell>
+                              <TableCell className="text-right">{job.failures} / {job.buildCount}</TableCell>
+                              <TableCell className="text-right">{job.failureRate.toFixed(0)}%</TableCell>
+                              <TableCell className="text-right whitespace-nowrap">{new Date(job.lastFailureAt).toLocaleDateString()}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </ScrollArea>
+                  ) : (
+                    <p className="text-muted-foreground text-center py-4">No failed builds {periodLabel}.</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Recent Builds</CardTitle>
+                  <CardDescription>Most recent builds across the team&apos;s jobs, newest first.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ScrollArea className="h-72">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Started</TableHead>
+                          <TableHead>Job</TableHead>
+                          <TableHead className="text-right">Duration</TableHead>
+                          <TableHead className="text-right">Result</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {recentBuilds.map(build => (
+                          <TableRow key={`${build.jobName}-${build.number}`}>
+                            <TableCell className="whitespace-nowrap">{new Date(build.startedAt).toLocaleString()}</TableCell>
+                            <TableCell className="font-medium">
+                              {build.url ? (
+                                <a href={build.url} target="_blank" rel="noopener noreferrer" className="hover:underline">{build.jobName} #{build.number}</a>
+                              ) : (
+                                `${build.jobName} #${build.number}`
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">{formatDuration(build.durationSeconds)}</TableCell>
+                            <TableCell className="text-right">
+                              <Badge variant={RESULT_BADGE_VARIANTS[build.result]}>{build.result.replace('_', ' ')}</Badge>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </ScrollArea>
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+          <TabsContent value="job-wise">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Jobs</CardTitle>
+                <CardDescription>Per-job results, {periodLabel}.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {period.jobs.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Job</TableHead>
+                        <TableHead className="text-right">Builds</TableHead>
+                        <TableHead className="text-right">Success Rate</TableHead>
+                        <TableHead className="text-right">Median Duration</TableHead>
+                        <TableHead className="text-right">p90 Duration</TableHead>
+                        <TableHead className="text-right">Last Build</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {period.jobs.map(job => (
+                        <TableRow key={job.jobName}>
+                          <TableCell className="font-medium">{job.jobName}</TableCell>
+                          <TableCell className="text-right">{job.buildCount}</TableCell>
+                          <TableCell className="text-right">
+                            {job.succeededCount + job.failedCount + job.unstableCount > 0 ? `${job.successRate.toFixed(1)}%` : "—"}
+                          </TableCell>
+                          <TableCell className="text-right">{formatDuration(job.medianDurationSeconds)}</TableCell>
+                          <TableCell className="text-right">{formatDuration(job.p90DurationSeconds)}</TableCell>
+                          <TableCell className="text-right whitespace-nowrap space-x-2">
+                            <span className="text-muted-foreground">{new Date(job.lastBuildAt).toLocaleDateString()}</span>
+                            <Badge variant={RESULT_BADGE_VARIANTS[job.lastResult]}>{job.lastResult.replace('_', ' ')}</Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-center text-muted-foreground py-8">No builds {periodLabel}.</p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
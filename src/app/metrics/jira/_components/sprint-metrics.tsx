@@ -0,0 +1,221 @@
+// src/app/metrics/jira/_components/sprint-metrics.tsx
+"use client";
+
+import { useState, useMemo, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+} from "@/components/ui/chart";
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid } from "recharts";
+import { Gauge, TrendingDown } from "lucide-react";
+import type { JiraSprintMetrics } from '@/lib/db';
+
+const velocityChartConfig = {
+  committed: { label: "Committed", color: "hsl(var(--chart-2))" },
+  completed: { label: "Completed", color: "hsl(var(--chart-1))" },
+};
+
+const burndownChartConfig = {
+  remaining: { label: "Remaining", color: "hsl(var(--chart-1))" },
+  ideal: { label: "Ideal", color: "hsl(var(--muted-foreground))" },
+  scope: { label: "Scope", color: "hsl(var(--chart-4))" },
+};
+
+const formatPoints = (value: number) => Number.isInteger(value) ? String(value) : value.toFixed(1);
+
+interface SprintMetricsProps {
+  sprints: JiraSprintMetrics[];
+}
+
+export function SprintMetrics({ sprints }: SprintMetricsProps) {
+  const [selectedSprintId, setSelectedSprintId] = useState<string>("");
+
+  // Default the burndown to the active sprint, else the most recent one.
+  useEffect(() => {
+    const active = sprints.find(sprint => sprint.state === 'active');
+    const fallback = sprints[sprints.length - 1];
+    setSelectedSprintId(String((active || fallback)?.sprintId ?? ""));
+  }, [sprints]);
+
+  const unitLabel = sprints.some(sprint => sprint.estimationUnit === 'storyPoints') ? "Story Points" : "Issues";
+
+  const velocityData = useMemo(() => sprints.map(sprint => ({
+    name: sprint.name,
+    committed: sprint.committedPoints,
+    completed: sprint.completedPoints,
+  })), [sprints]);
+
+  const averageVelocity = useMemo(() => {
+    const closed = sprints.filter(sprint => sprint.state === 'closed');
+    if (closed.length === 0) return null;
+    return closed.reduce((sum, sprint) => sum + sprint.completedPoints, 0) / closed.length;
+  }, [sprints]);
+
+  const selectedSprint = sprints.find(sprint => String(sprint.sprintId) === selectedSprintId);
+
+  // The ideal line runs from the committed scope at start to zero at the planned end date.
+  const burndownData = useMemo(() => {
+    if (!selectedSprint || selectedSprint.burndown.length === 0) return [];
+    const start = new Date(selectedSprint.startDate || selectedSprint.burndown[0].date).getTime();
+    const plannedEnd = new Date(selectedSprint.endDate || selectedSprint.burndown[selectedSprint.burndown.length - 1].date).getTime();
+    const span = Math.max(plannedEnd - start, 1);
+    return selectedSprint.burndown.map(point => {
+      const at = new Date(point.date).getTime();
+      return {
+        date: new Date(point.date).toLocaleDateString(),
+        remaining: point.remaining,
+        scope: point.scope,
+        ideal: Math.max(0, selectedSprint.committedPoints * (1 - (at - start) / span)),
+      };
+    });
+  }, [selectedSprint]);
+
+  if (sprints.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Gauge className="h-5 w-5" /> Sprints & Velocity
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground text-center py-4">
+            No sprint data. Sprint metrics need a Scrum board for one of the configured projects; refresh metrics after one is set up.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Gauge className="h-5 w-5" /> Velocity
+            </CardTitle>
+            <CardDescription>
+              Committed vs. completed {unitLabel.toLowerCase()} per sprint.
+              {averageVelocity !== null && ` Average completed (closed sprints): ${formatPoints(averageVelocity)}.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={velocityChartConfig} className="h-[300px] w-full">
+              <BarChart data={velocityData} margin={{ top: 10, right: 10, bottom: 10, left: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} interval={0} tick={{ fontSize: 10 }} />
+                <YAxis allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="committed" fill="var(--color-committed)" radius={4} />
+                <Bar dataKey="completed" fill="var(--color-completed)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <TrendingDown className="h-5 w-5" /> Sprint Burndown
+              </CardTitle>
+              <CardDescription>Remaining {unitLabel.toLowerCase()} by day against the ideal line.</CardDescription>
+            </div>
+            <Select onValueChange={setSelectedSprintId} value={selectedSprintId || undefined}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Select sprint" />
+              </SelectTrigger>
+              <SelectContent>
+                {[...sprints].reverse().map(sprint => (
+                  <SelectItem key={sprint.sprintId} value={String(sprint.sprintId)}>{sprint.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {burndownData.length > 0 ? (
+              <ChartContainer config={burndownChartConfig} className="h-[300px] w-full">
+                <LineChart data={burndownData} margin={{ top: 10, right: 10, bottom: 10, left: 0 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} tick={{ fontSize: 10 }} />
+                  <YAxis allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line type="stepAfter" dataKey="remaining" stroke="var(--color-remaining)" strokeWidth={2} dot={false} />
+                  <Line type="stepAfter" dataKey="scope" stroke="var(--color-scope)" strokeWidth={1} dot={false} />
+                  <Line type="linear" dataKey="ideal" stroke="var(--color-ideal)" strokeDasharray="4 4" dot={false} />
+                </LineChart>
+              </ChartContainer>
+            ) : (
+              <p className="text-muted-foreground text-center py-4">No burndown data for this sprint.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Sprint Summary</CardTitle>
+          <CardDescription>
+            Scope change counts work added or removed after the sprint started plus estimate changes on committed work.
+            Carry-over is unfinished work at sprint close. Values are in {unitLabel.toLowerCase()}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sprint</TableHead>
+                <TableHead>State</TableHead>
+                <TableHead className="text-right">Committed</TableHead>
+                <TableHead className="text-right">Added</TableHead>
+                <TableHead className="text-right">Removed</TableHead>
+                <TableHead className="text-right">Re-estimated</TableHead>
+                <TableHead className="text-right">Completed</TableHead>
+                <TableHead className="text-right">Say/Do</TableHead>
+                <TableHead className="text-right">Carry-over</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...sprints].reverse().map(sprint => (
+                <TableRow key={sprint.sprintId}>
+                  <TableCell className="font-medium">
+                    {sprint.name}
+                    {sprint.startDate && (
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(sprint.startDate).toLocaleDateString()} – {new Date(sprint.completeDate || sprint.endDate || sprint.startDate).toLocaleDateString()}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={sprint.state === 'active' ? "default" : "secondary"}>{sprint.state}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{formatPoints(sprint.committedPoints)} <span className="text-xs text-muted-foreground">({sprint.committedIssues})</span></TableCell>
+                  <TableCell className="text-right">+{formatPoints(sprint.addedPoints)} <span className="text-xs text-muted-foreground">({sprint.addedIssues})</span></TableCell>
+                  <TableCell className="text-right">-{formatPoints(sprint.removedPoints)} <span className="text-xs text-muted-foreground">({sprint.removedIssues})</span></TableCell>
+                  <TableCell className="text-right">{sprint.estimateChangePoints > 0 ? "+" : ""}{formatPoints(sprint.estimateChangePoints)}</TableCell>
+                  <TableCell className="text-right">{formatPoints(sprint.completedPoints)} <span className="text-xs text-muted-foreground">({sprint.completedIssues})</span></TableCell>
+                  <TableCell className="text-right">
+                    {sprint.committedPoints > 0 ? `${((sprint.completedPoints / sprint.committedPoints) * 100).toFixed(0)}%` : "N/A"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {sprint.state === 'closed' ? <>{formatPoints(sprint.carryOverPoints)} <span className="text-xs text-muted-foreground">({sprint.carryOverIssues})</span></> : "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -7,12 +7,13 @@ import { useState, useEffect, useMemo } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { RefreshCw, ListChecks, Users, Tag, FolderTree, AlertTriangle, Sigma, CalendarDays, Percent } from "lucide-react";
-import { getJiraMetrics, refreshJiraMetrics } from "@/lib/actions";
+import { RefreshCw, ListChecks, Users, Tag, FolderTree, AlertTriangle, Sigma, CalendarDays, Percent, Timer, Hourglass, FolderKanban } from "lucide-react";
+import { getJiraMetrics, refreshJiraMetrics, getJiraSprintMetrics, getJiraFilters } from "@/lib/actions";
 import { useToast } from "@/hooks/use-toast";
 import type { Team } from "../../config/_components/types";
 import { useGetTeams } from '@/hooks/use-team-queries';
-import type { JiraTeamMetricsData } from '@/lib/db';
+import type { JiraTeamMetricsData, JiraDurationStats, JiraSprintMetrics, JiraFilter } from '@/lib/db';
+import { JIRA_DEFAULT_FILTER_ID, jiraSnapshotKey } from '@/lib/constants';
 import {
   ChartContainer,
   ChartTooltip,
@@ -20,10 +21,12 @@ import {
   ChartLegend,
   ChartLegendContent,
 } from "@/components/ui/chart"
-import { PieChart, Pie, Cell, ResponsiveContainer } from "recharts"; // Removed BarChart, XAxis, YAxis, Bar, CartesianGrid
+import { PieChart, Pie, Cell, ResponsiveContainer, ScatterChart, Scatter, XAxis, YAxis, ZAxis, CartesianGrid, ReferenceLine } from "recharts";
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Separator } from '@/components/ui/separator';
+import { MetricTrendCard, type MetricTrendSeries } from '@/components/metric-trend-card';
+import { SprintMetrics } from './_components/sprint-metrics';
 
 const chartConfigBase = {
   issues: { label: "Issues" },
@@ -35,6 +38,27 @@ const chartConfigBase = {
   other: { label: "Other", color: "hsl(var(--muted))"}
 } satisfies Record<string, any>;
 
+const ISSUE_TREND_SERIES: MetricTrendSeries<JiraTeamMetricsData>[] = [
+  { key: "openIssues", label: "Open Issues", select: d => d.openIssues },
+  { key: "totalIssues", label: "Total Issues", select: d => d.totalIssues },
+];
+
+const FLOW_TREND_SERIES: MetricTrendSeries<JiraTeamMetricsData>[] = [
+  { key: "cycleTimeP85", label: "Cycle Time p85 (days)", select: d => d.flowMetrics?.cycleTime.p85Days },
+  { key: "leadTimeP85", label: "Lead Time p85 (days)", select: d => d.flowMetrics?.leadTime.p85Days },
+];
+
+const cycleTimeChartConfig = {
+  cycleTimeDays: { label: "Cycle Time (days)", color: "hsl(var(--chart-1))" },
+};
+
+const PERCENTILE_LINES = [
+  { key: "p50Days", label: "p50", stroke: "hsl(var(--chart-2))" },
+  { key: "p85Days", label: "p85", stroke: "hsl(var(--chart-4))" },
+  { key: "p95Days", label: "p95", stroke: "hsl(var(--destructive))" },
+] as const;
+
+const formatDays = (days: number | undefined) => days === undefined ? "N/A" : `${days.toFixed(1)}d`;
 
 export default function JiraMetricsPage() {
   const { data: teamsData, isLoading: isLoadingTeams, error: teamsError } = useGetTeams();
@@ -42,6 +66,9 @@ export default function JiraMetricsPage() {
 
   const [selectedTeamId, setSelectedTeamId] = useState<string>("");
   const [metrics, setMetrics] = useState<JiraTeamMetricsData | null>(null);
+  const [sprints, setSprints] = useState<JiraSprintMetrics[]>([]);
+  const [filters, setFilters] = useState<JiraFilter[]>([]);
+  const [selectedFilterId, setSelectedFilterId] = useState<string>(JIRA_DEFAULT_FILTER_ID);
   const [isLoadingMetrics, setIsLoadingMetrics] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const { toast } = useToast();
@@ -50,30 +77,50 @@ export default function JiraMetricsPage() {
     async function fetchMetrics() {
       if (selectedTeamId) {
         setIsLoadingMetrics(true);
-        const fetchedMetrics = await getJiraMetrics(selectedTeamId);
-        setMetrics(fetchedMetrics);
+        const [fetchedSprints, fetchedFilters] = await Promise.all([
+          getJiraSprintMetrics(selectedTeamId),
+          getJiraFilters(selectedTeamId),
+        ]);
+        setSprints(fetchedSprints);
+        setFilters(fetchedFilters);
         setIsLoadingMetrics(false);
       } else {
-        setMetrics(null);
+        setSprints([]);
+        setFilters([]);
       }
+      setSelectedFilterId(JIRA_DEFAULT_FILTER_ID);
     }
     fetchMetrics();
   }, [selectedTeamId]);
 
+  useEffect(() => {
+    async function fetchFilterMetrics() {
+      if (selectedTeamId) {
+        setIsLoadingMetrics(true);
+        setMetrics(await getJiraMetrics(selectedTeamId, selectedFilterId));
+        setIsLoadingMetrics(false);
+      } else {
+        setMetrics(null);
+      }
+    }
+    fetchFilterMetrics();
+  }, [selectedTeamId, selectedFilterId]);
+
   const handleRefreshMetrics = async () => {
     if (!selectedTeamId) {
       toast({ title: "Error", description: "Please select a team.", variant: "destructive" });
       return;
     }
     setIsRefreshing(true);
-    const result = await refreshJiraMetrics(selectedTeamId);
+    const result = await refreshJiraMetrics(selectedTeamId, selectedFilterId);
     if (result.success && result.data?.metrics) {
       setMetrics(result.data.metrics as JiraTeamMetricsData);
-      toast({ title: "Success", description: "Jira metrics refreshed." });
+      setSprints(await getJiraSprintMetrics(selectedTeamId));
+      toast({ title: "Success", description: result.message || "Jira metrics refreshed." });
     } else {
       toast({ title: "Error", description: result.message || "Failed to refresh Jira metrics.", variant: "destructive" });
       // Optionally, re-fetch old metrics if refresh fails but data exists
-      const oldMetrics = await getJiraMetrics(selectedTeamId);
+      const oldMetrics = await getJiraMetrics(selectedTeamId, selectedFilterId);
       setMetrics(oldMetrics);
     }
     setIsRefreshing(false);
@@ -86,6 +133,8 @@ export default function JiraMetricsPage() {
     issuesByStatusChartData,
     issuesByLabelChartData,
     issuesByCategoryChartData,
+    cycleTimeScatterData,
+    timeInStatusData,
     dynamicChartConfig
   } = useMemo(() => {
     if (!metrics || metrics.info) {
@@ -96,6 +145,8 @@ export default function JiraMetricsPage() {
         issuesByStatusChartData: [],
         issuesByLabelChartData: [],
         issuesByCategoryChartData: [],
+        cycleTimeScatterData: [],
+        timeInStatusData: [],
         dynamicChartConfig: chartConfigBase
       };
     }
@@ -103,6 +154,7 @@ export default function JiraMetricsPage() {
     const dm = {
       totalIssues: metrics.totalIssues || 0,
       averageIssueAgeDays: metrics.averageIssueAgeDays?.toFixed(1) || "0.0",
+      openIssues: metrics.openIssues,
       lastRefreshed: metrics.lastRefreshed ? new Date(metrics.lastRefreshed).toLocaleString() : "N/A"
     };
 
@@ -126,6 +178,16 @@ export default function JiraMetricsPage() {
       .map(([name, value]) => ({ name, value }))
       .sort((a,b) => b.value - a.value);
 
+    const scatterData = (metrics.flowMetrics?.cycleTimePoints || [])
+      .filter(point => point.cycleTimeDays !== undefined)
+      .map(point => ({ ...point, completedAtMs: new Date(point.completedAt).getTime() }));
+
+    // Sorted by total days so the statuses where work waits longest come first.
+    const totalStatusDays = Object.values(metrics.flowMetrics?.timeInStatus || {}).reduce((sum, s) => sum + s.totalDays, 0);
+    const statusTimeData = Object.entries(metrics.flowMetrics?.timeInStatus || {})
+      .map(([name, stats]) => ({ name, ...stats, share: totalStatusDays > 0 ? (stats.totalDays / totalStatusDays) * 100 : 0 }))
+      .sort((a, b) => b.totalDays - a.totalDays);
+
     // Dynamically build chartConfig for colors
     const newChartConfig = { ...chartConfigBase };
     typeData.forEach((item, index) => {
@@ -143,6 +205,8 @@ export default function JiraMetricsPage() {
       issuesByStatusChartData: statusData,
       issuesByLabelChartData: labelData,
       issuesByCategoryChartData: categoryData,
+      cycleTimeScatterData: scatterData,
+      timeInStatusData: statusTimeData,
       dynamicChartConfig: newChartConfig
     };
   }, [metrics]);
@@ -187,6 +251,27 @@ export default function JiraMetricsPage() {
   );
 
 
+  const renderDurationCard = (title: string, stats: JiraDurationStats | undefined, icon: React.ElementType, unitLabel: string) => (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        {React.createElement(icon, {className: "h-5 w-5 text-muted-foreground"})}
+      </CardHeader>
+      <CardContent>
+        {stats && stats.count > 0 ? (
+          <>
+            <div className="text-3xl font-bold">{formatDays(stats.p50Days)} <span className="text-sm font-normal text-muted-foreground">median</span></div>
+            <p className="text-xs text-muted-foreground mt-1">
+              p85 {formatDays(stats.p85Days)} · p95 {formatDays(stats.p95Days)} · avg {formatDays(stats.averageDays)} · {stats.count} {unitLabel}
+            </p>
+          </>
+        ) : (
+          <div className="text-3xl font-bold">N/A</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
   return (
     <div className="container mx-auto py-10 space-y-8">
       <Card>
@@ -206,6 +291,17 @@ export default function JiraMetricsPage() {
                 ))}
               </SelectContent>
             </Select>
+            <Select onValueChange={setSelectedFilterId} value={selectedFilterId} disabled={!selectedTeamId || isRefreshing}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="All issues" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={JIRA_DEFAULT_FILTER_ID}>All issues</SelectItem>
+                {filters.map((filter) => (
+                  <SelectItem key={filter.id} value={filter.id}>{filter.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Button onClick={handleRefreshMetrics} disabled={isRefreshing || !selectedTeamId || isLoadingMetrics}>
               <RefreshCw className={`mr-2 h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
               {isRefreshing ? "Refreshing..." : "Refresh Metrics"}
@@ -256,8 +352,163 @@ export default function JiraMetricsPage() {
               <div className="text-3xl font-bold">{displayMetrics.averageIssueAgeDays} days</div>
             </CardContent>
           </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Open Issues</CardTitle>
+              <ListChecks className="h-5 w-5 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold">{displayMetrics.openIssues ?? "N/A"}</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          {renderDurationCard("Lead Time (created → done)", metrics?.flowMetrics?.leadTime, Hourglass, "issues")}
+          {renderDurationCard("Cycle Time (in progress → done)", metrics?.flowMetrics?.cycleTime, Timer, "issues")}
         </div>
 
+        {metrics?.projectBreakdown && Object.keys(metrics.projectBreakdown).length > 1 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <FolderKanban className="h-5 w-5" /> Per-Project Breakdown
+              </CardTitle>
+              <CardDescription>The totals above aggregate these projects; durations are in days.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Project</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Open</TableHead>
+                    <TableHead className="text-right">Avg. Age</TableHead>
+                    <TableHead className="text-right">Lead Time p50</TableHead>
+                    <TableHead className="text-right">Cycle Time p50</TableHead>
+                    <TableHead className="text-right">Cycle Time p85</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {Object.values(metrics.projectBreakdown).sort((a, b) => b.totalIssues - a.totalIssues).map(project => (
+                    <TableRow key={project.projectKey}>
+                      <TableCell className="font-medium">
+                        {project.projectName}
+                        <span className="ml-2 text-xs text-muted-foreground">{project.projectKey}</span>
+                      </TableCell>
+                      <TableCell className="text-right">{project.totalIssues}</TableCell>
+                      <TableCell className="text-right">{project.openIssues}</TableCell>
+                      <TableCell className="text-right">{formatDays(project.averageIssueAgeDays)}</TableCell>
+                      <TableCell className="text-right">{project.leadTime.count > 0 ? formatDays(project.leadTime.p50Days) : "N/A"}</TableCell>
+                      <TableCell className="text-right">{project.cycleTime.count > 0 ? formatDays(project.cycleTime.p50Days) : "N/A"}</TableCell>
+                      <TableCell className="text-right">{project.cycleTime.count > 0 ? formatDays(project.cycleTime.p85Days) : "N/A"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Timer className="h-5 w-5" /> Cycle Time Scatter
+              </CardTitle>
+              <CardDescription>Each dot is a completed issue. Lines mark the p50, p85 and p95 cycle times.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {cycleTimeScatterData.length > 0 ? (
+                <ChartContainer config={cycleTimeChartConfig} className="h-[320px] w-full">
+                  <ScatterChart margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+                    <CartesianGrid />
+                    <XAxis
+                      type="number"
+                      dataKey="completedAtMs"
+                      name="Completed"
+                      domain={["dataMin", "dataMax"]}
+                      tickFormatter={(value: number) => new Date(value).toLocaleDateString()}
+                    />
+                    <YAxis type="number" dataKey="cycleTimeDays" name="Cycle Time" unit="d" />
+                    <ZAxis range={[40, 40]} />
+                    <ChartTooltip
+                      cursor={{ strokeDasharray: "3 3" }}
+                      content={({ active, payload }) => {
+                        if (!active || !payload?.length) return null;
+                        const point = payload[0].payload;
+                        return (
+                          <div className="rounded-lg border bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                            <div className="font-medium">{point.key} · {point.issueType}</div>
+                            <div className="text-muted-foreground max-w-[240px] truncate">{point.summary}</div>
+                            <div>Cycle time: {formatDays(point.cycleTimeDays)}</div>
+                            <div>Completed: {new Date(point.completedAt).toLocaleDateString()}</div>
+                          </div>
+                        );
+                      }}
+                    />
+                    {metrics?.flowMetrics && PERCENTILE_LINES.map(line => (
+                      <ReferenceLine
+                        key={line.key}
+                        y={metrics.flowMetrics!.cycleTime[line.key]}
+                        stroke={line.stroke}
+                        strokeDasharray="4 4"
+                        label={{ value: line.label, position: "right", fontSize: 10 }}
+                      />
+                    ))}
+                    <Scatter data={cycleTimeScatterData} fill="var(--color-cycleTimeDays)" />
+                  </ScatterChart>
+                </ChartContainer>
+              ) : (
+                <p className="text-muted-foreground text-center py-4">No completed issues with an in-progress transition yet.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Hourglass className="h-5 w-5" /> Time in Status
+              </CardTitle>
+              <CardDescription>Days issues spent in each workflow status, including time still accruing on open issues.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {timeInStatusData.length > 0 ? (
+                <ScrollArea className="h-[320px]">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Issues</TableHead>
+                        <TableHead className="text-right">Median</TableHead>
+                        <TableHead className="text-right">p85</TableHead>
+                        <TableHead className="text-right">Total</TableHead>
+                        <TableHead className="text-right">Share</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {timeInStatusData.map(item => (
+                        <TableRow key={item.name}>
+                          <TableCell className="font-medium">{item.name}</TableCell>
+                          <TableCell className="text-right">{item.count}</TableCell>
+                          <TableCell className="text-right">{formatDays(item.p50Days)}</TableCell>
+                          <TableCell className="text-right">{formatDays(item.p85Days)}</TableCell>
+                          <TableCell className="text-right">{formatDays(item.totalDays)}</TableCell>
+                          <TableCell className="text-right">{item.share.toFixed(0)}%</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              ) : (
+                <p className="text-muted-foreground text-center py-4">No status history available. Refresh metrics to load changelogs.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {selectedFilterId === JIRA_DEFAULT_FILTER_ID && <SprintMetrics sprints={sprints} />}
+
         <Separator className="my-8" />
 
         <div className="grid gap-6 md:grid-cols-1 lg:grid-cols-2 xl:grid-cols-3">
@@ -302,6 +553,26 @@ export default function JiraMetricsPage() {
             {renderTableCard("Issues by Label", issuesByLabelChartData, Tag)}
             {renderTableCard("Issues by Category (Component)", issuesByCategoryChartData, FolderTree)}
         </div>
+
+        <MetricTrendCard
+          title="Issue Count Trend"
+          description="Open and total issues across past refreshes."
+          teamId={selectedTeamId}
+          source="jira"
+          snapshotKey={jiraSnapshotKey(selectedFilterId)}
+          series={ISSUE_TREND_SERIES}
+          refreshToken={metrics?.lastRefreshed}
+        />
+
+        <MetricTrendCard
+          title="Flow Time Trend"
+          description="85th percentile cycle and lead time across past refreshes."
+          teamId={selectedTeamId}
+          source="jira"
+          snapshotKey={jiraSnapshotKey(selectedFilterId)}
+          series={FLOW_TREND_SERIES}
+          refreshToken={metrics?.lastRefreshed}
+        />
         </>
       )}
     </div>
@@ -15,6 +15,7 @@ import { useGetTeams } from '@/hooks/use-team-queries';
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import type { SonarQubeTeamMetricsData } from '@/lib/db';
+import { MetricTrendCard, type MetricTrendSeries } from '@/components/metric-trend-card';
 
 const RATING_COLORS: Record<string, string> = {
   'A': 'text-green-500',
@@ -44,6 +45,15 @@ const QUALITY_GATE_STATUS_COLORS: Record<string, string> = {
   'WARN': 'text-yellow-500',
 };
 
+const COVERAGE_TREND_SERIES: MetricTrendSeries<SonarQubeTeamMetricsData>[] = [
+  { key: "coverage", label: "Coverage (%)", select: d => d.coverage },
+];
+
+const ISSUE_TREND_SERIES: MetricTrendSeries<SonarQubeTeamMetricsData>[] = [
+  { key: "bugs", label: "Bugs", select: d => d.bugs },
+  { key: "vulnerabilities", label: "Vulnerabilities", select: d => d.vulnerabilities },
+  { key: "codeSmells", label: "Code Smells", select: d => d.codeSmells },
+];
 
 export default function SonarQubeMetricsPage() {
   const { data: teamsData, isLoading: isLoadingTeams, error: teamsError } = useGetTeams();
@@ -255,6 +265,24 @@ export default function SonarQubeMetricsPage() {
                 </CardContent>
               </Card>
             </div>
+            <div className="grid gap-6 lg:grid-cols-2 mt-6">
+              <MetricTrendCard
+                title="Coverage Trend"
+                description="Code coverage across past refreshes."
+                teamId={selectedTeamId}
+                source="sonarqube"
+                series={COVERAGE_TREND_SERIES}
+                refreshToken={metrics?.lastRefreshed}
+              />
+              <MetricTrendCard
+                title="Issue Trend"
+                description="Bugs, vulnerabilities and code smells across past refreshes."
+                teamId={selectedTeamId}
+                source="sonarqube"
+                series={ISSUE_TREND_SERIES}
+                refreshToken={metrics?.lastRefreshed}
+              />
+            </div>
           </TabsContent>
         </Tabs>
       )}
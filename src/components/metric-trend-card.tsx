@@ -0,0 +1,111 @@
+// src/components/metric-trend-card.tsx
+"use client";
+
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from "@/components/ui/chart";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from "recharts";
+import { TrendingUp } from "lucide-react";
+import { getMetricTrend } from "@/lib/actions";
+import type { MetricSnapshot, MetricSnapshotSource } from '@/lib/db';
+import { TREND_RANGES } from '@/lib/constants';
+
+export interface MetricTrendSeries<T> {
+  key: string;
+  label: string;
+  select: (data: T) => number | undefined;
+}
+
+interface MetricTrendCardProps<T> {
+  title: string;
+  description?: string;
+  teamId: string;
+  source: MetricSnapshotSource;
+  snapshotKey?: string;
+  series: MetricTrendSeries<T>[];
+  refreshToken?: unknown; // Change this (e.g. to the latest lastRefreshed) to re-query history
+}
+
+export function MetricTrendCard<T>({ title, description, teamId, source, snapshotKey, series, refreshToken }: MetricTrendCardProps<T>) {
+  const [range, setRange] = useState<string>("365");
+  const [snapshots, setSnapshots] = useState<MetricSnapshot<T>[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    async function fetchTrend() {
+      if (!teamId) {
+        setSnapshots([]);
+        return;
+      }
+      setIsLoading(true);
+      const sinceDays = range === "all" ? undefined : parseInt(range, 10);
+      const fetched = await getMetricTrend<T>(teamId, source, { snapshotKey, sinceDays });
+      setSnapshots(fetched);
+      setIsLoading(false);
+    }
+    fetchTrend();
+  }, [teamId, source, snapshotKey, range, refreshToken]);
+
+  const { chartData, chartConfig } = useMemo(() => {
+    const config: ChartConfig = {};
+    series.forEach((s, index) => {
+      config[s.key] = { label: s.label, color: `hsl(var(--chart-${(index % 5) + 1}))` };
+    });
+    const data = snapshots.map(snapshot => {
+      const point: Record<string, string | number | undefined> = {
+        capturedAt: new Date(snapshot.capturedAt).toLocaleDateString(),
+      };
+      series.forEach(s => {
+        point[s.key] = s.select(snapshot.data);
+      });
+      return point;
+    });
+    return { chartData: data, chartConfig: config };
+  }, [snapshots, series]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <TrendingUp className="h-5 w-5" /> {title}
+          </CardTitle>
+          {description && <CardDescription>{description}</CardDescription>}
+        </div>
+        <Select onValueChange={setRange} value={range}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TREND_RANGES.map(r => (
+              <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading && chartData.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">Loading history...</p>
+        ) : chartData.length > 1 ? (
+          <ChartContainer config={chartConfig} className="h-[280px] w-full">
+            <LineChart data={chartData} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="capturedAt" tickLine={false} axisLine={false} tickMargin={8} />
+              <YAxis tickLine={false} axisLine={false} width={48} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {series.map(s => (
+                <Line key={s.key} dataKey={s.key} type="monotone" stroke={`var(--color-${s.key})`} strokeWidth={2} dot={false} connectNulls />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        ) : (
+          <p className="text-muted-foreground text-center py-4">
+            Not enough history yet. Each successful refresh adds a snapshot; at least two are needed to draw a trend.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,19 +1,20 @@
 // src/hooks/use-team-queries.ts
 "use client";
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { getTeams, addTeam } from '@/lib/actions';
+import { getTeams, addTeam, renameTeam, archiveTeam, restoreTeam, deleteTeam } from '@/lib/actions';
 import type { TeamFormData } from '@/lib/schemas';
 import type { Team } from '@/app/config/_components/types'; // Using existing Team type
 
 export const teamKeys = {
   all: ['teams'] as const,
-  list: () => [...teamKeys.all, 'list'] as const,
+  list: (includeArchived = false) => [...teamKeys.all, 'list', { includeArchived }] as const,
 };
 
-export function useGetTeams() {
+// Archived teams are hidden from selectors; only team management asks for them.
+export function useGetTeams(includeArchived = false) {
   return useQuery<Team[], Error>({
-    queryKey: teamKeys.list(),
-    queryFn: getTeams,
+    queryKey: teamKeys.list(includeArchived),
+    queryFn: () => getTeams(includeArchived),
     // Options like staleTime or cacheTime can be configured here if needed
   });
 }
@@ -28,10 +29,41 @@ export function useAddTeam() {
     mutationFn: addTeam,
     onSuccess: (result) => {
       if (result.success) {
-        // When a team is added successfully, invalidate the teams list query.
+        // When a team is added successfully, invalidate the teams list queries.
         // This will cause all components using useGetTeams to re-fetch.
-        queryClient.invalidateQueries({ queryKey: teamKeys.list() });
+        queryClient.invalidateQueries({ queryKey: teamKeys.all });
       }
     },
   });
 }
+
+type TeamActionResult = { success: boolean; message: string };
+
+// Rename, archive, restore and delete all change which teams the selectors list.
+function useTeamMutation<TVariables>(mutationFn: (variables: TVariables) => Promise<TeamActionResult>) {
+  const queryClient = useQueryClient();
+  return useMutation<TeamActionResult, Error, TVariables>({
+    mutationFn,
+    onSuccess: (result) => {
+      if (result.success) {
+        queryClient.invalidateQueries({ queryKey: teamKeys.all });
+      }
+    },
+  });
+}
+
+export function useRenameTeam() {
+  return useTeamMutation(({ teamId, data }: { teamId: string; data: TeamFormData }) => renameTeam(teamId, data));
+}
+
+export function useArchiveTeam() {
+  return useTeamMutation(archiveTeam);
+}
+
+export function useRestoreTeam() {
+  return useTeamMutation(restoreTeam);
+}
+
+export function useDeleteTeam() {
+  return useTeamMutation(deleteTeam);
+}
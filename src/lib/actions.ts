@@ -11,14 +11,30 @@ import type {
   JiraConfigFormData,
   SonarQubeConfigFormData,
   BoomerangConfigFormData,
+  JenkinsConfigFormData,
   ApiKeysFormData,
   DbConfigFormData,
   GithubRepoData,
   PushToRepoFormData,
+  JiraFilterFormData,
+  JiraProjectScope,
+  DoraConfigFormData,
+  CostSettingsFormData,
+  ExchangeRateFormData,
+  RateCardFormData,
+  PersonFormData,
+  PersonIdentity,
+  WithSecretFlags,
+  SecretFieldId,
 } from "./schemas";
+import { SECRET_PLACEHOLDER, JIRA_DEFAULT_FILTER_ID, DEFAULT_DORA_CONFIG, DORA_WINDOW_DAYS, DEFAULT_COST_SETTINGS, COST_HISTORY_MONTHS, COST_EFFICIENCY_WINDOWS, BOOMERANG_PERIODS, JENKINS_PERIODS, GITHUB_ACTIONS_HISTORY_DAYS, SCM_PROVIDERS } from "./constants";
 import {
   addTeamToDb,
   getTeamsFromDb,
+  renameTeamInDb,
+  setTeamArchivedInDb,
+  deleteTeamFromDb,
+  getTeamDataCountsFromDb,
   saveApiKeysToDb,
   getApiKeysFromDb,
   saveGithubConfigToDb,
@@ -29,22 +45,95 @@ import {
   getSonarQubeConfigFromDb,
   saveBoomerangConfigToDb,
   getBoomerangConfigFromDb,
+  saveBoomerangPipelineRunsToDb,
+  getBoomerangPipelineRunsFromDb,
+  getBoomerangResumePointFromDb,
+  deleteBoomerangPipelineRunsFromDb,
+  saveBoomerangTeamMetricsToDb,
+  getBoomerangTeamMetricsFromDb,
+  saveJenkinsConfigToDb,
+  getJenkinsConfigFromDb,
+  saveJenkinsTeamMetricsToDb,
+  getJenkinsTeamMetricsFromDb,
   saveTeamMemberToDb,
   getTeamMembersFromDb,
+  deleteTeamMemberFromDb,
   saveGithubTeamMetric,
   getGithubTeamMetricsFromDb,
   clearGithubTeamMetrics,
+  getGithubRepoSyncStatesFromDb,
+  saveGithubRepoSyncStateToDb,
   saveJiraTeamMetricsToDb,
   getJiraTeamMetricsFromDb,
+  saveJiraSprintMetricsToDb,
+  getJiraSprintMetricsFromDb,
+  saveJiraFilterToDb,
+  getJiraFiltersFromDb,
+  deleteJiraFilterFromDb,
   saveSonarQubeTeamMetricsToDb,
   getSonarQubeTeamMetricsFromDb,
+  saveDoraConfigToDb,
+  getDoraConfigFromDb,
+  saveDoraTeamMetricsToDb,
+  getDoraTeamMetricsFromDb,
+  saveCostSettingsToDb,
+  getCostSettingsFromDb,
+  saveExchangeRateToDb,
+  getExchangeRatesFromDb,
+  deleteExchangeRateFromDb,
+  saveRateCardToDb,
+  getRateCardsFromDb,
+  deleteRateCardFromDb,
   saveDbConfigToDb,
   getDbConfigFromDb,
+  getMetricSnapshotsFromDb,
+  clearSecretInDb,
+  getPeopleFromDb,
+  savePersonToDb,
+  deletePersonFromDb,
+  assignIdentityInDb,
+  unassignIdentityInDb,
   type GithubMetricsPeriodData,
+  type GithubRepoSyncState,
+  type GithubIncompleteFetch,
+  type GithubRepoSnapshotMetrics,
+  type JiraAssigneeIdentity,
+  type Person,
+  type ExchangeRate,
+  type RateCard,
+  type TeamDataCount,
+  type BoomerangTeamMetricsData,
+  type JenkinsBuild,
+  type JenkinsTeamMetricsData,
   type JiraTeamMetricsData,
+  type JiraSprintMetrics,
+  type JiraFilter,
+  type JiraProjectMetrics,
   type SonarQubeMetrics,
   type SonarQubeTeamMetricsData,
+  type DoraDeploymentSource,
+  type DoraTeamMetricsData,
+  type MetricSnapshot,
+  type MetricSnapshotSource,
 } from "./db";
+import { computeJiraFlowMetrics, type JiraChangelogHistory, type JiraStatusCategoryKey } from "./jira-flow";
+import { computeSprintMetrics, type JiraAgileSprint, type JiraSprintIssue, type JiraStoryPointsField } from "./jira-sprints";
+import { computeDoraMetrics, parseFailurePatterns, type DoraCommit, type DoraDeployment } from "./dora";
+import { computeBoomerangMetrics, toPipelineRun } from "./boomerang";
+import { fetchBoomerangActivity } from "./boomerang-client";
+import { computeJenkinsMetrics, parseJobNames, toJenkinsBuild } from "./jenkins";
+import { fetchJenkinsJobBuilds } from "./jenkins-client";
+import { commitHistoryFetchSince, mergeCommitHistory, summarizeCommitterActivity, summarizeCommitsByRepo, summarizeCommitsForPeriod, type GithubCommitRecord } from "./github-commits";
+import { githubFetch } from "./github-client";
+import { fetchGithubTagsSince, githubApiBaseFor, githubGraphqlUrlFor, nextGithubPageUrl, type GithubApiCommit } from "./github-provider";
+import { createScmProvider } from "./scm";
+import { redactCloneCredentials } from "./scm-client";
+import { computeTeamComposition } from "./roster";
+import { CurrencyConverter } from "./currency";
+import { computeTeamFinancials, countResolvedIssues, sumCompletedStoryPoints, type DeliveryOutputs, type TeamFinancials } from "./cost";
+import { assigneeIdentities, committerIdentities, normalizeIdentity, resolveAssignees, resolveCommitters, suggestIdentityMerges, unmappedIdentities, type IdentityMergeSuggestion } from "./identity";
+import { computeCiMetrics, mergeWorkflowRuns, workflowRunsFetchSince, type GithubWorkflowRunRecord } from "./github-workflows";
+import { computePullRequestMetrics, mergePullRequests, pullRequestsFetchSince, type GithubPullRequestRecord } from "./github-pulls";
 import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs/promises';
 import path from 'path';
@@ -55,15 +144,52 @@ import tmp from 'tmp';
 const execPromise = promisify(exec);
 tmp.setGracefulCleanup();
 
-const JIRA_FIXED_SERVER_URL = "https://jsw.ibm.com";
-const JIRA_FIXED_USERNAME = "Pradeep.basavarajappa2@ibm.com";
-
 
 const ESTIMATED_BYTES_PER_LINE = 50;
 const CODE_EXTENSIONS_FOR_LOC_COUNT = ['.py', '.java', '.js', '.ts', '.cpp', '.c', '.h', '.html', '.css', '.go', '.rb', '.php', '.tsx', '.jsx', '.vue', '.svelte', '.mjs', '.cjs', '.cs', '.swift', '.kt', '.kts', '.rs', '.scala', '.pl', '.pm', '.lua', '.dart'];
 const IGNORED_DIRS_FOR_LOC_COUNT = ['.git', 'node_modules', 'dist', 'build', 'target', 'out', 'vendor', 'coverage', '.next', '.nuxt', '.svelte-kit', 'venv', '.venv', 'Pods', 'Carthage', 'obj', 'bin', '.settings', '.vscode', '__pycache__', '.DS_Store'];
 
 
+// Secrets are write-only from the browser's point of view: getters mask them and saves resolve the placeholder.
+function maskSecret(value: string | null | undefined): string {
+  return value ? SECRET_PLACEHOLDER : "";
+}
+
+function resolveSubmittedSecret(submitted: string | undefined, stored: string | undefined): string | undefined {
+  return submitted === SECRET_PLACEHOLDER ? stored : submitted;
+}
+
+function isSameOrigin(url: string | undefined, otherUrl: string | undefined): boolean {
+  try {
+    return !!url && !!otherUrl && new URL(url).origin === new URL(otherUrl).origin;
+  } catch {
+    return false;
+  }
+}
+
+// A stored secret is only sent back to the host it was entered for; pointing the config elsewhere needs it re-entered.
+function resolveSubmittedSecretForUrl(
+  submitted: string | undefined,
+  stored: { secret: string | undefined; url: string | undefined } | null,
+  submittedUrl: string,
+  secretName: string,
+): string | undefined {
+  if (submitted === SECRET_PLACEHOLDER && stored?.secret && !isSameOrigin(submittedUrl, stored.url)) {
+    throw new Error(`The URL points to a different host than the stored ${secretName} was saved for. Enter the ${secretName} again.`);
+  }
+  return resolveSubmittedSecret(submitted, stored?.secret);
+}
+
+export async function clearStoredSecret(teamId: string, fieldId: SecretFieldId) {
+  try {
+    await clearSecretInDb(teamId, fieldId);
+    return { success: true, message: "Stored secret cleared." };
+  } catch (error: any) {
+    console.error(`clearStoredSecret failed for team ${teamId}, field ${fieldId}:`, error);
+    return { success: false, message: error.message || "Failed to clear stored secret." };
+  }
+}
+
 // Team Actions
 export async function addTeam(formData: TeamFormData) {
   try {
@@ -76,9 +202,10 @@ export async function addTeam(formData: TeamFormData) {
   }
 }
 
-export async function getTeams() {
+// Archived teams are left out unless asked for, so selectors only offer active teams.
+export async function getTeams(includeArchived = false) {
   try {
-    const teams = await getTeamsFromDb();
+    const teams = await getTeamsFromDb(includeArchived);
     return teams;
   } catch (error: any) {
     console.error("getTeams action failed:", error);
@@ -86,145 +213,142 @@ export async function getTeams() {
   }
 }
 
+export async function renameTeam(teamId: string, formData: TeamFormData) {
+  try {
+    await renameTeamInDb(teamId, formData.name);
+    return { success: true, message: `Team renamed to "${formData.name}".` };
+  } catch (error: any) {
+    console.error("renameTeam action failed:", error);
+    return { success: false, message: error.message || "Failed to rename team." };
+  }
+}
+
+export async function archiveTeam(teamId: string) {
+  try {
+    await setTeamArchivedInDb(teamId, new Date().toISOString());
+    return { success: true, message: "Team archived. Its configuration and metrics are kept until it is deleted." };
+  } catch (error: any) {
+    console.error("archiveTeam action failed:", error);
+    return { success: false, message: error.message || "Failed to archive team." };
+  }
+}
+
+export async function restoreTeam(teamId: string) {
+  try {
+    await setTeamArchivedInDb(teamId, null);
+    return { success: true, message: "Team restored." };
+  } catch (error: any) {
+    console.error("restoreTeam action failed:", error);
+    return { success: false, message: error.message || "Failed to restore team." };
+  }
+}
+
+export async function deleteTeam(teamId: string) {
+  try {
+    await deleteTeamFromDb(teamId);
+    return { success: true, message: "Team and all of its data deleted." };
+  } catch (error: any) {
+    console.error("deleteTeam action failed:", error);
+    return { success: false, message: error.message || "Failed to delete team." };
+  }
+}
+
+// What deleting the team would remove, for the confirmation dialog.
+export async function getTeamDataCounts(teamId: string): Promise<TeamDataCount[] | null> {
+  try {
+    return await getTeamDataCountsFromDb(teamId);
+  } catch (error: any) {
+    console.error("getTeamDataCounts action failed:", error);
+    return null;
+  }
+}
+
 // API Keys Actions
 export async function saveApiKeys(formData: ApiKeysFormData) {
   try {
-    await saveApiKeysToDb(formData);
+    const stored = await getApiKeysFromDb(formData.teamId);
+    await saveApiKeysToDb({
+      teamId: formData.teamId,
+      geminiApiKey: resolveSubmittedSecret(formData.geminiApiKey, stored?.geminiApiKey),
+      openAiApiKey: resolveSubmittedSecret(formData.openAiApiKey, stored?.openAiApiKey),
+      claudeAiApiKey: resolveSubmittedSecret(formData.claudeAiApiKey, stored?.claudeAiApiKey),
+    });
     return { success: true, message: "API keys saved successfully." };
   } catch (error: any) {
     return { success: false, message: error.message || "Failed to save API keys." };
   }
 }
-export async function getApiKeys(teamId: string) {
-  return getApiKeysFromDb(teamId);
+export async function getApiKeys(teamId: string): Promise<WithSecretFlags<ApiKeysFormData, "geminiApiKey" | "openAiApiKey" | "claudeAiApiKey"> | null> {
+  const keys = await getApiKeysFromDb(teamId);
+  if (keys) {
+    return {
+      teamId: keys.teamId,
+      geminiApiKey: maskSecret(keys.geminiApiKey),
+      openAiApiKey: maskSecret(keys.openAiApiKey),
+      claudeAiApiKey: maskSecret(keys.claudeAiApiKey),
+      hasSecret: {
+        geminiApiKey: !!keys.geminiApiKey,
+        openAiApiKey: !!keys.openAiApiKey,
+        claudeAiApiKey: !!keys.claudeAiApiKey,
+      },
+    };
+  }
+  return null;
 }
 
 // GitHub Config Actions
 export async function saveGithubConfig(formData: GithubConfigFormData) {
   try {
-    await saveGithubConfigToDb(formData);
-    return { success: true, message: "GitHub configuration saved." };
+    const stored = await getGithubConfigFromDb(formData.teamId);
+    // Repos, tokens and cached history from another provider don't carry over.
+    const providerChanged = !!stored && stored.provider !== formData.provider;
+    if (providerChanged && formData.accessToken === SECRET_PLACEHOLDER) {
+      throw new Error("The stored access token was saved for a different provider. Enter the access token again.");
+    }
+    await saveGithubConfigToDb({
+      ...formData,
+      accessToken: providerChanged
+        ? resolveSubmittedSecret(formData.accessToken, undefined)
+        : resolveSubmittedSecretForUrl(formData.accessToken, stored && { secret: stored.accessToken, url: stored.rootUrl }, formData.rootUrl, "access token"),
+      selectedRepos: providerChanged ? [] : formData.selectedRepos,
+    });
+    if (providerChanged) {
+      await clearGithubTeamMetrics(formData.teamId);
+      return { success: true, message: "Source control provider changed. Selected repositories and metrics were cleared; scan for repositories again." };
+    }
+    return { success: true, message: "Source control configuration saved." };
   } catch (error: any) {
-    return { success: false, message: error.message || "Failed to save GitHub configuration." };
+    return { success: false, message: error.message || "Failed to save source control configuration." };
   }
 }
-export async function getGithubConfig(teamId: string): Promise<GithubConfigFormData | null> {
+export async function getGithubConfig(teamId: string): Promise<WithSecretFlags<GithubConfigFormData, "accessToken"> | null> {
   const config = await getGithubConfigFromDb(teamId);
   if (config) {
     return {
       ...config,
+      accessToken: maskSecret(config.accessToken),
       selectedRepos: config.selectedRepos || [],
+      hasSecret: { accessToken: !!config.accessToken },
     };
   }
   return null;
 }
 
 
-async function fetchGithubReposFromApi(apiUrl: string, token: string): Promise<GithubApiRepo[]> {
-  if (!token) {
-    throw new Error("GitHub Access Token is required to fetch repositories.");
-  }
-  let allRepos: GithubApiRepo[] = [];
-  let nextPageUrl: string | null = apiUrl;
-  console.log(`Fetching GitHub repos from initial URL: ${apiUrl}`);
-
-  while (nextPageUrl) {
-    console.log(`Fetching page: ${nextPageUrl}`);
-    const response = await fetch(nextPageUrl, {
-      headers: {
-        Authorization: `token ${token}`,
-        Accept: 'application/vnd.github.v3+json',
-      },
-    });
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      console.error(`GitHub API Error (${response.status}) for URL ${nextPageUrl}: ${errorBody}`);
-      throw new Error(`Failed to fetch repositories from ${nextPageUrl}. Status: ${response.status}. Message: ${errorBody}`);
-    }
-
-    const data = await response.json();
-    if (!Array.isArray(data)) {
-        console.error(`GitHub API response for ${nextPageUrl} was not an array:`, data);
-        throw new Error(`Unexpected response format from GitHub API for URL ${nextPageUrl}. Expected an array of repositories.`);
-    }
-    allRepos = allRepos.concat(data);
-
-    const linkHeader = response.headers.get('Link');
-    nextPageUrl = null;
-    if (linkHeader) {
-      const links = linkHeader.split(',');
-      const nextLink = links.find(link => link.includes('rel="next"'));
-      if (nextLink) {
-        const match = nextLink.match(/<([^>]+)>/);
-        if (match) {
-          nextPageUrl = match[1];
-        }
-      }
-    }
-    console.log(`Fetched ${data.length} repos from this page. Total fetched so far: ${allRepos.length}. Next page: ${nextPageUrl || 'none'}`);
-  }
-  return allRepos;
-}
-
-
 export async function scanGithubRepos(teamId: string) {
   try {
     const config = await getGithubConfigFromDb(teamId);
     if (!config || !config.rootUrl || !config.accessToken) {
-      return { success: false, message: "GitHub configuration (Root URL or Access Token) not found for this team. Please configure it first.", repos: [] };
-    }
-
-    const { rootUrl, accessToken } = config;
-    const GITHUB_API_BASE = rootUrl.includes("api.github.com")
-        ? rootUrl.split("/").slice(0,3).join("/")
-        : (rootUrl.startsWith('https://github.com')
-            ? 'https://api.github.com'
-            : `${new URL(rootUrl).origin}/api/v3`); // For GHE
-
-    const urlPathParts = new URL(rootUrl).pathname.split('/').filter(Boolean);
-
-    let apiEndpointForRepoListing = "";
-    const perPageQuery = "type=all&per_page=100"; // Fetch up to 100 repos per page
-
-    if (rootUrl.includes("api.github.com/") && (rootUrl.includes("/repos") || rootUrl.includes("/user") || rootUrl.includes("/orgs"))) {
-        apiEndpointForRepoListing = rootUrl.includes("?") ? `${rootUrl}&${perPageQuery}` : `${rootUrl}?${perPageQuery}`;
-    }
-    else if (urlPathParts.length > 0) {
-        const orgOrUser = urlPathParts[urlPathParts.length - 1]; 
-        let potentialOrgUrl = `${GITHUB_API_BASE}/orgs/${orgOrUser}/repos?${perPageQuery}`;
-        try {
-            const orgResponse = await fetch(potentialOrgUrl, { headers: { Authorization: `token ${accessToken}`}});
-            if (orgResponse.ok) {
-                apiEndpointForRepoListing = potentialOrgUrl;
-            } else if (orgResponse.status === 404 || orgResponse.status === 403) { 
-                 apiEndpointForRepoListing = `${GITHUB_API_BASE}/users/${orgOrUser}/repos?${perPageQuery}`;
-            } else { 
-                 throw new Error(`GitHub API error for orgs endpoint ${potentialOrgUrl}: ${orgResponse.status} - ${await orgResponse.text()}`);
-            }
-        } catch(e: any) {
-            console.warn(`Org check failed for ${orgOrUser}, trying user endpoint. Error: ${e.message}`);
-            apiEndpointForRepoListing = `${GITHUB_API_BASE}/users/${orgOrUser}/repos?${perPageQuery}`;
-        }
-    }
-    else { 
-         apiEndpointForRepoListing = `${GITHUB_API_BASE}/user/repos?${perPageQuery}`;
+      return { success: false, message: "Source control configuration (Root URL or Access Token) not found for this team. Please configure it first.", repos: [] };
     }
 
-    console.log(`Scanning GitHub repos from: ${apiEndpointForRepoListing}`);
-    const reposFromApi = await fetchGithubReposFromApi(apiEndpointForRepoListing, accessToken);
+    const provider = createScmProvider({ provider: config.provider, rootUrl: config.rootUrl, accessToken: config.accessToken });
+    const { repos: formattedRepos, source } = await provider.listRepos();
 
-    if (reposFromApi.length === 0) {
-        return { success: true, message: `No repositories found for the configured URL: ${apiEndpointForRepoListing}. This could be due to permissions, an incorrect URL, or no repositories present.`, repos: [] };
+    if (formattedRepos.length === 0) {
+        return { success: true, message: `No repositories found for the configured URL: ${source}. This could be due to permissions, an incorrect URL, or no repositories present.`, repos: [] };
     }
 
-    const formattedRepos: GithubRepoData[] = reposFromApi.map(repo => ({
-      id: String(repo.id),
-      name: repo.name,
-      url: repo.html_url,
-      fullName: repo.full_name,
-    }));
-
     return { success: true, repos: formattedRepos, message: `Found ${formattedRepos.length} repositories.` };
 
   } catch (error: any) {
@@ -234,17 +358,6 @@ export async function scanGithubRepos(teamId: string) {
 }
 
 
-async function fetchCommitDetails(repoFullName: string, commitSha: string, token: string, githubApiBase: string): Promise<GithubApiCommit | null> {
-  const response = await fetch(`${githubApiBase}/repos/${repoFullName}/commits/${commitSha}`, {
-    headers: { Authorization: `token ${token}`, Accept: 'application/vnd.github.v3+json' },
-  });
-  if (!response.ok) {
-    console.warn(`Failed to fetch commit details for ${repoFullName}#${commitSha}: ${response.status} ${await response.text()}`);
-    return null;
-  }
-  return response.json();
-}
-
 async function countLinesInFile(filePath: string): Promise<number> {
     try {
         const content = await fs.readFile(filePath, { encoding: 'utf-8' });
@@ -290,27 +403,55 @@ async function calculateLocInDirectory(directory: string): Promise<{ totalLines:
 }
 
 
-export async function refreshGithubMetrics(teamId: string, repoIdentifiersToRefreshArg?: GithubRepoData[]) {
+// Partial refreshes still save their data, but carry `info` so they stay out of trend snapshots and get flagged in the UI.
+function incompleteInfo(incomplete: GithubIncompleteFetch[]): GithubMetricsPeriodData["info"] {
+  if (incomplete.length === 0) return undefined;
+  const repoCount = new Set(incomplete.map(entry => entry.repoFullName)).size;
+  return { message: `Data is incomplete for ${repoCount} repo(s).`, incomplete };
+}
+
+function emptyGithubRepoSyncState(repoFullName: string): GithubRepoSyncState {
+  return {
+    repoFullName,
+    lastCommitSha: null,
+    lastCommitDate: null,
+    commits: [],
+    workflowRuns: [],
+    pullRequests: [],
+    lastCloneHead: null,
+    clonedTotalLines: null,
+    clonedLinesByLanguage: {},
+    lastSyncedAt: null,
+  };
+}
+
+// Resolves the default branch HEAD without cloning; null when the remote can't be queried, which forces a clone.
+async function fetchRemoteHead(repoFullName: string, cloneUrl: string): Promise<string | null> {
+  try {
+    const { stdout } = await execPromise(`git ls-remote ${cloneUrl} HEAD`, { timeout: 60000 });
+    return stdout.split(/\s+/)[0] || null;
+  } catch (e: any) {
+    // The message echoes the credentialed URL, so only the exit code is logged.
+    console.warn(`Could not resolve remote HEAD of ${repoFullName} (git exit code ${e.code ?? 'unknown'}).`);
+    return null;
+  }
+}
+
+export async function refreshGithubMetrics(teamId: string, repoIdentifiersToRefreshArg?: GithubRepoData[], options: { forceFullResync?: boolean } = {}) {
   let existingMetrics: Record<string, GithubMetricsPeriodData> = {};
   try {
-    console.log(`refreshGithubMetrics called for team ${teamId}. Repos to refresh arg:`, repoIdentifiersToRefreshArg?.map(r => r.fullName));
+    console.log(`refreshGithubMetrics called for team ${teamId} (force full resync: ${!!options.forceFullResync}). Repos to refresh arg:`, repoIdentifiersToRefreshArg?.map(r => r.fullName));
     existingMetrics = await getGithubTeamMetricsFromDb(teamId);
     const githubConfig = await getGithubConfigFromDb(teamId);
 
     if (!githubConfig || !githubConfig.accessToken || !githubConfig.rootUrl) {
-      const message = "GitHub configuration (Root URL or Access Token) not fully configured for this team.";
+      const message = "Source control configuration (Root URL or Access Token) not fully configured for this team.";
       console.warn(message);
       await saveGithubTeamMetric(teamId, "overall_snapshot", { ...existingMetrics["overall_snapshot"], info: { message }, apiLastRefreshed: new Date().toISOString() });
       return { success: false, message, data: { ...existingMetrics, "overall_snapshot": { ...existingMetrics["overall_snapshot"], info: { message } } } };
     }
     const { rootUrl, accessToken, selectedRepos: savedSelectedReposConfig } = githubConfig;
-    const headers = { Authorization: `token ${accessToken}`, Accept: 'application/vnd.github.v3+json' };
-
-    const GITHUB_API_BASE = rootUrl.includes("api.github.com")
-        ? rootUrl.split("/").slice(0,3).join("/")
-        : (rootUrl.startsWith('https://github.com')
-            ? 'https://api.github.com'
-            : `${new URL(rootUrl).origin}/api/v3`);
+    const provider = createScmProvider({ provider: githubConfig.provider, rootUrl, accessToken });
 
     let reposToProcessForMetrics: GithubRepoData[];
     if (repoIdentifiersToRefreshArg && repoIdentifiersToRefreshArg.length > 0) {
@@ -332,15 +473,26 @@ export async function refreshGithubMetrics(teamId: string, repoIdentifiersToRefr
         await saveGithubTeamMetric(teamId, "overall_snapshot", { info: { message }, apiLastRefreshed: new Date().toISOString() });
         return { success: true, message, data: { "overall_snapshot": { info: { message } } } };
     }
-    console.log(`Refreshing GitHub metrics for ${reposToProcessForMetrics.length} repos. Team: ${teamId}. API Base: ${GITHUB_API_BASE}`);
+    console.log(`Refreshing ${provider.label} metrics for ${reposToProcessForMetrics.length} repos. Team: ${teamId}. Root URL: ${rootUrl}`);
     console.log("Repos to process:", reposToProcessForMetrics.map(r => r.fullName || r.name));
 
+    // A forced resync ignores the stored cursors; the fresh state written below replaces them.
+    const previousSyncStates = options.forceFullResync ? {} : await getGithubRepoSyncStatesFromDb(teamId);
+    const syncStates: Record<string, GithubRepoSyncState> = {};
+    for (const repo of reposToProcessForMetrics) {
+      if (repo.fullName) {
+        syncStates[repo.fullName] = previousSyncStates[repo.fullName] || emptyGithubRepoSyncState(repo.fullName);
+      }
+    }
+
 
     const overallApiTimestamp = new Date().toISOString();
     let overallApiTotalBytes = 0;
     const overallApiBytesByLanguage: Record<string, number> = {};
     const overallLatestTags: { name: string; date: string }[] = [];
     const overallApiProcessedRepoFullNames: string[] = [];
+    const overallIncomplete: GithubIncompleteFetch[] = [];
+    const repoSnapshots: Record<string, GithubRepoSnapshotMetrics> = {};
 
     for (const repoData of reposToProcessForMetrics) {
       if (!repoData.fullName) {
@@ -348,42 +500,41 @@ export async function refreshGithubMetrics(teamId: string, repoIdentifiersToRefr
         continue;
       }
       overallApiProcessedRepoFullNames.push(repoData.fullName);
-      try {
-        const langResponse = await fetch(`${GITHUB_API_BASE}/repos/${repoData.fullName}/languages`, { headers });
-        if (langResponse.ok) {
-          const languages = await langResponse.json();
+      const repoSnapshot: GithubRepoSnapshotMetrics = {
+        repoFullName: repoData.fullName,
+        apiBytesByLanguage: {},
+        apiEstimatedTotalLines: 0,
+        clonedTotalLines: null,
+        latestTag: null,
+        lastCommitDate: null,
+      };
+      repoSnapshots[repoData.fullName] = repoSnapshot;
+      if (provider.fetchLanguageBytes) {
+        try {
+          const languages = await provider.fetchLanguageBytes(repoData.fullName);
           for (const lang in languages) {
             overallApiBytesByLanguage[lang] = (overallApiBytesByLanguage[lang] || 0) + languages[lang];
             overallApiTotalBytes += languages[lang];
           }
-        } else {
-          console.warn(`Failed to fetch languages for ${repoData.fullName}: ${langResponse.status} ${await langResponse.text()}`);
+          repoSnapshot.apiBytesByLanguage = languages;
+          repoSnapshot.apiEstimatedTotalLines = Math.round(Object.values(languages).reduce((sum, bytes) => sum + bytes, 0) / ESTIMATED_BYTES_PER_LINE);
+        } catch (e: any) {
+           console.warn(`Error fetching languages for ${repoData.fullName}: ${e.message}`);
+           overallIncomplete.push({ repoFullName: repoData.fullName, scope: 'languages', reason: e.message });
         }
-      } catch (e: any) {
-         console.warn(`Error fetching languages for ${repoData.fullName}: ${e.message}`);
       }
 
       try {
-        const tagsResponse = await fetch(`${GITHUB_API_BASE}/repos/${repoData.fullName}/tags?per_page=5`, { headers });
-        if (tagsResponse.ok) {
-          const tags: GithubApiTag[] = await tagsResponse.json();
-          for (const tag of tags) {
-            try {
-                const commitDetail = await fetchCommitDetails(repoData.fullName, tag.commit.sha, accessToken, GITHUB_API_BASE);
-                overallLatestTags.push({
-                name: `${repoData.name}/${tag.name}`,
-                date: commitDetail?.commit.committer?.date || new Date().toISOString()
-                });
-            } catch (commitDetailError: any) {
-                console.warn(`Could not fetch commit details for tag ${tag.name} in repo ${repoData.fullName}: ${commitDetailError.message}`);
-                overallLatestTags.push({ name: `${repoData.name}/${tag.name}`, date: new Date().toISOString() });
-            }
+        const tags = await provider.fetchLatestTags(repoData.fullName, 5);
+        for (const tag of tags) {
+          overallLatestTags.push({ name: `${repoData.name}/${tag.name}`, date: tag.date });
+          if (!repoSnapshot.latestTag || tag.date > repoSnapshot.latestTag.date) {
+            repoSnapshot.latestTag = tag;
           }
-        } else {
-           console.warn(`Failed to fetch tags for ${repoData.fullName}: ${tagsResponse.status} ${await tagsResponse.text()}`);
         }
       } catch (e: any) {
         console.warn(`Error fetching tags for ${repoData.fullName}: ${e.message}`);
+        overallIncomplete.push({ repoFullName: repoData.fullName, scope: 'tags', reason: e.message });
       }
     }
     overallLatestTags.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime());
@@ -400,13 +551,25 @@ export async function refreshGithubMetrics(teamId: string, repoIdentifiersToRefr
     let clonedLoCTimestamp: string | undefined = undefined;
 
     for (const repo of reposToProcessForMetrics) {
-        if (!repo.url || !repo.fullName) {
+        const repoCloneUrl = provider.cloneUrl(repo);
+        if (!repoCloneUrl || !repo.fullName) {
             console.warn(`Skipping cloned LoC count for repo due to missing URL or fullName: ${JSON.stringify(repo)}`);
             continue;
         }
-        const repoCloneUrl = repo.url.startsWith('https://') && accessToken
-            ? repo.url.replace('https://', `https://x-access-token:${accessToken}@`)
-            : repo.url;
+
+        const syncState = syncStates[repo.fullName];
+        const remoteHead = await fetchRemoteHead(repo.fullName, repoCloneUrl);
+        if (remoteHead && remoteHead === syncState.lastCloneHead && syncState.clonedTotalLines !== null) {
+            console.log(`HEAD of ${repo.fullName} unchanged (${remoteHead}); reusing LoC count from the last clone.`);
+            overallClonedActualTotalLines += syncState.clonedTotalLines;
+            repoSnapshots[repo.fullName].clonedTotalLines = syncState.clonedTotalLines;
+            for (const langExt in syncState.clonedLinesByLanguage) {
+                overallClonedActualLinesByLanguage[langExt] = (overallClonedActualLinesByLanguage[langExt] || 0) + syncState.clonedLinesByLanguage[langExt];
+            }
+            overallClonedProcessedRepoFullNames.push(repo.fullName);
+            if (!clonedLoCTimestamp) clonedLoCTimestamp = new Date().toISOString();
+            continue;
+        }
 
         let tempDirObj: tmp.DirResult | null = null;
         try {
@@ -415,18 +578,25 @@ export async function refreshGithubMetrics(teamId: string, repoIdentifiersToRefr
             console.log(`Cloning ${repo.fullName} (from ${repo.url}) to ${tempRepoPath} for LoC count...`);
 
             await execPromise(`git clone --depth 1 ${repoCloneUrl} .`, { cwd: tempRepoPath, timeout: 300000 });
+            const { stdout: clonedHead } = await execPromise('git rev-parse HEAD', { cwd: tempRepoPath });
             console.log(`Cloned ${repo.fullName}. Counting LoC...`);
 
             const locData = await calculateLocInDirectory(tempRepoPath);
             overallClonedActualTotalLines += locData.totalLines;
+            repoSnapshots[repo.fullName].clonedTotalLines = locData.totalLines;
             for (const langExt in locData.linesByLanguage) {
                 overallClonedActualLinesByLanguage[langExt] = (overallClonedActualLinesByLanguage[langExt] || 0) + locData.linesByLanguage[langExt];
             }
             overallClonedProcessedRepoFullNames.push(repo.fullName);
             if (!clonedLoCTimestamp) clonedLoCTimestamp = new Date().toISOString();
+            syncState.lastCloneHead = clonedHead.trim();
+            syncState.clonedTotalLines = locData.totalLines;
+            syncState.clonedLinesByLanguage = locData.linesByLanguage;
             console.log(`Finished LoC for ${repo.fullName}: ${locData.totalLines} lines.`);
         } catch (cloneOrCountError: any) {
-            console.error(`Error processing ${repo.fullName} for cloned LoC: ${cloneOrCountError.message}. Stdout: ${cloneOrCountError.stdout}. Stderr: ${cloneOrCountError.stderr}.`);
+            const reason = redactCloneCredentials(cloneOrCountError.message);
+            console.error(`Error processing ${repo.fullName} for cloned LoC: ${reason}. Stdout: ${redactCloneCredentials(cloneOrCountError.stdout)}. Stderr: ${redactCloneCredentials(cloneOrCountError.stderr)}.`);
+            overallIncomplete.push({ repoFullName: repo.fullName, scope: 'clonedLoC', reason });
         } finally {
             if (tempDirObj) {
                 try {
@@ -452,8 +622,9 @@ export async function refreshGithubMetrics(teamId: string, repoIdentifiersToRefr
       clonedLoCLastRefreshed: clonedLoCTimestamp,
 
       latestTags: overallLatestTags.slice(0, 10),
+      scmProvider: provider.id,
+      info: incompleteInfo(overallIncomplete),
     };
-    await saveGithubTeamMetric(teamId, "overall_snapshot", overallSnapshotData);
 
     const periods = [
       { key: "7days", days: 7 }, { key: "30days", days: 30 }, { key: "60days", days: 60 },
@@ -461,98 +632,99 @@ export async function refreshGithubMetrics(teamId: string, repoIdentifiersToRefr
     ];
     const periodicMetricsTimestamp = new Date().toISOString();
 
-    for (const period of periods) {
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setDate(endDate.getDate() - period.days);
-      let linesAddedInPeriod = 0;
-      const uniqueCommittersInPeriod = new Set<string>();
-      const periodApiProcessedRepoFullNames: string[] = [];
-
-      for (const repo of reposToProcessForMetrics) {
-         if (!repo.fullName) {
-            console.warn(`Skipping periodic API metrics for repo due to missing fullName (period: ${period.key}): ${JSON.stringify(repo)}`);
-            continue;
-        }
-        periodApiProcessedRepoFullNames.push(repo.fullName);
+    // Commits and pull requests are fetched once for the longest period; each period then filters them by date.
+    // Both are incremental: only those after the repo's cursors are fetched and merged into its cached history.
+    const historySince = new Date();
+    historySince.setDate(historySince.getDate() - Math.max(...periods.map(p => p.days)));
+    const ciHistorySince = new Date();
+    ciHistorySince.setDate(ciHistorySince.getDate() - GITHUB_ACTIONS_HISTORY_DAYS);
+    const commitRecords: GithubCommitRecord[] = [];
+    const workflowRunRecords: GithubWorkflowRunRecord[] = [];
+    const pullRequestRecords: GithubPullRequestRecord[] = [];
+    const periodApiProcessedRepoFullNames: string[] = [];
+    const periodIncomplete: GithubIncompleteFetch[] = [];
+    for (const repo of reposToProcessForMetrics) {
+      if (!repo.fullName) {
+        console.warn(`Skipping periodic API metrics for repo due to missing fullName: ${JSON.stringify(repo)}`);
+        continue;
+      }
+      periodApiProcessedRepoFullNames.push(repo.fullName);
+      const syncState = syncStates[repo.fullName];
+      try {
+        const fetchSince = commitHistoryFetchSince(syncState.commits, historySince);
+        const fetched = await provider.fetchCommitHistory(repo.fullName, fetchSince, new Set(syncState.commits.map(commit => commit.oid)));
+        syncState.commits = mergeCommitHistory(syncState.commits, fetched, historySince.getTime());
+        syncState.lastCommitSha = syncState.commits[0]?.oid || null;
+        syncState.lastCommitDate = syncState.commits[0]?.committedDate || null;
+        console.log(`Fetched ${fetched.length} commits for ${repo.fullName} since ${fetchSince.toISOString()}; ${syncState.commits.length} cached.`);
+      } catch (e: any) {
+        // Keep the cached history so a transient failure doesn't zero out the repo's periods.
+        console.warn(`Error fetching commit history for ${repo.fullName}: ${e.message}`);
+        const cachedUntil = syncState.lastCommitDate ? ` (using cached commits up to ${syncState.lastCommitDate})` : '';
+        periodIncomplete.push({ repoFullName: repo.fullName, scope: 'commits', reason: `${e.message}${cachedUntil}` });
+      }
+      commitRecords.push(...syncState.commits);
+      repoSnapshots[repo.fullName].lastCommitDate = syncState.lastCommitDate;
+      if (provider.fetchWorkflowRuns) {
         try {
-          let commitsUrl = `${GITHUB_API_BASE}/repos/${repo.fullName}/commits?since=${startDate.toISOString()}&until=${endDate.toISOString()}&per_page=100`;
-          let pageCommits: GithubApiCommit[] = [];
-
-          do {
-            const commitsResponse = await fetch(commitsUrl, { headers });
-            if (!commitsResponse.ok) {
-               console.warn(`Failed to fetch commits page for ${repo.fullName} (URL: ${commitsUrl}, Period: ${period.key}): ${commitsResponse.status} ${await commitsResponse.text()}`);
-               pageCommits = [];
-               break;
-            }
-            const fetchedPageCommitsData: GithubApiCommit[] | { message?: string } = await commitsResponse.json();
-
-            if (!Array.isArray(fetchedPageCommitsData)) {
-              if (typeof fetchedPageCommitsData === 'object' && (fetchedPageCommitsData as any).message && ((fetchedPageCommitsData as any).message.includes("empty") || (fetchedPageCommitsData as any).message.includes("Git Repository is empty."))) {
-                console.log(`No commits found for ${repo.fullName} in period ${period.key} or repo is empty.`);
-              } else if (typeof fetchedPageCommitsData === 'object' && (fetchedPageCommitsData as any).message) {
-                console.warn(`API message for ${repo.fullName} commits (Period: ${period.key}): ${(fetchedPageCommitsData as any).message}`);
-              } else {
-                console.warn(`Commits response for ${repo.fullName} (Period: ${period.key}) was not an array:`, fetchedPageCommitsData);
-              }
-              pageCommits = [];
-              break;
-            }
-            pageCommits = fetchedPageCommitsData;
-
-            for (const commit of pageCommits) {
-              const committerLogin = commit.author?.login || commit.committer?.login || commit.commit?.author?.name || commit.commit?.committer?.name || 'unknown_committer';
-              if (committerLogin !== 'unknown_committer') {
-                uniqueCommittersInPeriod.add(committerLogin);
-              }
-
-              let commitStats = commit.stats;
-              if (!commitStats && commit.sha) {
-                  try {
-                    const detailedCommit = await fetchCommitDetails(repo.fullName, commit.sha, accessToken, GITHUB_API_BASE);
-                    commitStats = detailedCommit?.stats;
-                  } catch (detailFetchError: any) {
-                    console.warn(`Could not fetch commit details for ${repo.fullName}#${commit.sha}: ${detailFetchError.message}`);
-                  }
-              }
-              if (commitStats?.additions) {
-                  linesAddedInPeriod += commitStats.additions;
-              }
-            }
-
-            const linkHeader = commitsResponse.headers.get('Link');
-            commitsUrl = "";
-            if (linkHeader) {
-                const links = linkHeader.split(',');
-                const nextLink = links.find(link => link.includes('rel="next"'));
-                if (nextLink) {
-                    const match = nextLink.match(/<([^>]+)>/);
-                    if (match) commitsUrl = match[1];
-                }
-            }
-          } while (commitsUrl && pageCommits.length > 0);
-
+          const runsSince = workflowRunsFetchSince(syncState.workflowRuns, ciHistorySince);
+          const fetchedRuns = await provider.fetchWorkflowRuns(repo.fullName, runsSince, syncState.workflowRuns);
+          syncState.workflowRuns = mergeWorkflowRuns(syncState.workflowRuns, fetchedRuns, ciHistorySince.getTime());
         } catch (e: any) {
-          console.warn(`Error fetching commits for ${repo.fullName} for period ${period.key}: ${e.message}`);
+          console.warn(`Error fetching workflow runs for ${repo.fullName}: ${e.message}`);
+          periodIncomplete.push({ repoFullName: repo.fullName, scope: 'workflowRuns', reason: e.message });
         }
       }
+      workflowRunRecords.push(...syncState.workflowRuns);
+      try {
+        const pullsSince = pullRequestsFetchSince(syncState.pullRequests, historySince);
+        const fetchedPulls = await provider.fetchPullRequests(repo.fullName, pullsSince);
+        syncState.pullRequests = mergePullRequests(syncState.pullRequests, fetchedPulls, historySince.getTime());
+      } catch (e: any) {
+        console.warn(`Error fetching pull requests for ${repo.fullName}: ${e.message}`);
+        periodIncomplete.push({ repoFullName: repo.fullName, scope: 'pullRequests', reason: e.message });
+      }
+      pullRequestRecords.push(...syncState.pullRequests);
+      syncState.lastSyncedAt = periodicMetricsTimestamp;
+      await saveGithubRepoSyncStateToDb(teamId, syncState);
+    }
+    console.log(`Fetched ${commitRecords.length} commits and ${pullRequestRecords.length} pull requests since ${historySince.toISOString()}, and ${workflowRunRecords.length} workflow runs since ${ciHistorySince.toISOString()}, for team ${teamId}.`);
+
+    // Saved after the commit fetch so each repo's last commit date is known.
+    overallSnapshotData.repos_current = Object.values(repoSnapshots);
+    await saveGithubTeamMetric(teamId, "overall_snapshot", overallSnapshotData);
+
+    const endDate = new Date();
+    for (const period of periods) {
+      const startDate = new Date(endDate);
+      startDate.setDate(endDate.getDate() - period.days);
+      const { linesAdded, committers } = summarizeCommitsForPeriod(commitRecords, startDate.getTime(), endDate.getTime());
 
       const periodData: GithubMetricsPeriodData = {
-        linesAdded_period: linesAddedInPeriod,
-        uniqueCommitters_period: uniqueCommittersInPeriod.size,
-        uniqueCommitterNames_period: Array.from(uniqueCommittersInPeriod),
+        linesAdded_period: linesAdded,
+        uniqueCommitters_period: committers.length,
+        uniqueCommitterNames_period: committers,
         periodStartDate: startDate.toISOString(),
         periodEndDate: endDate.toISOString(),
         periodLastRefreshed: periodicMetricsTimestamp,
         apiProcessedRepoFullNames: periodApiProcessedRepoFullNames,
+        pullRequests_period: computePullRequestMetrics(pullRequestRecords, startDate.getTime(), endDate.getTime()),
+        ci_period: provider.fetchWorkflowRuns && period.days <= GITHUB_ACTIONS_HISTORY_DAYS ? computeCiMetrics(workflowRunRecords, startDate.getTime(), endDate.getTime()) : undefined,
+        repos_period: summarizeCommitsByRepo(commitRecords, periodApiProcessedRepoFullNames, startDate.getTime(), endDate.getTime()),
+        committerActivity_period: summarizeCommitterActivity(commitRecords, startDate.getTime(), endDate.getTime()),
+        info: incompleteInfo(periodIncomplete),
       };
       await saveGithubTeamMetric(teamId, period.key, periodData);
     }
 
     const updatedMetrics = await getGithubTeamMetricsFromDb(teamId);
-    console.log(`Successfully refreshed GitHub metrics for team ${teamId}.`);
-    return { success: true, data: updatedMetrics, message: "GitHub metrics (API & Cloned LoC) refreshed and saved." };
+    const incompleteRepoCount = new Set([...overallIncomplete, ...periodIncomplete].map(entry => entry.repoFullName)).size;
+    if (incompleteRepoCount > 0) {
+      console.warn(`${provider.label} metrics for team ${teamId} refreshed with incomplete data for ${incompleteRepoCount} repo(s).`);
+      return { success: true, data: updatedMetrics, message: `${provider.label} metrics refreshed, but data for ${incompleteRepoCount} repo(s) is incomplete. See the dashboard for details.` };
+    }
+    console.log(`Successfully refreshed ${provider.label} metrics for team ${teamId}.`);
+    return { success: true, data: updatedMetrics, message: `${provider.label} metrics (API & Cloned LoC) refreshed and saved.` };
 
   } catch (error: any)
 {
@@ -646,142 +818,343 @@ export async function getGithubMetrics(teamId: string): Promise<Record<string, G
               periodStartDate: data.periodStartDate || "N/A",
               periodEndDate: data.periodEndDate || "N/A",
               periodLastRefreshed: data.periodLastRefreshed || "N/A",
+              pullRequests_period: data.pullRequests_period,
+              ci_period: data.ci_period,
+              repos_current: data.repos_current,
+              repos_period: data.repos_period,
+              committerActivity_period: data.committerActivity_period,
           };
         }
     }
+
+    // Committers are reported per resolved person; periods refreshed before identities were collected keep raw names.
+    const people = await getPeopleFromDb(teamId);
+    for (const key in resultMetrics) {
+        const activity = resultMetrics[key].committerActivity_period;
+        if (!activity) continue;
+        const resolved = resolveCommitters(people, activity);
+        resultMetrics[key].resolvedCommitters_period = resolved;
+        resultMetrics[key].uniqueCommitters_period = resolved.length;
+        resultMetrics[key].uniqueCommitterNames_period = resolved.map(contributor => contributor.displayName);
+    }
     return resultMetrics;
 }
 
 // Jira Constants
 const JIRA_API_PATH = "/rest/api/2/search";
+const JIRA_MYSELF_PATH = "/rest/api/2/myself";
+const JIRA_PROJECT_PATH = "/rest/api/2/project";
+const JIRA_STATUS_PATH = "/rest/api/2/status";
+const JIRA_CHANGELOG_PAGE_SIZE = 100;
+const JIRA_FIELD_PATH = "/rest/api/2/field";
+const JIRA_AGILE_PATH = "/rest/agile/1.0";
+const JIRA_AGILE_PAGE_SIZE = 50;
+// Jira Software's sprint report, which still lists the issues taken out of a sprint; the Agile API only returns current members.
+const JIRA_SPRINT_REPORT_PATH = "/rest/greenhopper/1.0/rapid/charts/sprintreport";
+const JIRA_SPRINT_HISTORY_LIMIT = 10; // Closed sprints per refresh; older sprints keep their stored metrics.
+
+// Data Center is often served under a context path such as /jira, so the configured URL is kept rather than its origin.
+function _jiraBaseUrl(configuredUrl: string): string {
+  const url = new URL(configuredUrl);
+  return `${url.origin}${url.pathname.replace(/\/+$/, "")}`;
+}
 
-async function _fetchAndSaveJiraMetrics(
-  teamId: string,
-  projectName: string,
-  jiraServerUrl: string,
-  jiraUsername: string,
-  apiToken: string,
-) {
-  console.log(`Starting Jira metrics fetch for team ${teamId}, project ${projectName}.`);
+// Jira Cloud takes username (email) + API token as basic auth; Data Center / Server personal access tokens are sent as bearer tokens.
+function _buildJiraHeaders(authMode: JiraConfigFormData["authMode"], username: string | undefined, apiToken: string): Record<string, string> {
+  const authorization = authMode === "bearer"
+    ? `Bearer ${apiToken}`
+    : `Basic ${Buffer.from(`${username || ""}:${apiToken}`).toString('base64')}`;
+  return {
+    'Authorization': authorization,
+    'Accept': 'application/json',
+    'Content-Type': 'application/json',
+  };
+}
 
-  if (!jiraServerUrl || !jiraUsername || !apiToken) {
-    const missing = [];
-    if (!jiraServerUrl) missing.push("Jira Server URL");
-    if (!jiraUsername) missing.push("Jira Username");
-    if (!apiToken) missing.push("Jira API Token");
-    const errorMessage = `Jira configuration incomplete: ${missing.join(', ')} missing for team ${teamId}. Cannot fetch metrics. Please configure it fully in the Jira tab.`;
-    console.error(errorMessage);
-    await saveJiraTeamMetricsToDb(teamId, {
-      totalIssues: 0, issuesByType: {}, issuesByAssignee: {}, issuesByStatus: {},
-      issuesByLabel: {}, issuesByCategory: {}, averageIssueAgeDays: 0,
-      lastRefreshed: new Date().toISOString(), info: { message: errorMessage }
+async function _readJiraErrorDetail(response: Response): Promise<string> {
+  const errorText = await response.text();
+  try {
+    const errorJson = JSON.parse(errorText);
+    if (errorJson.errorMessages && errorJson.errorMessages.length > 0) {
+      return errorJson.errorMessages.join('; ');
+    } else if (errorJson.message) {
+      return errorJson.message;
+    }
+  } catch (parseError) { /* Keep original errorText if not JSON */ }
+  return errorText;
+}
+
+// Maps lower-cased status name -> status category key, used to tell waiting, active and done states apart.
+async function _fetchJiraStatusCategories(baseUrl: string, headers: Record<string, string>): Promise<Record<string, JiraStatusCategoryKey>> {
+  const categories: Record<string, JiraStatusCategoryKey> = {};
+  try {
+    const response = await fetch(`${baseUrl}${JIRA_STATUS_PATH}`, { headers });
+    if (!response.ok) {
+      console.warn(`Could not fetch Jira status categories (Status: ${response.status}). Falling back to status name matching.`);
+      return categories;
+    }
+    const statuses: Array<{ name: string; statusCategory?: { key: string } }> = await response.json();
+    statuses.forEach(status => {
+      if (status.statusCategory?.key) categories[status.name.toLowerCase()] = status.statusCategory.key;
     });
-    throw new Error(errorMessage);
+  } catch (error: any) {
+    console.warn(`Error fetching Jira status categories: ${error.message}. Falling back to status name matching.`);
   }
+  return categories;
+}
 
-  console.log(`Using Jira Server: ${jiraServerUrl}, Username: ${jiraUsername}, Token: ${apiToken ? 'Provided' : 'MISSING!'}`);
-
-  const jiraInstanceBaseUrl = new URL(jiraServerUrl).origin;
-  const encodedAuth = Buffer.from(`${jiraUsername}:${apiToken}`).toString('base64');
-  const headers = {
-    'Authorization': `Basic ${encodedAuth}`,
-    'Accept': 'application/json',
-    'Content-Type': 'application/json',
-  };
+// Search results embed at most 100 changelog histories per issue. Jira Cloud exposes the full history via a
+// paginated endpoint; Data Center does not (404), in which case the embedded histories are kept as-is.
+async function _completeJiraChangelog(baseUrl: string, headers: Record<string, string>, issue: JiraApiIssue): Promise<void> {
+  const changelog = issue.changelog;
+  if (!changelog || changelog.total === undefined || changelog.histories.length >= changelog.total) return;
 
-  const jql = `project = "${projectName.replace(/"/g, '\\"')}" ORDER BY created DESC`;
-  const fields = "summary,issuetype,assignee,status,labels,components,created,updated,resolutiondate,priority,reporter,fixVersions,versions";
-  const maxResultsPerPage = 100;
+  const histories: JiraChangelogHistory[] = [];
   let startAt = 0;
-  let isLastPage = false;
-  let allIssues: JiraApiIssue[] = [];
+  let isLast = false;
+  while (!isLast) {
+    const response = await fetch(`${baseUrl}/rest/api/2/issue/${encodeURIComponent(issue.key)}/changelog?startAt=${startAt}&maxResults=${JIRA_CHANGELOG_PAGE_SIZE}`, { headers });
+    if (!response.ok) {
+      console.warn(`Could not fetch full changelog for ${issue.key} (Status: ${response.status}). Using ${changelog.histories.length} of ${changelog.total} histories.`);
+      return;
+    }
+    const page: { values?: JiraChangelogHistory[]; total?: number; isLast?: boolean } = await response.json();
+    const values = page.values || [];
+    histories.push(...values);
+    startAt += values.length;
+    isLast = page.isLast ?? (values.length === 0 || startAt >= (page.total || 0));
+  }
+  issue.changelog = { ...changelog, histories };
+}
 
-  console.log(`Using Jira API Path: ${JIRA_API_PATH}`);
+async function _fetchJiraFields(baseUrl: string, headers: Record<string, string>): Promise<Array<{ id: string; name: string; custom?: boolean }>> {
+  const response = await fetch(`${baseUrl}${JIRA_FIELD_PATH}`, { headers });
+  if (!response.ok) {
+    throw new Error(`Could not list Jira fields (Status: ${response.status}). ${(await _readJiraErrorDetail(response)).substring(0, 300)}`);
+  }
+  return response.json();
+}
 
-  while (!isLastPage) {
-    const searchUrl = `${jiraInstanceBaseUrl}${JIRA_API_PATH}?jql=${encodeURIComponent(jql)}&fields=${fields}&startAt=${startAt}&maxResults=${maxResultsPerPage}`;
-    console.log(`Requesting Jira issues from: ${searchUrl} (Using Token: ${apiToken ? 'Present' : 'MISSING!'})`);
+// Agile endpoints page with { values, isLast } rather than the { issues, total } shape used by search.
+async function _fetchJiraAgilePages<T>(url: string, headers: Record<string, string>): Promise<T[]> {
+  const values: T[] = [];
+  let startAt = 0;
+  let isLast = false;
+  while (!isLast) {
+    const separator = url.includes('?') ? '&' : '?';
+    const response = await fetch(`${url}${separator}startAt=${startAt}&maxResults=${JIRA_AGILE_PAGE_SIZE}`, { headers });
+    if (!response.ok) {
+      throw new Error(`Jira Agile API request failed (Status: ${response.status}). URL: ${url}. ${(await _readJiraErrorDetail(response)).substring(0, 300)}`);
+    }
+    const page: { values?: T[]; isLast?: boolean; total?: number } = await response.json();
+    const pageValues = page.values || [];
+    values.push(...pageValues);
+    startAt += pageValues.length;
+    isLast = page.isLast ?? (pageValues.length === 0 || startAt >= (page.total || 0));
+  }
+  return values;
+}
 
-    try {
-      const response = await fetch(searchUrl, { headers });
+async function _fetchJiraSprintIssues(baseUrl: string, headers: Record<string, string>, sprintId: number, storyPointsFieldId?: string): Promise<JiraSprintIssue[]> {
+  const fields = ["summary", "issuetype", "status", "created", "resolutiondate", storyPointsFieldId].filter(Boolean).join(',');
+  // Sub-task estimates roll up into their parents on Jira's own velocity chart, so they are left out here too.
+  const jql = encodeURIComponent("issuetype not in subTaskIssueTypes()");
+  const issues: JiraSprintIssue[] = [];
+  let startAt = 0;
+  let total = Infinity;
+  while (startAt < total) {
+    const url = `${baseUrl}${JIRA_AGILE_PATH}/sprint/${sprintId}/issue?jql=${jql}&fields=${fields}&expand=changelog&startAt=${startAt}&maxResults=${JIRA_AGILE_PAGE_SIZE}`;
+    const response = await fetch(url, { headers });
+    if (!response.ok) {
+      throw new Error(`Could not fetch issues for sprint ${sprintId} (Status: ${response.status}). ${(await _readJiraErrorDetail(response)).substring(0, 300)}`);
+    }
+    const page: { issues?: JiraSprintIssue[]; total?: number } = await response.json();
+    const pageIssues = page.issues || [];
+    issues.push(...pageIssues);
+    startAt += pageIssues.length;
+    total = pageIssues.length === 0 ? startAt : (page.total ?? startAt);
+  }
+  for (const issue of issues) {
+    await _completeJiraChangelog(baseUrl, headers, issue as JiraApiIssue);
+  }
+  return issues;
+}
 
+// Issues taken out of the sprint while it ran, with their changelogs so the removal can be replayed like any other
+// membership change. The sprint report is not a public API, so a failure only loses the removed scope.
+async function _fetchJiraSprintRemovedIssues(baseUrl: string, headers: Record<string, string>, boardId: number, sprintId: number, storyPointsFieldId?: string): Promise<JiraSprintIssue[]> {
+  try {
+    const reportResponse = await fetch(`${baseUrl}${JIRA_SPRINT_REPORT_PATH}?rapidViewId=${boardId}&sprintId=${sprintId}`, { headers });
+    if (!reportResponse.ok) {
+      throw new Error(`Sprint report request failed (Status: ${reportResponse.status}). ${(await _readJiraErrorDetail(reportResponse)).substring(0, 300)}`);
+    }
+    const report: { contents?: { puntedIssues?: { key: string }[] } } = await reportResponse.json();
+    const keys = (report.contents?.puntedIssues || []).map(issue => issue.key);
+    if (keys.length === 0) return [];
+
+    const fields = ["summary", "issuetype", "status", "created", "resolutiondate", storyPointsFieldId].filter(Boolean).join(',');
+    const jql = encodeURIComponent(`key in (${keys.join(',')}) AND issuetype not in subTaskIssueTypes()`);
+    const issues: JiraSprintIssue[] = [];
+    let startAt = 0;
+    let total = Infinity;
+    while (startAt < total) {
+      // Removed issues may since have been deleted or moved; `warn` skips their keys instead of rejecting the query.
+      const response = await fetch(`${baseUrl}${JIRA_API_PATH}?jql=${jql}&validateQuery=warn&fields=${fields}&expand=changelog&startAt=${startAt}&maxResults=${JIRA_AGILE_PAGE_SIZE}`, { headers });
       if (!response.ok) {
-        const errorText = await response.text();
-        let detail = errorText;
-        try {
-            const errorJson = JSON.parse(errorText);
-            if (errorJson.errorMessages && errorJson.errorMessages.length > 0) {
-                detail = errorJson.errorMessages.join('; ');
-            } else if (errorJson.message) {
-                detail = errorJson.message;
-            }
-        } catch (parseError) { /* Keep original errorText if not JSON */ }
-
-        const maskedToken = apiToken ? `****${apiToken.slice(-4)}` : "NOT PROVIDED";
-        const authUsed = `Username='${jiraUsername}', API Token='${maskedToken}'`;
-        const errorMessage = `Jira API request failed for project "${projectName}" (Status: ${response.status}). URL: ${searchUrl}. Auth Used: ${authUsed}. Details: ${detail.substring(0, 500)}. Check credentials, permissions, and project name.`;
-        console.error(errorMessage);
-         await saveJiraTeamMetricsToDb(teamId, {
-            totalIssues: 0, issuesByType: {}, issuesByAssignee: {}, issuesByStatus: {},
-            issuesByLabel: {}, issuesByCategory: {}, averageIssueAgeDays: 0,
-            lastRefreshed: new Date().toISOString(), info: { message: `Jira API Error (${response.status}): ${detail.substring(0, 500)}` }
-        });
-        throw new Error(errorMessage);
+        throw new Error(`Issue search failed (Status: ${response.status}). ${(await _readJiraErrorDetail(response)).substring(0, 300)}`);
       }
+      const page: { issues?: JiraSprintIssue[]; total?: number } = await response.json();
+      const pageIssues = page.issues || [];
+      issues.push(...pageIssues);
+      startAt += pageIssues.length;
+      total = pageIssues.length === 0 ? startAt : (page.total ?? startAt);
+    }
+    for (const issue of issues) {
+      await _completeJiraChangelog(baseUrl, headers, issue as JiraApiIssue);
+    }
+    return issues;
+  } catch (error: any) {
+    console.warn(`Could not fetch the issues removed from sprint ${sprintId}: ${error.message} Removed scope will be omitted.`);
+    return [];
+  }
+}
 
-      const pageData = await response.json();
-
-      if (!pageData.issues || !Array.isArray(pageData.issues)) {
-         console.warn(`Jira API response for ${searchUrl} did not contain an 'issues' array. Response:`, pageData);
-         if (pageData.total > 0 && pageData.total !== allIssues.length) {
-            const msg = `Jira API response for project "${projectName}" was malformed. Expected 'issues' array but not found, though 'total' is ${pageData.total}. Fetched ${allIssues.length}.`;
-            await saveJiraTeamMetricsToDb(teamId, {
-                 totalIssues: allIssues.length, issuesByType: {}, issuesByAssignee: {}, issuesByStatus: {},
-                 issuesByLabel: {}, issuesByCategory: {}, averageIssueAgeDays: 0,
-                 lastRefreshed: new Date().toISOString(), info: { message: msg }
-            });
-            throw new Error(msg);
-         } else {
-             isLastPage = true;
-             break;
-         }
-      }
+async function _fetchAndSaveJiraSprintMetrics(
+  teamId: string,
+  config: JiraConfigFormData,
+  projectKeys: string[],
+  baseUrl: string,
+  headers: Record<string, string>,
+  statusCategories: Record<string, JiraStatusCategoryKey>,
+) {
+  // A board can span several of the team's projects, so boards are collected per project and de-duplicated.
+  const boardsById = new Map<number, { id: number; name: string }>();
+  for (const projectKey of projectKeys) {
+    const projectBoards = await _fetchJiraAgilePages<{ id: number; name: string }>(
+      `${baseUrl}${JIRA_AGILE_PATH}/board?projectKeyOrId=${encodeURIComponent(projectKey)}&type=scrum`,
+      headers
+    );
+    projectBoards.forEach(board => boardsById.set(board.id, board));
+  }
+  const boards = Array.from(boardsById.values());
+  if (boards.length === 0) {
+    console.log(`No Scrum boards found for Jira project(s) ${projectKeys.join(", ")}; skipping sprint metrics.`);
+    return;
+  }
 
-      allIssues = allIssues.concat(pageData.issues);
-      startAt += pageData.issues.length;
-      isLastPage = startAt >= pageData.total || pageData.issues.length === 0;
-      console.log(`Fetched ${allIssues.length} / ${pageData.total || 0} Jira issues for ${projectName}...`);
+  let storyPointsField: JiraStoryPointsField | undefined;
+  if (config.storyPointsField) {
+    storyPointsField = { id: config.storyPointsField };
+    try {
+      const fields = await _fetchJiraFields(baseUrl, headers);
+      storyPointsField.name = fields.find(field => field.id === config.storyPointsField)?.name;
     } catch (error: any) {
-      console.error(`Error fetching Jira page for ${projectName}: ${error.message}`);
-      throw error;
+      console.warn(`${error.message} Story point changes will only be matched by field ID.`);
     }
   }
 
-  console.log(`Total Jira issues fetched for project ${projectName}: ${allIssues.length}`);
+  // Several boards can share a sprint; each sprint is counted once, against the first board that lists it.
+  const sprintsById = new Map<number, { sprint: JiraAgileSprint; boardId: number }>();
+  for (const board of boards) {
+    const boardSprints = await _fetchJiraAgilePages<JiraAgileSprint>(`${baseUrl}${JIRA_AGILE_PATH}/board/${board.id}/sprint?state=active,closed`, headers);
+    boardSprints.forEach(sprint => {
+      if (!sprintsById.has(sprint.id)) sprintsById.set(sprint.id, { sprint, boardId: board.id });
+    });
+  }
 
-  const metrics: JiraTeamMetricsData = {
-    totalIssues: allIssues.length,
-    issuesByType: {},
-    issuesByAssignee: {},
-    issuesByStatus: {},
+  const byStart = (a: JiraAgileSprint, b: JiraAgileSprint) => (b.startDate || '').localeCompare(a.startDate || '');
+  const allSprints = Array.from(sprintsById.values());
+  const selected = [
+    ...allSprints.filter(entry => entry.sprint.state === 'active'),
+    ...allSprints.filter(entry => entry.sprint.state === 'closed').sort((a, b) => byStart(a.sprint, b.sprint)).slice(0, JIRA_SPRINT_HISTORY_LIMIT),
+  ];
+
+  const now = Date.now();
+  const sprintMetrics: JiraSprintMetrics[] = [];
+  for (const { sprint, boardId } of selected) {
+    const issues = await _fetchJiraSprintIssues(baseUrl, headers, sprint.id, storyPointsField?.id);
+    const memberKeys = new Set(issues.map(issue => issue.key));
+    const removed = await _fetchJiraSprintRemovedIssues(baseUrl, headers, boardId, sprint.id, storyPointsField?.id);
+    issues.push(...removed.filter(issue => !memberKeys.has(issue.key)));
+    sprintMetrics.push(computeSprintMetrics(sprint, boardId, issues, statusCategories, storyPointsField, now));
+  }
+
+  await saveJiraSprintMetricsToDb(teamId, sprintMetrics, new Date(now).toISOString());
+  console.log(`Jira sprint metrics saved for team ${teamId}: ${sprintMetrics.length} sprints from ${boards.length} board(s).`);
+}
+
+function _quoteJql(value: string): string {
+  return `"${value.replace(/"/g, '\\"')}"`;
+}
+
+function _parseJiraComponents(components?: string): string[] {
+  return (components || "").split(",").map(c => c.trim()).filter(Boolean);
+}
+
+// A team's scope is the union of its projects, each optionally narrowed to some components.
+function _buildJiraProjectClause(projects: JiraProjectScope[]): string {
+  const clauses = projects.map(scope => {
+    const components = _parseJiraComponents(scope.components);
+    const projectClause = `project = ${_quoteJql(scope.project)}`;
+    return components.length > 0
+      ? `(${projectClause} AND component in (${components.map(_quoteJql).join(", ")}))`
+      : projectClause;
+  });
+  return clauses.length > 1 ? `(${clauses.join(" OR ")})` : clauses[0];
+}
+
+function _describeJiraProjects(projects: JiraProjectScope[]): string {
+  return projects.map(scope => scope.components ? `${scope.project} [${scope.components}]` : scope.project).join(", ");
+}
+
+// Saved filters are always scoped to the team's projects; ordering is applied here, so any ORDER BY in the filter is dropped.
+function _buildJiraScopedJql(projects: JiraProjectScope[], filterJql?: string): string {
+  const projectClause = _buildJiraProjectClause(projects);
+  const filterClause = (filterJql || "").replace(/\border\s+by\b[\s\S]*$/i, "").trim();
+  return `${filterClause ? `${projectClause} AND (${filterClause})` : projectClause} ORDER BY created DESC`;
+}
+
+interface JiraFetchContext {
+  teamId: string;
+  config: JiraConfigFormData;
+  baseUrl: string;
+  headers: Record<string, string>;
+  statusCategories: Record<string, JiraStatusCategoryKey>;
+}
+
+function _aggregateJiraIssues(issues: JiraApiIssue[], statusCategories: Record<string, JiraStatusCategoryKey>, now: number): JiraTeamMetricsData {
+  const metrics: JiraTeamMetricsData = {
+    totalIssues: issues.length,
+    issuesByType: {},
+    issuesByAssignee: {},
+    issuesByStatus: {},
     issuesByLabel: {},
     issuesByCategory: {},
     averageIssueAgeDays: 0,
+    openIssues: 0,
     lastRefreshed: new Date().toISOString(),
   };
 
   let totalAgeInMilliseconds = 0;
-  const now = Date.now();
+  const assigneesByKey = new Map<string, JiraAssigneeIdentity>();
 
-  for (const issue of allIssues) {
+  for (const issue of issues) {
     const issueTypeName = issue.fields.issuetype?.name || "N/A";
     metrics.issuesByType[issueTypeName] = (metrics.issuesByType[issueTypeName] || 0) + 1;
 
     const assigneeName = issue.fields.assignee?.displayName || "Unassigned";
     metrics.issuesByAssignee[assigneeName] = (metrics.issuesByAssignee[assigneeName] || 0) + 1;
+    const assigneeAccountId = issue.fields.assignee?.accountId || issue.fields.assignee?.name || null;
+    const assigneeKey = assigneeAccountId || assigneeName;
+    const assigneeIdentity = assigneesByKey.get(assigneeKey) || { accountId: assigneeAccountId, displayName: assigneeName, issues: 0 };
+    assigneeIdentity.issues++;
+    assigneesByKey.set(assigneeKey, assigneeIdentity);
 
     const statusName = issue.fields.status?.name || "N/A";
     metrics.issuesByStatus[statusName] = (metrics.issuesByStatus[statusName] || 0) + 1;
+    if (issue.fields.status?.statusCategory?.key !== "done") {
+      metrics.openIssues = (metrics.openIssues || 0) + 1;
+    }
 
     (issue.fields.labels || []).forEach(label => {
       metrics.issuesByLabel[label] = (metrics.issuesByLabel[label] || 0) + 1;
@@ -800,55 +1173,333 @@ async function _fetchAndSaveJiraMetrics(
     metrics.averageIssueAgeDays = totalAgeInMilliseconds / metrics.totalIssues / (1000 * 60 * 60 * 24);
   }
 
-  await saveJiraTeamMetricsToDb(teamId, metrics);
-  console.log(`Jira metrics saved for team ${teamId}, project ${projectName}.`);
+  metrics.flowMetrics = computeJiraFlowMetrics(issues, statusCategories, now);
+  metrics.assigneeIdentities = Array.from(assigneesByKey.values());
+
+  return metrics;
+}
+
+async function _fetchAndSaveJiraIssueView(ctx: JiraFetchContext, filterId: string, viewLabel: string, jql: string): Promise<JiraApiIssue[]> {
+  const { teamId, baseUrl: jiraInstanceBaseUrl, headers, statusCategories } = ctx;
+  const { authMode, username: jiraUsername, accessKey: apiToken } = ctx.config;
+  const fields = "summary,project,issuetype,assignee,status,labels,components,created,updated,resolutiondate,priority,reporter,fixVersions,versions";
+  const maxResultsPerPage = 100;
+  let startAt = 0;
+  let isLastPage = false;
+  let allIssues: JiraApiIssue[] = [];
+
+  console.log(`Using Jira API Path: ${JIRA_API_PATH}, JQL for ${viewLabel}: ${jql}`);
+
+  while (!isLastPage) {
+    const searchUrl = `${jiraInstanceBaseUrl}${JIRA_API_PATH}?jql=${encodeURIComponent(jql)}&fields=${fields}&expand=changelog&startAt=${startAt}&maxResults=${maxResultsPerPage}`;
+    console.log(`Requesting Jira issues from: ${searchUrl} (Using Token: ${apiToken ? 'Present' : 'MISSING!'})`);
+
+    try {
+      const response = await fetch(searchUrl, { headers });
+
+      if (!response.ok) {
+        const detail = await _readJiraErrorDetail(response);
+
+        const maskedToken = apiToken ? `****${apiToken.slice(-4)}` : "NOT PROVIDED";
+        const authUsed = authMode === "bearer"
+          ? `Personal Access Token='${maskedToken}'`
+          : `Username='${jiraUsername}', API Token='${maskedToken}'`;
+        const errorMessage = `Jira API request failed for ${viewLabel} (Status: ${response.status}). URL: ${searchUrl}. Auth Used: ${authUsed}. Details: ${detail.substring(0, 500)}. Check credentials, permissions, project names, components and JQL.`;
+        console.error(errorMessage);
+         await saveJiraTeamMetricsToDb(teamId, {
+            totalIssues: 0, issuesByType: {}, issuesByAssignee: {}, issuesByStatus: {},
+            issuesByLabel: {}, issuesByCategory: {}, averageIssueAgeDays: 0,
+            lastRefreshed: new Date().toISOString(), info: { message: `Jira API Error (${response.status}): ${detail.substring(0, 500)}` }
+        }, filterId);
+        throw new Error(errorMessage);
+      }
+
+      const pageData = await response.json();
+
+      if (!pageData.issues || !Array.isArray(pageData.issues)) {
+         console.warn(`Jira API response for ${searchUrl} did not contain an 'issues' array. Response:`, pageData);
+         if (pageData.total > 0 && pageData.total !== allIssues.length) {
+            const msg = `Jira API response for ${viewLabel} was malformed. Expected 'issues' array but not found, though 'total' is ${pageData.total}. Fetched ${allIssues.length}.`;
+            await saveJiraTeamMetricsToDb(teamId, {
+                 totalIssues: allIssues.length, issuesByType: {}, issuesByAssignee: {}, issuesByStatus: {},
+                 issuesByLabel: {}, issuesByCategory: {}, averageIssueAgeDays: 0,
+                 lastRefreshed: new Date().toISOString(), info: { message: msg }
+            }, filterId);
+            throw new Error(msg);
+         } else {
+             isLastPage = true;
+             break;
+         }
+      }
+
+      allIssues = allIssues.concat(pageData.issues);
+      startAt += pageData.issues.length;
+      isLastPage = startAt >= pageData.total || pageData.issues.length === 0;
+      console.log(`Fetched ${allIssues.length} / ${pageData.total || 0} Jira issues for ${viewLabel}...`);
+    } catch (error: any) {
+      console.error(`Error fetching Jira page for ${viewLabel}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  console.log(`Total Jira issues fetched for ${viewLabel}: ${allIssues.length}`);
+
+  for (const issue of allIssues) {
+    await _completeJiraChangelog(jiraInstanceBaseUrl, headers, issue);
+  }
+
+  const now = Date.now();
+  const metrics = _aggregateJiraIssues(allIssues, statusCategories, now);
+
+  // Per-project sub-aggregates, keyed by the issue's project so component-narrowed scopes still group correctly.
+  if (ctx.config.projects.length > 1) {
+    const issuesByProject = new Map<string, JiraApiIssue[]>();
+    allIssues.forEach(issue => {
+      const projectKey = issue.fields.project?.key || issue.key.split('-')[0];
+      issuesByProject.set(projectKey, [...(issuesByProject.get(projectKey) || []), issue]);
+    });
+    metrics.projectBreakdown = {};
+    issuesByProject.forEach((projectIssues, projectKey) => {
+      const projectMetrics = _aggregateJiraIssues(projectIssues, statusCategories, now);
+      metrics.projectBreakdown![projectKey] = {
+        projectKey,
+        projectName: projectIssues[0].fields.project?.name || projectKey,
+        totalIssues: projectMetrics.totalIssues,
+        openIssues: projectMetrics.openIssues || 0,
+        averageIssueAgeDays: projectMetrics.averageIssueAgeDays,
+        issuesByType: projectMetrics.issuesByType,
+        issuesByStatus: projectMetrics.issuesByStatus,
+        leadTime: projectMetrics.flowMetrics!.leadTime,
+        cycleTime: projectMetrics.flowMetrics!.cycleTime,
+      };
+    });
+  }
+
+  await saveJiraTeamMetricsToDb(teamId, metrics, filterId);
+  console.log(`Jira metrics saved for team ${teamId}, ${viewLabel}.`);
+  return allIssues;
+}
+
+// Refreshes the project-wide view, sprint metrics, then every saved filter. Returns the names of filters that failed;
+// their error is stored on the filter's own metrics row so the other views are unaffected.
+async function _fetchAndSaveJiraMetrics(teamId: string, config: JiraConfigFormData): Promise<string[]> {
+  const { projects, url: jiraServerUrl, authMode, username: jiraUsername, accessKey: apiToken } = config;
+  console.log(`Starting Jira metrics fetch for team ${teamId}, projects ${_describeJiraProjects(projects)}.`);
+
+  if (!jiraServerUrl || (authMode === "basic" && !jiraUsername) || !apiToken) {
+    const missing = [];
+    if (!jiraServerUrl) missing.push("Jira Server URL");
+    if (authMode === "basic" && !jiraUsername) missing.push("Jira Username");
+    if (!apiToken) missing.push("Jira API Token");
+    const errorMessage = `Jira configuration incomplete: ${missing.join(', ')} missing for team ${teamId}. Cannot fetch metrics. Please configure it fully in the Jira tab.`;
+    console.error(errorMessage);
+    await saveJiraTeamMetricsToDb(teamId, {
+      totalIssues: 0, issuesByType: {}, issuesByAssignee: {}, issuesByStatus: {},
+      issuesByLabel: {}, issuesByCategory: {}, averageIssueAgeDays: 0,
+      lastRefreshed: new Date().toISOString(), info: { message: errorMessage }
+    });
+    throw new Error(errorMessage);
+  }
+
+  console.log(`Using Jira Server: ${jiraServerUrl}, Auth Mode: ${authMode}, Username: ${jiraUsername || 'N/A'}, Token: ${apiToken ? 'Provided' : 'MISSING!'}`);
+
+  const jiraInstanceBaseUrl = _jiraBaseUrl(jiraServerUrl);
+  const headers = _buildJiraHeaders(authMode, jiraUsername, apiToken);
+  const statusCategories = await _fetchJiraStatusCategories(jiraInstanceBaseUrl, headers);
+  const ctx: JiraFetchContext = { teamId, config, baseUrl: jiraInstanceBaseUrl, headers, statusCategories };
+
+  const allIssues = await _fetchAndSaveJiraIssueView(ctx, JIRA_DEFAULT_FILTER_ID, `projects ${_describeJiraProjects(projects)}`, _buildJiraScopedJql(projects));
+
+  // The board lookup needs project keys; issue keys carry them even when the config holds project names.
+  const issueProjectKeys = Array.from(new Set(allIssues.map(issue => issue.fields.project?.key || issue.key.split('-')[0])));
+  const projectKeys = issueProjectKeys.length > 0 ? issueProjectKeys : projects.map(scope => scope.project);
+  try {
+    await _fetchAndSaveJiraSprintMetrics(teamId, config, projectKeys, jiraInstanceBaseUrl, headers, statusCategories);
+  } catch (error: any) {
+    // Kanban-only projects and instances without Jira Software have no Agile API; issue metrics still stand.
+    console.error(`Error fetching Jira sprint metrics for team ${teamId}, projects ${projectKeys.join(", ")}: ${error.message}`);
+  }
+
+  const failedFilters: string[] = [];
+  for (const filter of await getJiraFiltersFromDb(teamId)) {
+    try {
+      await _fetchAndSaveJiraIssueView(ctx, filter.id, `filter "${filter.name}"`, _buildJiraScopedJql(projects, filter.jql));
+    } catch (error: any) {
+      failedFilters.push(filter.name);
+    }
+  }
+  return failedFilters;
 }
 
 // Jira Config Actions
+async function _resolveJiraConfig(formData: JiraConfigFormData): Promise<JiraConfigFormData> {
+  const stored = await getJiraConfigFromDb(formData.teamId);
+  return {
+    teamId: formData.teamId,
+    projects: formData.projects.map(scope => ({
+      project: scope.project.trim(),
+      components: _parseJiraComponents(scope.components).join(", ") || undefined,
+    })),
+    url: formData.url.trim(),
+    authMode: formData.authMode,
+    username: formData.authMode === "basic" ? formData.username?.trim() : undefined,
+    accessKey: resolveSubmittedSecretForUrl(formData.accessKey, stored && { secret: stored.accessKey, url: stored.url }, formData.url, "Jira API Token") || "",
+    storyPointsField: formData.storyPointsField?.trim() || undefined,
+  };
+}
+
+export async function testJiraConnection(formData: JiraConfigFormData) {
+  let config: JiraConfigFormData;
+  try {
+    config = await _resolveJiraConfig(formData);
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+  try {
+    if (!config.accessKey) {
+      return { success: false, message: "Jira API Token is required to test the connection." };
+    }
+    const baseUrl = _jiraBaseUrl(config.url);
+    const headers = _buildJiraHeaders(config.authMode, config.username, config.accessKey);
+
+    const myselfResponse = await fetch(`${baseUrl}${JIRA_MYSELF_PATH}`, { headers });
+    if (!myselfResponse.ok) {
+      const detail = await _readJiraErrorDetail(myselfResponse);
+      const hint = myselfResponse.status === 401 || myselfResponse.status === 403
+        ? " Check the auth mode and credentials."
+        : "";
+      return { success: false, message: `Jira rejected the credentials (Status: ${myselfResponse.status}).${hint} ${detail.substring(0, 300)}`.trim() };
+    }
+    const myself = await myselfResponse.json();
+    const who = myself.displayName || myself.emailAddress || myself.name || "unknown user";
+
+    const accessible: string[] = [];
+    for (const scope of config.projects) {
+      const projectResponse = await fetch(`${baseUrl}${JIRA_PROJECT_PATH}/${encodeURIComponent(scope.project)}`, { headers });
+      if (!projectResponse.ok) {
+        const detail = await _readJiraErrorDetail(projectResponse);
+        return { success: false, message: `Authenticated as ${who}, but project "${scope.project}" is not accessible (Status: ${projectResponse.status}). ${detail.substring(0, 300)}`.trim() };
+      }
+      const project = await projectResponse.json();
+      const knownComponents = new Set((project.components || []).map((component: { name: string }) => component.name.toLowerCase()));
+      const unknownComponents = _parseJiraComponents(scope.components).filter(component => !knownComponents.has(component.toLowerCase()));
+      if (unknownComponents.length > 0) {
+        return { success: false, message: `Authenticated as ${who}, but project "${scope.project}" has no component(s) named ${unknownComponents.join(", ")}.` };
+      }
+      accessible.push(`"${project.name || scope.project}" (${project.key || scope.project})`);
+    }
+    return { success: true, message: `Connected as ${who}. Project${accessible.length > 1 ? "s" : ""} ${accessible.join(", ")} ${accessible.length > 1 ? "are" : "is"} accessible.` };
+  } catch (error: any) {
+    console.error("Error testing Jira connection:", error);
+    return { success: false, message: `Could not reach Jira: ${error.message || "Unknown error."}` };
+  }
+}
+
+// Lists custom fields whose name looks like a story point estimate, to help pick the per-team field ID.
+export async function detectJiraStoryPointsFields(formData: JiraConfigFormData) {
+  try {
+    const config = await _resolveJiraConfig(formData);
+    if (!config.accessKey) {
+      return { success: false, message: "Jira API Token is required to look up fields.", fields: [] };
+    }
+    const baseUrl = _jiraBaseUrl(config.url);
+    const fields = await _fetchJiraFields(baseUrl, _buildJiraHeaders(config.authMode, config.username, config.accessKey));
+    const candidates = fields
+      .filter(field => field.id.startsWith("customfield_") && /story ?point/i.test(field.name))
+      .map(field => ({ id: field.id, name: field.name }));
+    return {
+      success: candidates.length > 0,
+      message: candidates.length > 0
+        ? `Found ${candidates.length} story point field(s).`
+        : "No custom field with \"story point\" in its name was found. Enter the field ID manually.",
+      fields: candidates,
+    };
+  } catch (error: any) {
+    console.error("Error detecting Jira story point fields:", error);
+    return { success: false, message: error.message || "Failed to look up Jira fields.", fields: [] };
+  }
+}
+
 export async function saveJiraConfig(formData: JiraConfigFormData) {
    try {
-    // Use the hardcoded server URL and username, but the accessKey and projectName from the form
-    await saveJiraConfigToDb({
-        teamId: formData.teamId,
-        projectName: formData.projectName,
-        url: JIRA_FIXED_SERVER_URL,
-        username: JIRA_FIXED_USERNAME,
-        accessKey: formData.accessKey,
-    });
-    await _fetchAndSaveJiraMetrics(
-        formData.teamId,
-        formData.projectName,
-        JIRA_FIXED_SERVER_URL,
-        JIRA_FIXED_USERNAME,
-        formData.accessKey
-    );
-    return { success: true, message: "Jira configuration saved and metrics refreshed." };
+    const config = await _resolveJiraConfig(formData);
+    await saveJiraConfigToDb(config);
+    const failedFilters = await _fetchAndSaveJiraMetrics(formData.teamId, config);
+    return { success: true, message: `Jira configuration saved and metrics refreshed.${_describeFailedJiraFilters(failedFilters)}` };
   } catch (error: any) {
     console.error("Error in saveJiraConfig or _fetchAndSaveJiraMetrics:", error);
     return { success: false, message: error.message || "Failed to save Jira configuration or refresh metrics." };
   }
 }
 
-export async function getJiraConfig(teamId: string): Promise<JiraConfigFormData | null> {
+export async function getJiraConfig(teamId: string): Promise<WithSecretFlags<JiraConfigFormData, "accessKey"> | null> {
   const config = await getJiraConfigFromDb(teamId);
   if (config) {
     return {
       teamId: config.teamId,
-      projectName: config.projectName || "",
-      // URL and username are fixed, but accessKey is from DB
-      url: JIRA_FIXED_SERVER_URL,
-      username: JIRA_FIXED_USERNAME,
-      accessKey: config.accessKey || "",
+      projects: config.projects.map(scope => ({ project: scope.project, components: scope.components || "" })),
+      url: config.url || "",
+      authMode: config.authMode || "basic",
+      username: config.username || "",
+      accessKey: maskSecret(config.accessKey),
+      storyPointsField: config.storyPointsField || "",
+      hasSecret: { accessKey: !!config.accessKey },
     };
   }
-  // If no config for team, still return fixed URL/Username so form can display them
-  return {
-    teamId: teamId,
-    projectName: "",
-    url: JIRA_FIXED_SERVER_URL,
-    username: JIRA_FIXED_USERNAME,
-    accessKey: ""
-  };
+  return null;
+}
+
+
+// Jira Saved Filter Actions
+// Runs the scoped JQL with maxResults=0 so Jira parses it against the team's projects without returning issues.
+export async function validateJiraJql(teamId: string, jql: string): Promise<{ success: boolean; message: string; matchCount?: number }> {
+  try {
+    const config = await getJiraConfigFromDb(teamId);
+    if (!config || !config.url || !config.accessKey || config.projects.length === 0) {
+      return { success: false, message: "Configure and save the team's Jira connection before adding filters." };
+    }
+    const baseUrl = _jiraBaseUrl(config.url);
+    const headers = _buildJiraHeaders(config.authMode || "basic", config.username, config.accessKey);
+    const scopedJql = _buildJiraScopedJql(config.projects, jql);
+    const response = await fetch(`${baseUrl}${JIRA_API_PATH}?jql=${encodeURIComponent(scopedJql)}&maxResults=0&validateQuery=strict`, { headers });
+    if (!response.ok) {
+      const detail = await _readJiraErrorDetail(response);
+      return { success: false, message: `Jira rejected the JQL (Status: ${response.status}): ${detail.substring(0, 500)}` };
+    }
+    const result = await response.json();
+    return { success: true, message: `JQL is valid and currently matches ${result.total ?? 0} issue(s).`, matchCount: result.total ?? 0 };
+  } catch (error: any) {
+    console.error(`Error validating JQL for team ${teamId}:`, error);
+    return { success: false, message: `Could not validate JQL: ${error.message || "Unknown error."}` };
+  }
+}
+
+export async function saveJiraFilter(formData: JiraFilterFormData) {
+  try {
+    const validation = await validateJiraJql(formData.teamId, formData.jql);
+    if (!validation.success) {
+      return { success: false, message: validation.message };
+    }
+    const filter = await saveJiraFilterToDb(formData);
+    return { success: true, data: filter, message: `Filter "${filter.name}" saved. ${validation.message} Refresh Jira metrics to compute it.` };
+  } catch (error: any) {
+    console.error("Error saving Jira filter:", error);
+    return { success: false, message: error.message || "Failed to save Jira filter." };
+  }
+}
+
+export async function getJiraFilters(teamId: string): Promise<JiraFilter[]> {
+  return getJiraFiltersFromDb(teamId);
+}
+
+export async function deleteJiraFilter(teamId: string, filterId: string) {
+  try {
+    await deleteJiraFilterFromDb(teamId, filterId);
+    return { success: true, message: "Filter deleted." };
+  } catch (error: any) {
+    console.error("Error deleting Jira filter:", error);
+    return { success: false, message: error.message || "Failed to delete Jira filter." };
+  }
 }
 
 
@@ -962,36 +1613,71 @@ async function _fetchAndSaveSonarQubeMetrics(teamId: string, config: SonarQubeCo
 // SonarQube Config Actions
 export async function saveSonarQubeConfig(formData: SonarQubeConfigFormData) {
   try {
-    await saveSonarQubeConfigToDb(formData);
-    await _fetchAndSaveSonarQubeMetrics(formData.teamId, formData);
+    const stored = await getSonarQubeConfigFromDb(formData.teamId);
+    const config = { ...formData, accessKey: resolveSubmittedSecretForUrl(formData.accessKey, stored && { secret: stored.accessKey, url: stored.url }, formData.url, "SonarQube token") || "" };
+    await saveSonarQubeConfigToDb(config);
+    await _fetchAndSaveSonarQubeMetrics(config.teamId, config);
     return { success: true, message: "SonarQube configuration saved and metrics refreshed." };
   } catch (error: any) {
     return { success: false, message: error.message || "Failed to save SonarQube configuration or refresh metrics." };
   }
 }
-export async function getSonarQubeConfig(teamId: string) {
-  return getSonarQubeConfigFromDb(teamId);
+export async function getSonarQubeConfig(teamId: string): Promise<WithSecretFlags<SonarQubeConfigFormData, "accessKey"> | null> {
+  const config = await getSonarQubeConfigFromDb(teamId);
+  if (config) {
+    return { ...config, accessKey: maskSecret(config.accessKey), hasSecret: { accessKey: !!config.accessKey } };
+  }
+  return null;
 }
 
 // Boomerang Config Actions
 export async function saveBoomerangConfig(formData: BoomerangConfigFormData) {
   try {
-    await saveBoomerangConfigToDb(formData);
-    console.log(`Boomerang config saved for team ${formData.teamId}. Metrics refresh would happen here.`);
-    return { success: true, message: "Boomerang configuration saved." };
+    const stored = await getBoomerangConfigFromDb(formData.teamId);
+    const config = { ...formData, accessKey: resolveSubmittedSecretForUrl(formData.accessKey, stored && { secret: stored.accessKey, url: stored.url }, formData.url, "Boomerang access key") || "" };
+    await saveBoomerangConfigToDb(config);
+    if (stored && stored.url !== config.url) {
+      await deleteBoomerangPipelineRunsFromDb(config.teamId);
+    }
+    await _fetchAndSaveBoomerangMetrics(config.teamId);
+    return { success: true, message: "Boomerang configuration saved and metrics refreshed." };
   } catch (error: any) {
-    return { success: false, message: error.message || "Failed to save Boomerang configuration." };
+    return { success: false, message: error.message || "Failed to save Boomerang configuration or refresh metrics." };
   }
 }
-export async function getBoomerangConfig(teamId: string) {
-  return getBoomerangConfigFromDb(teamId);
+export async function getBoomerangConfig(teamId: string): Promise<WithSecretFlags<BoomerangConfigFormData, "accessKey"> | null> {
+  const config = await getBoomerangConfigFromDb(teamId);
+  if (config) {
+    return { ...config, accessKey: maskSecret(config.accessKey), hasSecret: { accessKey: !!config.accessKey } };
+  }
+  return null;
+}
+
+// Jenkins Config Actions
+export async function saveJenkinsConfig(formData: JenkinsConfigFormData) {
+  try {
+    const stored = await getJenkinsConfigFromDb(formData.teamId);
+    const config = { ...formData, apiToken: resolveSubmittedSecretForUrl(formData.apiToken, stored && { secret: stored.apiToken, url: stored.url }, formData.url, "Jenkins API token") || "" };
+    await saveJenkinsConfigToDb(config);
+    const { skippedJobs } = await _fetchAndSaveJenkinsMetrics(config.teamId);
+    return { success: true, message: `Jenkins configuration saved and metrics refreshed.${_describeSkippedJenkinsJobs(skippedJobs)}` };
+  } catch (error: any) {
+    return { success: false, message: error.message || "Failed to save Jenkins configuration or refresh metrics." };
+  }
+}
+export async function getJenkinsConfig(teamId: string): Promise<WithSecretFlags<JenkinsConfigFormData, "apiToken"> | null> {
+  const config = await getJenkinsConfigFromDb(teamId);
+  if (config) {
+    return { ...config, apiToken: maskSecret(config.apiToken), hasSecret: { apiToken: !!config.apiToken } };
+  }
+  return null;
 }
 
 // Team Member Actions
 export async function saveTeamMember(formData: TeamMemberFormData) {
   try {
-    const newMember = await saveTeamMemberToDb(formData);
-    return { success: true, data: newMember, message: "Team member saved." };
+    const member = await saveTeamMemberToDb(formData);
+    return { success: true, data: member, message: formData.id ? `${member.name} updated.` : `${member.name} added to the team.` };
   } catch (error: any) {
     return { success: false, message: error.message || "Failed to save team member." };
   }
@@ -999,6 +1685,110 @@ export async function saveTeamMember(formData: TeamMemberFormData) {
 export async function getTeamMembers(teamId: string) {
   return getTeamMembersFromDb(teamId);
 }
+export async function deleteTeamMember(teamId: string, memberId: string) {
+  try {
+    await deleteTeamMemberFromDb(teamId, memberId);
+    return { success: true, message: "Team member removed." };
+  } catch (error: any) {
+    console.error("Error deleting team member:", error);
+    return { success: false, message: error.message || "Failed to delete team member." };
+  }
+}
+
+// People Registry Actions
+export interface PeopleRegistry {
+  people: Person[];
+  unmapped: PersonIdentity[];
+  suggestions: IdentityMergeSuggestion[];
+}
+
+// Identities seen together: each commit author in the cached GitHub history and each assignee in any Jira view.
+async function _collectObservedIdentityGroups(teamId: string): Promise<PersonIdentity[][]> {
+  const groups: PersonIdentity[][] = [];
+  const syncStates = await getGithubRepoSyncStatesFromDb(teamId);
+  for (const state of Object.values(syncStates)) {
+    summarizeCommitterActivity(state.commits, 0, Date.now()).forEach(activity => groups.push(committerIdentities(activity)));
+  }
+  const filterIds = [JIRA_DEFAULT_FILTER_ID, ...(await getJiraFiltersFromDb(teamId)).map(filter => filter.id)];
+  for (const filterId of filterIds) {
+    const jiraMetrics = await getJiraTeamMetricsFromDb(teamId, filterId);
+    (jiraMetrics?.assigneeIdentities || [])
+      .filter(assignee => assignee.accountId || assignee.displayName !== "Unassigned")
+      .forEach(assignee => groups.push(assigneeIdentities(assignee)));
+  }
+  return groups.filter(group => group.length > 0);
+}
+
+export async function getPeopleRegistry(teamId: string): Promise<PeopleRegistry> {
+  try {
+    const [people, observedGroups] = await Promise.all([getPeopleFromDb(teamId), _collectObservedIdentityGroups(teamId)]);
+    return {
+      people,
+      unmapped: unmappedIdentities(people, observedGroups),
+      suggestions: suggestIdentityMerges(people, observedGroups),
+    };
+  } catch (error: any) {
+    console.error(`Error loading people registry for team ${teamId}:`, error);
+    return { people: [], unmapped: [], suggestions: [] };
+  }
+}
+
+export async function getPeople(teamId: string): Promise<Person[]> {
+  return getPeopleFromDb(teamId);
+}
+
+export async function savePerson(formData: PersonFormData) {
+  try {
+    const person = await savePersonToDb(formData);
+    return { success: true, data: person, message: `${person.displayName} saved.` };
+  } catch (error: any) {
+    console.error("Error saving person:", error);
+    return { success: false, message: error.message || "Failed to save person." };
+  }
+}
+
+export async function deletePerson(teamId: string, personId: string) {
+  try {
+    await deletePersonFromDb(teamId, personId);
+    return { success: true, message: "Person deleted. Their identities are unmapped again." };
+  } catch (error: any) {
+    console.error("Error deleting person:", error);
+    return { success: false, message: error.message || "Failed to delete person." };
+  }
+}
+
+export async function assignIdentity(teamId: string, personId: string, identity: PersonIdentity) {
+  try {
+    await assignIdentityInDb(teamId, personId, normalizeIdentity(identity));
+    return { success: true, message: "Identity assigned." };
+  } catch (error: any) {
+    console.error("Error assigning identity:", error);
+    return { success: false, message: error.message || "Failed to assign identity." };
+  }
+}
+
+export async function unassignIdentity(teamId: string, identity: PersonIdentity) {
+  try {
+    await unassignIdentityInDb(teamId, identity);
+    return { success: true, message: "Identity unassigned." };
+  } catch (error: any) {
+    console.error("Error unassigning identity:", error);
+    return { success: false, message: error.message || "Failed to unassign identity." };
+  }
+}
+
+export async function acceptIdentityMergeSuggestion(teamId: string, suggestion: IdentityMergeSuggestion) {
+  try {
+    const personId = suggestion.personId || (await savePersonToDb({ teamId, displayName: suggestion.displayName })).id;
+    for (const identity of suggestion.identities) {
+      await assignIdentityInDb(teamId, personId, normalizeIdentity(identity));
+    }
+    return { success: true, message: `${suggestion.identities.length} identities merged into ${suggestion.displayName}.` };
+  } catch (error: any) {
+    console.error("Error accepting identity merge suggestion:", error);
+    return { success: false, message: error.message || "Failed to merge identities." };
+  }
+}
 
 // DB Config Action
 export async function saveDbConfig(formData: DbConfigFormData) {
@@ -1060,25 +1850,45 @@ export async function generateTeamInsights(
     }
 
     const teamMembers = await getTeamMembersFromDb(teamId);
-    const teamCompositionData = JSON.stringify(teamMembers.length > 0 ? teamMembers : { info: "No team composition data available." });
+    const teamCompositionData = JSON.stringify(teamMembers.length > 0
+      ? computeTeamComposition(teamMembers, await getPeopleFromDb(teamId))
+      : { info: "No team composition data available." });
 
     const githubMetricsDataDb = await getGithubTeamMetricsFromDb(teamId);
     const githubOverallSnapshot = githubMetricsDataDb["overall_snapshot"] || { info: { message: "No GitHub overall metrics available." }};
     const githubMetricsForAI = JSON.stringify(githubOverallSnapshot);
 
     const jiraMetricsDataDb = await getJiraTeamMetricsFromDb(teamId);
-    const jiraMetricsForAI = JSON.stringify(jiraMetricsDataDb || { info: { message: "No Jira data available for this team." }});
+    const jiraMetricsForAI = JSON.stringify(jiraMetricsDataDb
+      ? _resolveJiraAssignees(jiraMetricsDataDb, await getPeopleFromDb(teamId))
+      : { info: { message: "No Jira data available for this team." }});
 
     const sonarqubeMetricsDataDb = await getSonarQubeTeamMetricsFromDb(teamId);
     const sonarqubeMetricsForAI = JSON.stringify(sonarqubeMetricsDataDb || { info: { message: "No SonarQube data available for this team." } });
 
+    const doraMetricsDataDb = await getDoraTeamMetricsFromDb(teamId);
+    const { recentDeployments, ...doraSummary } = doraMetricsDataDb || { info: { message: "No DORA data available for this team." } };
+    const doraMetricsForAI = JSON.stringify(doraSummary);
+
+    const jenkinsMetricsDataDb = await getJenkinsTeamMetricsFromDb(teamId);
+    const { recentBuilds, ...jenkinsSummary } = jenkinsMetricsDataDb || { info: { message: "No Jenkins data available for this team." } };
+    const jenkinsMetricsForAI = JSON.stringify(jenkinsSummary);
+
+    const teamFinancials = await _computeTeamFinancials(teamId);
+    const teamFinancialsForAI = JSON.stringify(teamFinancials
+      ? { ...teamFinancials, monthly: teamFinancials.monthly.slice(-6) }
+      : { info: { message: "No cost data available for this team." } });
+
 
     const aiInput: AnalyzeTeamDataInput = {
       teamName: team.name,
       githubMetrics: githubMetricsForAI,
       jiraMetrics: jiraMetricsForAI,
       sonarqubeMetrics: sonarqubeMetricsForAI,
+      doraMetrics: doraMetricsForAI,
+      jenkinsMetrics: jenkinsMetricsForAI,
       teamComposition: teamCompositionData,
+      teamFinancials: teamFinancialsForAI,
       geminiApiKey: llmProvider === "gemini" ? apiKey : "not_selected",
       openAiApiKey: llmProvider === "openai" ? apiKey : "not_selected",
       claudeAiApiKey: llmProvider === "claudeai" ? apiKey : "not_selected",
@@ -1097,31 +1907,29 @@ export async function generateTeamInsights(
 
 // Metrics Refresh Actions
 
-export async function refreshJiraMetrics(teamId: string) {
+function _describeFailedJiraFilters(failedFilters: string[]): string {
+  return failedFilters.length > 0 ? ` Saved filters that failed to refresh: ${failedFilters.join(", ")}.` : "";
+}
+
+export async function refreshJiraMetrics(teamId: string, filterId: string = JIRA_DEFAULT_FILTER_ID) {
   try {
-    const config = await getJiraConfig(teamId);
-    if (!config || !config.projectName || !config.accessKey || !config.url || !config.username) {
-      const errorMsg = "Jira configuration (Project Name, URL, Username, or API Token) not fully set for this team. Cannot refresh metrics.";
+    const config = await getJiraConfigFromDb(teamId);
+    if (!config || config.projects.length === 0 || !config.accessKey || !config.url || (config.authMode !== "bearer" && !config.username)) {
+      const errorMsg = "Jira configuration (Projects, URL, Username, or API Token) not fully set for this team. Cannot refresh metrics.";
       console.error(errorMsg);
       await saveJiraTeamMetricsToDb(teamId, {
         totalIssues: 0, issuesByType: {}, issuesByAssignee: {}, issuesByStatus: {},
         issuesByLabel: {}, issuesByCategory: {}, averageIssueAgeDays: 0,
         lastRefreshed: new Date().toISOString(), info: { message: errorMsg }
       });
-      return { success: false, message: errorMsg, data: { metrics: await getJiraTeamMetricsFromDb(teamId) } };
+      return { success: false, message: errorMsg, data: { metrics: await getJiraTeamMetricsFromDb(teamId, filterId) } };
     }
-    await _fetchAndSaveJiraMetrics(
-        teamId,
-        config.projectName,
-        config.url, // Use the URL from the config
-        config.username, // Use the username from the config
-        config.accessKey
-    );
-    const metrics = await getJiraTeamMetricsFromDb(teamId);
-    return { success: true, data: { metrics }, message: "Jira metrics refreshed successfully." };
+    const failedFilters = await _fetchAndSaveJiraMetrics(teamId, { ...config, authMode: config.authMode || "basic" });
+    const metrics = await getJiraTeamMetricsFromDb(teamId, filterId);
+    return { success: true, data: { metrics }, message: `Jira metrics refreshed successfully.${_describeFailedJiraFilters(failedFilters)}` };
   } catch (error: any) {
     console.error(`Error refreshing Jira metrics for team ${teamId}:`, error);
-    const existingMetrics = await getJiraTeamMetricsFromDb(teamId);
+    const existingMetrics = await getJiraTeamMetricsFromDb(teamId, filterId);
     return { success: false, message: error.message || "Failed to refresh Jira metrics.", data: {metrics: existingMetrics} };
   }
 }
@@ -1146,31 +1954,134 @@ export async function refreshSonarQubeMetrics(teamId: string) {
   }
 }
 
+// Fetches runs since the last refresh (or the longest period on the first one), then recomputes every period from
+// the stored runs.
+async function _fetchAndSaveBoomerangMetrics(teamId: string): Promise<BoomerangTeamMetricsData> {
+  const config = await getBoomerangConfigFromDb(teamId);
+  if (!config || !config.url || !config.accessKey) {
+    throw new Error("Boomerang configuration (URL or Access Key) not fully configured for this team.");
+  }
+  const now = Date.now();
+  const windowStart = new Date(now - Math.max(...BOOMERANG_PERIODS.map(period => period.days)) * 24 * 60 * 60 * 1000);
+  const resumeFrom = await getBoomerangResumePointFromDb(teamId);
+  const since = resumeFrom && new Date(resumeFrom) > windowStart ? new Date(resumeFrom) : windowStart;
+
+  const activities = await fetchBoomerangActivity(config.url, config.accessKey, since);
+  await saveBoomerangPipelineRunsToDb(teamId, activities.map(toPipelineRun));
+
+  const runs = await getBoomerangPipelineRunsFromDb(teamId, windowStart.toISOString());
+  const metrics: BoomerangTeamMetricsData = {
+    ...computeBoomerangMetrics(runs, BOOMERANG_PERIODS, now),
+    lastRefreshed: new Date(now).toISOString(),
+  };
+  await saveBoomerangTeamMetricsToDb(teamId, metrics);
+  console.log(`Boomerang metrics saved for team ${teamId}: ${activities.length} runs fetched, ${runs.length} in the window.`);
+  return metrics;
+}
+
 export async function refreshBoomerangMetrics(teamId: string) {
-  console.log(`Refreshing Boomerang metrics for team ${teamId} (simulated)`);
-  await new Promise(resolve => setTimeout(resolve, 200));
-  const mockMetrics = {
-    info: "Boomerang metrics integration is not fully implemented or no data available.",
-    buildSuccessRate: 0,
-    lastRefreshed: new Date().toISOString()
+  try {
+    const metrics = await _fetchAndSaveBoomerangMetrics(teamId);
+    return { success: true, data: { metrics }, message: "Boomerang metrics refreshed successfully." };
+  } catch (error: any) {
+    console.error(`Error refreshing Boomerang metrics for team ${teamId}:`, error);
+    const existing = await getBoomerangTeamMetricsFromDb(teamId);
+    const failed: BoomerangTeamMetricsData = { ...existing, lastRefreshed: new Date().toISOString(), info: { message: error.message || "Failed to refresh Boomerang metrics." } };
+    await saveBoomerangTeamMetricsToDb(teamId, failed);
+    return { success: false, message: failed.info!.message, data: { metrics: failed } };
+  }
+}
+
+function _describeSkippedJenkinsJobs(skippedJobs: string[]): string {
+  return skippedJobs.length > 0 ? ` Jobs that could not be read: ${skippedJobs.join(", ")}.` : "";
+}
+
+// Reads every configured job's builds back to the longest period and recomputes all periods. A job that cannot be
+// read is skipped so one renamed job does not hide the others; the refresh fails only when none can be read.
+async function _fetchAndSaveJenkinsMetrics(teamId: string): Promise<{ metrics: JenkinsTeamMetricsData; skippedJobs: string[] }> {
+  const config = await getJenkinsConfigFromDb(teamId);
+  const jobNames = config ? parseJobNames(config.jobNames) : [];
+  if (!config || !config.url || !config.username || !config.apiToken || jobNames.length === 0) {
+    throw new Error("Jenkins configuration (URL, Username, API Token or Jobs) not fully configured for this team.");
+  }
+  const now = Date.now();
+  const windowStart = new Date(now - Math.max(...JENKINS_PERIODS.map(period => period.days)) * 24 * 60 * 60 * 1000);
+
+  const builds: JenkinsBuild[] = [];
+  const skippedJobs: string[] = [];
+  let lastError: Error | null = null;
+  for (const jobName of jobNames) {
+    try {
+      const jobBuilds = await fetchJenkinsJobBuilds(config.url, config.username, config.apiToken, jobName, windowStart);
+      builds.push(...jobBuilds.map(build => toJenkinsBuild(jobName, build)));
+    } catch (error: any) {
+      console.error(`Error fetching Jenkins builds for job ${jobName} (team ${teamId}):`, error);
+      skippedJobs.push(jobName);
+      lastError = error;
+    }
+  }
+  if (skippedJobs.length === jobNames.length && lastError) {
+    throw lastError;
+  }
+
+  const metrics: JenkinsTeamMetricsData = {
+    ...computeJenkinsMetrics(builds, JENKINS_PERIODS, now),
+    lastRefreshed: new Date(now).toISOString(),
   };
-  return { success: true, data: { metrics: mockMetrics }, message: "Boomerang metrics refresh (simulated - no actual data fetch)." };
+  await saveJenkinsTeamMetricsToDb(teamId, metrics);
+  console.log(`Jenkins metrics saved for team ${teamId}: ${builds.length} builds across ${jobNames.length - skippedJobs.length} jobs.`);
+  return { metrics, skippedJobs };
+}
+
+export async function refreshJenkinsMetrics(teamId: string) {
+  try {
+    const { metrics, skippedJobs } = await _fetchAndSaveJenkinsMetrics(teamId);
+    return { success: true, data: { metrics }, message: `Jenkins metrics refreshed successfully.${_describeSkippedJenkinsJobs(skippedJobs)}` };
+  } catch (error: any) {
+    console.error(`Error refreshing Jenkins metrics for team ${teamId}:`, error);
+    const existing = await getJenkinsTeamMetricsFromDb(teamId);
+    const failed: JenkinsTeamMetricsData = { ...existing, lastRefreshed: new Date().toISOString(), info: { message: error.message || "Failed to refresh Jenkins metrics." } };
+    await saveJenkinsTeamMetricsToDb(teamId, failed);
+    return { success: false, message: failed.info!.message, data: { metrics: failed } };
+  }
 }
 
 // Get Metrics Actions
 
-export async function getJiraMetrics(teamId: string): Promise<JiraTeamMetricsData | null> {
-    const metrics = await getJiraTeamMetricsFromDb(teamId);
+// Re-keys issuesByAssignee by resolved person, merging the counts of identities that belong to the same engineer.
+function _resolveJiraAssignees(metrics: JiraTeamMetricsData, people: Person[]): JiraTeamMetricsData {
+  if (!metrics.assigneeIdentities) return metrics;
+  const issuesByAssignee: Record<string, number> = {};
+  resolveAssignees(people, metrics.assigneeIdentities).forEach(contributor => {
+    issuesByAssignee[contributor.displayName] = (issuesByAssignee[contributor.displayName] || 0) + contributor.count;
+  });
+  return { ...metrics, issuesByAssignee };
+}
+
+export async function getJiraMetrics(teamId: string, filterId: string = JIRA_DEFAULT_FILTER_ID): Promise<JiraTeamMetricsData | null> {
+    const metrics = await getJiraTeamMetricsFromDb(teamId, filterId);
      if (metrics) {
-        return metrics;
+        return _resolveJiraAssignees(metrics, await getPeopleFromDb(teamId));
     }
     return {
-        info: { message: "Jira not configured or no metrics fetched yet. Please configure in Team Configuration -> Jira and Save/Refresh." },
+        info: {
+          message: filterId === JIRA_DEFAULT_FILTER_ID
+            ? "Jira not configured or no metrics fetched yet. Please configure in Team Configuration -> Jira and Save/Refresh."
+            : "No metrics for this filter yet. Refresh Jira metrics to compute them.",
+        },
         totalIssues: 0, issuesByType: {}, issuesByAssignee: {}, issuesByStatus: {},
         issuesByLabel: {}, issuesByCategory: {}, averageIssueAgeDays: 0, lastRefreshed: "N/A"
     };
 }
 
+export async function getJiraSprintMetrics(teamId: string): Promise<JiraSprintMetrics[]> {
+  try {
+    return await getJiraSprintMetricsFromDb(teamId, JIRA_SPRINT_HISTORY_LIMIT + 1);
+  } catch (error) {
+    console.error(`Error loading Jira sprint metrics for team ${teamId}:`, error);
+    return [];
+  }
+}
 
 export async function getSonarQubeMetrics(teamId: string): Promise<SonarQubeTeamMetricsData | null> {
     const metrics = await getSonarQubeTeamMetricsFromDb(teamId);
@@ -1194,66 +2105,355 @@ export async function getSonarQubeMetrics(teamId: string): Promise<SonarQubeTeam
     };
 }
 
-export async function getBoomerangMetrics(teamId: string) {
-  await new Promise(resolve => setTimeout(resolve, 50));
-  const mockMetrics = {
-    info: "Boomerang metrics integration is not fully implemented or no data available for this team.",
-    buildSuccessRate: 0,
-    lastRefreshed: "N/A"
+export async function getBoomerangMetrics(teamId: string): Promise<BoomerangTeamMetricsData> {
+  const metrics = await getBoomerangTeamMetricsFromDb(teamId);
+  if (metrics) {
+    return metrics;
+  }
+  return {
+    info: { message: "Boomerang not configured or no metrics fetched yet. Please configure it under Team Configuration -> Boomerang tab and Save/Refresh." },
+    lastRefreshed: "N/A",
   };
-  return mockMetrics;
 }
 
-interface GithubApiRepo {
-  id: string;
-  name: string;
-  html_url: string;
-  full_name: string;
-  private: boolean;
-  size: number;
-  languages_url: string;
-  tags_url: string;
-  commits_url: string;
+export async function getJenkinsMetrics(teamId: string): Promise<JenkinsTeamMetricsData> {
+  const metrics = await getJenkinsTeamMetricsFromDb(teamId);
+  if (metrics) {
+    return metrics;
+  }
+  return {
+    info: { message: "Jenkins not configured or no metrics fetched yet. Please configure it under Team Configuration -> Jenkins tab and Save/Refresh." },
+    lastRefreshed: "N/A",
+  };
 }
 
-interface GithubApiCommit {
-  sha: string;
-  commit: {
-    author: { name?: string; email?: string; date?: string };
-    committer: { name?: string; email?: string; date?: string };
-    message: string;
-  };
-  author: { login: string; name?: string; email?: string } | null;
-  committer: { login: string; name?: string; email?: string } | null;
-  stats?: {
-    additions: number;
-    deletions: number;
-    total: number;
-  };
+// DORA Metrics
+// GitHub lists deployments, releases and tags newest first; paging stops once `isPastWindow` says the rest are older.
+async function fetchGithubPagesUntil<T>(url: string, headers: Record<string, string>, isPastWindow: (item: T) => boolean): Promise<T[]> {
+  const items: T[] = [];
+  let pageUrl = url;
+  while (pageUrl) {
+    const response = await githubFetch(pageUrl, { headers });
+    if (!response.ok) {
+      throw new Error(`GitHub request failed (${response.status}) for ${pageUrl}: ${(await response.text()).substring(0, 300)}`);
+    }
+    const page: T[] = await response.json();
+    items.push(...page);
+    pageUrl = page.some(isPastWindow) ? "" : nextGithubPageUrl(response);
+  }
+  return items;
 }
 
-interface GithubApiTag {
+interface DoraDeploymentRef {
   name: string;
-  commit: {
-    sha: string;
-    url: string;
+  ref: string;
+  deployedAt: string;
+}
+
+// Returns deployment refs newest first: every one inside the window plus the newest one before it, which is
+// only used as the diff base for the oldest deployment in the window.
+async function listDoraDeploymentRefs(
+  repoFullName: string,
+  source: DoraDeploymentSource,
+  productionEnvironment: string,
+  since: Date,
+  headers: Record<string, string>,
+  githubApiBase: string,
+  githubGraphqlUrl: string
+): Promise<DoraDeploymentRef[]> {
+  const isBefore = (timestamp?: string | null) => !!timestamp && new Date(timestamp) < since;
+  let refs: DoraDeploymentRef[] = [];
+
+  if (source === "deployments") {
+    const deployments = await fetchGithubPagesUntil<GithubApiDeployment>(
+      `${githubApiBase}/repos/${repoFullName}/deployments?environment=${encodeURIComponent(productionEnvironment)}&per_page=100`,
+      headers,
+      deployment => isBefore(deployment.created_at)
+    );
+    for (const deployment of deployments) {
+      // Only deployments that went live count; "inactive" means a later deployment superseded a successful one.
+      const statusResponse = await githubFetch(`${githubApiBase}/repos/${repoFullName}/deployments/${deployment.id}/statuses?per_page=1`, { headers });
+      const [latestStatus]: Array<{ state: string; created_at: string }> = statusResponse.ok ? await statusResponse.json() : [];
+      if (latestStatus && (latestStatus.state === "success" || latestStatus.state === "inactive")) {
+        refs.push({ name: deployment.ref, ref: deployment.sha, deployedAt: deployment.created_at });
+      }
+    }
+  } else if (source === "releases") {
+    const releases = await fetchGithubPagesUntil<GithubApiRelease>(
+      `${githubApiBase}/repos/${repoFullName}/releases?per_page=100`,
+      headers,
+      release => isBefore(release.published_at)
+    );
+    refs = releases
+      .filter(release => !release.draft && !release.prerelease && release.published_at)
+      .map(release => ({ name: release.name || release.tag_name, ref: release.tag_name, deployedAt: release.published_at! }));
+  } else {
+    // Tags carry no date of their own; the tagged commit's committer date stands in, as for the latest tags list.
+    const tags = await fetchGithubTagsSince(repoFullName, since, headers, githubGraphqlUrl);
+    refs = tags.map(tag => ({ name: tag.name, ref: tag.sha, deployedAt: tag.date }));
+  }
+
+  refs.sort((a, b) => b.deployedAt.localeCompare(a.deployedAt));
+  const firstBefore = refs.findIndex(ref => isBefore(ref.deployedAt));
+  return firstBefore === -1 ? refs : refs.slice(0, firstBefore + 1);
+}
+
+async function fetchDoraCommitsBetween(repoFullName: string, base: string, head: string, headers: Record<string, string>, githubApiBase: string): Promise<DoraCommit[]> {
+  const response = await githubFetch(`${githubApiBase}/repos/${repoFullName}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}`, { headers });
+  if (!response.ok) {
+    console.warn(`Failed to compare ${base}...${head} in ${repoFullName}: ${response.status}. Lead time will skip this deployment.`);
+    return [];
+  }
+  const comparison: { commits: GithubApiCommit[] } = await response.json();
+  return (comparison.commits || []).map(commit => ({
+    sha: commit.sha,
+    message: commit.commit.message || "",
+    authoredAt: commit.commit.author?.date || commit.commit.committer?.date || new Date().toISOString(),
+  }));
+}
+
+async function _fetchAndSaveDoraMetrics(teamId: string): Promise<DoraTeamMetricsData> {
+  const githubConfig = await getGithubConfigFromDb(teamId);
+  if (!githubConfig || !githubConfig.accessToken || !githubConfig.rootUrl) {
+    throw new Error("GitHub configuration (Root URL or Access Token) not fully configured for this team. DORA metrics are computed from the team's GitHub repositories.");
+  }
+  if (githubConfig.provider !== 'github') {
+    throw new Error(`DORA metrics read GitHub deployments, releases and tags, so they are not available for ${SCM_PROVIDERS.find(option => option.value === githubConfig.provider)?.label} repositories yet.`);
+  }
+  const repoFullNames = (githubConfig.selectedRepos || []).map(repo => repo.fullName).filter((fullName): fullName is string => !!fullName);
+  if (repoFullNames.length === 0) {
+    throw new Error("No repositories selected for this team. Select repositories in the GitHub tab first.");
+  }
+  const doraConfig = (await getDoraConfigFromDb(teamId)) || { teamId, ...DEFAULT_DORA_CONFIG };
+  const patterns = parseFailurePatterns(doraConfig.failurePatterns);
+  const headers = { Authorization: `token ${githubConfig.accessToken}`, Accept: 'application/vnd.github.v3+json' };
+  const githubApiBase = githubApiBaseFor(githubConfig.rootUrl);
+  const githubGraphqlUrl = githubGraphqlUrlFor(githubConfig.rootUrl);
+  const now = Date.now();
+  const since = new Date(now - DORA_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const deployments: DoraDeployment[] = [];
+  const deploymentSourceByRepo: Record<string, DoraDeploymentSource | 'none'> = {};
+  for (const repoFullName of repoFullNames) {
+    const candidates: DoraDeploymentSource[] = doraConfig.deploymentSource === "auto"
+      ? ["deployments", "releases", "tags"]
+      : [doraConfig.deploymentSource];
+    deploymentSourceByRepo[repoFullName] = 'none';
+    try {
+      for (const source of candidates) {
+        const refs = await listDoraDeploymentRefs(repoFullName, source, doraConfig.productionEnvironment, since, headers, githubApiBase, githubGraphqlUrl);
+        if (!refs.some(ref => new Date(ref.deployedAt) >= since)) continue;
+        deploymentSourceByRepo[repoFullName] = source;
+        for (let i = 0; i < refs.length; i++) {
+          const base = refs[i + 1];
+          deployments.push({
+            repoFullName: repoFullName,
+            name: refs[i].name,
+            deployedAt: refs[i].deployedAt,
+            commits: base ? await fetchDoraCommitsBetween(repoFullName, base.ref, refs[i].ref, headers, githubApiBase) : undefined,
+          });
+        }
+        break;
+      }
+    } catch (e: any) {
+      console.warn(`Error collecting deployments for ${repoFullName}: ${e.message}`);
+    }
+  }
+
+  const metrics: DoraTeamMetricsData = {
+    ...computeDoraMetrics(deployments, deploymentSourceByRepo, patterns, DORA_WINDOW_DAYS, now),
+    lastRefreshed: new Date(now).toISOString(),
   };
-  zipball_url: string;
-  tarball_url: string;
-  node_id: string;
+  await saveDoraTeamMetricsToDb(teamId, metrics);
+  console.log(`DORA metrics saved for team ${teamId}: ${metrics.deploymentCount} deployments across ${repoFullNames.length} repos.`);
+  return metrics;
+}
+
+export async function saveDoraConfig(formData: DoraConfigFormData) {
+  try {
+    await saveDoraConfigToDb({ ...formData, failurePatterns: formData.failurePatterns.split("\n").map(line => line.trim()).filter(Boolean).join("\n") });
+    return { success: true, message: "DORA configuration saved. Refresh DORA metrics to apply it." };
+  } catch (error: any) {
+    console.error("Error saving DORA config:", error);
+    return { success: false, message: error.message || "Failed to save DORA configuration." };
+  }
+}
+
+export async function getDoraConfig(teamId: string): Promise<DoraConfigFormData> {
+  return (await getDoraConfigFromDb(teamId)) || { teamId, ...DEFAULT_DORA_CONFIG };
+}
+
+export async function refreshDoraMetrics(teamId: string) {
+  try {
+    const metrics = await _fetchAndSaveDoraMetrics(teamId);
+    return { success: true, data: { metrics }, message: "DORA metrics refreshed successfully." };
+  } catch (error: any) {
+    console.error(`Error refreshing DORA metrics for team ${teamId}:`, error);
+    const existing = await getDoraTeamMetricsFromDb(teamId);
+    const failed: DoraTeamMetricsData = { ...existing, lastRefreshed: new Date().toISOString(), info: { message: error.message || "Failed to refresh DORA metrics." } };
+    await saveDoraTeamMetricsToDb(teamId, failed);
+    return { success: false, message: failed.info!.message, data: { metrics: failed } };
+  }
+}
+
+export async function getDoraMetrics(teamId: string): Promise<DoraTeamMetricsData | null> {
+  return getDoraTeamMetricsFromDb(teamId);
+}
+
+// Cost & Capacity Actions
+export async function saveCostSettings(formData: CostSettingsFormData) {
+  try {
+    const holidays = Array.from(new Set(formData.holidays.split("\n").map(line => line.trim()).filter(Boolean))).sort().join("\n");
+    await saveCostSettingsToDb({ ...formData, holidays });
+    return { success: true, message: "Cost settings saved." };
+  } catch (error: any) {
+    console.error("Error saving cost settings:", error);
+    return { success: false, message: error.message || "Failed to save cost settings." };
+  }
+}
+
+export async function getCostSettings(teamId: string): Promise<CostSettingsFormData> {
+  return (await getCostSettingsFromDb(teamId)) || { teamId, ...DEFAULT_COST_SETTINGS };
+}
+
+// Delivered units per trailing window, read from the last GitHub and Jira refresh. Resolved issues come from the
+// most recent completed issues kept with the flow metrics, so very busy projects may be undercounted.
+async function _getDeliveryOutputs(teamId: string, now: Date): Promise<Record<number, DeliveryOutputs>> {
+  const githubMetrics = await getGithubTeamMetricsFromDb(teamId);
+  const jiraMetrics = await getJiraTeamMetricsFromDb(teamId);
+  const sprints = await getJiraSprintMetricsFromDb(teamId, JIRA_SPRINT_HISTORY_LIMIT + 1);
+  const outputs: Record<number, DeliveryOutputs> = {};
+  for (const windowDays of COST_EFFICIENCY_WINDOWS) {
+    const since = new Date(now.getTime() - windowDays * 24 * 60 * 60 * 1000).toISOString();
+    outputs[windowDays] = {
+      mergedPullRequests: githubMetrics[`${windowDays}days`]?.pullRequests_period?.merged ?? null,
+      resolvedIssues: jiraMetrics?.flowMetrics ? countResolvedIssues(jiraMetrics.flowMetrics.cycleTimePoints, since) : null,
+      storyPoints: sumCompletedStoryPoints(sprints, since),
+    };
+  }
+  return outputs;
+}
+
+async function _computeTeamFinancials(teamId: string): Promise<TeamFinancials | null> {
+  const teamMembers = await getTeamMembersFromDb(teamId);
+  if (teamMembers.length === 0) return null;
+  const now = new Date();
+  const converter = new CurrencyConverter(await getExchangeRatesFromDb());
+  return computeTeamFinancials(teamMembers, await getCostSettings(teamId), COST_HISTORY_MONTHS, await _getDeliveryOutputs(teamId, now), converter, now);
+}
+
+// Exchange Rate & Rate Card Actions
+export async function saveExchangeRate(formData: ExchangeRateFormData) {
+  try {
+    const rate = await saveExchangeRateToDb(formData);
+    return { success: true, data: rate, message: `${rate.currency} rate effective ${rate.effectiveDate} saved.` };
+  } catch (error: any) {
+    console.error("Error saving exchange rate:", error);
+    return { success: false, message: error.message || "Failed to save exchange rate." };
+  }
+}
+
+export async function getExchangeRates(): Promise<ExchangeRate[]> {
+  return getExchangeRatesFromDb();
+}
+
+export async function deleteExchangeRate(id: string) {
+  try {
+    await deleteExchangeRateFromDb(id);
+    return { success: true, message: "Exchange rate deleted." };
+  } catch (error: any) {
+    console.error("Error deleting exchange rate:", error);
+    return { success: false, message: error.message || "Failed to delete exchange rate." };
+  }
+}
+
+export async function saveRateCard(formData: RateCardFormData) {
+  try {
+    const card = await saveRateCardToDb(formData);
+    return { success: true, data: card, message: `Rate card for ${card.band} in ${card.location} saved.` };
+  } catch (error: any) {
+    console.error("Error saving rate card:", error);
+    return { success: false, message: error.message || "Failed to save rate card." };
+  }
+}
+
+export async function getRateCards(): Promise<RateCard[]> {
+  return getRateCardsFromDb();
+}
+
+export async function deleteRateCard(id: string) {
+  try {
+    await deleteRateCardFromDb(id);
+    return { success: true, message: "Rate card deleted." };
+  } catch (error: any) {
+    console.error("Error deleting rate card:", error);
+    return { success: false, message: error.message || "Failed to delete rate card." };
+  }
+}
+
+export async function getTeamFinancials(teamId: string): Promise<{ success: boolean; message: string; data?: TeamFinancials }> {
+  try {
+    const financials = await _computeTeamFinancials(teamId);
+    return financials
+      ? { success: true, message: "Financials computed.", data: financials }
+      : { success: false, message: "No team members configured. Add members with rates in Team Configuration -> Team Members." };
+  } catch (error: any) {
+    console.error(`Error computing financials for team ${teamId}:`, error);
+    return { success: false, message: error.message || "Failed to compute team financials." };
+  }
+}
+
+// Metric History Actions
+
+export async function getMetricTrend<T = unknown>(
+  teamId: string,
+  source: MetricSnapshotSource,
+  options: { snapshotKey?: string; sinceDays?: number } = {}
+): Promise<MetricSnapshot<T>[]> {
+  try {
+    let since: string | undefined;
+    if (options.sinceDays) {
+      const sinceDate = new Date();
+      sinceDate.setDate(sinceDate.getDate() - options.sinceDays);
+      since = sinceDate.toISOString();
+    }
+    return await getMetricSnapshotsFromDb<T>(teamId, source, { snapshotKey: options.snapshotKey, since });
+  } catch (error: any) {
+    console.error(`getMetricTrend failed for team ${teamId}, source ${source}:`, error);
+    return [];
+  }
+}
+
+interface GithubApiDeployment {
+  id: number;
+  sha: string;
+  ref: string;
+  environment: string;
+  created_at: string;
+}
+
+interface GithubApiRelease {
+  name: string | null;
+  tag_name: string;
+  draft: boolean;
+  prerelease: boolean;
+  published_at: string | null;
 }
 
 interface JiraApiIssue {
   key: string;
   fields: {
     summary: string;
+    project?: { key: string; name: string };
     issuetype: { name: string };
-    assignee?: { displayName: string; accountId: string; };
-    status: { name: string };
+    assignee?: { displayName: string; accountId?: string; name?: string }; // Server/Data Center has name instead of accountId.
+    status: { name: string; statusCategory?: { key: string } };
     labels: string[];
     components: Array<{ name: string }>;
     created: string;
+    resolutiondate?: string | null;
   };
+  changelog?: { total?: number; histories: JiraChangelogHistory[] };
 }
 
 // New action for generating setup scripts (simulated push)
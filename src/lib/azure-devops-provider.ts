@@ -0,0 +1,365 @@
+// src/lib/azure-devops-provider.ts
+// Azure DevOps Repos (Services and Server) source-control provider, read through REST API 7.1 with a personal access
+// token. Repositories are addressed as "Project/repo". Languages come from project analysis; commits carry no line
+// counts, so each new commit's changed files are diffed once and then cached with the history.
+import type { GithubRepoData } from './schemas';
+import type { ScmProvider, ScmTag } from './scm';
+import type { GithubCommitRecord } from './github-commits';
+import { foldReviewEvents, type GithubApiReview, type GithubPullRequestRecord, type ReviewEvent } from './github-pulls';
+import { scmFetch, withCloneCredentials } from './scm-client';
+
+const API_VERSION = 'api-version=7.1';
+const PAGE_SIZE = 100;
+const FILE_DIFF_BATCH_SIZE = 50;
+
+interface AzureDevopsList<T> {
+  value: T[];
+  count?: number;
+}
+
+interface AzureDevopsApiRepo {
+  id: string;
+  name: string;
+  webUrl: string;
+  remoteUrl?: string;
+  project: { name: string };
+  isDisabled?: boolean;
+}
+
+interface AzureDevopsLanguageMetrics {
+  repositoryLanguageAnalytics?: { name: string; languageBreakdown?: { name: string; bytes?: number }[] }[];
+}
+
+interface AzureDevopsApiRef {
+  name: string;
+  objectId: string;
+  peeledObjectId?: string;
+}
+
+interface AzureDevopsGitUser {
+  name?: string;
+  email?: string;
+  date: string;
+}
+
+export interface AzureDevopsApiCommit {
+  commitId: string;
+  author: AzureDevopsGitUser;
+  committer: AzureDevopsGitUser;
+  comment: string;
+  parents?: string[];
+}
+
+interface AzureDevopsApiChange {
+  item: { path: string; gitObjectType?: string; isFolder?: boolean };
+  originalPath?: string;
+}
+
+export interface AzureDevopsApiFileDiff {
+  lineDiffBlocks?: { changeType: string; modifiedLinesCount: number; originalLinesCount: number }[];
+}
+
+interface AzureDevopsIdentity {
+  uniqueName: string;
+  displayName?: string;
+}
+
+export interface AzureDevopsApiPullRequest {
+  pullRequestId: number;
+  status: 'active' | 'completed' | 'abandoned';
+  isDraft?: boolean;
+  createdBy: AzureDevopsIdentity;
+  creationDate: string;
+  closedDate?: string;
+}
+
+export interface AzureDevopsApiThread {
+  comments: { author: AzureDevopsIdentity; publishedDate: string; commentType?: string }[];
+  properties?: Record<string, { $value: string | number } | undefined>;
+}
+
+export interface AzureDevopsApiIteration {
+  id: number;
+  createdDate: string;
+  sourceRefCommit: { commitId: string };
+  commonRefCommit?: { commitId: string };
+}
+
+// dev.azure.com and on-premises servers put the organization (collection) first in the path; *.visualstudio.com
+// organizations are the host. The next segment, if any, is the project.
+export function azureDevopsScopeFor(rootUrl: string): { collectionUrl: string; project: string | null } {
+  const url = new URL(rootUrl);
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const hostIsOrganization = url.hostname.endsWith('.visualstudio.com');
+  if (!hostIsOrganization && parts.length === 0) {
+    throw new Error("The Azure DevOps URL must include the organization, e.g. https://dev.azure.com/your-org/YourProject.");
+  }
+  const collectionUrl = hostIsOrganization ? url.origin : `${url.origin}/${encodeURIComponent(parts[0])}`;
+  const project = (hostIsOrganization ? parts[0] : parts[1]) || null;
+  return { collectionUrl, project: project && !project.startsWith('_') ? project : null };
+}
+
+export function sumFileDiffLines(fileDiffs: AzureDevopsApiFileDiff[]): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+  for (const fileDiff of fileDiffs) {
+    for (const block of fileDiff.lineDiffBlocks || []) {
+      if (block.changeType === 'none') continue;
+      additions += block.modifiedLinesCount;
+      deletions += block.originalLinesCount;
+    }
+  }
+  return { additions, deletions };
+}
+
+export function toAzureDevopsCommitRecord(repoFullName: string, commit: AzureDevopsApiCommit, lines: { additions: number; deletions: number }): GithubCommitRecord {
+  return {
+    repoFullName,
+    oid: commit.commitId,
+    committedDate: new Date(commit.committer.date).toISOString(),
+    additions: lines.additions,
+    deletions: lines.deletions,
+    message: commit.comment,
+    committer: commit.author.name || commit.committer.name || null,
+    authorLogin: null, // Resolved through the people registry by name and email, as for GitLab.
+    authorName: commit.author.name || null,
+    authorEmail: commit.author.email?.toLowerCase() || null,
+  };
+}
+
+// Text comments and vote updates become review events; each iteration is a pushed head. Votes: 10 approved, 5
+// approved with suggestions, -5 waiting for author, -10 rejected, 0 reset.
+export function toAzureDevopsReviews(threads: AzureDevopsApiThread[], iterations: AzureDevopsApiIteration[]): GithubApiReview[] {
+  const events: ReviewEvent[] = [];
+  for (const thread of threads) {
+    if (thread.properties?.CodeReviewThreadType?.$value === 'VoteUpdate') {
+      const vote = Number(thread.properties.CodeReviewVoteResult?.$value);
+      const voter = thread.comments[0];
+      if (voter && vote !== 0 && !Number.isNaN(vote)) {
+        events.push({ login: voter.author.uniqueName, state: vote > 0 ? 'APPROVED' : 'CHANGES_REQUESTED', at: voter.publishedDate });
+      }
+      continue;
+    }
+    for (const comment of thread.comments) {
+      if (comment.commentType === 'text') {
+        events.push({ login: comment.author.uniqueName, state: 'COMMENTED', at: comment.publishedDate });
+      }
+    }
+  }
+  return foldReviewEvents(events, iterations.map(iteration => ({ commitId: iteration.sourceRefCommit.commitId, at: iteration.createdDate })));
+}
+
+export function toAzureDevopsPullRequestRecord(
+  repoFullName: string,
+  pullRequest: AzureDevopsApiPullRequest,
+  reviews: GithubApiReview[],
+  size: { additions: number; deletions: number } | null,
+  activityDates: string[] = [],
+): GithubPullRequestRecord {
+  const closedAt = pullRequest.status === 'active' || !pullRequest.closedDate ? null : new Date(pullRequest.closedDate).toISOString();
+  const createdAt = new Date(pullRequest.creationDate).toISOString();
+  // Pull requests carry no last-updated time; the latest of their pushes, comments and closing stands in.
+  const updatedAt = [createdAt, closedAt, ...activityDates.filter(Boolean).map(date => new Date(date).toISOString())]
+    .filter((date): date is string => !!date)
+    .sort()
+    .pop()!;
+  return {
+    repoFullName,
+    pull: {
+      number: pullRequest.pullRequestId,
+      user: { login: pullRequest.createdBy.uniqueName },
+      draft: pullRequest.isDraft,
+      created_at: createdAt,
+      updated_at: updatedAt,
+      closed_at: closedAt,
+      merged_at: pullRequest.status === 'completed' ? closedAt : null,
+      additions: size?.additions,
+      deletions: size?.deletions,
+    },
+    reviews,
+  };
+}
+
+export function createAzureDevopsProvider(rootUrl: string, accessToken: string): ScmProvider {
+  const { collectionUrl, project: scopedProject } = azureDevopsScopeFor(rootUrl);
+  const headers = {
+    Authorization: `Basic ${Buffer.from(`:${accessToken}`).toString('base64')}`,
+    Accept: 'application/json',
+    'Content-Type': 'application/json',
+  };
+  const languageMetricsByProject = new Map<string, Promise<AzureDevopsLanguageMetrics>>();
+
+  async function fetchJson<T>(url: string, init?: { method: 'POST'; body: unknown }): Promise<T> {
+    const response = await scmFetch('Azure DevOps', url, { headers, method: init?.method, body: init ? JSON.stringify(init.body) : undefined });
+    if (!response.ok) {
+      throw new Error(`Azure DevOps request failed (${response.status}) for ${url}: ${(await response.text()).substring(0, 300)}`);
+    }
+    return response.json();
+  }
+
+  // Pages through a $top/$skip list until a short page.
+  async function fetchPaged<T>(url: string, topParam = '$top', skipParam = '$skip'): Promise<T[]> {
+    const items: T[] = [];
+    for (let skip = 0; ; skip += PAGE_SIZE) {
+      const page = await fetchJson<AzureDevopsList<T>>(`${url}&${topParam}=${PAGE_SIZE}&${skipParam}=${skip}`);
+      items.push(...page.value);
+      if (page.value.length < PAGE_SIZE) return items;
+    }
+  }
+
+  // "Project/repo" to the repository's API base.
+  const repoApi = (repoFullName: string) => {
+    const [project, ...name] = repoFullName.split('/');
+    return `${collectionUrl}/${encodeURIComponent(project)}/_apis/git/repositories/${encodeURIComponent(name.join('/'))}`;
+  };
+
+  // Line counts between two commits for the given changed files; the file diff API takes a bounded batch of paths.
+  async function diffLines(repoFullName: string, baseCommit: string, targetCommit: string, changes: AzureDevopsApiChange[]) {
+    const fileDiffParams = changes
+      .filter(change => !change.item.isFolder && change.item.gitObjectType !== 'tree')
+      .map(change => ({ path: change.item.path, originalPath: change.originalPath || change.item.path }));
+    const totals = { additions: 0, deletions: 0 };
+    for (let i = 0; i < fileDiffParams.length; i += FILE_DIFF_BATCH_SIZE) {
+      const fileDiffs = await fetchJson<AzureDevopsApiFileDiff[]>(`${repoApi(repoFullName)}/filediffs?${API_VERSION}`, {
+        method: 'POST',
+        body: { baseVersionCommit: baseCommit, targetVersionCommit: targetCommit, fileDiffParams: fileDiffParams.slice(i, i + FILE_DIFF_BATCH_SIZE) },
+      });
+      const lines = sumFileDiffLines(fileDiffs);
+      totals.additions += lines.additions;
+      totals.deletions += lines.deletions;
+    }
+    return totals;
+  }
+
+  // Listed commits omit parents and may truncate the message, so the full commit is fetched before diffing it.
+  async function fetchCommitWithLines(repoFullName: string, commitId: string) {
+    const commit = await fetchJson<AzureDevopsApiCommit>(`${repoApi(repoFullName)}/commits/${commitId}?${API_VERSION}`);
+    const parent = commit.parents?.[0];
+    if (!parent) return { commit, lines: { additions: 0, deletions: 0 } };
+    const { changes } = await fetchJson<{ changes: AzureDevopsApiChange[] }>(`${repoApi(repoFullName)}/commits/${commitId}/changes?top=1000&${API_VERSION}`);
+    return { commit, lines: await diffLines(repoFullName, parent, commitId, changes) };
+  }
+
+  return {
+    id: 'azure_devops',
+    label: 'Azure DevOps',
+
+    async listRepos() {
+      const source = `${collectionUrl}${scopedProject ? `/${encodeURIComponent(scopedProject)}` : ''}/_apis/git/repositories?${API_VERSION}`;
+      console.log(`Scanning Azure DevOps repos from: ${source}`);
+      const { value: repos } = await fetchJson<AzureDevopsList<AzureDevopsApiRepo>>(source);
+      return {
+        source,
+        repos: repos.filter(repo => !repo.isDisabled).map((repo): GithubRepoData => ({
+          id: repo.id,
+          name: repo.name,
+          url: repo.webUrl,
+          fullName: `${repo.project.name}/${repo.name}`,
+          cloneUrl: repo.remoteUrl,
+        })),
+      };
+    },
+
+    // Project analysis reports languages for every repo of a project at once, so it is fetched once per project.
+    async fetchLanguageBytes(repoFullName) {
+      const [project, ...name] = repoFullName.split('/');
+      if (!languageMetricsByProject.has(project)) {
+        languageMetricsByProject.set(project, fetchJson(`${collectionUrl}/${encodeURIComponent(project)}/_apis/projectanalysis/languagemetrics?api-version=7.1-preview.1`));
+      }
+      const metrics = await languageMetricsByProject.get(project)!;
+      const analytics = metrics.repositoryLanguageAnalytics?.find(repo => repo.name === name.join('/'));
+      if (!analytics) {
+        throw new Error("No language analysis for this repository yet; Azure DevOps analyses repositories after pushes.");
+      }
+      return Object.fromEntries((analytics.languageBreakdown || []).map(language => [language.name, language.bytes || 0]));
+    },
+
+    // Tag refs are listed by name, so the tagged commits are dated in batches and the newest kept.
+    async fetchLatestTags(repoFullName, limit) {
+      const { value: refs } = await fetchJson<AzureDevopsList<AzureDevopsApiRef>>(`${repoApi(repoFullName)}/refs?filter=tags/&peelTags=true&$top=1000&${API_VERSION}`);
+      const commitIds = Array.from(new Set(refs.map(ref => ref.peeledObjectId || ref.objectId)));
+      const dates = new Map<string, string>();
+      for (let i = 0; i < commitIds.length; i += PAGE_SIZE) {
+        const ids = commitIds.slice(i, i + PAGE_SIZE);
+        const { value: commits } = await fetchJson<AzureDevopsList<AzureDevopsApiCommit>>(`${repoApi(repoFullName)}/commitsbatch?$top=${ids.length}&${API_VERSION}`, { method: 'POST', body: { ids } });
+        commits.forEach(commit => dates.set(commit.commitId, new Date(commit.committer.date).toISOString()));
+      }
+      return refs
+        .map((ref): ScmTag => ({ name: ref.name.replace(/^refs\/tags\//, ''), date: dates.get(ref.peeledObjectId || ref.objectId) || new Date().toISOString() }))
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .slice(0, limit);
+    },
+
+    async fetchCommitHistory(repoFullName, since, cachedOids) {
+      const listed = await fetchPaged<AzureDevopsApiCommit>(
+        `${repoApi(repoFullName)}/commits?searchCriteria.fromDate=${encodeURIComponent(since.toISOString())}&${API_VERSION}`,
+        'searchCriteria.$top',
+        'searchCriteria.$skip',
+      );
+      const records: GithubCommitRecord[] = [];
+      for (const listedCommit of listed.filter(listedCommit => !cachedOids.has(listedCommit.commitId))) {
+        try {
+          const { commit, lines } = await fetchCommitWithLines(repoFullName, listedCommit.commitId);
+          records.push(toAzureDevopsCommitRecord(repoFullName, commit, lines));
+        } catch (e: any) {
+          console.warn(`Failed to diff ${repoFullName}@${listedCommit.commitId}: ${e.message}. Its line counts will be 0.`);
+          records.push(toAzureDevopsCommitRecord(repoFullName, listedCommit, { additions: 0, deletions: 0 }));
+        }
+      }
+      return records;
+    },
+
+    // Pull requests created or closed since `since`, plus every open one since the list can't tell which of those saw
+    // pushes or reviews (three queries, merged by id). Each gets its threads (for reviews), iterations (pushes) and the
+    // latest iteration's diff against the merge base (for size).
+    async fetchPullRequests(repoFullName, since) {
+      const listUrl = (rangeType: 'created' | 'closed') =>
+        `${repoApi(repoFullName)}/pullrequests?searchCriteria.status=all&searchCriteria.minTime=${encodeURIComponent(since.toISOString())}&searchCriteria.queryTimeRangeType=${rangeType}&${API_VERSION}`;
+      const pullRequests = new Map<number, AzureDevopsApiPullRequest>();
+      for (const pullRequest of [
+        ...await fetchPaged<AzureDevopsApiPullRequest>(listUrl('created')),
+        ...await fetchPaged<AzureDevopsApiPullRequest>(listUrl('closed')),
+        ...await fetchPaged<AzureDevopsApiPullRequest>(`${repoApi(repoFullName)}/pullrequests?searchCriteria.status=active&${API_VERSION}`),
+      ]) {
+        pullRequests.set(pullRequest.pullRequestId, pullRequest);
+      }
+
+      const records: GithubPullRequestRecord[] = [];
+      for (const pullRequest of pullRequests.values()) {
+        const pullRequestUrl = `${repoApi(repoFullName)}/pullRequests/${pullRequest.pullRequestId}`;
+        let iterations: AzureDevopsApiIteration[] = [];
+        let threads: AzureDevopsApiThread[] = [];
+        let reviews: GithubApiReview[] = [];
+        try {
+          iterations = (await fetchJson<AzureDevopsList<AzureDevopsApiIteration>>(`${pullRequestUrl}/iterations?${API_VERSION}`)).value;
+          threads = (await fetchJson<AzureDevopsList<AzureDevopsApiThread>>(`${pullRequestUrl}/threads?${API_VERSION}`)).value;
+          reviews = toAzureDevopsReviews(threads, iterations);
+        } catch (e: any) {
+          console.warn(`Failed to fetch reviews for ${repoFullName} PR #${pullRequest.pullRequestId}: ${e.message}.`);
+        }
+        let size: { additions: number; deletions: number } | null = null;
+        const latest = iterations[iterations.length - 1];
+        if (latest?.commonRefCommit) {
+          try {
+            const { changeEntries } = await fetchJson<{ changeEntries: AzureDevopsApiChange[] }>(`${pullRequestUrl}/iterations/${latest.id}/changes?$compareTo=0&$top=1000&${API_VERSION}`);
+            size = await diffLines(repoFullName, latest.commonRefCommit.commitId, latest.sourceRefCommit.commitId, changeEntries);
+          } catch (e: any) {
+            console.warn(`Failed to diff ${repoFullName} PR #${pullRequest.pullRequestId}: ${e.message}. Size will be omitted.`);
+          }
+        }
+        const activityDates = [
+          ...iterations.map(iteration => iteration.createdDate),
+          ...threads.flatMap(thread => thread.comments.map(comment => comment.publishedDate)),
+        ];
+        records.push(toAzureDevopsPullRequestRecord(repoFullName, pullRequest, reviews, size, activityDates));
+      }
+      return records;
+    },
+
+    fetchWorkflowRuns: null,
+
+    cloneUrl(repo) {
+      return repo.cloneUrl ? withCloneCredentials(repo.cloneUrl, accessToken, 'pat') : null;
+    },
+  };
+}
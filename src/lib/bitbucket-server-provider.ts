@@ -0,0 +1,290 @@
+// src/lib/bitbucket-server-provider.ts
+// Bitbucket Server / Data Center source-control provider, read through REST API 1.0 with an HTTP access token.
+// Repositories are addressed as "PROJECT/slug". Bitbucket reports no language statistics (cloned line counts cover
+// them) and no per-commit line counts, so each new commit's diff is counted once and then cached with the history.
+import type { GithubRepoData } from './schemas';
+import type { ScmProvider, ScmTag } from './scm';
+import type { GithubCommitRecord } from './github-commits';
+import { foldReviewEvents, type GithubApiReview, type GithubPullRequestRecord, type ReviewEvent } from './github-pulls';
+import { scmFetch, withCloneCredentials } from './scm-client';
+
+interface BitbucketPage<T> {
+  values: T[];
+  isLastPage: boolean;
+  nextPageStart?: number;
+}
+
+interface BitbucketApiRepo {
+  id: number;
+  slug: string;
+  name: string;
+  project: { key: string };
+  links: { self?: { href: string }[]; clone?: { href: string; name: string }[] };
+}
+
+interface BitbucketApiTag {
+  displayId: string;
+  latestCommit: string;
+}
+
+interface BitbucketApiUser {
+  name: string;
+  slug?: string;
+  displayName?: string;
+  emailAddress?: string;
+}
+
+export interface BitbucketApiCommit {
+  id: string;
+  message: string;
+  author: BitbucketApiUser;
+  committer?: BitbucketApiUser;
+  committerTimestamp: number;
+}
+
+export interface BitbucketApiDiff {
+  diffs: { hunks?: { segments: { type: 'ADDED' | 'REMOVED' | 'CONTEXT'; lines: unknown[] }[] }[] }[];
+}
+
+export interface BitbucketApiPullRequest {
+  id: number;
+  state: 'OPEN' | 'MERGED' | 'DECLINED';
+  draft?: boolean;
+  createdDate: number;
+  updatedDate: number;
+  closedDate?: number;
+  author: { user: BitbucketApiUser };
+  fromRef: { latestCommit: string };
+}
+
+export interface BitbucketApiActivity {
+  action: string;
+  createdDate: number;
+  user: BitbucketApiUser;
+  commentAction?: string;
+  fromHash?: string;
+  previousFromHash?: string;
+}
+
+const PAGE_SIZE = 100;
+
+const toIso = (timestamp: number | undefined) => (timestamp !== undefined ? new Date(timestamp).toISOString() : null);
+
+const userLogin = (user: BitbucketApiUser) => user.slug || user.name;
+
+// The REST base sits under any context path in front of /projects/ or /users/.
+export function bitbucketServerApiBaseFor(rootUrl: string): string {
+  const url = new URL(rootUrl);
+  const parts = url.pathname.split('/').filter(Boolean);
+  const scopeIndex = parts.findIndex(part => part === 'projects' || part === 'users');
+  const contextPath = (scopeIndex >= 0 ? parts.slice(0, scopeIndex) : parts).map(part => `/${part}`).join('');
+  return `${url.origin}${contextPath}/rest/api/1.0`;
+}
+
+// A project (/projects/KEY) or user (/users/slug) root URL lists its repositories; otherwise every visible one.
+export function bitbucketServerRepoListingPath(rootUrl: string): string {
+  const parts = new URL(rootUrl).pathname.split('/').filter(Boolean);
+  const scopeIndex = parts.findIndex(part => part === 'projects' || part === 'users');
+  const scopeKey = scopeIndex >= 0 ? parts[scopeIndex + 1] : undefined;
+  return scopeKey ? `/${parts[scopeIndex]}/${encodeURIComponent(scopeKey)}/repos` : '/repos';
+}
+
+// "PROJECT/slug" to its REST path; personal repos have "~user" project keys.
+function repoPath(repoFullName: string): string {
+  const [projectKey, ...slug] = repoFullName.split('/');
+  return `/projects/${encodeURIComponent(projectKey)}/repos/${encodeURIComponent(slug.join('/'))}`;
+}
+
+export function countBitbucketDiffLines(diff: BitbucketApiDiff): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+  for (const file of diff.diffs || []) {
+    for (const hunk of file.hunks || []) {
+      for (const segment of hunk.segments) {
+        if (segment.type === 'ADDED') additions += segment.lines.length;
+        else if (segment.type === 'REMOVED') deletions += segment.lines.length;
+      }
+    }
+  }
+  return { additions, deletions };
+}
+
+export function toBitbucketCommitRecord(repoFullName: string, commit: BitbucketApiCommit, lines: { additions: number; deletions: number }): GithubCommitRecord {
+  const authorName = commit.author.displayName || commit.author.name || null;
+  return {
+    repoFullName,
+    oid: commit.id,
+    committedDate: new Date(commit.committerTimestamp).toISOString(),
+    additions: lines.additions,
+    deletions: lines.deletions,
+    message: commit.message,
+    committer: authorName,
+    authorLogin: null, // Resolved through the people registry by name and email, as for GitLab.
+    authorName,
+    authorEmail: commit.author.emailAddress?.toLowerCase() || null,
+  };
+}
+
+// Activities come newest first. Each rescope (push) starts a new version; the opening head is the first rescope's
+// previous head. "Needs work" is recorded as a REVIEWED activity.
+export function toBitbucketReviews(pullRequest: BitbucketApiPullRequest, activities: BitbucketApiActivity[]): GithubApiReview[] {
+  const oldestFirst = [...activities].sort((a, b) => a.createdDate - b.createdDate);
+  const rescopes = oldestFirst.filter(activity => activity.action === 'RESCOPED' && activity.fromHash);
+  const versions = [
+    { commitId: rescopes[0]?.previousFromHash || pullRequest.fromRef.latestCommit, at: new Date(pullRequest.createdDate).toISOString() },
+    ...rescopes.map(activity => ({ commitId: activity.fromHash!, at: new Date(activity.createdDate).toISOString() })),
+  ];
+  const states: Record<string, ReviewEvent['state']> = { APPROVED: 'APPROVED', REVIEWED: 'CHANGES_REQUESTED', COMMENTED: 'COMMENTED' };
+  const events: ReviewEvent[] = oldestFirst
+    .filter(activity => states[activity.action] && (activity.action !== 'COMMENTED' || activity.commentAction === 'ADDED'))
+    .map(activity => ({ login: userLogin(activity.user), state: states[activity.action], at: new Date(activity.createdDate).toISOString() }));
+  return foldReviewEvents(events, versions);
+}
+
+export function toBitbucketPullRequestRecord(
+  repoFullName: string,
+  pullRequest: BitbucketApiPullRequest,
+  reviews: GithubApiReview[],
+  size: { additions: number; deletions: number } | null,
+): GithubPullRequestRecord {
+  const closedAt = pullRequest.state === 'OPEN' ? null : toIso(pullRequest.closedDate ?? pullRequest.updatedDate);
+  return {
+    repoFullName,
+    pull: {
+      number: pullRequest.id,
+      user: { login: userLogin(pullRequest.author.user) },
+      draft: pullRequest.draft,
+      created_at: toIso(pullRequest.createdDate)!,
+      updated_at: toIso(pullRequest.updatedDate)!,
+      closed_at: closedAt,
+      merged_at: pullRequest.state === 'MERGED' ? closedAt : null,
+      additions: size?.additions,
+      deletions: size?.deletions,
+    },
+    reviews,
+  };
+}
+
+export function createBitbucketServerProvider(rootUrl: string, accessToken: string): ScmProvider {
+  const apiBase = bitbucketServerApiBaseFor(rootUrl);
+  const headers = { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' };
+
+  async function fetchJson<T>(url: string): Promise<T> {
+    const response = await scmFetch('Bitbucket Server', url, { headers });
+    if (!response.ok) {
+      throw new Error(`Bitbucket Server request failed (${response.status}) for ${url}: ${(await response.text()).substring(0, 300)}`);
+    }
+    return response.json();
+  }
+
+  // Pages through `url` until the last page, or until a page holds an item `isPastWindow` flags (lists are newest
+  // first, so the rest would be older still).
+  async function fetchPaged<T>(url: string, isPastWindow?: (item: T) => boolean): Promise<T[]> {
+    const items: T[] = [];
+    let start: number | undefined = 0;
+    while (start !== undefined) {
+      const page: BitbucketPage<T> = await fetchJson(`${url}${url.includes('?') ? '&' : '?'}limit=${PAGE_SIZE}&start=${start}`);
+      items.push(...page.values);
+      start = page.isLastPage || (isPastWindow && page.values.some(isPastWindow)) ? undefined : page.nextPageStart;
+    }
+    return items;
+  }
+
+  return {
+    id: 'bitbucket_server',
+    label: 'Bitbucket Server',
+
+    async listRepos() {
+      const source = `${apiBase}${bitbucketServerRepoListingPath(rootUrl)}`;
+      console.log(`Scanning Bitbucket Server repos from: ${source}`);
+      const repos = await fetchPaged<BitbucketApiRepo>(source);
+      return {
+        source,
+        repos: repos.map((repo): GithubRepoData => ({
+          id: String(repo.id),
+          name: repo.name,
+          url: repo.links.self?.[0]?.href,
+          fullName: `${repo.project.key}/${repo.slug}`,
+          cloneUrl: repo.links.clone?.find(link => link.name === 'http')?.href,
+        })),
+      };
+    },
+
+    fetchLanguageBytes: null,
+
+    // Tags carry no date of their own; the tagged commit's committer date stands in.
+    async fetchLatestTags(repoFullName, limit) {
+      const page = await fetchJson<BitbucketPage<BitbucketApiTag>>(`${apiBase}${repoPath(repoFullName)}/tags?orderBy=MODIFICATION&limit=${limit}`);
+      const dated: ScmTag[] = [];
+      for (const tag of page.values) {
+        try {
+          const commit = await fetchJson<BitbucketApiCommit>(`${apiBase}${repoPath(repoFullName)}/commits/${tag.latestCommit}`);
+          dated.push({ name: tag.displayId, date: new Date(commit.committerTimestamp).toISOString() });
+        } catch (commitError: any) {
+          console.warn(`Could not fetch commit details for tag ${tag.displayId} in repo ${repoFullName}: ${commitError.message}`);
+          dated.push({ name: tag.displayId, date: new Date().toISOString() });
+        }
+      }
+      return dated;
+    },
+
+    async fetchCommitHistory(repoFullName, since, cachedOids) {
+      const commits = await fetchPaged<BitbucketApiCommit>(
+        `${apiBase}${repoPath(repoFullName)}/commits`,
+        commit => commit.committerTimestamp < since.getTime(),
+      );
+      const records: GithubCommitRecord[] = [];
+      for (const commit of commits.filter(commit => commit.committerTimestamp >= since.getTime() && !cachedOids.has(commit.id))) {
+        let lines = { additions: 0, deletions: 0 };
+        try {
+          lines = countBitbucketDiffLines(await fetchJson<BitbucketApiDiff>(`${apiBase}${repoPath(repoFullName)}/commits/${commit.id}/diff?contextLines=0&withComments=false`));
+        } catch (e: any) {
+          console.warn(`Failed to fetch the diff of ${repoFullName}@${commit.id}: ${e.message}. Its line counts will be 0.`);
+        }
+        records.push(toBitbucketCommitRecord(repoFullName, commit, lines));
+      }
+      return records;
+    },
+
+    // Open pull requests are listed in full; merged and declined ones most recently closed first, so one closed before
+    // `since` ends that listing. Those updated since are kept, each with its diff (for size) and activities (for
+    // reviews and pushes).
+    async fetchPullRequests(repoFullName, since) {
+      const listUrl = `${apiBase}${repoPath(repoFullName)}/pull-requests?withAttributes=false&withProperties=false`;
+      const closedBefore = (pullRequest: BitbucketApiPullRequest) => (pullRequest.closedDate ?? pullRequest.updatedDate) < since.getTime();
+      const pullRequests = [
+        ...await fetchPaged<BitbucketApiPullRequest>(`${listUrl}&state=OPEN`),
+        ...await fetchPaged<BitbucketApiPullRequest>(`${listUrl}&state=MERGED&order=CLOSED_DATE`, closedBefore),
+        ...await fetchPaged<BitbucketApiPullRequest>(`${listUrl}&state=DECLINED&order=CLOSED_DATE`, closedBefore),
+      ];
+      const records: GithubPullRequestRecord[] = [];
+      for (const pullRequest of pullRequests.filter(pullRequest => pullRequest.updatedDate >= since.getTime())) {
+        const pullRequestUrl = `${apiBase}${repoPath(repoFullName)}/pull-requests/${pullRequest.id}`;
+        let size: { additions: number; deletions: number } | null = null;
+        try {
+          size = countBitbucketDiffLines(await fetchJson<BitbucketApiDiff>(`${pullRequestUrl}/diff?contextLines=0&withComments=false`));
+        } catch (e: any) {
+          console.warn(`Failed to fetch the diff of ${repoFullName} PR #${pullRequest.id}: ${e.message}. Size will be omitted.`);
+        }
+        let reviews: GithubApiReview[] = [];
+        try {
+          reviews = toBitbucketReviews(pullRequest, await fetchPaged<BitbucketApiActivity>(`${pullRequestUrl}/activities`));
+        } catch (e: any) {
+          console.warn(`Failed to fetch activities for ${repoFullName} PR #${pullRequest.id}: ${e.message}.`);
+        }
+        records.push(toBitbucketPullRequestRecord(repoFullName, pullRequest, reviews, size));
+      }
+      return records;
+    },
+
+    fetchWorkflowRuns: null,
+
+    // The listed HTTP clone URL embeds the token owner's username; without one the /scm/ path is derived.
+    cloneUrl(repo) {
+      const [projectKey, ...slug] = (repo.fullName || '').split('/');
+      const cloneUrl = repo.cloneUrl
+        || (repo.fullName ? `${apiBase.slice(0, -'/rest/api/1.0'.length)}/scm/${projectKey.toLowerCase()}/${slug.join('/')}.git` : null);
+      return cloneUrl ? withCloneCredentials(cloneUrl, accessToken, 'x-token-auth') : null;
+    },
+  };
+}
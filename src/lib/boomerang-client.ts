@@ -0,0 +1,42 @@
+// src/lib/boomerang-client.ts
+// Reads workflow run history from the Boomerang Flow activity API (GET {url}/api/v2/activity), newest first, with
+// the team's access key as a bearer token. Paging stops at the first run older than `since`.
+import type { BoomerangApiActivity, BoomerangApiActivityPage } from './boomerang';
+
+const PAGE_SIZE = 100;
+const MAX_PAGES = 50;
+
+export function boomerangActivityUrl(baseUrl: string, page: number, since: Date): string {
+  const params = new URLSearchParams({
+    page: String(page),
+    size: String(PAGE_SIZE),
+    sort: 'creationDate',
+    order: 'DESC',
+    fromDate: String(Math.floor(since.getTime() / 1000)),
+  });
+  return `${baseUrl.replace(/\/+$/, '')}/api/v2/activity?${params}`;
+}
+
+export async function fetchBoomerangActivity(baseUrl: string, accessKey: string, since: Date): Promise<BoomerangApiActivity[]> {
+  const headers = { Authorization: `Bearer ${accessKey}`, Accept: 'application/json' };
+  const activities: BoomerangApiActivity[] = [];
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const url = boomerangActivityUrl(baseUrl, page, since);
+    const response = await fetch(url, { headers });
+    if (!response.ok) {
+      throw new Error(`Boomerang request failed (${response.status}) for ${url}: ${(await response.text()).substring(0, 300)}`);
+    }
+    const body = await response.json() as BoomerangApiActivityPage;
+    const records = body.records || [];
+    const inWindow = records.filter(record => new Date(record.creationDate) >= since);
+    activities.push(...inWindow);
+
+    const isLastPage = body.pageable?.last ?? (body.pageable?.totalPages !== undefined ? page + 1 >= body.pageable.totalPages : records.length < PAGE_SIZE);
+    if (isLastPage || records.length === 0 || inWindow.length < records.length) {
+      return activities;
+    }
+  }
+  console.warn(`Boomerang activity for ${baseUrl} has more than ${MAX_PAGES * PAGE_SIZE} runs since ${since.toISOString()}; older runs were not fetched.`);
+  return activities;
+}
@@ -0,0 +1,136 @@
+// src/lib/boomerang.ts
+// Turns Boomerang Flow workflow activity into pipeline runs and summarizes them per trailing period and workflow:
+// build success rate (succeeded out of finished runs), median duration and deployments. A deployment is a succeeded
+// run with a target environment, read from the run's properties.
+import type { BoomerangPeriodMetrics, BoomerangPipelineRun, BoomerangRunStats, BoomerangRunStatus, BoomerangTeamMetricsData, BoomerangWorkflowMetrics } from './db';
+import { BOOMERANG_ENVIRONMENT_PROPERTIES } from './constants';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const MAX_RECENT_RUNS = 50;
+
+// One record of GET /api/v2/activity.
+export interface BoomerangApiActivity {
+  id: string;
+  workflowId: string;
+  workflowName?: string;
+  status: string; // completed, failure, invalid, cancelled, inProgress, waiting, notstarted, ...
+  trigger?: string;
+  creationDate: string;
+  duration?: number; // Milliseconds.
+  properties?: { key: string; value?: string | null }[];
+}
+
+export interface BoomerangApiActivityPage {
+  records: BoomerangApiActivity[];
+  pageable?: { number?: number; totalPages?: number; last?: boolean };
+}
+
+export function normalizeRunStatus(status: string): BoomerangRunStatus {
+  switch (status.toLowerCase()) {
+    case 'completed':
+    case 'succeeded':
+      return 'succeeded';
+    case 'failure':
+    case 'failed':
+    case 'invalid':
+      return 'failed';
+    case 'cancelled':
+    case 'skipped':
+      return 'cancelled';
+    default:
+      return 'running';
+  }
+}
+
+function targetEnvironment(properties: BoomerangApiActivity['properties']): string | undefined {
+  for (const key of BOOMERANG_ENVIRONMENT_PROPERTIES) {
+    const value = properties?.find(property => property.key.toLowerCase() === key.toLowerCase())?.value?.trim();
+    if (value) return value;
+  }
+  return undefined;
+}
+
+export function toPipelineRun(activity: BoomerangApiActivity): BoomerangPipelineRun {
+  const status = normalizeRunStatus(activity.status);
+  return {
+    runId: activity.id,
+    workflowId: activity.workflowId,
+    workflowName: activity.workflowName || activity.workflowId,
+    status,
+    trigger: activity.trigger || undefined,
+    environment: targetEnvironment(activity.properties),
+    startedAt: new Date(activity.creationDate).toISOString(),
+    durationSeconds: status !== 'running' && activity.duration ? activity.duration / 1000 : undefined,
+  };
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export const isDeployment = (run: BoomerangPipelineRun) => run.status === 'succeeded' && !!run.environment;
+
+function summarizeRuns(runs: BoomerangPipelineRun[]): BoomerangRunStats {
+  const succeededCount = runs.filter(run => run.status === 'succeeded').length;
+  const failedCount = runs.filter(run => run.status === 'failed').length;
+  const finished = succeededCount + failedCount;
+  return {
+    runCount: runs.length,
+    succeededCount,
+    failedCount,
+    buildSuccessRate: finished > 0 ? succeededCount / finished * 100 : 0,
+    medianDurationSeconds: median(runs
+      .filter(run => run.status === 'succeeded' || run.status === 'failed')
+      .map(run => run.durationSeconds)
+      .filter((seconds): seconds is number => seconds !== undefined)),
+    deploymentCount: runs.filter(isDeployment).length,
+  };
+}
+
+function countBy(runs: BoomerangPipelineRun[], key: (run: BoomerangPipelineRun) => string | undefined): Record<string, number> {
+  const counts: Record<string, number> = {};
+  runs.forEach(run => {
+    const value = key(run);
+    if (value) counts[value] = (counts[value] || 0) + 1;
+  });
+  return counts;
+}
+
+export function computeBoomerangPeriodMetrics(runs: BoomerangPipelineRun[], days: number, now: number = Date.now()): BoomerangPeriodMetrics {
+  const since = new Date(now - days * MS_PER_DAY).toISOString();
+  const inPeriod = runs.filter(run => run.startedAt >= since);
+
+  const runsByWorkflow = new Map<string, BoomerangPipelineRun[]>();
+  inPeriod.forEach(run => runsByWorkflow.set(run.workflowId, [...(runsByWorkflow.get(run.workflowId) || []), run]));
+  const workflows: BoomerangWorkflowMetrics[] = Array.from(runsByWorkflow.entries()).map(([workflowId, workflowRuns]) => {
+    const latest = workflowRuns.reduce((a, b) => (b.startedAt > a.startedAt ? b : a));
+    return {
+      workflowId,
+      workflowName: latest.workflowName,
+      lastRunAt: latest.startedAt,
+      lastStatus: latest.status,
+      ...summarizeRuns(workflowRuns),
+    };
+  }).sort((a, b) => b.runCount - a.runCount || a.workflowName.localeCompare(b.workflowName));
+
+  return {
+    ...summarizeRuns(inPeriod),
+    deploymentsByEnvironment: countBy(inPeriod.filter(isDeployment), run => run.environment),
+    runsByTrigger: countBy(inPeriod, run => run.trigger || 'unknown'),
+    workflows,
+  };
+}
+
+export function computeBoomerangMetrics(
+  runs: BoomerangPipelineRun[],
+  periods: { key: string; days: number }[],
+  now: number = Date.now(),
+): Required<Pick<BoomerangTeamMetricsData, 'periods' | 'recentRuns'>> {
+  return {
+    periods: Object.fromEntries(periods.map(period => [period.key, computeBoomerangPeriodMetrics(runs, period.days, now)])),
+    recentRuns: [...runs].sort((a, b) => b.startedAt.localeCompare(a.startedAt)).slice(0, MAX_RECENT_RUNS),
+  };
+}
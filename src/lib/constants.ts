@@ -20,6 +20,22 @@ export const BANDS = [
   "6G", "6A", "6B", "7A", "7B", "8", "9", "10", "D"
 ];
 
+export const ROLES = [
+  "Engineer", "Senior Engineer", "Tech Lead", "Architect", "QA Engineer", "DevOps Engineer",
+  "Designer", "Product Owner", "Scrum Master", "Engineering Manager"
+];
+
+// Work locations used to pick a default rate card for a member's band.
+export const LOCATIONS = [
+  "India", "Europe", "United Kingdom", "United States", "Canada", "Latin America", "Asia Pacific"
+];
+
+// ISO 4217 codes. Exchange rates are stored as units of each currency per one US dollar, the base currency.
+export const CURRENCIES = [
+  "USD", "EUR", "GBP", "INR", "CAD", "AUD", "CHF", "JPY", "CNY", "SGD", "BRL", "MXN", "PLN", "SEK"
+];
+export const BASE_CURRENCY = "USD";
+
 export const AI_LLM_OPTIONS = [
   { value: "gemini", label: "Gemini" },
   { value: "openai", label: "OpenAI" },
@@ -35,3 +51,114 @@ export const DUMMY_REPOS = [
 ];
 
 export const DB_TYPES = ["sqlite"];
+
+// Filter ID under which the unfiltered, project-wide Jira metrics are stored.
+export const JIRA_DEFAULT_FILTER_ID = "all";
+
+// Snapshot history for the project-wide view keeps the 'team' key it had before saved filters existed.
+export const jiraSnapshotKey = (filterId: string) => filterId === JIRA_DEFAULT_FILTER_ID ? "team" : `filter:${filterId}`;
+
+export const JIRA_AUTH_MODES = [
+  { value: "basic", label: "Username + API Token (Jira Cloud)" },
+  { value: "bearer", label: "Personal Access Token (Jira Data Center / Server)" },
+];
+
+// Pull request size is additions + deletions; a PR falls in the first bucket whose maxLines it does not exceed.
+export const GITHUB_PR_SIZE_BUCKETS = [
+  { label: "XS", maxLines: 10 },
+  { label: "S", maxLines: 50 },
+  { label: "M", maxLines: 250 },
+  { label: "L", maxLines: 1000 },
+  { label: "XL", maxLines: Infinity },
+];
+
+// GitHub Actions runs (and one jobs request per run) are only fetched this far back, so CI metrics cover the
+// GitHub periods up to this length.
+export const GITHUB_ACTIONS_HISTORY_DAYS = 90;
+
+// How many of the most-failing jobs a period keeps.
+export const GITHUB_CI_FAILING_JOBS_LIMIT = 10;
+
+// `languageBytes` and `ciRuns` say which code metrics the provider's API can supply.
+export const SCM_PROVIDERS = [
+  { value: "github", label: "GitHub", defaultRootUrl: "https://github.com/", languageBytes: true, ciRuns: true },
+  { value: "gitlab", label: "GitLab", defaultRootUrl: "https://gitlab.com/", languageBytes: true, ciRuns: false },
+  { value: "bitbucket_server", label: "Bitbucket Server", defaultRootUrl: "", languageBytes: false, ciRuns: false },
+  { value: "azure_devops", label: "Azure DevOps", defaultRootUrl: "https://dev.azure.com/", languageBytes: true, ciRuns: false },
+] as const;
+
+export const DORA_DEPLOYMENT_SOURCES = [
+  { value: "auto", label: "Automatic (deployments, else releases, else tags)" },
+  { value: "deployments", label: "GitHub Deployments" },
+  { value: "releases", label: "GitHub Releases" },
+  { value: "tags", label: "Git Tags" },
+];
+
+export const IDENTITY_KINDS = [
+  { value: "github_login", label: "GitHub Login" },
+  { value: "git_email", label: "Commit Email" },
+  { value: "git_name", label: "Commit Author Name" },
+  { value: "jira_account_id", label: "Jira Account ID" },
+  { value: "jira_display_name", label: "Jira Display Name" },
+] as const;
+
+export const DEFAULT_DORA_CONFIG = {
+  deploymentSource: "auto" as const,
+  productionEnvironment: "production",
+  failurePatterns: "^Revert \"\nhotfix",
+};
+
+// DORA metrics are computed over this trailing window.
+export const DORA_WINDOW_DAYS = 90;
+
+// Boomerang pipeline metrics are computed per trailing period; runs are fetched back to the longest one.
+export const BOOMERANG_PERIODS = [
+  { key: "7days", days: 7, label: "Last 7 Days" },
+  { key: "30days", days: 30, label: "Last 30 Days" },
+  { key: "90days", days: 90, label: "Last 90 Days" },
+];
+
+// Workflow run properties read, in order, as the run's target environment.
+export const BOOMERANG_ENVIRONMENT_PROPERTIES = ["environment", "env", "targetEnvironment", "target_environment", "deployEnvironment"];
+
+// Jenkins build metrics are computed per trailing period from each configured job's build history.
+export const JENKINS_PERIODS = [
+  { key: "7days", days: 7, label: "Last 7 Days" },
+  { key: "30days", days: 30, label: "Last 30 Days" },
+  { key: "90days", days: 90, label: "Last 90 Days" },
+];
+
+// Newest builds read per job on each refresh; Jenkins usually discards older ones anyway.
+export const JENKINS_MAX_BUILDS_PER_JOB = 500;
+export const JENKINS_FAILING_JOBS_LIMIT = 10;
+
+export const RATE_UNITS = [
+  { value: "hourly", label: "Per Hour" },
+  { value: "daily", label: "Per Day" },
+  { value: "monthly", label: "Per Month" },
+  { value: "yearly", label: "Per Year" },
+] as const;
+
+export const DEFAULT_COST_SETTINGS = {
+  reportingCurrency: BASE_CURRENCY,
+  rateUnit: "hourly" as const,
+  hoursPerDay: 8,
+  workingDaysPerWeek: 5,
+  holidays: "",
+};
+
+// Calendar months of burn history shown on the financials dashboard, including the current month.
+export const COST_HISTORY_MONTHS = 12;
+
+// Trailing windows for cost per delivered unit; each must match a GitHub metrics period ("30days", "90days").
+export const COST_EFFICIENCY_WINDOWS = [30, 90];
+
+export const TREND_RANGES = [
+  { value: "90", label: "Last 90 Days" },
+  { value: "180", label: "Last 180 Days" },
+  { value: "365", label: "Last Year" },
+  { value: "all", label: "All History" },
+];
+
+// Config getters return this in place of a stored secret. Submitting it back unchanged keeps the stored value.
+export const SECRET_PLACEHOLDER = "__stored_secret__";
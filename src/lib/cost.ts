@@ -0,0 +1,259 @@
+// src/lib/cost.ts
+// Turns the roster into money and capacity. Each member costs their rate for every working day they are on the
+// team, scaled by allocation; weekends beyond the configured working week and holidays cost nothing. Monthly and
+// yearly rates are spread over the working days of each month, so a full month always costs the full rate. Each
+// day's cost is converted from the member's currency to the reporting currency at that day's exchange rate.
+// Cost per delivered unit divides a trailing window's cost by what GitHub and Jira report for the same window.
+import type { CostSettingsFormData } from './schemas';
+import type { JiraCycleTimePoint, JiraSprintMetrics, TeamMember } from './db';
+import { isActiveMember } from './roster';
+import type { CurrencyConverter } from './currency';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export interface CostPeriodSummary {
+  label: string;
+  startDate: string;
+  endDate: string;
+  workingDays: number;
+  cost: number; // To date for the period in progress.
+  capacityHours: number; // Allocated working hours across the team.
+  fullTimeEquivalent: number; // Average FTE over the period's working days.
+  projectedCost?: number; // Set for the period in progress: its cost if the roster stays as configured.
+}
+
+export interface DeliveryOutputs {
+  // Null when the source has no data for the window, as opposed to zero delivered.
+  mergedPullRequests: number | null;
+  resolvedIssues: number | null;
+  storyPoints: number | null;
+}
+
+export interface CostEfficiency extends DeliveryOutputs {
+  windowDays: number;
+  cost: number;
+  costPerMergedPullRequest: number | null;
+  costPerResolvedIssue: number | null;
+  costPerStoryPoint: number | null;
+}
+
+export interface MemberCost {
+  memberId: string;
+  name: string;
+  role: string;
+  allocationPercent: number;
+  projectedMonthlyCost: number;
+}
+
+export interface TeamFinancials {
+  asOf: string;
+  settings: Omit<CostSettingsFormData, 'teamId' | 'holidays'> & { holidayCount: number };
+  missingExchangeRates: string[]; // Currencies with no exchange rate; their members' cost is left out.
+  monthly: CostPeriodSummary[]; // Oldest first; the last entry is the current month.
+  quarterly: CostPeriodSummary[]; // Oldest first; the last entry is the current quarter.
+  yearToDateCost: number;
+  annualRunRate: number; // The current month's projected cost times twelve.
+  projectedMonthlyCostByRole: Record<string, number>;
+  members: MemberCost[]; // Members contributing to the current month, most expensive first.
+  efficiency: CostEfficiency[];
+}
+
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+function addDays(dateKey: string, days: number): string {
+  return toDateKey(new Date(new Date(`${dateKey}T00:00:00Z`).getTime() + days * MS_PER_DAY));
+}
+
+export function parseHolidays(holidays: string): Set<string> {
+  return new Set(holidays.split('\n').map(line => line.trim()).filter(Boolean));
+}
+
+class CostModel {
+  private readonly holidays: Set<string>;
+  private readonly workingDaysByMonth = new Map<string, number>();
+  readonly missingExchangeRates = new Set<string>();
+
+  constructor(readonly settings: Omit<CostSettingsFormData, 'teamId'>, private readonly converter: CurrencyConverter) {
+    this.holidays = parseHolidays(settings.holidays);
+  }
+
+  // The working week starts on Monday, so five working days means Monday to Friday.
+  isWorkingDay(dateKey: string): boolean {
+    const weekday = (new Date(`${dateKey}T00:00:00Z`).getUTCDay() + 6) % 7;
+    return weekday < this.settings.workingDaysPerWeek && !this.holidays.has(dateKey);
+  }
+
+  workingDaysInMonth(dateKey: string): number {
+    const month = dateKey.slice(0, 7);
+    let count = this.workingDaysByMonth.get(month);
+    if (count === undefined) {
+      count = 0;
+      for (let day = `${month}-01`; day.startsWith(month); day = addDays(day, 1)) {
+        if (this.isWorkingDay(day)) count++;
+      }
+      this.workingDaysByMonth.set(month, count);
+    }
+    return count;
+  }
+
+  private dailyRate(member: TeamMember, dateKey: string): number {
+    switch (this.settings.rateUnit) {
+      case 'hourly':
+        return member.rate * this.settings.hoursPerDay;
+      case 'daily':
+        return member.rate;
+      case 'monthly':
+        return member.rate / this.workingDaysInMonth(dateKey);
+      case 'yearly':
+        return member.rate / 12 / this.workingDaysInMonth(dateKey);
+    }
+  }
+
+  // In the reporting currency.
+  dailyCost(member: TeamMember, dateKey: string): number {
+    const cost = this.converter.convert(this.dailyRate(member, dateKey) * member.allocationPercent / 100, member.currency, this.settings.reportingCurrency, dateKey);
+    if (cost === null) {
+      this.missingExchangeRates.add(member.currency);
+      return 0;
+    }
+    return cost;
+  }
+}
+
+interface RangeTotals {
+  workingDays: number;
+  cost: number;
+  fteDays: number;
+  costByMember: Map<string, number>;
+}
+
+// Both ends are inclusive yyyy-mm-dd dates.
+function sumRange(model: CostModel, members: TeamMember[], startDate: string, endDate: string): RangeTotals {
+  const totals: RangeTotals = { workingDays: 0, cost: 0, fteDays: 0, costByMember: new Map() };
+  for (let day = startDate; day <= endDate; day = addDays(day, 1)) {
+    if (!model.isWorkingDay(day)) continue;
+    totals.workingDays++;
+    for (const member of members) {
+      if (!isActiveMember(member, day)) continue;
+      const cost = model.dailyCost(member, day);
+      totals.cost += cost;
+      totals.fteDays += member.allocationPercent / 100;
+      totals.costByMember.set(member.id, (totals.costByMember.get(member.id) || 0) + cost);
+    }
+  }
+  return totals;
+}
+
+function summarizePeriod(
+  model: CostModel,
+  members: TeamMember[],
+  label: string,
+  startDate: string,
+  endDate: string,
+  asOf: string,
+): CostPeriodSummary {
+  const inProgress = endDate > asOf;
+  const toDate = sumRange(model, members, startDate, inProgress ? asOf : endDate);
+  const full = inProgress ? sumRange(model, members, startDate, endDate) : toDate;
+  return {
+    label,
+    startDate,
+    endDate,
+    workingDays: full.workingDays,
+    cost: toDate.cost,
+    capacityHours: full.fteDays * model.settings.hoursPerDay,
+    fullTimeEquivalent: full.workingDays > 0 ? full.fteDays / full.workingDays : 0,
+    projectedCost: inProgress ? full.cost : undefined,
+  };
+}
+
+const perUnit = (cost: number, units: number | null) => units ? cost / units : null;
+
+export function countResolvedIssues(points: JiraCycleTimePoint[], since: string): number {
+  return points.filter(point => point.completedAt >= since).length;
+}
+
+// Only closed sprints estimated in story points count; null when there are none in the window.
+export function sumCompletedStoryPoints(sprints: JiraSprintMetrics[], since: string): number | null {
+  const inWindow = sprints.filter(sprint => {
+    const closedAt = sprint.completeDate || sprint.endDate;
+    return sprint.state === 'closed' && sprint.estimationUnit === 'storyPoints' && !!closedAt && closedAt >= since;
+  });
+  return inWindow.length > 0 ? inWindow.reduce((sum, sprint) => sum + sprint.completedPoints, 0) : null;
+}
+
+export function computeTeamFinancials(
+  members: TeamMember[],
+  settings: Omit<CostSettingsFormData, 'teamId'>,
+  historyMonths: number,
+  outputsByWindow: Record<number, DeliveryOutputs>,
+  converter: CurrencyConverter,
+  now: Date = new Date(),
+): TeamFinancials {
+  const model = new CostModel(settings, converter);
+  const asOf = toDateKey(now);
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+
+  const monthly: CostPeriodSummary[] = [];
+  for (let offset = historyMonths - 1; offset >= 0; offset--) {
+    const start = new Date(Date.UTC(year, month - offset, 1));
+    const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0));
+    monthly.push(summarizePeriod(model, members, toDateKey(start).slice(0, 7), toDateKey(start), toDateKey(end), asOf));
+  }
+
+  const quarterly: CostPeriodSummary[] = [];
+  const currentQuarter = Math.floor(month / 3);
+  for (let offset = 3; offset >= 0; offset--) {
+    const start = new Date(Date.UTC(year, (currentQuarter - offset) * 3, 1));
+    const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 3, 0));
+    const label = `${start.getUTCFullYear()}-Q${Math.floor(start.getUTCMonth() / 3) + 1}`;
+    quarterly.push(summarizePeriod(model, members, label, toDateKey(start), toDateKey(end), asOf));
+  }
+
+  const currentMonth = monthly[monthly.length - 1];
+  const currentMonthTotals = sumRange(model, members, currentMonth.startDate, currentMonth.endDate);
+  const projectedMonthlyCostByRole: Record<string, number> = {};
+  const memberCosts: MemberCost[] = members
+    .filter(member => currentMonthTotals.costByMember.has(member.id))
+    .map(member => {
+      const projectedMonthlyCost = currentMonthTotals.costByMember.get(member.id) || 0;
+      projectedMonthlyCostByRole[member.role] = (projectedMonthlyCostByRole[member.role] || 0) + projectedMonthlyCost;
+      return { memberId: member.id, name: member.name, role: member.role, allocationPercent: member.allocationPercent, projectedMonthlyCost };
+    })
+    .sort((a, b) => b.projectedMonthlyCost - a.projectedMonthlyCost);
+
+  const efficiency: CostEfficiency[] = Object.entries(outputsByWindow).map(([days, outputs]) => {
+    const windowDays = Number(days);
+    const cost = sumRange(model, members, addDays(asOf, -(windowDays - 1)), asOf).cost;
+    return {
+      windowDays,
+      cost,
+      ...outputs,
+      costPerMergedPullRequest: perUnit(cost, outputs.mergedPullRequests),
+      costPerResolvedIssue: perUnit(cost, outputs.resolvedIssues),
+      costPerStoryPoint: perUnit(cost, outputs.storyPoints),
+    };
+  }).sort((a, b) => a.windowDays - b.windowDays);
+
+  const yearToDateCost = sumRange(model, members, `${year}-01-01`, asOf).cost;
+
+  return {
+    asOf,
+    settings: {
+      reportingCurrency: settings.reportingCurrency,
+      rateUnit: settings.rateUnit,
+      hoursPerDay: settings.hoursPerDay,
+      workingDaysPerWeek: settings.workingDaysPerWeek,
+      holidayCount: parseHolidays(settings.holidays).size,
+    },
+    missingExchangeRates: Array.from(model.missingExchangeRates).sort(),
+    monthly,
+    quarterly,
+    yearToDateCost,
+    annualRunRate: currentMonthTotals.cost * 12,
+    projectedMonthlyCostByRole,
+    members: memberCosts,
+    efficiency,
+  };
+}
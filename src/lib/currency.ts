@@ -0,0 +1,49 @@
+// src/lib/currency.ts
+// Converts amounts with the locally managed exchange-rate table. A rate is the units of a currency per US dollar
+// from its effective date until the currency's next rate. Dates before a currency's first rate use that first rate,
+// so older months stay costed after the table is started.
+import type { ExchangeRate } from './db';
+import type { CostSettingsFormData, RateUnit } from './schemas';
+import { BASE_CURRENCY } from './constants';
+
+export class CurrencyConverter {
+  private readonly ratesByCurrency = new Map<string, ExchangeRate[]>();
+
+  constructor(rates: ExchangeRate[]) {
+    for (const rate of [...rates].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate))) {
+      this.ratesByCurrency.set(rate.currency, [...(this.ratesByCurrency.get(rate.currency) || []), rate]);
+    }
+  }
+
+  // Null when the table has no rate for the currency at all.
+  unitsPerUsd(currency: string, date: string): number | null {
+    if (currency === BASE_CURRENCY) return 1;
+    const rates = this.ratesByCurrency.get(currency);
+    if (!rates) return null;
+    const effective = [...rates].reverse().find(rate => rate.effectiveDate <= date) || rates[0];
+    return effective.unitsPerUsd;
+  }
+
+  convert(amount: number, from: string, to: string, date: string): number | null {
+    if (from === to) return amount;
+    const fromRate = this.unitsPerUsd(from, date);
+    const toRate = this.unitsPerUsd(to, date);
+    return fromRate === null || toRate === null ? null : amount / fromRate * toRate;
+  }
+}
+
+// Rate cards may be priced in a different unit than the team's; months average the working weeks over a year.
+export function convertRateUnit(
+  rate: number,
+  from: RateUnit,
+  to: RateUnit,
+  settings: Pick<CostSettingsFormData, 'hoursPerDay' | 'workingDaysPerWeek'>,
+): number {
+  const hoursPer: Record<RateUnit, number> = {
+    hourly: 1,
+    daily: settings.hoursPerDay,
+    monthly: settings.hoursPerDay * settings.workingDaysPerWeek * 52 / 12,
+    yearly: settings.hoursPerDay * settings.workingDaysPerWeek * 52,
+  };
+  return rate / hoursPer[from] * hoursPer[to];
+}
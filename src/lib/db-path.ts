@@ -0,0 +1,5 @@
+// src/lib/db-path.ts
+import path from 'path';
+
+// Shared by the app (src/lib/db.ts) and the migration CLI (src/scripts/migrate.ts).
+export const DB_FILE_PATH = path.resolve(process.cwd(), './data/mydatabase.sqlite3');
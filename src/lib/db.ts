@@ -7,10 +7,16 @@ import { open, type Database } from 'sqlite';
 import path from 'path';
 import fs from 'fs';
 import type { Team } from '@/app/config/_components/types';
-import type { ApiKeysFormData, GithubConfigFormData, JiraConfigFormData, SonarQubeConfigFormData, BoomerangConfigFormData, TeamMemberFormData, GithubRepoData, DbConfigFormData } from './schemas';
+import type { ApiKeysFormData, GithubConfigFormData, JiraConfigFormData, JiraFilterFormData, SonarQubeConfigFormData, BoomerangConfigFormData, JenkinsConfigFormData, DoraConfigFormData, CostSettingsFormData, ExchangeRateFormData, RateCardFormData, TeamMemberFormData, GithubRepoData, DbConfigFormData, SecretFieldId, PersonFormData, PersonIdentity } from './schemas';
+import { JIRA_DEFAULT_FILTER_ID, jiraSnapshotKey } from './constants';
 import { v4 as uuidv4 } from 'uuid';
+import { DB_FILE_PATH } from './db-path';
+import { applyPendingMigrations } from './migrations';
+import { encryptSecret, decryptSecret } from './secrets';
+import type { GithubCommitRecord } from './github-commits';
+import type { GithubWorkflowRunRecord } from './github-workflows';
+import type { GithubPullRequestRecord } from './github-pulls';
 
-const DB_FILE_PATH = path.resolve(process.cwd(), './data/mydatabase.sqlite3');
 const DB_DIR = path.dirname(DB_FILE_PATH);
 
 let dbInstance: Database | null = null;
@@ -29,6 +35,8 @@ export interface GithubMetricsPeriodData {
   clonedLoCLastRefreshed?: string;
 
   latestTags?: { name: string; date: string }[];
+  scmProvider?: string; // Source-control provider the metrics were fetched from; absent means GitHub.
+  repos_current?: GithubRepoSnapshotMetrics[];
 
   linesAdded_period?: number;
   uniqueCommitters_period?: number;
@@ -36,9 +44,182 @@ export interface GithubMetricsPeriodData {
   periodStartDate?: string; 
   periodEndDate?: string; 
   periodLastRefreshed?: string; 
-  info?: { message: string };
+  pullRequests_period?: GithubPullRequestMetrics;
+  ci_period?: GithubCiMetrics; // Only for periods within GITHUB_ACTIONS_HISTORY_DAYS.
+  repos_period?: GithubRepoPeriodMetrics[];
+  committerActivity_period?: GithubCommitterActivity[];
+  resolvedCommitters_period?: ResolvedContributor[]; // Derived from committerActivity_period on read, never stored.
+  // `incomplete` is set when a refresh saved data but some fetches failed (rate limits, errors); the rest is usable.
+  info?: { message: string; incomplete?: GithubIncompleteFetch[] };
+}
+
+// Per-repo slices of the team aggregate, so dormant repos inflating the totals can be spotted.
+export interface GithubRepoSnapshotMetrics {
+  repoFullName: string;
+  apiBytesByLanguage: Record<string, number>;
+  apiEstimatedTotalLines: number;
+  clonedTotalLines: number | null;
+  latestTag: { name: string; date: string } | null;
+  lastCommitDate: string | null; // Null when there is no commit in the last year.
+}
+
+export interface GithubRepoPeriodMetrics {
+  repoFullName: string;
+  commits: number;
+  committers: string[];
+  linesAdded: number;
+  linesDeleted: number;
+}
+
+// One entry per distinct commit author (login/name/email as seen together on commits) in the period.
+export interface GithubCommitterActivity {
+  login: string | null;
+  name: string | null;
+  email: string | null;
+  commits: number;
+}
+
+export interface JiraAssigneeIdentity {
+  accountId: string | null; // Account ID on Jira Cloud, user name on Jira Server/Data Center.
+  displayName: string;
+  issues: number;
+}
+
+// An aggregate row after identity resolution; personId is null for identities not yet mapped to a person.
+export interface ResolvedContributor {
+  personId: string | null;
+  displayName: string;
+  count: number;
+}
+
+export type TeamMember = TeamMemberFormData & { id: string };
+
+export type ExchangeRate = ExchangeRateFormData & { id: string };
+
+export type RateCard = RateCardFormData & { id: string };
+
+export interface Person {
+  id: string;
+  teamId: string;
+  displayName: string;
+  identities: PersonIdentity[];
+  createdAt: string;
+}
+
+export type GithubFetchScope = 'languages' | 'tags' | 'clonedLoC' | 'commits' | 'pullRequests' | 'workflowRuns';
+
+export interface GithubIncompleteFetch {
+  repoFullName: string;
+  scope: GithubFetchScope;
+  reason: string;
+}
+
+// Per-repo cursor for incremental refreshes: cached commits, workflow runs and pull requests, plus the HEAD the cloned
+// LoC count was taken at.
+export interface GithubRepoSyncState {
+  repoFullName: string;
+  lastCommitSha: string | null;
+  lastCommitDate: string | null;
+  commits: GithubCommitRecord[];
+  workflowRuns: GithubWorkflowRunRecord[];
+  pullRequests: GithubPullRequestRecord[];
+  lastCloneHead: string | null;
+  clonedTotalLines: number | null;
+  clonedLinesByLanguage: Record<string, number>;
+  lastSyncedAt: string | null;
+}
+
+export interface GithubCiDurationStats {
+  count: number;
+  medianSeconds: number;
+  p90Seconds: number;
 }
 
+export interface GithubCiWorkflowMetrics {
+  repoFullName: string;
+  workflowName: string;
+  runs: number;
+  succeeded: number;
+  failed: number;
+  successRate: number; // 0..1 of succeeded + failed runs.
+  medianDurationSeconds: number;
+  flakyCommits: number;
+}
+
+export interface GithubCiFailingJob {
+  repoFullName: string;
+  workflowName: string;
+  jobName: string;
+  failures: number;
+}
+
+export interface GithubCiMetrics {
+  runs: number;
+  succeeded: number;
+  failed: number; // Failed or timed out; cancelled and skipped runs count toward neither.
+  successRate: number; // 0..1
+  duration: GithubCiDurationStats; // Run start -> last update, finished runs.
+  queueTime: GithubCiDurationStats; // Run start -> first job picked up by a runner.
+  flakyCommits: number; // Workflow + commit pairs that failed and then passed without a code change.
+  workflows: GithubCiWorkflowMetrics[];
+  failingJobs: GithubCiFailingJob[];
+}
+
+export interface GithubReviewerLoad {
+  login: string;
+  reviews: number;
+  pullRequestsReviewed: number;
+}
+
+export interface GithubPullRequestMetrics {
+  opened: number;
+  merged: number;
+  closed: number; // Closed without merging.
+  timeToFirstReview: DurationStats; // PRs opened in the period that received a review.
+  timeToMerge: DurationStats; // PRs merged in the period.
+  reviewRounds: { averageRounds: number; maxRounds: number; reviewedCount: number };
+  sizeDistribution: Record<string, number>; // Keyed by GITHUB_PR_SIZE_BUCKETS label, PRs opened in the period.
+  reviewerLoad: GithubReviewerLoad[];
+}
+
+
+export interface DurationStats {
+  count: number;
+  averageDays: number;
+  p50Days: number;
+  p85Days: number;
+  p95Days: number;
+}
+
+export type JiraDurationStats = DurationStats;
+
+export interface JiraCycleTimePoint {
+  key: string;
+  summary: string;
+  issueType: string;
+  completedAt: string;
+  leadTimeDays: number;
+  cycleTimeDays?: number; // Undefined when the issue never passed through an in-progress status.
+}
+
+export interface JiraFlowMetrics {
+  leadTime: JiraDurationStats;
+  cycleTime: JiraDurationStats;
+  timeInStatus: Record<string, JiraDurationStats & { totalDays: number; category: string }>;
+  cycleTimePoints: JiraCycleTimePoint[];
+}
+
+export interface JiraProjectMetrics {
+  projectKey: string;
+  projectName: string;
+  totalIssues: number;
+  openIssues: number;
+  averageIssueAgeDays: number;
+  issuesByType: Record<string, number>;
+  issuesByStatus: Record<string, number>;
+  leadTime: JiraDurationStats;
+  cycleTime: JiraDurationStats;
+}
 
 export interface JiraTeamMetricsData {
   totalIssues: number;
@@ -48,10 +229,54 @@ export interface JiraTeamMetricsData {
   issuesByLabel: Record<string, number>;
   issuesByCategory: Record<string, number>; 
   averageIssueAgeDays: number;
+  openIssues?: number;
+  flowMetrics?: JiraFlowMetrics;
+  projectBreakdown?: Record<string, JiraProjectMetrics>; // Keyed by project key; only set for multi-project teams.
+  assigneeIdentities?: JiraAssigneeIdentity[];
   lastRefreshed: string; 
   info?: { message: string };
 }
 
+export interface JiraFilter {
+  id: string;
+  teamId: string;
+  name: string;
+  jql: string;
+  createdAt: string;
+}
+
+export interface JiraSprintBurndownPoint {
+  date: string;
+  remaining: number;
+  scope: number;
+}
+
+// "Points" fields hold story points, or issue counts when the team has no story point field configured.
+export interface JiraSprintMetrics {
+  sprintId: number;
+  boardId: number;
+  name: string;
+  state: string;
+  goal?: string;
+  startDate?: string;
+  endDate?: string;
+  completeDate?: string;
+  estimationUnit: 'storyPoints' | 'issueCount';
+  committedPoints: number;
+  completedPoints: number;
+  addedPoints: number;
+  removedPoints: number;
+  estimateChangePoints: number;
+  committedIssues: number;
+  completedIssues: number;
+  addedIssues: number;
+  removedIssues: number;
+  carryOverIssues: number;
+  carryOverPoints: number;
+  burndown: JiraSprintBurndownPoint[];
+  lastRefreshed?: string;
+}
+
 export interface SonarQubeMetrics {
   projectKey?: string;
   coverage?: number;
@@ -70,6 +295,156 @@ export interface SonarQubeTeamMetricsData extends SonarQubeMetrics {
   info?: { message: string };
 }
 
+export type DoraDeploymentSource = 'deployments' | 'releases' | 'tags';
+
+export interface DoraDeploymentRecord {
+  repoFullName: string;
+  name: string;
+  deployedAt: string;
+  commitCount: number;
+  isFailure: boolean; // A later deployment of the same repo remediated this one.
+  isRemediation: boolean; // Matched a revert/hotfix pattern.
+}
+
+export interface DoraWeeklyPoint {
+  weekStart: string;
+  deployments: number;
+  failures: number;
+}
+
+export interface DoraMetrics {
+  windowDays: number;
+  deploymentSourceByRepo: Record<string, DoraDeploymentSource | 'none'>;
+  deploymentCount: number;
+  deploymentsPerWeek: number;
+  leadTimeForChanges: DurationStats; // Commit authored -> deployed, per commit.
+  failedDeploymentCount: number;
+  changeFailureRate: number; // 0..1
+  timeToRestore: DurationStats; // Failed deployment -> remediating deployment.
+  weekly: DoraWeeklyPoint[];
+  recentDeployments: DoraDeploymentRecord[];
+}
+
+export interface DoraTeamMetricsData extends Partial<DoraMetrics> {
+  lastRefreshed: string;
+  info?: { message: string };
+}
+
+export type BoomerangRunStatus = 'succeeded' | 'failed' | 'cancelled' | 'running';
+
+export interface BoomerangPipelineRun {
+  runId: string;
+  workflowId: string;
+  workflowName: string;
+  status: BoomerangRunStatus;
+  trigger?: string; // manual, scheduler, webhook, ...
+  environment?: string; // Target environment; runs with one that succeed count as deployments.
+  startedAt: string;
+  durationSeconds?: number; // Unset while running.
+}
+
+export interface BoomerangRunStats {
+  runCount: number;
+  succeededCount: number;
+  failedCount: number;
+  buildSuccessRate: number; // 0..100, of finished runs (cancelled runs excluded).
+  medianDurationSeconds: number; // Of finished runs.
+  deploymentCount: number;
+}
+
+export interface BoomerangWorkflowMetrics extends BoomerangRunStats {
+  workflowId: string;
+  workflowName: string;
+  lastRunAt: string;
+  lastStatus: BoomerangRunStatus;
+}
+
+export interface BoomerangPeriodMetrics extends BoomerangRunStats {
+  deploymentsByEnvironment: Record<string, number>;
+  runsByTrigger: Record<string, number>;
+  workflows: BoomerangWorkflowMetrics[];
+}
+
+export interface BoomerangTeamMetricsData {
+  periods?: Record<string, BoomerangPeriodMetrics>; // Keyed like the GitHub periods, e.g. "30days".
+  recentRuns?: BoomerangPipelineRun[];
+  lastRefreshed: string;
+  info?: { message: string };
+}
+
+export type JenkinsBuildResult = 'success' | 'failure' | 'unstable' | 'aborted' | 'not_built' | 'building';
+
+export interface JenkinsBuild {
+  jobName: string; // As configured, e.g. "folder/job".
+  number: number;
+  result: JenkinsBuildResult;
+  startedAt: string;
+  durationSeconds?: number; // Unset while building.
+  url?: string;
+}
+
+export interface JenkinsBuildStats {
+  buildCount: number;
+  succeededCount: number;
+  failedCount: number;
+  unstableCount: number;
+  abortedCount: number;
+  successRate: number; // 0..100, of completed builds (aborted and not built excluded).
+  medianDurationSeconds: number; // Of completed builds.
+  p90DurationSeconds: number;
+}
+
+export interface JenkinsJobMetrics extends JenkinsBuildStats {
+  jobName: string;
+  lastBuildAt: string;
+  lastResult: JenkinsBuildResult;
+}
+
+export interface JenkinsFailingJob {
+  jobName: string;
+  failures: number; // Failed and unstable builds.
+  buildCount: number;
+  failureRate: number; // 0..100, of completed builds.
+  lastFailureAt: string;
+}
+
+export interface JenkinsTrendPoint {
+  bucketStart: string; // Day for the shortest period, else the week starting Monday (UTC).
+  buildCount: number;
+  successRate: number;
+  medianDurationSeconds: number;
+}
+
+export interface JenkinsPeriodMetrics extends JenkinsBuildStats {
+  trend: JenkinsTrendPoint[];
+  failingJobs: JenkinsFailingJob[];
+  jobs: JenkinsJobMetrics[];
+}
+
+export interface JenkinsTeamMetricsData {
+  periods?: Record<string, JenkinsPeriodMetrics>; // Keyed like the GitHub periods, e.g. "30days".
+  recentBuilds?: JenkinsBuild[];
+  lastRefreshed: string;
+  info?: { message: string };
+}
+
+export type MetricSnapshotSource = 'github' | 'jira' | 'sonarqube' | 'dora' | 'boomerang' | 'jenkins';
+
+export interface MetricSnapshot<T = unknown> {
+  id: number;
+  teamId: string;
+  source: MetricSnapshotSource;
+  snapshotKey: string; // e.g. GitHub periodKey; 'team' for sources with one snapshot per refresh
+  capturedAt: string;
+  data: T;
+}
+
+export interface MetricSnapshotQuery {
+  snapshotKey?: string;
+  since?: string; // ISO timestamp, inclusive
+  until?: string; // ISO timestamp, inclusive
+}
+
 
 async function getDb(): Promise<Database> {
   if (dbInstance) {
@@ -88,156 +463,7 @@ async function getDb(): Promise<Database> {
 
     await dbInstance.exec(`PRAGMA foreign_keys = ON;`);
 
-    await dbInstance.exec(`
-      CREATE TABLE IF NOT EXISTS teams (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL UNIQUE
-      );
-
-      CREATE TABLE IF NOT EXISTS api_keys (
-        teamId TEXT PRIMARY KEY,
-        geminiApiKey TEXT,
-        openAiApiKey TEXT,
-        claudeAiApiKey TEXT,
-        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
-      );
-
-      CREATE TABLE IF NOT EXISTS github_configs (
-        teamId TEXT PRIMARY KEY,
-        rootUrl TEXT,
-        accessToken TEXT,
-        selectedRepos TEXT, 
-        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
-      );
-
-      CREATE TABLE IF NOT EXISTS jira_configs (
-        teamId TEXT PRIMARY KEY,
-        projectName TEXT,
-        url TEXT,
-        username TEXT,
-        accessKey TEXT,
-        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
-      );
-
-      CREATE TABLE IF NOT EXISTS sonarqube_configs (
-        teamId TEXT PRIMARY KEY,
-        url TEXT,
-        accessKey TEXT,
-        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
-      );
-
-      CREATE TABLE IF NOT EXISTS boomerang_configs (
-        teamId TEXT PRIMARY KEY,
-        url TEXT,
-        accessKey TEXT,
-        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
-      );
-
-      CREATE TABLE IF NOT EXISTS team_members (
-        id TEXT PRIMARY KEY,
-        teamId TEXT NOT NULL,
-        technology TEXT,
-        band TEXT,
-        rate REAL,
-        numResources INTEGER,
-        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
-      );
-
-      CREATE TABLE IF NOT EXISTS github_team_metrics (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        teamId TEXT NOT NULL,
-        periodKey TEXT NOT NULL, 
-        data TEXT NOT NULL, 
-        lastRefreshed TEXT NOT NULL, 
-        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE,
-        UNIQUE(teamId, periodKey)
-      );
-      
-      CREATE TABLE IF NOT EXISTS jira_team_metrics (
-        teamId TEXT PRIMARY KEY,
-        totalIssues INTEGER DEFAULT 0,
-        issuesByType TEXT, 
-        issuesByAssignee TEXT, 
-        issuesByStatus TEXT, 
-        issuesByLabel TEXT, 
-        issuesByCategory TEXT, 
-        averageIssueAgeDays REAL DEFAULT 0,
-        lastRefreshed TEXT, 
-        info TEXT, 
-        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
-      );
-
-      CREATE TABLE IF NOT EXISTS sonarqube_team_metrics (
-        teamId TEXT PRIMARY KEY,
-        projectKey TEXT,
-        metricsData TEXT, 
-        lastRefreshed TEXT, 
-        info TEXT, 
-        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
-      );
-
-      CREATE TABLE IF NOT EXISTS application_db_config (
-        config_id TEXT PRIMARY KEY DEFAULT 'main_config',
-        dbType TEXT,
-        dbPath TEXT,
-        dbName TEXT,
-        lastUpdated TEXT
-      );
-    `);
-
-    // Schema migrations
-    const githubConfigCols = await dbInstance.all(`PRAGMA table_info(github_configs);`);
-    if (!githubConfigCols.some(col => (col as any).name === 'accessToken')) {
-      await dbInstance.exec('ALTER TABLE github_configs ADD COLUMN accessToken TEXT;');
-      console.log("Added accessToken column to github_configs table.");
-    }
-    if (!githubConfigCols.some(col => (col as any).name === 'selectedRepos')) {
-      await dbInstance.exec('ALTER TABLE github_configs ADD COLUMN selectedRepos TEXT;');
-      console.log("Added selectedRepos column to github_configs table.");
-    }
-    
-    const githubMetricsCacheCols = await dbInstance.all(`PRAGMA table_info(github_team_metrics);`);
-     if (!githubMetricsCacheCols.some(col => (col as any).name === 'periodKey')) {
-        // This is more complex as it's part of a unique key. Simpler to recreate if missing in dev.
-        console.warn("github_team_metrics table might be missing periodKey or have an old schema. Consider recreating if issues persist.");
-    }
-    
-    const jiraConfigCols = await dbInstance.all(`PRAGMA table_info(jira_configs);`);
-    const requiredJiraCols = ['url', 'username', 'accessKey']; // Re-added these
-    const missingJiraCols = requiredJiraCols.filter(colName => !jiraConfigCols.some(col => (col as any).name === colName));
-
-    if (missingJiraCols.length > 0) {
-      console.warn(`Jira_configs table is missing columns: ${missingJiraCols.join(', ')}. Attempting to add them.`);
-      for (const colName of missingJiraCols) {
-        try {
-          await dbInstance.exec(`ALTER TABLE jira_configs ADD COLUMN ${colName} TEXT;`);
-          console.log(`Added ${colName} column to jira_configs table.`);
-        } catch (alterError) {
-          console.error(`Failed to add column ${colName} to jira_configs. It might require manual migration or table recreation. Error:`, alterError);
-        }
-      }
-    }
-
-    const sonarqubeMetricsCols = await dbInstance.all(`PRAGMA table_info(sonarqube_team_metrics);`);
-    if (!sonarqubeMetricsCols.some(col => (col as any).name === 'info')) {
-      await dbInstance.exec('ALTER TABLE sonarqube_team_metrics ADD COLUMN info TEXT;');
-      console.log("Added info column to sonarqube_team_metrics table.");
-    }
-    if (!sonarqubeMetricsCols.some(col => (col as any).name === 'projectKey')) {
-      await dbInstance.exec('ALTER TABLE sonarqube_team_metrics ADD COLUMN projectKey TEXT;');
-      console.log("Added projectKey column to sonarqube_team_metrics table.");
-    }
-     if (!sonarqubeMetricsCols.some(col => (col as any).name === 'metricsData')) {
-      await dbInstance.exec('ALTER TABLE sonarqube_team_metrics ADD COLUMN metricsData TEXT;');
-      console.log("Added metricsData column to sonarqube_team_metrics table.");
-    }
-
-
-    const jiraMetricsCols = await dbInstance.all(`PRAGMA table_info(jira_team_metrics);`);
-    if (!jiraMetricsCols.some(col => (col as any).name === 'info')) {
-      await dbInstance.exec('ALTER TABLE jira_team_metrics ADD COLUMN info TEXT;');
-      console.log("Added info column to jira_team_metrics table.");
-    }
+    await applyPendingMigrations(dbInstance);
     
   } catch (error) {
     console.error("Failed to initialize or migrate database:", error);
@@ -260,23 +486,88 @@ export async function addTeamToDb(id: string, name: string): Promise<Team> {
   }
 }
 
-export async function getTeamsFromDb(): Promise<Team[]> {
+export async function getTeamsFromDb(includeArchived = false): Promise<Team[]> {
   const db = await getDb();
   try {
-    const teams = await db.all<Team[]>('SELECT id, name FROM teams ORDER BY name ASC');
-    return teams;
+    const rows = await db.all<(Team & { archivedAt: string | null })[]>(
+      `SELECT id, name, archivedAt FROM teams ${includeArchived ? '' : 'WHERE archivedAt IS NULL '}ORDER BY name ASC`
+    );
+    return rows.map(row => ({ id: row.id, name: row.name, archivedAt: row.archivedAt || undefined }));
   } catch (error) {
     console.error('Failed to get teams from DB:', error);
     throw new Error('Failed to retrieve teams from database.');
   }
 }
 
+export async function renameTeamInDb(id: string, name: string): Promise<void> {
+  const db = await getDb();
+  try {
+    await db.run('UPDATE teams SET name = ? WHERE id = ?', name, id);
+  } catch (error) {
+    console.error('Failed to rename team in DB:', error);
+    throw new Error('Failed to rename team. Team name might already exist.');
+  }
+}
+
+// Pass null to restore an archived team.
+export async function setTeamArchivedInDb(id: string, archivedAt: string | null): Promise<void> {
+  const db = await getDb();
+  await db.run('UPDATE teams SET archivedAt = ? WHERE id = ?', archivedAt, id);
+}
+
+// Every team-scoped table cascades from teams, so this removes the team's configuration, metrics and roster too.
+export async function deleteTeamFromDb(id: string): Promise<void> {
+  const db = await getDb();
+  await db.run('DELETE FROM teams WHERE id = ?', id);
+}
+
+export interface TeamDataCount {
+  group: 'Configuration' | 'Metrics' | 'Members';
+  label: string;
+  count: number;
+}
+
+const TEAM_DATA_TABLES: (Omit<TeamDataCount, 'count'> & { table: string })[] = [
+  { table: 'github_configs', group: 'Configuration', label: 'GitHub configuration' },
+  { table: 'jira_configs', group: 'Configuration', label: 'Jira configuration' },
+  { table: 'jira_filters', group: 'Configuration', label: 'Jira saved filters' },
+  { table: 'sonarqube_configs', group: 'Configuration', label: 'SonarQube configuration' },
+  { table: 'boomerang_configs', group: 'Configuration', label: 'Boomerang configuration' },
+  { table: 'jenkins_configs', group: 'Configuration', label: 'Jenkins configuration' },
+  { table: 'dora_configs', group: 'Configuration', label: 'DORA configuration' },
+  { table: 'api_keys', group: 'Configuration', label: 'AI API keys' },
+  { table: 'team_cost_settings', group: 'Configuration', label: 'Cost settings' },
+  { table: 'github_team_metrics', group: 'Metrics', label: 'GitHub metric periods' },
+  { table: 'github_repo_sync_state', group: 'Metrics', label: 'GitHub repository sync states' },
+  { table: 'jira_team_metrics', group: 'Metrics', label: 'Jira metric periods' },
+  { table: 'jira_sprint_metrics', group: 'Metrics', label: 'Jira sprints' },
+  { table: 'sonarqube_team_metrics', group: 'Metrics', label: 'SonarQube metric records' },
+  { table: 'dora_team_metrics', group: 'Metrics', label: 'DORA metric periods' },
+  { table: 'boomerang_pipeline_runs', group: 'Metrics', label: 'Boomerang pipeline runs' },
+  { table: 'boomerang_team_metrics', group: 'Metrics', label: 'Boomerang metric periods' },
+  { table: 'jenkins_team_metrics', group: 'Metrics', label: 'Jenkins metric periods' },
+  { table: 'metric_snapshots', group: 'Metrics', label: 'Metric history snapshots' },
+  { table: 'team_members', group: 'Members', label: 'Team members' },
+  { table: 'people', group: 'Members', label: 'People registry entries' },
+];
+
+// Row counts for the data a team deletion would cascade to; tables with nothing stored are left out.
+export async function getTeamDataCountsFromDb(teamId: string): Promise<TeamDataCount[]> {
+  const db = await getDb();
+  const counts: TeamDataCount[] = [];
+  for (const { table, group, label } of TEAM_DATA_TABLES) {
+    const row = await db.get<{ count: number }>(`SELECT COUNT(*) AS count FROM ${table} WHERE teamId = ?`, teamId);
+    if (row && row.count > 0) counts.push({ group, label, count: row.count });
+  }
+  return counts;
+}
+
 // API Keys
 export async function saveApiKeysToDb(data: ApiKeysFormData): Promise<ApiKeysFormData> {
   const db = await getDb();
   await db.run(
     'INSERT OR REPLACE INTO api_keys (teamId, geminiApiKey, openAiApiKey, claudeAiApiKey) VALUES (?, ?, ?, ?)',
-    data.teamId, data.geminiApiKey || null, data.openAiApiKey || null, data.claudeAiApiKey || null
+    data.teamId, encryptSecret(data.geminiApiKey), encryptSecret(data.openAiApiKey), encryptSecret(data.claudeAiApiKey)
   );
   return data;
 }
@@ -284,27 +575,36 @@ export async function saveApiKeysToDb(data: ApiKeysFormData): Promise<ApiKeysFor
 export async function getApiKeysFromDb(teamId: string): Promise<ApiKeysFormData | null> {
   const db = await getDb();
   const row = await db.get<ApiKeysFormData>('SELECT teamId, geminiApiKey, openAiApiKey, claudeAiApiKey FROM api_keys WHERE teamId = ?', teamId);
-  return row || null;
+  if (row) {
+    return {
+      teamId: row.teamId,
+      geminiApiKey: decryptSecret(row.geminiApiKey),
+      openAiApiKey: decryptSecret(row.openAiApiKey),
+      claudeAiApiKey: decryptSecret(row.claudeAiApiKey),
+    };
+  }
+  return null;
 }
 
 // GitHub Config
 export async function saveGithubConfigToDb(data: GithubConfigFormData): Promise<GithubConfigFormData> {
   const db = await getDb();
   await db.run(
-    'INSERT OR REPLACE INTO github_configs (teamId, rootUrl, accessToken, selectedRepos) VALUES (?, ?, ?, ?)',
-    data.teamId, data.rootUrl, data.accessToken || null, JSON.stringify(data.selectedRepos || [])
+    'INSERT OR REPLACE INTO github_configs (teamId, provider, rootUrl, accessToken, selectedRepos) VALUES (?, ?, ?, ?, ?)',
+    data.teamId, data.provider || 'github', data.rootUrl, encryptSecret(data.accessToken), JSON.stringify(data.selectedRepos || [])
   );
   return data;
 }
 
 export async function getGithubConfigFromDb(teamId: string): Promise<GithubConfigFormData | null> {
   const db = await getDb();
-  const row = await db.get<any>('SELECT teamId, rootUrl, accessToken, selectedRepos FROM github_configs WHERE teamId = ?', teamId);
+  const row = await db.get<any>('SELECT teamId, provider, rootUrl, accessToken, selectedRepos FROM github_configs WHERE teamId = ?', teamId);
   if (row) {
     return {
       teamId: row.teamId,
+      provider: row.provider || 'github',
       rootUrl: row.rootUrl,
-      accessToken: row.accessToken || "",
+      accessToken: decryptSecret(row.accessToken),
       selectedRepos: row.selectedRepos ? JSON.parse(row.selectedRepos) : [],
     };
   }
@@ -315,16 +615,26 @@ export async function getGithubConfigFromDb(teamId: string): Promise<GithubConfi
 export async function saveJiraConfigToDb(data: JiraConfigFormData): Promise<JiraConfigFormData> {
   const db = await getDb();
   await db.run(
-    'INSERT OR REPLACE INTO jira_configs (teamId, projectName, url, username, accessKey) VALUES (?, ?, ?, ?, ?)',
-    data.teamId, data.projectName, data.url, data.username, data.accessKey
+    'INSERT OR REPLACE INTO jira_configs (teamId, projectName, projects, url, authMode, username, accessKey, storyPointsField) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    data.teamId, data.projects.map(scope => scope.project).join(', '), JSON.stringify(data.projects),
+    data.url, data.authMode, data.username || null, encryptSecret(data.accessKey), data.storyPointsField || null
   );
   return data;
 }
 
 export async function getJiraConfigFromDb(teamId: string): Promise<JiraConfigFormData | null> {
   const db = await getDb();
-  const row = await db.get<JiraConfigFormData>('SELECT teamId, projectName, url, username, accessKey FROM jira_configs WHERE teamId = ?', teamId);
-  return row || null;
+  const row = await db.get<Omit<JiraConfigFormData, 'projects'> & { projectName: string | null; projects: string | null }>(
+    'SELECT teamId, projectName, projects, url, authMode, username, accessKey, storyPointsField FROM jira_configs WHERE teamId = ?',
+    teamId
+  );
+  if (!row) return null;
+  const { projectName, projects, ...rest } = row;
+  return {
+    ...rest,
+    projects: projects ? JSON.parse(projects) : projectName ? [{ project: projectName, components: "" }] : [],
+    accessKey: decryptSecret(row.accessKey),
+  };
 }
 
 // SonarQube Config
@@ -332,7 +642,7 @@ export async function saveSonarQubeConfigToDb(data: SonarQubeConfigFormData): Pr
   const db = await getDb();
   await db.run(
     'INSERT OR REPLACE INTO sonarqube_configs (teamId, url, accessKey) VALUES (?, ?, ?)',
-    data.teamId, data.url, data.accessKey
+    data.teamId, data.url, encryptSecret(data.accessKey)
   );
   return data;
 }
@@ -340,7 +650,7 @@ export async function saveSonarQubeConfigToDb(data: SonarQubeConfigFormData): Pr
 export async function getSonarQubeConfigFromDb(teamId: string): Promise<SonarQubeConfigFormData | null> {
   const db = await getDb();
   const row = await db.get<SonarQubeConfigFormData>('SELECT teamId, url, accessKey FROM sonarqube_configs WHERE teamId = ?', teamId);
-  return row || null;
+  return row ? { ...row, accessKey: decryptSecret(row.accessKey) } : null;
 }
 
 // Boomerang Config
@@ -348,7 +658,7 @@ export async function saveBoomerangConfigToDb(data: BoomerangConfigFormData): Pr
   const db = await getDb();
   await db.run(
     'INSERT OR REPLACE INTO boomerang_configs (teamId, url, accessKey) VALUES (?, ?, ?)',
-    data.teamId, data.url, data.accessKey
+    data.teamId, data.url, encryptSecret(data.accessKey)
   );
   return data;
 }
@@ -356,24 +666,148 @@ export async function saveBoomerangConfigToDb(data: BoomerangConfigFormData): Pr
 export async function getBoomerangConfigFromDb(teamId: string): Promise<BoomerangConfigFormData | null> {
   const db = await getDb();
   const row = await db.get<BoomerangConfigFormData>('SELECT teamId, url, accessKey FROM boomerang_configs WHERE teamId = ?', teamId);
+  return row ? { ...row, accessKey: decryptSecret(row.accessKey) } : null;
+}
+
+// Jenkins Config
+export async function saveJenkinsConfigToDb(data: JenkinsConfigFormData): Promise<JenkinsConfigFormData> {
+  const db = await getDb();
+  await db.run(
+    'INSERT OR REPLACE INTO jenkins_configs (teamId, url, username, apiToken, jobNames) VALUES (?, ?, ?, ?, ?)',
+    data.teamId, data.url, data.username, encryptSecret(data.apiToken), data.jobNames
+  );
+  return data;
+}
+
+export async function getJenkinsConfigFromDb(teamId: string): Promise<JenkinsConfigFormData | null> {
+  const db = await getDb();
+  const row = await db.get<JenkinsConfigFormData>('SELECT teamId, url, username, apiToken, jobNames FROM jenkins_configs WHERE teamId = ?', teamId);
+  return row ? { ...row, apiToken: decryptSecret(row.apiToken) } : null;
+}
+
+// DORA Config
+export async function saveDoraConfigToDb(data: DoraConfigFormData): Promise<DoraConfigFormData> {
+  const db = await getDb();
+  await db.run(
+    'INSERT OR REPLACE INTO dora_configs (teamId, deploymentSource, productionEnvironment, failurePatterns) VALUES (?, ?, ?, ?)',
+    data.teamId, data.deploymentSource, data.productionEnvironment, data.failurePatterns
+  );
+  return data;
+}
+
+export async function getDoraConfigFromDb(teamId: string): Promise<DoraConfigFormData | null> {
+  const db = await getDb();
+  const row = await db.get<DoraConfigFormData>('SELECT teamId, deploymentSource, productionEnvironment, failurePatterns FROM dora_configs WHERE teamId = ?', teamId);
   return row || null;
 }
 
+// Cost Settings
+export async function saveCostSettingsToDb(data: CostSettingsFormData): Promise<CostSettingsFormData> {
+  const db = await getDb();
+  await db.run(
+    'INSERT OR REPLACE INTO team_cost_settings (teamId, reportingCurrency, rateUnit, hoursPerDay, workingDaysPerWeek, holidays) VALUES (?, ?, ?, ?, ?, ?)',
+    data.teamId, data.reportingCurrency, data.rateUnit, data.hoursPerDay, data.workingDaysPerWeek, data.holidays
+  );
+  return data;
+}
+
+export async function getCostSettingsFromDb(teamId: string): Promise<CostSettingsFormData | null> {
+  const db = await getDb();
+  const row = await db.get<CostSettingsFormData>('SELECT teamId, reportingCurrency, rateUnit, hoursPerDay, workingDaysPerWeek, holidays FROM team_cost_settings WHERE teamId = ?', teamId);
+  return row ? { ...row, holidays: row.holidays || '' } : null;
+}
+
+// Exchange Rates (shared by all teams)
+export async function saveExchangeRateToDb(data: ExchangeRateFormData): Promise<ExchangeRate> {
+  const db = await getDb();
+  const rate: ExchangeRate = { ...data, id: data.id || uuidv4() };
+  // A second rate for the same currency and date replaces the first rather than failing on the unique constraint.
+  await db.run('DELETE FROM exchange_rates WHERE currency = ? AND effectiveDate = ? AND id != ?', rate.currency, rate.effectiveDate, rate.id);
+  await db.run(
+    'INSERT OR REPLACE INTO exchange_rates (id, currency, effectiveDate, unitsPerUsd) VALUES (?, ?, ?, ?)',
+    rate.id, rate.currency, rate.effectiveDate, rate.unitsPerUsd
+  );
+  return rate;
+}
+
+export async function getExchangeRatesFromDb(): Promise<ExchangeRate[]> {
+  const db = await getDb();
+  return db.all<ExchangeRate[]>('SELECT id, currency, effectiveDate, unitsPerUsd FROM exchange_rates ORDER BY currency, effectiveDate DESC');
+}
+
+export async function deleteExchangeRateFromDb(id: string): Promise<void> {
+  const db = await getDb();
+  await db.run('DELETE FROM exchange_rates WHERE id = ?', id);
+}
+
+// Rate Cards (shared by all teams)
+export async function saveRateCardToDb(data: RateCardFormData): Promise<RateCard> {
+  const db = await getDb();
+  const card: RateCard = { ...data, id: data.id || uuidv4() };
+  await db.run('DELETE FROM rate_cards WHERE location = ? AND band = ? AND id != ?', card.location, card.band, card.id);
+  await db.run(
+    'INSERT OR REPLACE INTO rate_cards (id, location, band, currency, rateUnit, rate) VALUES (?, ?, ?, ?, ?, ?)',
+    card.id, card.location, card.band, card.currency, card.rateUnit, card.rate
+  );
+  return card;
+}
+
+export async function getRateCardsFromDb(): Promise<RateCard[]> {
+  const db = await getDb();
+  return db.all<RateCard[]>('SELECT id, location, band, currency, rateUnit, rate FROM rate_cards ORDER BY location, band');
+}
+
+export async function deleteRateCardFromDb(id: string): Promise<void> {
+  const db = await getDb();
+  await db.run('DELETE FROM rate_cards WHERE id = ?', id);
+}
+
+// Secret clearing
+const SECRET_FIELD_COLUMNS: Record<SecretFieldId, { table: string; column: string }> = {
+  "github.accessToken": { table: 'github_configs', column: 'accessToken' },
+  "jira.accessKey": { table: 'jira_configs', column: 'accessKey' },
+  "sonarqube.accessKey": { table: 'sonarqube_configs', column: 'accessKey' },
+  "boomerang.accessKey": { table: 'boomerang_configs', column: 'accessKey' },
+  "jenkins.apiToken": { table: 'jenkins_configs', column: 'apiToken' },
+  "apiKeys.geminiApiKey": { table: 'api_keys', column: 'geminiApiKey' },
+  "apiKeys.openAiApiKey": { table: 'api_keys', column: 'openAiApiKey' },
+  "apiKeys.claudeAiApiKey": { table: 'api_keys', column: 'claudeAiApiKey' },
+};
+
+export async function clearSecretInDb(teamId: string, fieldId: SecretFieldId): Promise<void> {
+  const target = SECRET_FIELD_COLUMNS[fieldId];
+  if (!target) {
+    throw new Error(`Unknown secret field: ${fieldId}`);
+  }
+  const db = await getDb();
+  await db.run(`UPDATE ${target.table} SET ${target.column} = NULL WHERE teamId = ?`, teamId);
+}
+
 // Team Members
-export async function saveTeamMemberToDb(data: TeamMemberFormData): Promise<TeamMemberFormData & { id: string }> {
+export async function saveTeamMemberToDb(data: TeamMemberFormData): Promise<TeamMember> {
   const db = await getDb();
-  const memberId = uuidv4();
+  const member: TeamMember = { ...data, id: data.id || uuidv4(), endDate: data.endDate || undefined, personId: data.personId || undefined };
   await db.run(
-    'INSERT INTO team_members (id, teamId, technology, band, rate, numResources) VALUES (?, ?, ?, ?, ?, ?)',
-    memberId, data.teamId, data.technology, data.band, data.rate, data.numResources
+    `INSERT OR REPLACE INTO team_members (id, teamId, name, role, technology, band, rate, currency, location, numResources, allocationPercent, startDate, endDate, personId)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?)`,
+    member.id, member.teamId, member.name, member.role, member.technology, member.band, member.rate, member.currency, member.location ?? null,
+    member.allocationPercent, member.startDate, member.endDate ?? null, member.personId ?? null
   );
-  return { ...data, id: memberId };
+  return member;
 }
 
-export async function getTeamMembersFromDb(teamId: string): Promise<(TeamMemberFormData & { id: string })[]> {
+export async function getTeamMembersFromDb(teamId: string): Promise<TeamMember[]> {
   const db = await getDb();
-  const rows = await db.all<(TeamMemberFormData & { id: string })[]>('SELECT * FROM team_members WHERE teamId = ? ORDER BY technology, band', teamId);
-  return rows || [];
+  const rows = await db.all<any[]>(
+    'SELECT id, teamId, name, role, technology, band, rate, currency, location, allocationPercent, startDate, endDate, personId FROM team_members WHERE teamId = ? ORDER BY name COLLATE NOCASE',
+    teamId
+  );
+  return (rows || []).map(row => ({ ...row, location: row.location || undefined, endDate: row.endDate || undefined, personId: row.personId || undefined }));
+}
+
+export async function deleteTeamMemberFromDb(teamId: string, memberId: string): Promise<void> {
+  const db = await getDb();
+  await db.run('DELETE FROM team_members WHERE id = ? AND teamId = ?', memberId, teamId);
 }
 
 // GitHub Team Metrics
@@ -383,13 +817,24 @@ export async function saveGithubTeamMetric(
   data: GithubMetricsPeriodData
 ): Promise<void> {
   const db = await getDb();
+  const refreshedAt = new Date().toISOString();
   await db.run(
     'INSERT OR REPLACE INTO github_team_metrics (teamId, periodKey, data, lastRefreshed) VALUES (?, ?, ?, ?)',
     teamId,
     periodKey,
     JSON.stringify(data),
-    new Date().toISOString() 
+    refreshedAt
   );
+  if (!data.info) {
+    // Trends chart team totals; the per-repo and per-workflow breakdowns are only needed for the latest refresh.
+    const { repos_current, repos_period, ci_period, ...snapshot } = data;
+    if (ci_period) {
+      const { workflows, failingJobs, ...ciTotals } = ci_period;
+      await appendMetricSnapshot(teamId, 'github', periodKey, { ...snapshot, ci_period: ciTotals }, refreshedAt);
+    } else {
+      await appendMetricSnapshot(teamId, 'github', periodKey, snapshot, refreshedAt);
+    }
+  }
 }
 
 export async function getGithubTeamMetricsFromDb(teamId: string): Promise<Record<string, GithubMetricsPeriodData>> {
@@ -415,17 +860,65 @@ export async function getGithubTeamMetricsFromDb(teamId: string): Promise<Record
 export async function clearGithubTeamMetrics(teamId: string): Promise<void> {
   const db = await getDb();
   await db.run('DELETE FROM github_team_metrics WHERE teamId = ?', teamId);
+  await db.run('DELETE FROM github_repo_sync_state WHERE teamId = ?', teamId);
+}
+
+export async function getGithubRepoSyncStatesFromDb(teamId: string): Promise<Record<string, GithubRepoSyncState>> {
+  const db = await getDb();
+  const rows = await db.all<any[]>('SELECT * FROM github_repo_sync_state WHERE teamId = ?', teamId);
+  const states: Record<string, GithubRepoSyncState> = {};
+  for (const row of rows || []) {
+    try {
+      states[row.repoFullName] = {
+        repoFullName: row.repoFullName,
+        lastCommitSha: row.lastCommitSha,
+        lastCommitDate: row.lastCommitDate,
+        commits: row.commits ? JSON.parse(row.commits) : [],
+        workflowRuns: row.workflowRuns ? JSON.parse(row.workflowRuns) : [],
+        pullRequests: row.pullRequests ? JSON.parse(row.pullRequests) : [],
+        lastCloneHead: row.lastCloneHead,
+        clonedTotalLines: row.clonedTotalLines,
+        clonedLinesByLanguage: row.clonedLinesByLanguage ? JSON.parse(row.clonedLinesByLanguage) : {},
+        lastSyncedAt: row.lastSyncedAt,
+      };
+    } catch (e) {
+      // A corrupt cursor just means the next refresh of this repo is a full one.
+      console.error(`Error parsing GitHub sync state for team ${teamId}, repo ${row.repoFullName}:`, e);
+    }
+  }
+  return states;
+}
+
+export async function saveGithubRepoSyncStateToDb(teamId: string, state: GithubRepoSyncState): Promise<void> {
+  const db = await getDb();
+  await db.run(
+    `INSERT OR REPLACE INTO github_repo_sync_state
+     (teamId, repoFullName, lastCommitSha, lastCommitDate, commits, workflowRuns, pullRequests, lastCloneHead, clonedTotalLines, clonedLinesByLanguage, lastSyncedAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    teamId,
+    state.repoFullName,
+    state.lastCommitSha,
+    state.lastCommitDate,
+    JSON.stringify(state.commits),
+    JSON.stringify(state.workflowRuns),
+    JSON.stringify(state.pullRequests),
+    state.lastCloneHead,
+    state.clonedTotalLines,
+    JSON.stringify(state.clonedLinesByLanguage),
+    state.lastSyncedAt
+  );
 }
 
 
 // Jira Team Metrics
-export async function saveJiraTeamMetricsToDb(teamId: string, metrics: JiraTeamMetricsData): Promise<void> {
+export async function saveJiraTeamMetricsToDb(teamId: string, metrics: JiraTeamMetricsData, filterId: string = JIRA_DEFAULT_FILTER_ID): Promise<void> {
   const db = await getDb();
   await db.run(
     `INSERT OR REPLACE INTO jira_team_metrics
-     (teamId, totalIssues, issuesByType, issuesByAssignee, issuesByStatus, issuesByLabel, issuesByCategory, averageIssueAgeDays, lastRefreshed, info)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+     (teamId, filterId, totalIssues, issuesByType, issuesByAssignee, issuesByStatus, issuesByLabel, issuesByCategory, averageIssueAgeDays, openIssues, flowMetrics, projectBreakdown, assigneeIdentities, lastRefreshed, info)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     teamId,
+    filterId,
     metrics.totalIssues,
     JSON.stringify(metrics.issuesByType || {}),
     JSON.stringify(metrics.issuesByAssignee || {}),
@@ -433,14 +926,25 @@ export async function saveJiraTeamMetricsToDb(teamId: string, metrics: JiraTeamM
     JSON.stringify(metrics.issuesByLabel || {}),
     JSON.stringify(metrics.issuesByCategory || {}),
     metrics.averageIssueAgeDays,
+    metrics.openIssues ?? null,
+    metrics.flowMetrics ? JSON.stringify(metrics.flowMetrics) : null,
+    metrics.projectBreakdown ? JSON.stringify(metrics.projectBreakdown) : null,
+    metrics.assigneeIdentities ? JSON.stringify(metrics.assigneeIdentities) : null,
     metrics.lastRefreshed,
     metrics.info ? JSON.stringify(metrics.info) : null
   );
+  if (!metrics.info) {
+    // Per-issue scatter points are only needed for the latest view; keep snapshots to the aggregates.
+    const snapshot: JiraTeamMetricsData = metrics.flowMetrics
+      ? { ...metrics, flowMetrics: { ...metrics.flowMetrics, cycleTimePoints: [] } }
+      : metrics;
+    await appendMetricSnapshot(teamId, 'jira', jiraSnapshotKey(filterId), snapshot, metrics.lastRefreshed);
+  }
 }
 
-export async function getJiraTeamMetricsFromDb(teamId: string): Promise<JiraTeamMetricsData | null> {
+export async function getJiraTeamMetricsFromDb(teamId: string, filterId: string = JIRA_DEFAULT_FILTER_ID): Promise<JiraTeamMetricsData | null> {
   const db = await getDb();
-  const row = await db.get<any>(`SELECT * FROM jira_team_metrics WHERE teamId = ?`, teamId);
+  const row = await db.get<any>(`SELECT * FROM jira_team_metrics WHERE teamId = ? AND filterId = ?`, teamId, filterId);
   if (row) {
     return {
       totalIssues: row.totalIssues,
@@ -450,6 +954,10 @@ export async function getJiraTeamMetricsFromDb(teamId: string): Promise<JiraTeam
       issuesByLabel: row.issuesByLabel ? JSON.parse(row.issuesByLabel) : {},
       issuesByCategory: row.issuesByCategory ? JSON.parse(row.issuesByCategory) : {},
       averageIssueAgeDays: row.averageIssueAgeDays,
+      openIssues: row.openIssues ?? undefined,
+      flowMetrics: row.flowMetrics ? JSON.parse(row.flowMetrics) : undefined,
+      projectBreakdown: row.projectBreakdown ? JSON.parse(row.projectBreakdown) : undefined,
+      assigneeIdentities: row.assigneeIdentities ? JSON.parse(row.assigneeIdentities) : undefined,
       lastRefreshed: row.lastRefreshed,
       info: row.info ? JSON.parse(row.info) : undefined,
     };
@@ -457,6 +965,79 @@ export async function getJiraTeamMetricsFromDb(teamId: string): Promise<JiraTeam
   return null;
 }
 
+// Jira Saved Filters
+export async function saveJiraFilterToDb(data: JiraFilterFormData): Promise<JiraFilter> {
+  const db = await getDb();
+  const filter: JiraFilter = {
+    id: data.id || uuidv4(),
+    teamId: data.teamId,
+    name: data.name,
+    jql: data.jql,
+    createdAt: new Date().toISOString(),
+  };
+  const existing = data.id
+    ? await db.get<{ createdAt: string }>('SELECT createdAt FROM jira_filters WHERE id = ? AND teamId = ?', data.id, data.teamId)
+    : undefined;
+  if (existing) {
+    filter.createdAt = existing.createdAt;
+    await db.run('UPDATE jira_filters SET name = ?, jql = ? WHERE id = ? AND teamId = ?', filter.name, filter.jql, filter.id, filter.teamId);
+    // The stored metrics were computed from the old JQL.
+    await db.run('DELETE FROM jira_team_metrics WHERE teamId = ? AND filterId = ?', filter.teamId, filter.id);
+  } else {
+    await db.run(
+      'INSERT INTO jira_filters (id, teamId, name, jql, createdAt) VALUES (?, ?, ?, ?, ?)',
+      filter.id, filter.teamId, filter.name, filter.jql, filter.createdAt
+    );
+  }
+  return filter;
+}
+
+export async function getJiraFiltersFromDb(teamId: string): Promise<JiraFilter[]> {
+  const db = await getDb();
+  const rows = await db.all<JiraFilter[]>('SELECT id, teamId, name, jql, createdAt FROM jira_filters WHERE teamId = ? ORDER BY name COLLATE NOCASE', teamId);
+  return rows || [];
+}
+
+export async function deleteJiraFilterFromDb(teamId: string, filterId: string): Promise<void> {
+  const db = await getDb();
+  await db.run('DELETE FROM jira_team_metrics WHERE teamId = ? AND filterId = ?', teamId, filterId);
+  await db.run('DELETE FROM jira_filters WHERE id = ? AND teamId = ?', filterId, teamId);
+}
+
+// Jira Sprint Metrics
+export async function saveJiraSprintMetricsToDb(teamId: string, sprints: JiraSprintMetrics[], lastRefreshed: string): Promise<void> {
+  const db = await getDb();
+  for (const sprint of sprints) {
+    const { sprintId, boardId, name, state, startDate, endDate, completeDate, lastRefreshed: _ignored, ...metricsOnly } = sprint;
+    await db.run(
+      `INSERT OR REPLACE INTO jira_sprint_metrics
+       (teamId, sprintId, boardId, name, state, startDate, endDate, completeDate, metricsData, lastRefreshed)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      teamId, sprintId, boardId, name, state, startDate || null, endDate || null, completeDate || null,
+      JSON.stringify(metricsOnly), lastRefreshed
+    );
+  }
+}
+
+export async function getJiraSprintMetricsFromDb(teamId: string, limit?: number): Promise<JiraSprintMetrics[]> {
+  const db = await getDb();
+  const rows = await db.all<any[]>(
+    `SELECT * FROM jira_sprint_metrics WHERE teamId = ? ORDER BY COALESCE(startDate, '') DESC, sprintId DESC${limit ? ' LIMIT ?' : ''}`,
+    ...(limit ? [teamId, limit] : [teamId])
+  );
+  return rows.map(row => ({
+    ...(row.metricsData ? JSON.parse(row.metricsData) : {}),
+    sprintId: row.sprintId,
+    boardId: row.boardId,
+    name: row.name,
+    state: row.state,
+    startDate: row.startDate || undefined,
+    endDate: row.endDate || undefined,
+    completeDate: row.completeDate || undefined,
+    lastRefreshed: row.lastRefreshed,
+  })).reverse();
+}
+
 // SonarQube Team Metrics
 export async function saveSonarQubeTeamMetricsToDb(teamId: string, data: SonarQubeTeamMetricsData): Promise<void> {
   const db = await getDb();
@@ -469,6 +1050,9 @@ export async function saveSonarQubeTeamMetricsToDb(teamId: string, data: SonarQu
     lastRefreshed,
     info ? JSON.stringify(info) : null
   );
+  if (!info) {
+    await appendMetricSnapshot(teamId, 'sonarqube', 'team', data, lastRefreshed);
+  }
 }
 
 export async function getSonarQubeTeamMetricsFromDb(teamId: string): Promise<SonarQubeTeamMetricsData | null> {
@@ -498,6 +1082,278 @@ export async function getSonarQubeTeamMetricsFromDb(teamId: string): Promise<Son
   return null;
 }
 
+// People Registry
+export async function getPeopleFromDb(teamId: string): Promise<Person[]> {
+  const db = await getDb();
+  const people = await db.all<Omit<Person, 'identities'>[]>('SELECT id, teamId, displayName, createdAt FROM people WHERE teamId = ? ORDER BY displayName COLLATE NOCASE', teamId);
+  const identities = await db.all<(PersonIdentity & { personId: string })[]>('SELECT kind, value, personId FROM person_identities WHERE teamId = ?', teamId);
+  return (people || []).map(person => ({
+    ...person,
+    identities: (identities || []).filter(identity => identity.personId === person.id).map(({ kind, value }) => ({ kind, value })),
+  }));
+}
+
+export async function savePersonToDb(data: PersonFormData): Promise<Person> {
+  const db = await getDb();
+  if (data.id) {
+    await db.run('UPDATE people SET displayName = ? WHERE id = ? AND teamId = ?', data.displayName, data.id, data.teamId);
+    const people = await getPeopleFromDb(data.teamId);
+    const updated = people.find(person => person.id === data.id);
+    if (!updated) throw new Error(`Person ${data.id} not found for this team.`);
+    return updated;
+  }
+  const person: Person = { id: uuidv4(), teamId: data.teamId, displayName: data.displayName, identities: [], createdAt: new Date().toISOString() };
+  await db.run('INSERT INTO people (id, teamId, displayName, createdAt) VALUES (?, ?, ?, ?)', person.id, person.teamId, person.displayName, person.createdAt);
+  return person;
+}
+
+export async function deletePersonFromDb(teamId: string, personId: string): Promise<void> {
+  const db = await getDb();
+  await db.run('DELETE FROM person_identities WHERE teamId = ? AND personId = ?', teamId, personId);
+  await db.run('UPDATE team_members SET personId = NULL WHERE teamId = ? AND personId = ?', teamId, personId);
+  await db.run('DELETE FROM people WHERE id = ? AND teamId = ?', personId, teamId);
+}
+
+// Replaces any existing mapping for the identity, so assigning is also how a wrong merge gets overridden.
+export async function assignIdentityInDb(teamId: string, personId: string, identity: PersonIdentity): Promise<void> {
+  const db = await getDb();
+  await db.run(
+    'INSERT OR REPLACE INTO person_identities (teamId, kind, value, personId) VALUES (?, ?, ?, ?)',
+    teamId, identity.kind, identity.value, personId
+  );
+}
+
+export async function unassignIdentityInDb(teamId: string, identity: PersonIdentity): Promise<void> {
+  const db = await getDb();
+  await db.run('DELETE FROM person_identities WHERE teamId = ? AND kind = ? AND value = ?', teamId, identity.kind, identity.value);
+}
+
+// DORA Team Metrics
+export async function saveDoraTeamMetricsToDb(teamId: string, data: DoraTeamMetricsData): Promise<void> {
+  const db = await getDb();
+  const { info, lastRefreshed, ...metricsOnly } = data;
+  await db.run(
+    'INSERT OR REPLACE INTO dora_team_metrics (teamId, metricsData, lastRefreshed, info) VALUES (?, ?, ?, ?)',
+    teamId,
+    JSON.stringify(metricsOnly),
+    lastRefreshed,
+    info ? JSON.stringify(info) : null
+  );
+  if (!info) {
+    // The deployment list is for drill-down only; trends need the headline numbers.
+    const { recentDeployments, weekly, ...snapshot } = metricsOnly;
+    await appendMetricSnapshot(teamId, 'dora', 'team', snapshot, lastRefreshed);
+  }
+}
+
+export async function getDoraTeamMetricsFromDb(teamId: string): Promise<DoraTeamMetricsData | null> {
+  const db = await getDb();
+  const row = await db.get<{ metricsData: string | null; lastRefreshed: string; info: string | null }>(
+    'SELECT metricsData, lastRefreshed, info FROM dora_team_metrics WHERE teamId = ?',
+    teamId
+  );
+  if (!row) return null;
+  try {
+    return {
+      ...(row.metricsData ? JSON.parse(row.metricsData) : {}),
+      lastRefreshed: row.lastRefreshed,
+      info: row.info ? JSON.parse(row.info) : undefined,
+    };
+  } catch (e) {
+    console.error(`Error parsing DORA metrics data for team ${teamId}:`, e);
+    return {
+      info: { message: `Error loading DORA metrics data. Last DB update: ${row.lastRefreshed}` },
+      lastRefreshed: row.lastRefreshed,
+    };
+  }
+}
+
+// Boomerang Pipeline Runs
+export async function saveBoomerangPipelineRunsToDb(teamId: string, runs: BoomerangPipelineRun[]): Promise<void> {
+  const db = await getDb();
+  for (const run of runs) {
+    await db.run(
+      `INSERT OR REPLACE INTO boomerang_pipeline_runs
+       (teamId, runId, workflowId, workflowName, status, trigger, environment, startedAt, durationSeconds)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      teamId, run.runId, run.workflowId, run.workflowName, run.status, run.trigger || null, run.environment || null,
+      run.startedAt, run.durationSeconds ?? null
+    );
+  }
+}
+
+export async function getBoomerangPipelineRunsFromDb(teamId: string, since: string): Promise<BoomerangPipelineRun[]> {
+  const db = await getDb();
+  const rows = await db.all<any[]>(
+    'SELECT * FROM boomerang_pipeline_runs WHERE teamId = ? AND startedAt >= ? ORDER BY startedAt DESC',
+    teamId, since
+  );
+  return rows.map(row => ({
+    runId: row.runId,
+    workflowId: row.workflowId,
+    workflowName: row.workflowName,
+    status: row.status,
+    trigger: row.trigger || undefined,
+    environment: row.environment || undefined,
+    startedAt: row.startedAt,
+    durationSeconds: row.durationSeconds ?? undefined,
+  }));
+}
+
+// Runs fetched from a previously configured server would otherwise mix with the new one's.
+export async function deleteBoomerangPipelineRunsFromDb(teamId: string): Promise<void> {
+  const db = await getDb();
+  await db.run('DELETE FROM boomerang_pipeline_runs WHERE teamId = ?', teamId);
+}
+
+// Where the next refresh should resume: the earliest run still in progress (it may have finished since), else the
+// latest stored run. Null when nothing has been fetched yet.
+export async function getBoomerangResumePointFromDb(teamId: string): Promise<string | null> {
+  const db = await getDb();
+  const row = await db.get<{ running: string | null; latest: string | null }>(
+    `SELECT MIN(CASE WHEN status = 'running' THEN startedAt END) AS running, MAX(startedAt) AS latest
+     FROM boomerang_pipeline_runs WHERE teamId = ?`,
+    teamId
+  );
+  return row?.running || row?.latest || null;
+}
+
+// Boomerang Team Metrics
+export async function saveBoomerangTeamMetricsToDb(teamId: string, data: BoomerangTeamMetricsData): Promise<void> {
+  const db = await getDb();
+  const { info, lastRefreshed, ...metricsOnly } = data;
+  await db.run(
+    'INSERT OR REPLACE INTO boomerang_team_metrics (teamId, metricsData, lastRefreshed, info) VALUES (?, ?, ?, ?)',
+    teamId,
+    JSON.stringify(metricsOnly),
+    lastRefreshed,
+    info ? JSON.stringify(info) : null
+  );
+  if (!info && metricsOnly.periods) {
+    for (const [periodKey, period] of Object.entries(metricsOnly.periods)) {
+      const { workflows, ...snapshot } = period;
+      await appendMetricSnapshot(teamId, 'boomerang', periodKey, snapshot, lastRefreshed);
+    }
+  }
+}
+
+export async function getBoomerangTeamMetricsFromDb(teamId: string): Promise<BoomerangTeamMetricsData | null> {
+  const db = await getDb();
+  const row = await db.get<{ metricsData: string | null; lastRefreshed: string; info: string | null }>(
+    'SELECT metricsData, lastRefreshed, info FROM boomerang_team_metrics WHERE teamId = ?',
+    teamId
+  );
+  if (!row) return null;
+  try {
+    return {
+      ...(row.metricsData ? JSON.parse(row.metricsData) : {}),
+      lastRefreshed: row.lastRefreshed,
+      info: row.info ? JSON.parse(row.info) : undefined,
+    };
+  } catch (e) {
+    console.error(`Error parsing Boomerang metrics data for team ${teamId}:`, e);
+    return {
+      info: { message: `Error loading Boomerang metrics data. Last DB update: ${row.lastRefreshed}` },
+      lastRefreshed: row.lastRefreshed,
+    };
+  }
+}
+
+// Jenkins Team Metrics
+export async function saveJenkinsTeamMetricsToDb(teamId: string, data: JenkinsTeamMetricsData): Promise<void> {
+  const db = await getDb();
+  const { info, lastRefreshed, ...metricsOnly } = data;
+  await db.run(
+    'INSERT OR REPLACE INTO jenkins_team_metrics (teamId, metricsData, lastRefreshed, info) VALUES (?, ?, ?, ?)',
+    teamId,
+    JSON.stringify(metricsOnly),
+    lastRefreshed,
+    info ? JSON.stringify(info) : null
+  );
+  if (!info && metricsOnly.periods) {
+    for (const [periodKey, period] of Object.entries(metricsOnly.periods)) {
+      const { trend, failingJobs, jobs, ...snapshot } = period;
+      await appendMetricSnapshot(teamId, 'jenkins', periodKey, snapshot, lastRefreshed);
+    }
+  }
+}
+
+export async function getJenkinsTeamMetricsFromDb(teamId: string): Promise<JenkinsTeamMetricsData | null> {
+  const db = await getDb();
+  const row = await db.get<{ metricsData: string | null; lastRefreshed: string; info: string | null }>(
+    'SELECT metricsData, lastRefreshed, info FROM jenkins_team_metrics WHERE teamId = ?',
+    teamId
+  );
+  if (!row) return null;
+  try {
+    return {
+      ...(row.metricsData ? JSON.parse(row.metricsData) : {}),
+      lastRefreshed: row.lastRefreshed,
+      info: row.info ? JSON.parse(row.info) : undefined,
+    };
+  } catch (e) {
+    console.error(`Error parsing Jenkins metrics data for team ${teamId}:`, e);
+    return {
+      info: { message: `Error loading Jenkins metrics data. Last DB update: ${row.lastRefreshed}` },
+      lastRefreshed: row.lastRefreshed,
+    };
+  }
+}
+
+// Metric Snapshots (append-only history of every successful refresh)
+async function appendMetricSnapshot(
+  teamId: string,
+  source: MetricSnapshotSource,
+  snapshotKey: string,
+  data: unknown,
+  capturedAt: string
+): Promise<void> {
+  const db = await getDb();
+  await db.run(
+    'INSERT INTO metric_snapshots (teamId, source, snapshotKey, data, capturedAt) VALUES (?, ?, ?, ?, ?)',
+    teamId,
+    source,
+    snapshotKey,
+    JSON.stringify(data),
+    capturedAt
+  );
+}
+
+export async function getMetricSnapshotsFromDb<T = unknown>(
+  teamId: string,
+  source: MetricSnapshotSource,
+  query: MetricSnapshotQuery = {}
+): Promise<MetricSnapshot<T>[]> {
+  const db = await getDb();
+  const conditions = ['teamId = ?', 'source = ?'];
+  const params: string[] = [teamId, source];
+  if (query.snapshotKey) {
+    conditions.push('snapshotKey = ?');
+    params.push(query.snapshotKey);
+  }
+  if (query.since) {
+    conditions.push('capturedAt >= ?');
+    params.push(query.since);
+  }
+  if (query.until) {
+    conditions.push('capturedAt <= ?');
+    params.push(query.until);
+  }
+  const rows = await db.all<any[]>(
+    `SELECT id, teamId, source, snapshotKey, data, capturedAt FROM metric_snapshots WHERE ${conditions.join(' AND ')} ORDER BY capturedAt ASC`,
+    ...params
+  );
+  const snapshots: MetricSnapshot<T>[] = [];
+  for (const row of rows || []) {
+    try {
+      snapshots.push({ ...row, data: JSON.parse(row.data) });
+    } catch (e) {
+      console.error(`Error parsing ${source} metric snapshot ${row.id} for team ${teamId}:`, e);
+    }
+  }
+  return snapshots;
+}
+
 // Application DB Config
 const MAIN_CONFIG_ID = 'main_app_db_config';
 
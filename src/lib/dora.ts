@@ -0,0 +1,118 @@
+// src/lib/dora.ts
+// Derives the four DORA metrics from a team's production deployments: deployment frequency, lead time for changes
+// (commit authored -> deployed), change failure rate and time to restore. A deployment whose name or commits match a
+// revert/hotfix pattern is a remediation; the deployment of the same repo before it is counted as failed.
+import type { DoraDeploymentRecord, DoraMetrics, DoraDeploymentSource, DoraWeeklyPoint } from './db';
+import { summarizeDurations } from './jira-flow';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const MAX_RECENT_DEPLOYMENTS = 50;
+
+export interface DoraCommit {
+  sha: string;
+  message: string;
+  authoredAt: string;
+}
+
+export interface DoraDeployment {
+  repoFullName: string;
+  name: string;
+  deployedAt: string;
+  // Commits shipped since the previous deployment; undefined when there is no earlier deployment to diff against.
+  commits?: DoraCommit[];
+}
+
+export function parseFailurePatterns(patterns: string): RegExp[] {
+  return patterns
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => new RegExp(line, 'i'));
+}
+
+export function isRemediation(deployment: DoraDeployment, patterns: RegExp[]): boolean {
+  const texts = [deployment.name, ...(deployment.commits || []).map(commit => commit.message)];
+  return patterns.some(pattern => texts.some(text => pattern.test(text)));
+}
+
+// Weeks start on Monday (UTC) so the weekly series lines up across refreshes.
+function weekStartOf(at: number): string {
+  const date = new Date(at);
+  date.setUTCHours(0, 0, 0, 0);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString();
+}
+
+export function computeDoraMetrics(
+  deployments: DoraDeployment[],
+  deploymentSourceByRepo: Record<string, DoraDeploymentSource | 'none'>,
+  patterns: RegExp[],
+  windowDays: number,
+  now: number = Date.now(),
+): DoraMetrics {
+  const windowStart = now - windowDays * MS_PER_DAY;
+  const inWindow = deployments
+    .filter(deployment => new Date(deployment.deployedAt).getTime() >= windowStart)
+    .sort((a, b) => a.deployedAt.localeCompare(b.deployedAt));
+
+  const leadTimes: number[] = [];
+  const restoreTimes: number[] = [];
+  const failed = new Set<DoraDeployment>();
+  const remediations = new Set<DoraDeployment>();
+  const previousByRepo = new Map<string, DoraDeployment>();
+
+  for (const deployment of inWindow) {
+    const deployedAt = new Date(deployment.deployedAt).getTime();
+    (deployment.commits || []).forEach(commit => {
+      leadTimes.push(Math.max(0, (deployedAt - new Date(commit.authoredAt).getTime()) / MS_PER_DAY));
+    });
+
+    const previous = previousByRepo.get(deployment.repoFullName);
+    if (isRemediation(deployment, patterns)) {
+      remediations.add(deployment);
+      if (previous && !failed.has(previous)) {
+        failed.add(previous);
+        restoreTimes.push((deployedAt - new Date(previous.deployedAt).getTime()) / MS_PER_DAY);
+      }
+    }
+    previousByRepo.set(deployment.repoFullName, deployment);
+  }
+
+  const weeklyByStart = new Map<string, DoraWeeklyPoint>();
+  for (let at = windowStart; at <= now; at += 7 * MS_PER_DAY) {
+    const weekStart = weekStartOf(at);
+    weeklyByStart.set(weekStart, { weekStart, deployments: 0, failures: 0 });
+  }
+  for (const deployment of inWindow) {
+    const weekStart = weekStartOf(new Date(deployment.deployedAt).getTime());
+    const point = weeklyByStart.get(weekStart) || { weekStart, deployments: 0, failures: 0 };
+    point.deployments++;
+    if (failed.has(deployment)) point.failures++;
+    weeklyByStart.set(weekStart, point);
+  }
+
+  const recentDeployments: DoraDeploymentRecord[] = [...inWindow]
+    .reverse()
+    .slice(0, MAX_RECENT_DEPLOYMENTS)
+    .map(deployment => ({
+      repoFullName: deployment.repoFullName,
+      name: deployment.name,
+      deployedAt: deployment.deployedAt,
+      commitCount: deployment.commits?.length || 0,
+      isFailure: failed.has(deployment),
+      isRemediation: remediations.has(deployment),
+    }));
+
+  return {
+    windowDays,
+    deploymentSourceByRepo,
+    deploymentCount: inWindow.length,
+    deploymentsPerWeek: inWindow.length / (windowDays / 7),
+    leadTimeForChanges: summarizeDurations(leadTimes),
+    failedDeploymentCount: failed.size,
+    changeFailureRate: inWindow.length > 0 ? failed.size / inWindow.length : 0,
+    timeToRestore: summarizeDurations(restoreTimes),
+    weekly: Array.from(weeklyByStart.values()).sort((a, b) => a.weekStart.localeCompare(b.weekStart)),
+    recentDeployments,
+  };
+}
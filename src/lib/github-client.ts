@@ -0,0 +1,92 @@
+// src/lib/github-client.ts
+// Shared HTTP client for every GitHub REST and GraphQL call. It tracks the X-RateLimit-* headers per token and API
+// resource, waits out short resets instead of burning requests that will 403, backs off on secondary rate limits
+// and retries transient 5xx/network failures. When the wait would be too long it throws, so callers can record the
+// fetch as incomplete rather than silently saving partial data.
+
+const MAX_ATTEMPTS = 4;
+const MAX_RATE_LIMIT_WAIT_MS = 60 * 1000;
+const DEFAULT_SECONDARY_LIMIT_WAIT_MS = 60 * 1000;
+const BASE_BACKOFF_MS = 1000;
+
+interface RateLimitState {
+  remaining: number;
+  resetAt: number;
+}
+
+// Keyed by Authorization header + resource ("core", "graphql", "search"): each has its own budget.
+const rateLimits = new Map<string, RateLimitState>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function rateLimitKey(url: string, init?: RequestInit): string {
+  const auth = new Headers(init?.headers).get('Authorization') || 'anonymous';
+  const resource = url.endsWith('/graphql') ? 'graphql' : url.includes('/search/') ? 'search' : 'core';
+  return `${auth} ${resource}`;
+}
+
+function recordRateLimit(key: string, response: Response): void {
+  const remaining = response.headers.get('X-RateLimit-Remaining');
+  const reset = response.headers.get('X-RateLimit-Reset');
+  if (remaining !== null && reset !== null) {
+    rateLimits.set(key, { remaining: Number(remaining), resetAt: Number(reset) * 1000 });
+  }
+}
+
+async function waitFor(waitMs: number, reason: string, url: string): Promise<void> {
+  if (waitMs > MAX_RATE_LIMIT_WAIT_MS) {
+    throw new Error(`GitHub ${reason}; retry after ${new Date(Date.now() + waitMs).toISOString()} (request: ${url}).`);
+  }
+  console.warn(`GitHub ${reason}; waiting ${Math.ceil(waitMs / 1000)}s before requesting ${url}.`);
+  await sleep(waitMs);
+}
+
+// A 403/429 is a rate limit when GitHub says so in the headers or, for secondary limits, only in the body.
+async function rateLimitWaitMs(response: Response, key: string): Promise<number | null> {
+  if (response.status !== 403 && response.status !== 429) return null;
+  const retryAfter = response.headers.get('Retry-After');
+  if (retryAfter) return Number(retryAfter) * 1000;
+  if (response.headers.get('X-RateLimit-Remaining') === '0') {
+    return Math.max(0, (rateLimits.get(key)?.resetAt || Date.now()) - Date.now()) + 1000;
+  }
+  const body = await response.clone().text();
+  return /rate limit/i.test(body) ? DEFAULT_SECONDARY_LIMIT_WAIT_MS : null;
+}
+
+export async function githubFetch(url: string, init?: RequestInit): Promise<Response> {
+  const key = rateLimitKey(url, init);
+
+  for (let attempt = 1; ; attempt++) {
+    const budget = rateLimits.get(key);
+    if (budget && budget.remaining <= 0 && budget.resetAt > Date.now()) {
+      await waitFor(budget.resetAt - Date.now() + 1000, 'rate limit exhausted', url);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (networkError: any) {
+      if (attempt >= MAX_ATTEMPTS) throw networkError;
+      console.warn(`GitHub request failed (${networkError.message}), attempt ${attempt} of ${MAX_ATTEMPTS}: ${url}`);
+      await sleep(BASE_BACKOFF_MS * 2 ** (attempt - 1));
+      continue;
+    }
+    recordRateLimit(key, response);
+
+    const limitWaitMs = await rateLimitWaitMs(response, key);
+    if (limitWaitMs !== null) {
+      if (attempt >= MAX_ATTEMPTS) {
+        throw new Error(`GitHub rate limit still in effect after ${MAX_ATTEMPTS} attempts (request: ${url}).`);
+      }
+      await waitFor(limitWaitMs, `rate limited (${response.status})`, url);
+      continue;
+    }
+
+    if (response.status >= 500 && attempt < MAX_ATTEMPTS) {
+      console.warn(`GitHub returned ${response.status}, attempt ${attempt} of ${MAX_ATTEMPTS}: ${url}`);
+      await sleep(BASE_BACKOFF_MS * 2 ** (attempt - 1));
+      continue;
+    }
+    return response;
+  }
+}
@@ -0,0 +1,154 @@
+// src/lib/github-commits.ts
+// Commit history is fetched once per refresh (for the longest period) through the GraphQL API, which returns
+// additions/deletions inline. Every period bucket is then derived locally from that single list.
+import type { GithubCommitterActivity, GithubRepoPeriodMetrics } from './db';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Commits dated this far before the newest cached commit are listed again on every refresh: a branch merged late
+// keeps its older commit dates, so they land behind the cursor.
+export const COMMIT_BACKDATE_OVERLAP_DAYS = 30;
+
+export interface GithubCommitRecord {
+  repoFullName: string;
+  oid: string;
+  committedDate: string;
+  additions: number;
+  deletions: number;
+  message: string;
+  committer: string | null; // Login when the commit is linked to a GitHub user, else the git author/committer name.
+  // Raw author identities for identity resolution; absent on commits cached before they were collected.
+  authorLogin?: string | null;
+  authorName?: string | null;
+  authorEmail?: string | null;
+}
+
+export interface GithubGraphqlCommitNode {
+  oid: string;
+  committedDate: string;
+  additions: number;
+  deletions: number;
+  message: string;
+  author: { name: string | null; email: string | null; user: { login: string } | null } | null;
+  committer: { name: string | null; user: { login: string } | null } | null;
+}
+
+export interface GithubGraphqlCommitHistoryResponse {
+  data?: {
+    repository: {
+      defaultBranchRef: {
+        target: {
+          history?: {
+            pageInfo: { hasNextPage: boolean; endCursor: string | null };
+            nodes: GithubGraphqlCommitNode[];
+          };
+        };
+      } | null;
+    } | null;
+  };
+  errors?: { message: string }[];
+}
+
+export const COMMIT_HISTORY_QUERY = `
+  query CommitHistory($owner: String!, $name: String!, $since: GitTimestamp!, $cursor: String) {
+    repository(owner: $owner, name: $name) {
+      defaultBranchRef {
+        target {
+          ... on Commit {
+            history(since: $since, first: 100, after: $cursor) {
+              pageInfo { hasNextPage endCursor }
+              nodes {
+                oid
+                committedDate
+                additions
+                deletions
+                message
+                author { name email user { login } }
+                committer { name user { login } }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export function toCommitRecord(repoFullName: string, node: GithubGraphqlCommitNode): GithubCommitRecord {
+  return {
+    repoFullName,
+    oid: node.oid,
+    committedDate: node.committedDate,
+    additions: node.additions || 0,
+    deletions: node.deletions || 0,
+    message: node.message,
+    committer: node.author?.user?.login || node.committer?.user?.login || node.author?.name || node.committer?.name || null,
+    authorLogin: node.author?.user?.login || null,
+    authorName: node.author?.name || null,
+    authorEmail: node.author?.email?.toLowerCase() || null,
+  };
+}
+
+export function summarizeCommitsForPeriod(commits: GithubCommitRecord[], start: number, end: number) {
+  let linesAdded = 0;
+  const committers = new Set<string>();
+  for (const commit of commits) {
+    const at = new Date(commit.committedDate).getTime();
+    if (at < start || at > end) continue;
+    linesAdded += commit.additions;
+    if (commit.committer) committers.add(commit.committer);
+  }
+  return { linesAdded, committers: Array.from(committers) };
+}
+
+// Groups the period's commits by author identity triple so each login/name/email combination can be resolved to a person.
+export function summarizeCommitterActivity(commits: GithubCommitRecord[], start: number, end: number): GithubCommitterActivity[] {
+  const byAuthor = new Map<string, GithubCommitterActivity>();
+  for (const commit of commits) {
+    const at = new Date(commit.committedDate).getTime();
+    if (at < start || at > end) continue;
+    const hasAuthorFields = commit.authorLogin !== undefined || commit.authorName !== undefined || commit.authorEmail !== undefined;
+    const login = hasAuthorFields ? commit.authorLogin || null : null;
+    const name = hasAuthorFields ? commit.authorName || null : commit.committer;
+    const email = commit.authorEmail || null;
+    if (!login && !name && !email) continue;
+    const key = `${login}|${name}|${email}`;
+    const entry = byAuthor.get(key) || { login, name, email, commits: 0 };
+    entry.commits++;
+    byAuthor.set(key, entry);
+  }
+  return Array.from(byAuthor.values());
+}
+
+// Every listed repo gets an entry, so repos without commits in the period show up as dormant rather than missing.
+export function summarizeCommitsByRepo(commits: GithubCommitRecord[], repoFullNames: string[], start: number, end: number): GithubRepoPeriodMetrics[] {
+  const byRepo = new Map(repoFullNames.map(repoFullName => [repoFullName, { repoFullName, commits: 0, committers: new Set<string>(), linesAdded: 0, linesDeleted: 0 }]));
+  for (const commit of commits) {
+    const at = new Date(commit.committedDate).getTime();
+    const entry = byRepo.get(commit.repoFullName);
+    if (!entry || at < start || at > end) continue;
+    entry.commits++;
+    entry.linesAdded += commit.additions;
+    entry.linesDeleted += commit.deletions;
+    if (commit.committer) entry.committers.add(commit.committer);
+  }
+  return Array.from(byRepo.values()).map(entry => ({ ...entry, committers: Array.from(entry.committers) }));
+}
+
+// Resume from the newest cached commit, less the overlap window, but never before the history start.
+export function commitHistoryFetchSince(cached: GithubCommitRecord[], historyStart: Date): Date {
+  const newest = cached[0]?.committedDate;
+  if (!newest) return historyStart;
+  const since = new Date(new Date(newest).getTime() - COMMIT_BACKDATE_OVERLAP_DAYS * MS_PER_DAY);
+  return since > historyStart ? since : historyStart;
+}
+
+// Folds newly fetched commits into the cached history: deduped by oid (the incremental fetch overlaps the cursor
+// date), trimmed to the retention window and kept newest first so the head of the list is the next cursor.
+export function mergeCommitHistory(cached: GithubCommitRecord[], fetched: GithubCommitRecord[], retainSince: number): GithubCommitRecord[] {
+  const byOid = new Map<string, GithubCommitRecord>();
+  [...cached, ...fetched].forEach(commit => byOid.set(commit.oid, commit));
+  return Array.from(byOid.values())
+    .filter(commit => new Date(commit.committedDate).getTime() >= retainSince)
+    .sort((a, b) => b.committedDate.localeCompare(a.committedDate));
+}
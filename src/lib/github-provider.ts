@@ -0,0 +1,409 @@
+// src/lib/github-provider.ts
+// GitHub (github.com and GitHub Enterprise) source-control provider. REST serves repositories, languages, tags,
+// pull requests and Actions runs; commit history comes from GraphQL, which returns line counts inline.
+import type { GithubRepoData } from './schemas';
+import type { ScmProvider, ScmTag } from './scm';
+import { githubFetch } from './github-client';
+import { COMMIT_HISTORY_QUERY, toCommitRecord, type GithubCommitRecord, type GithubGraphqlCommitHistoryResponse } from './github-commits';
+import { toPullRequestRecord, type GithubApiPullRequest, type GithubApiReview, type GithubPullRequestRecord } from './github-pulls';
+import { isRunCompleted, needsJobDetails, toWorkflowRunRecord, type GithubApiWorkflowJobsResponse, type GithubApiWorkflowRunsResponse, type GithubWorkflowRunRecord } from './github-workflows';
+
+interface GithubApiRepo {
+  id: string;
+  name: string;
+  html_url: string;
+  full_name: string;
+  private: boolean;
+  size: number;
+  languages_url: string;
+  tags_url: string;
+  commits_url: string;
+}
+
+export interface GithubApiCommit {
+  sha: string;
+  commit: {
+    author: { name?: string; email?: string; date?: string };
+    committer: { name?: string; email?: string; date?: string };
+    message: string;
+  };
+  author: { login: string; name?: string; email?: string } | null;
+  committer: { login: string; name?: string; email?: string } | null;
+  stats?: {
+    additions: number;
+    deletions: number;
+    total: number;
+  };
+}
+
+export interface GithubApiTag {
+  name: string;
+  commit: {
+    sha: string;
+    url: string;
+  };
+  zipball_url: string;
+  tarball_url: string;
+  node_id: string;
+}
+
+export function githubApiBaseFor(rootUrl: string): string {
+  return rootUrl.includes("api.github.com")
+    ? rootUrl.split("/").slice(0,3).join("/")
+    : (rootUrl.startsWith('https://github.com')
+        ? 'https://api.github.com'
+        : `${new URL(rootUrl).origin}/api/v3`); // For GHE
+}
+
+export function githubGraphqlUrlFor(rootUrl: string): string {
+  const apiBase = githubApiBaseFor(rootUrl);
+  // GHE serves REST under /api/v3 but GraphQL under /api/graphql.
+  return apiBase.endsWith("/api/v3") ? `${apiBase.slice(0, -"/v3".length)}/graphql` : `${apiBase}/graphql`;
+}
+
+interface GithubGraphqlTaggedCommit {
+  oid: string;
+  committedDate: string;
+}
+
+interface GithubGraphqlTagRefsResponse {
+  data?: {
+    repository: {
+      refs: {
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        // Lightweight tags point at the commit; annotated tags at a tag object that points at it.
+        nodes: { name: string; target: (Partial<GithubGraphqlTaggedCommit> & { target?: Partial<GithubGraphqlTaggedCommit> }) | null }[];
+      } | null;
+    } | null;
+  };
+  errors?: { message: string }[];
+}
+
+const TAG_REFS_QUERY = `
+  query TagRefs($owner: String!, $name: String!, $cursor: String) {
+    repository(owner: $owner, name: $name) {
+      refs(refPrefix: "refs/tags/", first: 100, after: $cursor, orderBy: { field: TAG_COMMIT_DATE, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          name
+          target {
+            ... on Commit { oid committedDate }
+            ... on Tag { target { ... on Commit { oid committedDate } } }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Tags newest tagged commit first, each with that commit's sha and committer date. Paging stops once a page reaches
+// a tag older than `since`, so the newest tag before the window is included.
+export async function fetchGithubTagsSince(
+  repoFullName: string,
+  since: Date,
+  headers: Record<string, string>,
+  graphqlUrl: string,
+): Promise<{ name: string; sha: string; date: string }[]> {
+  const [owner, name] = repoFullName.split("/");
+  const tags: { name: string; sha: string; date: string }[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const response: Response = await githubFetch(graphqlUrl, {
+      method: "POST",
+      headers: { ...headers, "Content-Type": "application/json" },
+      body: JSON.stringify({ query: TAG_REFS_QUERY, variables: { owner, name, cursor } }),
+    });
+    if (!response.ok) {
+      throw new Error(`GraphQL tags request failed for ${repoFullName}: ${response.status} ${await response.text()}`);
+    }
+    const result: GithubGraphqlTagRefsResponse = await response.json();
+    if (result.errors?.length) {
+      throw new Error(`GraphQL tags query failed for ${repoFullName}: ${result.errors.map(e => e.message).join("; ")}`);
+    }
+    const refs = result.data?.repository?.refs;
+    if (!refs) break;
+    let reachedSince = false;
+    for (const node of refs.nodes) {
+      const commit = node.target?.oid ? node.target : node.target?.target;
+      if (!commit?.oid || !commit.committedDate) continue;
+      tags.push({ name: node.name, sha: commit.oid, date: commit.committedDate });
+      reachedSince ||= new Date(commit.committedDate) < since;
+    }
+    cursor = refs.pageInfo.hasNextPage && !reachedSince ? refs.pageInfo.endCursor : null;
+  } while (cursor);
+
+  return tags;
+}
+
+export function nextGithubPageUrl(response: Response): string {
+  const nextLink = (response.headers.get('Link') || '').split(',').find(link => link.includes('rel="next"'));
+  return nextLink?.match(/<([^>]+)>/)?.[1] || "";
+}
+
+async function fetchGithubReposFromApi(apiUrl: string, token: string): Promise<GithubApiRepo[]> {
+  if (!token) {
+    throw new Error("GitHub Access Token is required to fetch repositories.");
+  }
+  let allRepos: GithubApiRepo[] = [];
+  let nextPageUrl: string | null = apiUrl;
+  console.log(`Fetching GitHub repos from initial URL: ${apiUrl}`);
+
+  while (nextPageUrl) {
+    console.log(`Fetching page: ${nextPageUrl}`);
+    const response = await githubFetch(nextPageUrl, {
+      headers: {
+        Authorization: `token ${token}`,
+        Accept: 'application/vnd.github.v3+json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      console.error(`GitHub API Error (${response.status}) for URL ${nextPageUrl}: ${errorBody}`);
+      throw new Error(`Failed to fetch repositories from ${nextPageUrl}. Status: ${response.status}. Message: ${errorBody}`);
+    }
+
+    const data = await response.json();
+    if (!Array.isArray(data)) {
+        console.error(`GitHub API response for ${nextPageUrl} was not an array:`, data);
+        throw new Error(`Unexpected response format from GitHub API for URL ${nextPageUrl}. Expected an array of repositories.`);
+    }
+    allRepos = allRepos.concat(data);
+
+    nextPageUrl = nextGithubPageUrl(response) || null;
+    console.log(`Fetched ${data.length} repos from this page. Total fetched so far: ${allRepos.length}. Next page: ${nextPageUrl || 'none'}`);
+  }
+  return allRepos;
+}
+
+// An API URL is listed as is; otherwise the root URL's last path segment is tried as an org, then as a user, and
+// a bare host lists the token owner's repositories.
+async function repoListingUrlFor(rootUrl: string, accessToken: string): Promise<string> {
+  const apiBase = githubApiBaseFor(rootUrl);
+  const urlPathParts = new URL(rootUrl).pathname.split('/').filter(Boolean);
+  const perPageQuery = "type=all&per_page=100"; // Fetch up to 100 repos per page
+
+  if (rootUrl.includes("api.github.com/") && (rootUrl.includes("/repos") || rootUrl.includes("/user") || rootUrl.includes("/orgs"))) {
+    return rootUrl.includes("?") ? `${rootUrl}&${perPageQuery}` : `${rootUrl}?${perPageQuery}`;
+  }
+  if (urlPathParts.length === 0) {
+    return `${apiBase}/user/repos?${perPageQuery}`;
+  }
+  const orgOrUser = urlPathParts[urlPathParts.length - 1];
+  const potentialOrgUrl = `${apiBase}/orgs/${orgOrUser}/repos?${perPageQuery}`;
+  try {
+    const orgResponse = await githubFetch(potentialOrgUrl, { headers: { Authorization: `token ${accessToken}` } });
+    if (orgResponse.ok) {
+      return potentialOrgUrl;
+    } else if (orgResponse.status === 404 || orgResponse.status === 403) {
+      return `${apiBase}/users/${orgOrUser}/repos?${perPageQuery}`;
+    }
+    throw new Error(`GitHub API error for orgs endpoint ${potentialOrgUrl}: ${orgResponse.status} - ${await orgResponse.text()}`);
+  } catch (e: any) {
+    console.warn(`Org check failed for ${orgOrUser}, trying user endpoint. Error: ${e.message}`);
+    return `${apiBase}/users/${orgOrUser}/repos?${perPageQuery}`;
+  }
+}
+
+async function fetchCommitDetails(repoFullName: string, commitSha: string, headers: Record<string, string>, githubApiBase: string): Promise<GithubApiCommit | null> {
+  const response = await githubFetch(`${githubApiBase}/repos/${repoFullName}/commits/${commitSha}`, { headers });
+  if (!response.ok) {
+    console.warn(`Failed to fetch commit details for ${repoFullName}#${commitSha}: ${response.status} ${await response.text()}`);
+    return null;
+  }
+  return response.json();
+}
+
+// Walks the default branch history with the GraphQL API, 100 commits per request with line counts inline.
+async function fetchCommitHistory(repoFullName: string, since: Date, token: string, graphqlUrl: string): Promise<GithubCommitRecord[]> {
+  const [owner, name] = repoFullName.split("/");
+  const records: GithubCommitRecord[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const response: Response = await githubFetch(graphqlUrl, {
+      method: "POST",
+      headers: { Authorization: `bearer ${token}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ query: COMMIT_HISTORY_QUERY, variables: { owner, name, since: since.toISOString(), cursor } }),
+    });
+    if (!response.ok) {
+      throw new Error(`GraphQL commit history request failed for ${repoFullName}: ${response.status} ${await response.text()}`);
+    }
+    const result: GithubGraphqlCommitHistoryResponse = await response.json();
+    if (result.errors?.length) {
+      throw new Error(`GraphQL commit history query failed for ${repoFullName}: ${result.errors.map(e => e.message).join("; ")}`);
+    }
+    const history = result.data?.repository?.defaultBranchRef?.target?.history;
+    if (!history) {
+      console.log(`No default branch history for ${repoFullName}; the repository may be empty.`);
+      break;
+    }
+    history.nodes.forEach(node => records.push(toCommitRecord(repoFullName, node)));
+    cursor = history.pageInfo.hasNextPage ? history.pageInfo.endCursor : null;
+  } while (cursor);
+
+  return records;
+}
+
+// PRs come back most recently updated first, so paging stops once a page reaches PRs untouched since `since`.
+// The list endpoint omits additions/deletions, so each PR in range is fetched individually alongside its reviews.
+async function fetchPullRequestsWithReviews(repoFullName: string, since: Date, headers: Record<string, string>, githubApiBase: string): Promise<GithubPullRequestRecord[]> {
+  const records: GithubPullRequestRecord[] = [];
+  let pullsUrl = `${githubApiBase}/repos/${repoFullName}/pulls?state=all&sort=updated&direction=desc&per_page=100`;
+
+  while (pullsUrl) {
+    const response = await githubFetch(pullsUrl, { headers });
+    if (!response.ok) {
+      throw new Error(`Failed to list pull requests for ${repoFullName}: ${response.status} ${await response.text()}`);
+    }
+    const pulls: GithubApiPullRequest[] = await response.json();
+    const inRange = pulls.filter(pull => new Date(pull.updated_at) >= since);
+
+    for (const listed of inRange) {
+      const detailResponse = await githubFetch(`${githubApiBase}/repos/${repoFullName}/pulls/${listed.number}`, { headers });
+      const pull: GithubApiPullRequest = detailResponse.ok ? await detailResponse.json() : listed;
+      if (!detailResponse.ok) {
+        console.warn(`Failed to fetch details for ${repoFullName}#${listed.number}: ${detailResponse.status}. Size will be omitted.`);
+      }
+
+      const reviewsResponse = await githubFetch(`${githubApiBase}/repos/${repoFullName}/pulls/${listed.number}/reviews?per_page=100`, { headers });
+      const reviews: GithubApiReview[] = reviewsResponse.ok ? await reviewsResponse.json() : [];
+      if (!reviewsResponse.ok) {
+        console.warn(`Failed to fetch reviews for ${repoFullName}#${listed.number}: ${reviewsResponse.status}.`);
+      }
+      records.push(toPullRequestRecord(repoFullName, pull, reviews));
+    }
+
+    pullsUrl = inRange.length < pulls.length ? "" : nextGithubPageUrl(response);
+  }
+  return records;
+}
+
+// Lists runs created since `since` (newest first). Runs the cache already holds unchanged are kept as cached; jobs
+// are fetched only for runs that finished or were re-run since, as they carry the queue time and failed jobs.
+async function fetchWorkflowRuns(
+  repoFullName: string,
+  since: Date,
+  cached: GithubWorkflowRunRecord[],
+  headers: Record<string, string>,
+  githubApiBase: string,
+): Promise<GithubWorkflowRunRecord[]> {
+  const cachedById = new Map(cached.map(run => [run.runId, run]));
+  const records: GithubWorkflowRunRecord[] = [];
+  const seen = new Set<number>();
+  const sinceAt = `${since.toISOString().slice(0, 19)}Z`;
+  // GitHub lists at most 1000 runs per query; when more match, the next query covers only what is older than the
+  // oldest run listed so far.
+  let createdBefore: string | null = null;
+
+  while (true) {
+    const created = createdBefore ? `${sinceAt}..${createdBefore}` : `>=${sinceAt}`;
+    let runsUrl = `${githubApiBase}/repos/${repoFullName}/actions/runs?per_page=100&created=${encodeURIComponent(created)}`;
+    let totalCount = 0;
+    let listed = 0;
+    let oldestCreatedAt: string | null = null;
+
+    while (runsUrl) {
+      const response = await githubFetch(runsUrl, { headers });
+      if (!response.ok) {
+        throw new Error(`Failed to list workflow runs for ${repoFullName}: ${response.status} ${await response.text()}`);
+      }
+      const page: GithubApiWorkflowRunsResponse = await response.json();
+      totalCount = page.total_count;
+      listed += page.workflow_runs.length;
+
+      for (const run of page.workflow_runs) {
+        if (!oldestCreatedAt || run.created_at < oldestCreatedAt) oldestCreatedAt = run.created_at;
+        if (seen.has(run.id)) continue;
+        seen.add(run.id);
+        const cachedRun = cachedById.get(run.id);
+        if (!needsJobDetails(run, cachedRun)) {
+          records.push(cachedRun && isRunCompleted(run) ? cachedRun : toWorkflowRunRecord(repoFullName, run, null));
+          continue;
+        }
+        const jobsResponse = await githubFetch(`${githubApiBase}/repos/${repoFullName}/actions/runs/${run.id}/jobs?filter=all&per_page=100`, { headers });
+        const jobs: GithubApiWorkflowJobsResponse | null = jobsResponse.ok ? await jobsResponse.json() : null;
+        if (!jobsResponse.ok) {
+          console.warn(`Failed to fetch jobs for ${repoFullName} run ${run.id}: ${jobsResponse.status}. Queue time and failed jobs will be omitted.`);
+        }
+        records.push(toWorkflowRunRecord(repoFullName, run, jobs?.jobs || null));
+      }
+
+      runsUrl = nextGithubPageUrl(response);
+    }
+
+    if (listed >= totalCount || !oldestCreatedAt) break;
+    if (oldestCreatedAt === createdBefore) {
+      throw new Error(`More than ${listed} workflow runs were created at ${oldestCreatedAt}; GitHub lists at most 1000 per query, so older runs could not be listed.`);
+    }
+    createdBefore = oldestCreatedAt;
+  }
+  return records;
+}
+
+export function createGithubProvider(rootUrl: string, accessToken: string): ScmProvider {
+  const apiBase = githubApiBaseFor(rootUrl);
+  const headers = { Authorization: `token ${accessToken}`, Accept: 'application/vnd.github.v3+json' };
+
+  return {
+    id: 'github',
+    label: 'GitHub',
+
+    async listRepos() {
+      const source = await repoListingUrlFor(rootUrl, accessToken);
+      console.log(`Scanning GitHub repos from: ${source}`);
+      const repos = await fetchGithubReposFromApi(source, accessToken);
+      return {
+        source,
+        repos: repos.map((repo): GithubRepoData => ({
+          id: String(repo.id),
+          name: repo.name,
+          url: repo.html_url,
+          fullName: repo.full_name,
+        })),
+      };
+    },
+
+    async fetchLanguageBytes(repoFullName) {
+      const response = await githubFetch(`${apiBase}/repos/${repoFullName}/languages`, { headers });
+      if (!response.ok) {
+        console.warn(`Failed to fetch languages for ${repoFullName}: ${response.status} ${await response.text()}`);
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return response.json();
+    },
+
+    // Tags carry no date of their own; the tagged commit's committer date stands in.
+    async fetchLatestTags(repoFullName, limit) {
+      const response = await githubFetch(`${apiBase}/repos/${repoFullName}/tags?per_page=${limit}`, { headers });
+      if (!response.ok) {
+        console.warn(`Failed to fetch tags for ${repoFullName}: ${response.status} ${await response.text()}`);
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const tags: GithubApiTag[] = await response.json();
+      const dated: ScmTag[] = [];
+      for (const tag of tags) {
+        try {
+          const commitDetail = await fetchCommitDetails(repoFullName, tag.commit.sha, headers, apiBase);
+          dated.push({ name: tag.name, date: commitDetail?.commit.committer?.date || new Date().toISOString() });
+        } catch (commitDetailError: any) {
+          console.warn(`Could not fetch commit details for tag ${tag.name} in repo ${repoFullName}: ${commitDetailError.message}`);
+          dated.push({ name: tag.name, date: new Date().toISOString() });
+        }
+      }
+      return dated;
+    },
+
+    fetchCommitHistory: (repoFullName, since) => fetchCommitHistory(repoFullName, since, accessToken, githubGraphqlUrlFor(rootUrl)),
+    fetchPullRequests: (repoFullName, since) => fetchPullRequestsWithReviews(repoFullName, since, headers, apiBase),
+    fetchWorkflowRuns: (repoFullName, since, cached) => fetchWorkflowRuns(repoFullName, since, cached, headers, apiBase),
+
+    cloneUrl(repo) {
+      if (!repo.url) return null;
+      return repo.url.startsWith('https://') && accessToken
+        ? repo.url.replace('https://', `https://x-access-token:${accessToken}@`)
+        : repo.url;
+    },
+  };
+}
@@ -0,0 +1,193 @@
+// src/lib/github-pulls.ts
+// Derives pull request flow metrics for a period from PRs and their reviews: throughput, time to first review,
+// time to merge, review rounds, size distribution and per-reviewer load.
+import type { GithubPullRequestMetrics, GithubReviewerLoad } from './db';
+import { GITHUB_PR_SIZE_BUCKETS } from './constants';
+import { summarizeDurations } from './jira-flow';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export interface GithubApiPullRequest {
+  number: number;
+  user: { login: string } | null;
+  draft?: boolean;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+  additions?: number; // Only present on the single-PR endpoint.
+  deletions?: number;
+}
+
+export interface GithubApiReview {
+  user: { login: string } | null;
+  state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED' | 'PENDING' | string;
+  submitted_at?: string;
+  commit_id?: string;
+}
+
+export interface GithubPullRequestRecord {
+  repoFullName: string;
+  pull: GithubApiPullRequest;
+  reviews: GithubApiReview[];
+}
+
+// Keeps only the fields the metrics read: the REST objects also carry bodies, links and nested repo/user objects,
+// which would bloat the per-repo cache.
+export function toPullRequestRecord(repoFullName: string, pull: GithubApiPullRequest, reviews: GithubApiReview[]): GithubPullRequestRecord {
+  return {
+    repoFullName,
+    pull: {
+      number: pull.number,
+      user: pull.user ? { login: pull.user.login } : null,
+      draft: pull.draft,
+      created_at: pull.created_at,
+      updated_at: pull.updated_at,
+      closed_at: pull.closed_at,
+      merged_at: pull.merged_at,
+      additions: pull.additions,
+      deletions: pull.deletions,
+    },
+    reviews: reviews.map(review => ({
+      user: review.user ? { login: review.user.login } : null,
+      state: review.state,
+      submitted_at: review.submitted_at,
+      commit_id: review.commit_id,
+    })),
+  };
+}
+
+// A single approval, change request or comment, for providers that don't batch them into reviews.
+export interface ReviewEvent {
+  login: string;
+  state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED';
+  at: string;
+}
+
+// A pushed head of the pull request and when it was pushed.
+export interface PullRequestVersion {
+  commitId: string;
+  at: string;
+}
+
+// Folds events into one review per reviewer and version they were made against, much as a GitHub review batches its
+// comments; a verdict on that version wins over comments.
+export function foldReviewEvents(events: ReviewEvent[], versions: PullRequestVersion[]): GithubApiReview[] {
+  const versionsOldestFirst = [...versions].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+  const versionAt = (at: string) =>
+    versionsOldestFirst.filter(version => new Date(version.at) <= new Date(at)).pop()?.commitId;
+
+  const reviews = new Map<string, GithubApiReview>();
+  for (const event of [...events].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime())) {
+    const commitId = versionAt(event.at);
+    const key = `${event.login}|${commitId}`;
+    const existing = reviews.get(key);
+    if (!existing) {
+      reviews.set(key, { user: { login: event.login }, state: event.state, submitted_at: new Date(event.at).toISOString(), commit_id: commitId });
+    } else if (event.state !== 'COMMENTED') {
+      existing.state = event.state;
+    }
+  }
+  return Array.from(reviews.values());
+}
+
+// Resume from the most recently updated cached pull request; a review or merge bumps a PR's update time.
+export function pullRequestsFetchSince(cached: GithubPullRequestRecord[], historyStart: Date): Date {
+  const newest = cached.map(record => record.pull.updated_at).sort().pop();
+  if (!newest) return historyStart;
+  const since = new Date(newest);
+  return since > historyStart ? since : historyStart;
+}
+
+export function mergePullRequests(cached: GithubPullRequestRecord[], fetched: GithubPullRequestRecord[], historyStartMs: number): GithubPullRequestRecord[] {
+  const byNumber = new Map(cached.map(record => [record.pull.number, record]));
+  fetched.forEach(record => byNumber.set(record.pull.number, record));
+  return Array.from(byNumber.values())
+    .filter(record => new Date(record.pull.updated_at).getTime() >= historyStartMs)
+    .sort((a, b) => b.pull.updated_at.localeCompare(a.pull.updated_at));
+}
+
+function inWindow(timestamp: string | null | undefined, start: number, end: number): boolean {
+  if (!timestamp) return false;
+  const at = new Date(timestamp).getTime();
+  return at >= start && at <= end;
+}
+
+// Self-reviews and unsubmitted drafts say nothing about review latency or load.
+function submittedPeerReviews(record: GithubPullRequestRecord): GithubApiReview[] {
+  const author = record.pull.user?.login;
+  return record.reviews
+    .filter(review => review.state !== 'PENDING' && review.submitted_at && review.user?.login && review.user.login !== author)
+    .sort((a, b) => a.submitted_at!.localeCompare(b.submitted_at!));
+}
+
+export function pullRequestSizeBucket(lines: number): string {
+  return (GITHUB_PR_SIZE_BUCKETS.find(bucket => lines <= bucket.maxLines) || GITHUB_PR_SIZE_BUCKETS[GITHUB_PR_SIZE_BUCKETS.length - 1]).label;
+}
+
+export function computePullRequestMetrics(records: GithubPullRequestRecord[], start: number, end: number): GithubPullRequestMetrics {
+  const firstReviewDays: number[] = [];
+  const mergeDays: number[] = [];
+  const rounds: number[] = [];
+  const sizeDistribution: Record<string, number> = Object.fromEntries(GITHUB_PR_SIZE_BUCKETS.map(bucket => [bucket.label, 0]));
+  const reviewers = new Map<string, { reviews: number; pullRequests: Set<string> }>();
+  let opened = 0;
+  let merged = 0;
+  let closed = 0;
+
+  for (const record of records) {
+    const { pull } = record;
+    const reviews = submittedPeerReviews(record);
+    const createdAt = new Date(pull.created_at).getTime();
+
+    if (inWindow(pull.created_at, start, end)) {
+      opened++;
+      if (reviews.length > 0) {
+        firstReviewDays.push(Math.max(0, (new Date(reviews[0].submitted_at!).getTime() - createdAt) / MS_PER_DAY));
+      }
+      if (pull.additions !== undefined && pull.deletions !== undefined) {
+        const bucket = pullRequestSizeBucket(pull.additions + pull.deletions);
+        sizeDistribution[bucket] = (sizeDistribution[bucket] || 0) + 1;
+      }
+    }
+
+    if (inWindow(pull.merged_at, start, end)) {
+      merged++;
+      mergeDays.push(Math.max(0, (new Date(pull.merged_at!).getTime() - createdAt) / MS_PER_DAY));
+      // Each reviewed commit is one round: reviewers looked, the author pushed again, reviewers looked again.
+      if (reviews.length > 0) {
+        rounds.push(new Set(reviews.map(review => review.commit_id || review.submitted_at)).size);
+      }
+    } else if (!pull.merged_at && inWindow(pull.closed_at, start, end)) {
+      closed++;
+    }
+
+    for (const review of reviews) {
+      if (!inWindow(review.submitted_at, start, end)) continue;
+      const login = review.user!.login;
+      const load = reviewers.get(login) || { reviews: 0, pullRequests: new Set<string>() };
+      load.reviews++;
+      load.pullRequests.add(`${record.repoFullName}#${pull.number}`);
+      reviewers.set(login, load);
+    }
+  }
+
+  const reviewerLoad: GithubReviewerLoad[] = Array.from(reviewers.entries())
+    .map(([login, load]) => ({ login, reviews: load.reviews, pullRequestsReviewed: load.pullRequests.size }))
+    .sort((a, b) => b.pullRequestsReviewed - a.pullRequestsReviewed || b.reviews - a.reviews);
+
+  return {
+    opened,
+    merged,
+    closed,
+    timeToFirstReview: summarizeDurations(firstReviewDays),
+    timeToMerge: summarizeDurations(mergeDays),
+    reviewRounds: {
+      averageRounds: rounds.length > 0 ? rounds.reduce((sum, r) => sum + r, 0) / rounds.length : 0,
+      maxRounds: rounds.length > 0 ? Math.max(...rounds) : 0,
+      reviewedCount: rounds.length,
+    },
+    sizeDistribution,
+    reviewerLoad,
+  };
+}
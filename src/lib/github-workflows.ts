@@ -0,0 +1,200 @@
+// src/lib/github-workflows.ts
+// GitHub Actions CI metrics. Workflow runs are cached per repo with the jobs details needed for queue time and
+// failing jobs; every period is then derived locally: success rate, run duration, queue time, flaky commits (a
+// workflow that failed and then passed on the same commit, by re-run or a new run) and the most-failing jobs.
+import type { GithubCiDurationStats, GithubCiFailingJob, GithubCiMetrics, GithubCiWorkflowMetrics } from './db';
+import { GITHUB_CI_FAILING_JOBS_LIMIT } from './constants';
+import { percentile } from './jira-flow';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Runs created this recently are listed again on every refresh so re-runs of already cached runs are picked up.
+export const WORKFLOW_RERUN_OVERLAP_DAYS = 3;
+
+export interface GithubApiWorkflowRun {
+  id: number;
+  name: string | null;
+  workflow_id: number;
+  head_sha: string;
+  event: string;
+  status: string | null; // queued, in_progress, completed, ...
+  conclusion: string | null; // success, failure, timed_out, cancelled, skipped, ...
+  run_attempt?: number;
+  created_at: string;
+  run_started_at?: string;
+  updated_at: string;
+}
+
+export interface GithubApiWorkflowRunsResponse {
+  total_count: number;
+  workflow_runs: GithubApiWorkflowRun[];
+}
+
+export interface GithubApiWorkflowJob {
+  id: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  run_attempt?: number;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface GithubApiWorkflowJobsResponse {
+  total_count: number;
+  jobs: GithubApiWorkflowJob[];
+}
+
+export interface GithubWorkflowRunRecord {
+  repoFullName: string;
+  runId: number;
+  workflowId: number;
+  workflowName: string;
+  headSha: string;
+  event: string;
+  status: string;
+  conclusion: string | null;
+  attempt: number;
+  createdAt: string;
+  updatedAt: string;
+  durationSeconds: number | null; // Completed runs only.
+  queueSeconds: number | null; // Null when the run's jobs were not fetched or none started.
+  failedJobs: string[]; // Names of failed jobs across all attempts; repeats when a job failed more than once.
+  earlierAttemptFailed: boolean;
+}
+
+const FAILED_CONCLUSIONS = ['failure', 'timed_out', 'startup_failure'];
+
+export const isRunCompleted = (run: { status: string | null }) => run.status === 'completed';
+const isSucceeded = (run: GithubWorkflowRunRecord) => run.conclusion === 'success';
+const isFailed = (run: GithubWorkflowRunRecord) => !!run.conclusion && FAILED_CONCLUSIONS.includes(run.conclusion);
+
+// `jobs` is null when they were not fetched (e.g. the run is still in progress).
+export function toWorkflowRunRecord(repoFullName: string, run: GithubApiWorkflowRun, jobs: GithubApiWorkflowJob[] | null): GithubWorkflowRunRecord {
+  const attempt = run.run_attempt || 1;
+  const startedAt = new Date(run.run_started_at || run.created_at).getTime();
+  const currentAttemptStarts = (jobs || [])
+    .filter(job => (job.run_attempt || attempt) === attempt && job.started_at)
+    .map(job => new Date(job.started_at!).getTime());
+  return {
+    repoFullName,
+    runId: run.id,
+    workflowId: run.workflow_id,
+    workflowName: run.name || String(run.workflow_id),
+    headSha: run.head_sha,
+    event: run.event,
+    status: run.status || 'unknown',
+    conclusion: run.conclusion,
+    attempt,
+    createdAt: run.created_at,
+    updatedAt: run.updated_at,
+    durationSeconds: isRunCompleted(run) ? Math.max(0, (new Date(run.updated_at).getTime() - startedAt) / 1000) : null,
+    queueSeconds: currentAttemptStarts.length > 0 ? Math.max(0, (Math.min(...currentAttemptStarts) - startedAt) / 1000) : null,
+    failedJobs: (jobs || []).filter(job => job.conclusion && FAILED_CONCLUSIONS.includes(job.conclusion)).map(job => job.name),
+    earlierAttemptFailed: (jobs || []).some(job => (job.run_attempt || attempt) < attempt && job.conclusion && FAILED_CONCLUSIONS.includes(job.conclusion)),
+  };
+}
+
+// Jobs are only re-fetched for runs that finished, or were re-run, since they were cached.
+export function needsJobDetails(run: GithubApiWorkflowRun, cached: GithubWorkflowRunRecord | undefined): boolean {
+  if (!isRunCompleted(run)) return false;
+  return !cached || !isRunCompleted(cached) || cached.attempt !== (run.run_attempt || 1) || cached.updatedAt !== run.updated_at;
+}
+
+// Resume from the oldest run still in flight, else the newest cached run, but always re-list the overlap window.
+export function workflowRunsFetchSince(cached: GithubWorkflowRunRecord[], historyStart: Date, now: number = Date.now()): Date {
+  const inFlight = cached.filter(run => !isRunCompleted(run)).map(run => run.createdAt).sort()[0];
+  const newest = cached.map(run => run.createdAt).sort().pop();
+  const resume = inFlight || newest;
+  const overlapStart = new Date(now - WORKFLOW_RERUN_OVERLAP_DAYS * MS_PER_DAY);
+  if (!resume) return historyStart;
+  const since = new Date(Math.min(new Date(resume).getTime(), overlapStart.getTime()));
+  return since > historyStart ? since : historyStart;
+}
+
+export function mergeWorkflowRuns(cached: GithubWorkflowRunRecord[], fetched: GithubWorkflowRunRecord[], historyStartMs: number): GithubWorkflowRunRecord[] {
+  const byId = new Map(cached.map(run => [run.runId, run]));
+  fetched.forEach(run => byId.set(run.runId, run));
+  return Array.from(byId.values())
+    .filter(run => new Date(run.createdAt).getTime() >= historyStartMs)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function summarizeSeconds(values: number[]): GithubCiDurationStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  return { count: sorted.length, medianSeconds: percentile(sorted, 50), p90Seconds: percentile(sorted, 90) };
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => groups.set(key(item), [...(groups.get(key(item)) || []), item]));
+  return groups;
+}
+
+// Runs of one workflow on one commit, oldest first: a failure followed by a success means nothing changed but the
+// outcome. A re-run that passed after its earlier attempt failed counts the same way.
+function isFlaky(runsOnCommit: GithubWorkflowRunRecord[]): boolean {
+  if (runsOnCommit.some(run => isSucceeded(run) && run.earlierAttemptFailed)) return true;
+  const ordered = [...runsOnCommit].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const firstFailure = ordered.findIndex(isFailed);
+  return firstFailure >= 0 && ordered.slice(firstFailure + 1).some(isSucceeded);
+}
+
+const workflowKey = (run: GithubWorkflowRunRecord) => `${run.repoFullName}\u0000${run.workflowId}`;
+
+function countFlakyCommits(runs: GithubWorkflowRunRecord[]): number {
+  return Array.from(groupBy(runs, run => `${workflowKey(run)}\u0000${run.headSha}`).values()).filter(isFlaky).length;
+}
+
+export function computeCiMetrics(records: GithubWorkflowRunRecord[], start: number, end: number): GithubCiMetrics {
+  const runs = records.filter(run => {
+    const createdAt = new Date(run.createdAt).getTime();
+    return createdAt >= start && createdAt <= end;
+  });
+  const succeeded = runs.filter(isSucceeded).length;
+  const failed = runs.filter(isFailed).length;
+  const finishedDurations = runs
+    .filter(run => isSucceeded(run) || isFailed(run))
+    .map(run => run.durationSeconds)
+    .filter((seconds): seconds is number => seconds !== null);
+
+  const workflows: GithubCiWorkflowMetrics[] = Array.from(groupBy(runs, workflowKey).values()).map(workflowRuns => {
+    const workflowSucceeded = workflowRuns.filter(isSucceeded).length;
+    const workflowFailed = workflowRuns.filter(isFailed).length;
+    return {
+      repoFullName: workflowRuns[0].repoFullName,
+      workflowName: workflowRuns[0].workflowName,
+      runs: workflowRuns.length,
+      succeeded: workflowSucceeded,
+      failed: workflowFailed,
+      successRate: workflowSucceeded + workflowFailed > 0 ? workflowSucceeded / (workflowSucceeded + workflowFailed) : 0,
+      medianDurationSeconds: summarizeSeconds(workflowRuns
+        .filter(run => isSucceeded(run) || isFailed(run))
+        .map(run => run.durationSeconds)
+        .filter((seconds): seconds is number => seconds !== null)).medianSeconds,
+      flakyCommits: countFlakyCommits(workflowRuns),
+    };
+  }).sort((a, b) => b.failed - a.failed || b.runs - a.runs);
+
+  const jobFailures = new Map<string, GithubCiFailingJob>();
+  runs.forEach(run => run.failedJobs.forEach(jobName => {
+    const key = `${workflowKey(run)}\u0000${jobName}`;
+    const entry = jobFailures.get(key) || { repoFullName: run.repoFullName, workflowName: run.workflowName, jobName, failures: 0 };
+    entry.failures++;
+    jobFailures.set(key, entry);
+  }));
+
+  return {
+    runs: runs.length,
+    succeeded,
+    failed,
+    successRate: succeeded + failed > 0 ? succeeded / (succeeded + failed) : 0,
+    duration: summarizeSeconds(finishedDurations),
+    queueTime: summarizeSeconds(runs.map(run => run.queueSeconds).filter((seconds): seconds is number => seconds !== null)),
+    flakyCommits: countFlakyCommits(runs),
+    workflows,
+    failingJobs: Array.from(jobFailures.values())
+      .sort((a, b) => b.failures - a.failures || a.jobName.localeCompare(b.jobName))
+      .slice(0, GITHUB_CI_FAILING_JOBS_LIMIT),
+  };
+}
@@ -0,0 +1,17 @@
+// src/lib/gitlab-client.ts
+// HTTP helpers for GitLab REST calls (gitlab.com and self-managed); retries and rate limits are handled by scmFetch.
+import { scmFetch } from './scm-client';
+
+export function gitlabApiBaseFor(rootUrl: string): string {
+  return `${new URL(rootUrl).origin}/api/v4`;
+}
+
+// Offset-paginated GitLab endpoints link the next page like GitHub does.
+export function nextGitlabPageUrl(response: Response): string {
+  const nextLink = (response.headers.get('Link') || '').split(',').find(link => link.includes('rel="next"'));
+  return nextLink?.match(/<([^>]+)>/)?.[1] || "";
+}
+
+export function gitlabFetch(url: string, init?: RequestInit): Promise<Response> {
+  return scmFetch('GitLab', url, init);
+}
@@ -0,0 +1,265 @@
+// src/lib/gitlab-provider.ts
+// GitLab (gitlab.com and self-managed) source-control provider. Projects, commits, tags and merge requests are read
+// from the REST API with a personal access token and mapped onto the GitHub-shaped records the code metrics are
+// computed from: a merge request becomes a pull request, and its approvals and reviewer comments become reviews.
+import type { GithubRepoData } from './schemas';
+import type { ScmProvider } from './scm';
+import type { GithubCommitRecord } from './github-commits';
+import { foldReviewEvents, type GithubApiReview, type GithubPullRequestRecord, type ReviewEvent } from './github-pulls';
+import { gitlabApiBaseFor, gitlabFetch, nextGitlabPageUrl } from './gitlab-client';
+import { withCloneCredentials } from './scm-client';
+
+interface GitlabApiProject {
+  id: number;
+  name: string;
+  path_with_namespace: string;
+  web_url: string;
+  statistics?: { repository_size?: number };
+}
+
+interface GitlabApiTag {
+  name: string;
+  commit: { id: string; committed_date?: string; created_at?: string } | null;
+}
+
+export interface GitlabApiCommit {
+  id: string;
+  committed_date: string;
+  message: string;
+  author_name?: string | null;
+  author_email?: string | null;
+  committer_name?: string | null;
+  stats?: { additions: number; deletions: number };
+}
+
+export interface GitlabApiMergeRequest {
+  iid: number;
+  author: { username: string } | null;
+  draft?: boolean;
+  work_in_progress?: boolean; // Pre-14.0 name of `draft`.
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+}
+
+export interface GitlabApiNote {
+  author: { username: string } | null;
+  body: string;
+  system: boolean;
+  created_at: string;
+}
+
+export interface GitlabApiMergeRequestVersion {
+  head_commit_sha: string;
+  created_at: string;
+}
+
+export interface GitlabApiDiff {
+  diff: string;
+}
+
+const APPROVED_NOTE = /^approved this merge request/i;
+const CHANGES_REQUESTED_NOTE = /^requested changes/i;
+
+const toIso = (timestamp: string | null) => (timestamp ? new Date(timestamp).toISOString() : null);
+
+// Projects are addressed by their URL-encoded full path, which is also the repo's fullName.
+const projectPath = (repoFullName: string) => encodeURIComponent(repoFullName);
+
+// A root URL path names a group (subgroups included) or a user; a bare host lists the token owner's projects.
+export function gitlabNamespaceFor(rootUrl: string): string {
+  const parts = new URL(rootUrl).pathname.split('/').filter(Boolean);
+  const end = parts.indexOf('-');
+  return (end >= 0 ? parts.slice(0, end) : parts).filter((part, index) => !(index === 0 && part === 'groups')).join('/');
+}
+
+export function toGitlabCommitRecord(repoFullName: string, commit: GitlabApiCommit): GithubCommitRecord {
+  return {
+    repoFullName,
+    oid: commit.id,
+    committedDate: new Date(commit.committed_date).toISOString(),
+    additions: commit.stats?.additions || 0,
+    deletions: commit.stats?.deletions || 0,
+    message: commit.message,
+    committer: commit.author_name || commit.committer_name || null,
+    authorLogin: null, // Commits are not linked to GitLab users; the people registry resolves them by name and email.
+    authorName: commit.author_name || null,
+    authorEmail: commit.author_email?.toLowerCase() || null,
+  };
+}
+
+// Lines added and removed across the merge request's file diffs, skipping the unified diff file headers.
+export function countDiffLines(diffs: GitlabApiDiff[]): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+  for (const { diff } of diffs) {
+    for (const line of (diff || '').split('\n')) {
+      if (line.startsWith('+') && !line.startsWith('+++ ')) additions++;
+      else if (line.startsWith('-') && !line.startsWith('--- ')) deletions++;
+    }
+  }
+  return { additions, deletions };
+}
+
+// Reviewer comments and approval system notes become review events; each merge request version is a pushed head.
+export function toGitlabReviews(notes: GitlabApiNote[], versions: GitlabApiMergeRequestVersion[]): GithubApiReview[] {
+  const events: ReviewEvent[] = [];
+  for (const note of notes) {
+    const state = !note.system ? 'COMMENTED' : APPROVED_NOTE.test(note.body) ? 'APPROVED' : CHANGES_REQUESTED_NOTE.test(note.body) ? 'CHANGES_REQUESTED' : null;
+    if (state && note.author) {
+      events.push({ login: note.author.username, state, at: note.created_at });
+    }
+  }
+  return foldReviewEvents(events, versions.map(version => ({ commitId: version.head_commit_sha, at: version.created_at })));
+}
+
+export function toGitlabPullRequestRecord(
+  repoFullName: string,
+  mergeRequest: GitlabApiMergeRequest,
+  reviews: GithubApiReview[],
+  size: { additions: number; deletions: number } | null,
+): GithubPullRequestRecord {
+  return {
+    repoFullName,
+    pull: {
+      number: mergeRequest.iid,
+      user: mergeRequest.author ? { login: mergeRequest.author.username } : null,
+      draft: mergeRequest.draft ?? mergeRequest.work_in_progress,
+      created_at: toIso(mergeRequest.created_at)!,
+      updated_at: toIso(mergeRequest.updated_at)!,
+      closed_at: toIso(mergeRequest.closed_at),
+      merged_at: toIso(mergeRequest.merged_at),
+      additions: size?.additions,
+      deletions: size?.deletions,
+    },
+    reviews,
+  };
+}
+
+export function createGitlabProvider(rootUrl: string, accessToken: string): ScmProvider {
+  const apiBase = gitlabApiBaseFor(rootUrl);
+  const headers = { 'PRIVATE-TOKEN': accessToken, Accept: 'application/json' };
+
+  async function fetchJson<T>(url: string): Promise<T> {
+    const response = await gitlabFetch(url, { headers });
+    if (!response.ok) {
+      throw new Error(`GitLab request failed (${response.status}) for ${url}: ${(await response.text()).substring(0, 300)}`);
+    }
+    return response.json();
+  }
+
+  async function fetchAllPages<T>(url: string): Promise<T[]> {
+    const items: T[] = [];
+    let pageUrl = url;
+    while (pageUrl) {
+      const response = await gitlabFetch(pageUrl, { headers });
+      if (!response.ok) {
+        throw new Error(`GitLab request failed (${response.status}) for ${pageUrl}: ${(await response.text()).substring(0, 300)}`);
+      }
+      items.push(...await response.json() as T[]);
+      pageUrl = nextGitlabPageUrl(response);
+    }
+    return items;
+  }
+
+  async function projectListingUrl(): Promise<string> {
+    const namespace = gitlabNamespaceFor(rootUrl);
+    const query = 'archived=false&per_page=100';
+    if (!namespace) {
+      return `${apiBase}/projects?membership=true&${query}`;
+    }
+    const groupResponse = await gitlabFetch(`${apiBase}/groups/${encodeURIComponent(namespace)}`, { headers });
+    if (groupResponse.ok) {
+      return `${apiBase}/groups/${encodeURIComponent(namespace)}/projects?include_subgroups=true&${query}`;
+    }
+    if (groupResponse.status !== 404) {
+      throw new Error(`GitLab request failed (${groupResponse.status}) for group ${namespace}: ${(await groupResponse.text()).substring(0, 300)}`);
+    }
+    return `${apiBase}/users/${encodeURIComponent(namespace)}/projects?${query}`;
+  }
+
+  return {
+    id: 'gitlab',
+    label: 'GitLab',
+
+    async listRepos() {
+      const source = await projectListingUrl();
+      console.log(`Scanning GitLab projects from: ${source}`);
+      const projects = await fetchAllPages<GitlabApiProject>(source);
+      return {
+        source,
+        repos: projects.map((project): GithubRepoData => ({
+          id: String(project.id),
+          name: project.name,
+          url: project.web_url,
+          fullName: project.path_with_namespace,
+        })),
+      };
+    },
+
+    // GitLab reports each language's share rather than its bytes; the shares are scaled by the repository size so
+    // byte-based totals stay comparable across repos. The size includes history, so estimates run high.
+    async fetchLanguageBytes(repoFullName) {
+      const shares = await fetchJson<Record<string, number>>(`${apiBase}/projects/${projectPath(repoFullName)}/languages`);
+      const project = await fetchJson<GitlabApiProject>(`${apiBase}/projects/${projectPath(repoFullName)}?statistics=true`);
+      const repositorySize = project.statistics?.repository_size;
+      if (repositorySize === undefined) {
+        throw new Error("Repository statistics are not visible to this token (Reporter access is required).");
+      }
+      return Object.fromEntries(Object.entries(shares).map(([language, percent]) => [language, Math.round((percent / 100) * repositorySize)]));
+    },
+
+    async fetchLatestTags(repoFullName, limit) {
+      const tags = await fetchJson<GitlabApiTag[]>(`${apiBase}/projects/${projectPath(repoFullName)}/repository/tags?order_by=updated&sort=desc&per_page=${limit}`);
+      return tags.map(tag => ({
+        name: tag.name,
+        date: toIso(tag.commit?.committed_date || tag.commit?.created_at || null) || new Date().toISOString(),
+      }));
+    },
+
+    // Default branch history with per-commit line stats.
+    async fetchCommitHistory(repoFullName, since) {
+      const commits = await fetchAllPages<GitlabApiCommit>(
+        `${apiBase}/projects/${projectPath(repoFullName)}/repository/commits?since=${encodeURIComponent(since.toISOString())}&with_stats=true&per_page=100`
+      );
+      return commits.map(commit => toGitlabCommitRecord(repoFullName, commit));
+    },
+
+    // Merge requests updated since `since`, each with its diffs (for size), notes (for reviews) and versions (for
+    // review rounds). Diffs need GitLab 15.7+; on older instances the size is omitted.
+    async fetchPullRequests(repoFullName, since) {
+      const project = `${apiBase}/projects/${projectPath(repoFullName)}`;
+      const mergeRequests = await fetchAllPages<GitlabApiMergeRequest>(
+        `${project}/merge_requests?state=all&order_by=updated_at&sort=desc&updated_after=${encodeURIComponent(since.toISOString())}&per_page=100`
+      );
+      const records: GithubPullRequestRecord[] = [];
+      for (const mergeRequest of mergeRequests) {
+        const mergeRequestUrl = `${project}/merge_requests/${mergeRequest.iid}`;
+        let size: { additions: number; deletions: number } | null = null;
+        try {
+          size = countDiffLines(await fetchAllPages<GitlabApiDiff>(`${mergeRequestUrl}/diffs?per_page=100`));
+        } catch (e: any) {
+          console.warn(`Failed to fetch diffs for ${repoFullName}!${mergeRequest.iid}: ${e.message}. Size will be omitted.`);
+        }
+        let reviews: GithubApiReview[] = [];
+        try {
+          const notes = await fetchAllPages<GitlabApiNote>(`${mergeRequestUrl}/notes?sort=asc&order_by=created_at&per_page=100`);
+          const versions = await fetchAllPages<GitlabApiMergeRequestVersion>(`${mergeRequestUrl}/versions?per_page=100`);
+          reviews = toGitlabReviews(notes, versions);
+        } catch (e: any) {
+          console.warn(`Failed to fetch reviews for ${repoFullName}!${mergeRequest.iid}: ${e.message}.`);
+        }
+        records.push(toGitlabPullRequestRecord(repoFullName, mergeRequest, reviews, size));
+      }
+      return records;
+    },
+
+    fetchWorkflowRuns: null,
+
+    cloneUrl(repo) {
+      if (!repo.url) return null;
+      return withCloneCredentials(repo.url.endsWith('.git') ? repo.url : `${repo.url}.git`, accessToken, 'oauth2');
+    },
+  };
+}
@@ -0,0 +1,168 @@
+// src/lib/identity.ts
+// Resolves the many names one engineer has across GitHub (login, commit name/email) and Jira (account ID, display
+// name) to a single person from the team's registry, and suggests merges for identities that aren't mapped yet.
+// Suggestions link identities that appear together (the same commit author, the same Jira user) or whose
+// normalized names match (e.g. "Jane Doe", "jane.doe@corp.com" and "janedoe").
+import type { GithubCommitterActivity, JiraAssigneeIdentity, Person, ResolvedContributor } from './db';
+import type { IdentityKind, PersonIdentity } from './schemas';
+
+const MIN_NAME_MATCH_LENGTH = 4;
+
+export interface IdentityMergeSuggestion {
+  personId: string | null; // The person to add the identities to; null means a new person.
+  displayName: string;
+  identities: PersonIdentity[]; // Only identities not yet mapped to anyone.
+  reason: string;
+}
+
+// Logins and emails are case-insensitive, and so are names for matching purposes.
+export function normalizeIdentity(identity: PersonIdentity): PersonIdentity {
+  const value = identity.value.trim();
+  return { kind: identity.kind, value: identity.kind === 'github_login' || identity.kind === 'git_email' ? value.toLowerCase() : value };
+}
+
+function identityKey(identity: PersonIdentity): string {
+  return `${identity.kind}:${identity.value.trim().toLowerCase()}`;
+}
+
+function nameKey(identity: PersonIdentity): string | null {
+  if (identity.kind === 'jira_account_id') return null;
+  const raw = identity.kind === 'git_email' ? identity.value.split('@')[0] : identity.value;
+  const normalized = raw.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+  return normalized.length >= MIN_NAME_MATCH_LENGTH ? normalized : null;
+}
+
+export function buildPersonIndex(people: Person[]): Map<string, Person> {
+  const index = new Map<string, Person>();
+  people.forEach(person => person.identities.forEach(identity => index.set(identityKey(identity), person)));
+  return index;
+}
+
+function resolve(index: Map<string, Person>, identities: PersonIdentity[]): Person | null {
+  for (const identity of identities) {
+    const person = index.get(identityKey(identity));
+    if (person) return person;
+  }
+  return null;
+}
+
+export function committerIdentities(activity: Pick<GithubCommitterActivity, 'login' | 'name' | 'email'>): PersonIdentity[] {
+  const identities: PersonIdentity[] = [];
+  if (activity.login) identities.push({ kind: 'github_login', value: activity.login });
+  if (activity.email) identities.push({ kind: 'git_email', value: activity.email });
+  if (activity.name) identities.push({ kind: 'git_name', value: activity.name });
+  return identities;
+}
+
+export function assigneeIdentities(assignee: Pick<JiraAssigneeIdentity, 'accountId' | 'displayName'>): PersonIdentity[] {
+  const identities: PersonIdentity[] = [];
+  if (assignee.accountId) identities.push({ kind: 'jira_account_id', value: assignee.accountId });
+  identities.push({ kind: 'jira_display_name', value: assignee.displayName });
+  return identities;
+}
+
+// Unmapped contributors are kept under their most readable identity rather than dropped.
+function aggregateResolved(index: Map<string, Person>, entries: { identities: PersonIdentity[]; label: string; count: number }[]): ResolvedContributor[] {
+  const byKey = new Map<string, ResolvedContributor>();
+  for (const entry of entries) {
+    const person = resolve(index, entry.identities);
+    const key = person ? `person:${person.id}` : `label:${entry.label.toLowerCase()}`;
+    const existing = byKey.get(key) || { personId: person?.id || null, displayName: person?.displayName || entry.label, count: 0 };
+    existing.count += entry.count;
+    byKey.set(key, existing);
+  }
+  return Array.from(byKey.values()).sort((a, b) => b.count - a.count);
+}
+
+export function resolveCommitters(people: Person[], activity: GithubCommitterActivity[]): ResolvedContributor[] {
+  return aggregateResolved(buildPersonIndex(people), activity.map(entry => ({
+    identities: committerIdentities(entry),
+    label: entry.login || entry.name || entry.email || 'unknown',
+    count: entry.commits,
+  })));
+}
+
+export function resolveAssignees(people: Person[], assignees: JiraAssigneeIdentity[]): ResolvedContributor[] {
+  return aggregateResolved(buildPersonIndex(people), assignees.map(entry => ({
+    identities: assigneeIdentities(entry),
+    label: entry.displayName,
+    count: entry.issues,
+  })));
+}
+
+const DISPLAY_NAME_PREFERENCE: IdentityKind[] = ['jira_display_name', 'git_name', 'github_login', 'git_email', 'jira_account_id'];
+
+// `observedGroups` are identities seen together on one commit author or one Jira user.
+export function suggestIdentityMerges(people: Person[], observedGroups: PersonIdentity[][]): IdentityMergeSuggestion[] {
+  const index = buildPersonIndex(people);
+  const identities = new Map<string, PersonIdentity>();
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    const root = parent.get(key) || key;
+    if (root === key) return key;
+    const compressed = find(root);
+    parent.set(key, compressed);
+    return compressed;
+  };
+  const union = (a: string, b: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent.set(rootA, rootB);
+  };
+
+  const groups = [...observedGroups, ...people.map(person => person.identities)];
+  for (const group of groups) {
+    group.forEach(identity => identities.set(identityKey(identity), identity));
+    group.slice(1).forEach(identity => union(identityKey(group[0]), identityKey(identity)));
+  }
+  const byName = new Map<string, string>();
+  identities.forEach((identity, key) => {
+    const name = nameKey(identity);
+    if (!name) return;
+    const existing = byName.get(name);
+    if (existing) union(existing, key);
+    else byName.set(name, key);
+  });
+
+  const clusters = new Map<string, PersonIdentity[]>();
+  identities.forEach((identity, key) => {
+    const root = find(key);
+    clusters.set(root, [...(clusters.get(root) || []), identity]);
+  });
+
+  const suggestions: IdentityMergeSuggestion[] = [];
+  clusters.forEach(cluster => {
+    const mappedPeople = new Map<string, Person>();
+    cluster.forEach(identity => {
+      const person = index.get(identityKey(identity));
+      if (person) mappedPeople.set(person.id, person);
+    });
+    const unmapped = cluster.filter(identity => !index.has(identityKey(identity)));
+    // Clusters spanning several people need a human decision; single unmapped identities have nothing to merge with.
+    if (unmapped.length === 0 || mappedPeople.size > 1 || (mappedPeople.size === 0 && unmapped.length < 2)) return;
+
+    const person = mappedPeople.values().next().value as Person | undefined;
+    const displayName = person?.displayName
+      || DISPLAY_NAME_PREFERENCE.map(kind => unmapped.find(identity => identity.kind === kind)?.value).find(Boolean)
+      || unmapped[0].value;
+    suggestions.push({
+      personId: person?.id || null,
+      displayName,
+      identities: unmapped,
+      reason: person
+        ? `Seen together with, or named like, identities already mapped to ${person.displayName}.`
+        : `${unmapped.length} identities seen together or with matching names.`,
+    });
+  });
+  return suggestions.sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
+
+export function unmappedIdentities(people: Person[], observedGroups: PersonIdentity[][]): PersonIdentity[] {
+  const index = buildPersonIndex(people);
+  const unmapped = new Map<string, PersonIdentity>();
+  observedGroups.flat().forEach(identity => {
+    const key = identityKey(identity);
+    if (!index.has(key)) unmapped.set(key, identity);
+  });
+  return Array.from(unmapped.values()).sort((a, b) => a.kind.localeCompare(b.kind) || a.value.localeCompare(b.value));
+}
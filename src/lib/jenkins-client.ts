@@ -0,0 +1,29 @@
+// src/lib/jenkins-client.ts
+// Reads job build history from the Jenkins JSON API (GET {url}/job/<name>/api/json) with the team's username and
+// API token as basic auth. Each job's newest builds are read in one request, trimmed to the given window.
+import type { JenkinsApiBuild, JenkinsApiJob } from './jenkins';
+import { JENKINS_MAX_BUILDS_PER_JOB } from './constants';
+
+const BUILD_FIELDS = 'number,result,building,duration,timestamp,url';
+
+// "folder/job" lives at /job/folder/job/job.
+export function jenkinsJobApiUrl(baseUrl: string, jobName: string): string {
+  const jobPath = jobName.split('/').map(segment => `job/${encodeURIComponent(segment)}`).join('/');
+  const params = new URLSearchParams({ tree: `allBuilds[${BUILD_FIELDS}]{0,${JENKINS_MAX_BUILDS_PER_JOB}}` });
+  return `${baseUrl.replace(/\/+$/, '')}/${jobPath}/api/json?${params}`;
+}
+
+export async function fetchJenkinsJobBuilds(baseUrl: string, username: string, apiToken: string, jobName: string, since: Date): Promise<JenkinsApiBuild[]> {
+  const headers = {
+    Authorization: `Basic ${Buffer.from(`${username}:${apiToken}`).toString('base64')}`,
+    Accept: 'application/json',
+  };
+  const url = jenkinsJobApiUrl(baseUrl, jobName);
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    const reason = response.status === 404 ? `job "${jobName}" not found` : (await response.text()).substring(0, 300);
+    throw new Error(`Jenkins request failed (${response.status}) for ${url}: ${reason}`);
+  }
+  const body = await response.json() as JenkinsApiJob;
+  return (body.allBuilds || []).filter(build => build.timestamp >= since.getTime());
+}
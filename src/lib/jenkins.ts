@@ -0,0 +1,159 @@
+// src/lib/jenkins.ts
+// Turns Jenkins job build history into per-period metrics: success rate (succeeded out of completed builds, where
+// unstable counts as not succeeded), duration stats with a daily or weekly trend, and the jobs ranked by failures.
+import type { JenkinsBuild, JenkinsBuildResult, JenkinsBuildStats, JenkinsFailingJob, JenkinsJobMetrics, JenkinsPeriodMetrics, JenkinsTeamMetricsData, JenkinsTrendPoint } from './db';
+import { JENKINS_FAILING_JOBS_LIMIT } from './constants';
+import { percentile } from './jira-flow';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const MAX_RECENT_BUILDS = 50;
+// Periods up to this long trend per day, longer ones per week.
+const DAILY_TREND_MAX_DAYS = 14;
+
+// One entry of GET /job/<name>/api/json?tree=allBuilds[...].
+export interface JenkinsApiBuild {
+  number: number;
+  result: string | null; // SUCCESS, FAILURE, UNSTABLE, ABORTED, NOT_BUILT; null while building.
+  building?: boolean;
+  duration?: number; // Milliseconds; 0 while building.
+  timestamp: number; // Start time, epoch milliseconds.
+  url?: string;
+}
+
+export interface JenkinsApiJob {
+  allBuilds?: JenkinsApiBuild[];
+}
+
+// Job names are entered one per line; folders use "folder/job" like the Jenkins UI's full name.
+export function parseJobNames(jobNames: string): string[] {
+  return Array.from(new Set(jobNames.split(/[\n,]/).map(name => name.trim().replace(/^\/+|\/+$/g, '')).filter(Boolean)));
+}
+
+export function normalizeBuildResult(build: JenkinsApiBuild): JenkinsBuildResult {
+  if (build.building || build.result === null) return 'building';
+  switch (build.result.toUpperCase()) {
+    case 'SUCCESS':
+      return 'success';
+    case 'UNSTABLE':
+      return 'unstable';
+    case 'ABORTED':
+      return 'aborted';
+    case 'NOT_BUILT':
+      return 'not_built';
+    default:
+      return 'failure';
+  }
+}
+
+export function toJenkinsBuild(jobName: string, build: JenkinsApiBuild): JenkinsBuild {
+  const result = normalizeBuildResult(build);
+  return {
+    jobName,
+    number: build.number,
+    result,
+    startedAt: new Date(build.timestamp).toISOString(),
+    durationSeconds: result !== 'building' && build.duration !== undefined ? build.duration / 1000 : undefined,
+    url: build.url,
+  };
+}
+
+const isCompleted = (build: JenkinsBuild) => build.result === 'success' || build.result === 'failure' || build.result === 'unstable';
+const isFailure = (build: JenkinsBuild) => build.result === 'failure' || build.result === 'unstable';
+
+function summarizeBuilds(builds: JenkinsBuild[]): JenkinsBuildStats {
+  const completed = builds.filter(isCompleted);
+  const succeededCount = completed.filter(build => build.result === 'success').length;
+  const durations = completed
+    .map(build => build.durationSeconds)
+    .filter((seconds): seconds is number => seconds !== undefined)
+    .sort((a, b) => a - b);
+  return {
+    buildCount: builds.length,
+    succeededCount,
+    failedCount: builds.filter(build => build.result === 'failure').length,
+    unstableCount: builds.filter(build => build.result === 'unstable').length,
+    abortedCount: builds.filter(build => build.result === 'aborted').length,
+    successRate: completed.length > 0 ? (succeededCount / completed.length) * 100 : 0,
+    medianDurationSeconds: percentile(durations, 50),
+    p90DurationSeconds: percentile(durations, 90),
+  };
+}
+
+function groupBy(builds: JenkinsBuild[], key: (build: JenkinsBuild) => string): Map<string, JenkinsBuild[]> {
+  const groups = new Map<string, JenkinsBuild[]>();
+  builds.forEach(build => groups.set(key(build), [...(groups.get(key(build)) || []), build]));
+  return groups;
+}
+
+function bucketStartOf(at: number, weekly: boolean): string {
+  const date = new Date(at);
+  date.setUTCHours(0, 0, 0, 0);
+  if (weekly) date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString();
+}
+
+// Every bucket in the period is present, so quiet days or weeks show up as gaps rather than being skipped.
+function computeTrend(builds: JenkinsBuild[], days: number, now: number): JenkinsTrendPoint[] {
+  const weekly = days > DAILY_TREND_MAX_DAYS;
+  const buckets = new Map<string, JenkinsBuild[]>();
+  for (let at = now - days * MS_PER_DAY; at <= now; at += MS_PER_DAY) {
+    buckets.set(bucketStartOf(at, weekly), []);
+  }
+  builds.forEach(build => {
+    const bucketStart = bucketStartOf(new Date(build.startedAt).getTime(), weekly);
+    buckets.set(bucketStart, [...(buckets.get(bucketStart) || []), build]);
+  });
+  return Array.from(buckets.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([bucketStart, bucketBuilds]) => {
+      const stats = summarizeBuilds(bucketBuilds);
+      return { bucketStart, buildCount: stats.buildCount, successRate: stats.successRate, medianDurationSeconds: stats.medianDurationSeconds };
+    });
+}
+
+function rankFailingJobs(jobs: Map<string, JenkinsBuild[]>): JenkinsFailingJob[] {
+  return Array.from(jobs.entries())
+    .map(([jobName, jobBuilds]) => {
+      const failures = jobBuilds.filter(isFailure);
+      const completed = jobBuilds.filter(isCompleted).length;
+      return {
+        jobName,
+        failures: failures.length,
+        buildCount: jobBuilds.length,
+        failureRate: completed > 0 ? (failures.length / completed) * 100 : 0,
+        lastFailureAt: failures.map(build => build.startedAt).sort().pop() || '',
+      };
+    })
+    .filter(job => job.failures > 0)
+    .sort((a, b) => b.failures - a.failures || b.failureRate - a.failureRate || a.jobName.localeCompare(b.jobName))
+    .slice(0, JENKINS_FAILING_JOBS_LIMIT);
+}
+
+export function computeJenkinsPeriodMetrics(builds: JenkinsBuild[], days: number, now: number = Date.now()): JenkinsPeriodMetrics {
+  const since = new Date(now - days * MS_PER_DAY).toISOString();
+  const inPeriod = builds.filter(build => build.startedAt >= since);
+  const buildsByJob = groupBy(inPeriod, build => build.jobName);
+
+  const jobs: JenkinsJobMetrics[] = Array.from(buildsByJob.entries()).map(([jobName, jobBuilds]) => {
+    const latest = jobBuilds.reduce((a, b) => (b.startedAt > a.startedAt ? b : a));
+    return { jobName, lastBuildAt: latest.startedAt, lastResult: latest.result, ...summarizeBuilds(jobBuilds) };
+  }).sort((a, b) => b.buildCount - a.buildCount || a.jobName.localeCompare(b.jobName));
+
+  return {
+    ...summarizeBuilds(inPeriod),
+    trend: computeTrend(inPeriod, days, now),
+    failingJobs: rankFailingJobs(buildsByJob),
+    jobs,
+  };
+}
+
+export function computeJenkinsMetrics(
+  builds: JenkinsBuild[],
+  periods: { key: string; days: number }[],
+  now: number = Date.now(),
+): Required<Pick<JenkinsTeamMetricsData, 'periods' | 'recentBuilds'>> {
+  return {
+    periods: Object.fromEntries(periods.map(period => [period.key, computeJenkinsPeriodMetrics(builds, period.days, now)])),
+    recentBuilds: [...builds].sort((a, b) => b.startedAt.localeCompare(a.startedAt)).slice(0, MAX_RECENT_BUILDS),
+  };
+}
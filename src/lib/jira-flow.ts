@@ -0,0 +1,170 @@
+// src/lib/jira-flow.ts
+// Reconstructs status history from Jira changelogs and derives flow metrics: lead time (created -> done),
+// cycle time (first "in progress" -> done) and time spent in each workflow status.
+import type { JiraDurationStats, JiraFlowMetrics, JiraCycleTimePoint } from './db';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const MAX_CYCLE_TIME_POINTS = 500;
+
+// Jira status category keys: "new" (To Do), "indeterminate" (In Progress), "done".
+export type JiraStatusCategoryKey = 'new' | 'indeterminate' | 'done' | string;
+
+export interface JiraChangelogItem {
+  field: string;
+  fieldId?: string;
+  from?: string | null;
+  to?: string | null;
+  fromString?: string | null;
+  toString?: string | null;
+}
+
+export interface JiraChangelogHistory {
+  created: string;
+  items: JiraChangelogItem[];
+}
+
+export interface JiraFlowIssue {
+  key: string;
+  fields: {
+    summary: string;
+    issuetype: { name: string };
+    status: { name: string; statusCategory?: { key: string } };
+    created: string;
+    resolutiondate?: string | null;
+  };
+  changelog?: { histories: JiraChangelogHistory[] };
+}
+
+export interface StatusInterval {
+  status: string;
+  start: number;
+  end: number;
+}
+
+// Linear interpolation between closest ranks, on an ascending-sorted array.
+export function percentile(sortedValues: number[], p: number): number {
+  if (sortedValues.length === 0) return 0;
+  if (sortedValues.length === 1) return sortedValues[0];
+  const rank = (p / 100) * (sortedValues.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (rank - lower);
+}
+
+export function summarizeDurations(days: number[]): JiraDurationStats {
+  const sorted = [...days].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, d) => sum + d, 0);
+  return {
+    count: sorted.length,
+    averageDays: sorted.length > 0 ? total / sorted.length : 0,
+    p50Days: percentile(sorted, 50),
+    p85Days: percentile(sorted, 85),
+    p95Days: percentile(sorted, 95),
+  };
+}
+
+// Falls back to name matching for statuses the category lookup did not return (e.g. deleted workflow states).
+export function statusCategoryOf(status: string, categories: Record<string, JiraStatusCategoryKey>): JiraStatusCategoryKey {
+  const known = categories[status.toLowerCase()];
+  if (known) return known;
+  const name = status.toLowerCase();
+  if (/(done|closed|resolved|complete|released|cancel)/.test(name)) return 'done';
+  if (/(to ?do|open|backlog|new|created|selected)/.test(name)) return 'new';
+  return 'indeterminate';
+}
+
+export function statusIntervals(issue: JiraFlowIssue, now: number): StatusInterval[] {
+  const transitions = (issue.changelog?.histories || [])
+    .flatMap(history => history.items
+      .filter(item => item.field === 'status')
+      .map(item => ({ at: new Date(history.created).getTime(), from: item.fromString || '', to: item.toString || '' })))
+    .sort((a, b) => a.at - b.at);
+
+  const created = new Date(issue.fields.created).getTime();
+  const intervals: StatusInterval[] = [];
+  let currentStatus = transitions.length > 0 ? transitions[0].from : issue.fields.status.name;
+  let currentStart = created;
+
+  for (const transition of transitions) {
+    if (currentStatus) {
+      intervals.push({ status: currentStatus, start: currentStart, end: Math.max(transition.at, currentStart) });
+    }
+    currentStatus = transition.to;
+    currentStart = transition.at;
+  }
+  if (currentStatus) {
+    intervals.push({ status: currentStatus, start: currentStart, end: Math.max(now, currentStart) });
+  }
+  return intervals;
+}
+
+export function computeJiraFlowMetrics(
+  issues: JiraFlowIssue[],
+  statusCategories: Record<string, JiraStatusCategoryKey>,
+  now: number = Date.now(),
+): JiraFlowMetrics {
+  const leadTimes: number[] = [];
+  const cycleTimes: number[] = [];
+  const timeInStatus: Record<string, number[]> = {};
+  const points: JiraCycleTimePoint[] = [];
+
+  for (const issue of issues) {
+    const intervals = statusIntervals(issue, now);
+    const isDone = statusCategoryOf(issue.fields.status.name, statusCategories) === 'done';
+
+    // Per issue, sum the time spent in each non-done status (an issue can revisit a status).
+    const perStatus: Record<string, number> = {};
+    for (const interval of intervals) {
+      if (statusCategoryOf(interval.status, statusCategories) === 'done') continue;
+      perStatus[interval.status] = (perStatus[interval.status] || 0) + (interval.end - interval.start) / MS_PER_DAY;
+    }
+    Object.entries(perStatus).forEach(([status, days]) => {
+      (timeInStatus[status] = timeInStatus[status] || []).push(days);
+    });
+
+    if (!isDone) continue;
+
+    // Completion is the most recent move into a done status; reopened-then-closed issues count from the final close.
+    const lastDoneInterval = [...intervals].reverse().find(i => statusCategoryOf(i.status, statusCategories) === 'done');
+    const completedAt = lastDoneInterval && intervals.length > 1
+      ? lastDoneInterval.start
+      : new Date(issue.fields.resolutiondate || issue.fields.created).getTime();
+    const createdAt = new Date(issue.fields.created).getTime();
+    const leadTimeDays = Math.max(0, (completedAt - createdAt) / MS_PER_DAY);
+    leadTimes.push(leadTimeDays);
+
+    const firstInProgress = intervals.find(i => statusCategoryOf(i.status, statusCategories) === 'indeterminate');
+    let cycleTimeDays: number | undefined;
+    if (firstInProgress && firstInProgress.start <= completedAt) {
+      cycleTimeDays = (completedAt - firstInProgress.start) / MS_PER_DAY;
+      cycleTimes.push(cycleTimeDays);
+    }
+
+    points.push({
+      key: issue.key,
+      summary: issue.fields.summary,
+      issueType: issue.fields.issuetype?.name || 'N/A',
+      completedAt: new Date(completedAt).toISOString(),
+      leadTimeDays,
+      cycleTimeDays,
+    });
+  }
+
+  const timeInStatusStats: JiraFlowMetrics['timeInStatus'] = {};
+  Object.entries(timeInStatus).forEach(([status, days]) => {
+    timeInStatusStats[status] = {
+      ...summarizeDurations(days),
+      totalDays: days.reduce((sum, d) => sum + d, 0),
+      category: statusCategoryOf(status, statusCategories),
+    };
+  });
+
+  return {
+    leadTime: summarizeDurations(leadTimes),
+    cycleTime: summarizeDurations(cycleTimes),
+    timeInStatus: timeInStatusStats,
+    cycleTimePoints: points
+      .sort((a, b) => b.completedAt.localeCompare(a.completedAt))
+      .slice(0, MAX_CYCLE_TIME_POINTS),
+  };
+}
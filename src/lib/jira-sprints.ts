@@ -0,0 +1,163 @@
+// src/lib/jira-sprints.ts
+// Derives per-sprint commitment, completion, scope change, carry-over and a daily burndown from the issues
+// returned by the Jira Agile sprint endpoint plus those removed during the sprint. Sprint membership, story point
+// values and done state are all replayed from each issue's changelog so they reflect what was true at sprint start
+// and close.
+import type { JiraSprintMetrics, JiraSprintBurndownPoint } from './db';
+import { statusCategoryOf, statusIntervals, type JiraFlowIssue, type JiraStatusCategoryKey } from './jira-flow';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+// Jira moves unfinished issues at the moment of completion; sample just before it to see the closing state.
+const SPRINT_CLOSE_OFFSET_MS = 1000;
+
+export interface JiraAgileSprint {
+  id: number;
+  name: string;
+  state: 'future' | 'active' | 'closed' | string;
+  goal?: string;
+  startDate?: string;
+  endDate?: string;
+  completeDate?: string;
+  originBoardId?: number;
+}
+
+// Data Center changelogs omit fieldId, so the display name is needed to match story point changes there.
+export interface JiraStoryPointsField {
+  id: string;
+  name?: string;
+}
+
+export interface JiraSprintIssue extends JiraFlowIssue {
+  fields: JiraFlowIssue['fields'] & Record<string, any>;
+}
+
+function fieldChanges(issue: JiraSprintIssue, matches: (field: string, fieldId?: string) => boolean) {
+  return (issue.changelog?.histories || [])
+    .flatMap(history => history.items
+      .filter(item => matches(item.field, item.fieldId))
+      .map(item => ({ at: new Date(history.created).getTime(), from: item.from ?? null, to: item.to ?? null, fromString: item.fromString ?? null, toString: item.toString ?? null })))
+    .sort((a, b) => a.at - b.at);
+}
+
+function parseIdList(value: string | null): string[] {
+  return (value || '').split(',').map(v => v.trim()).filter(Boolean);
+}
+
+function isMemberAt(issue: JiraSprintIssue, sprintId: number, at: number): boolean {
+  if (new Date(issue.fields.created).getTime() > at) return false;
+  const changes = fieldChanges(issue, field => field.toLowerCase() === 'sprint');
+  const id = String(sprintId);
+  // Issues never moved between sprints have been in this one since creation.
+  if (changes.length === 0) return true;
+  const lastBefore = [...changes].reverse().find(change => change.at <= at);
+  if (lastBefore) return parseIdList(lastBefore.to).includes(id);
+  return parseIdList(changes[0].from).includes(id);
+}
+
+function estimateAt(issue: JiraSprintIssue, storyPointsField: JiraStoryPointsField | undefined, at: number): number {
+  if (!storyPointsField) return 1;
+  const changes = fieldChanges(issue, (field, fieldId) => fieldId
+    ? fieldId === storyPointsField.id
+    : !!storyPointsField.name && field.toLowerCase() === storyPointsField.name.toLowerCase());
+  const lastBefore = [...changes].reverse().find(change => change.at <= at);
+  const firstAfter = changes.find(change => change.at > at);
+  const raw = lastBefore ? lastBefore.toString : firstAfter ? firstAfter.fromString : issue.fields[storyPointsField.id];
+  const value = typeof raw === 'number' ? raw : parseFloat(String(raw ?? ''));
+  return Number.isFinite(value) ? value : 0;
+}
+
+function isDoneAt(issue: JiraSprintIssue, statusCategories: Record<string, JiraStatusCategoryKey>, at: number): boolean {
+  const interval = statusIntervals(issue, at).find(i => i.start <= at && at <= i.end);
+  return !!interval && statusCategoryOf(interval.status, statusCategories) === 'done';
+}
+
+export function computeSprintMetrics(
+  sprint: JiraAgileSprint,
+  boardId: number,
+  issues: JiraSprintIssue[],
+  statusCategories: Record<string, JiraStatusCategoryKey>,
+  storyPointsField: JiraStoryPointsField | undefined,
+  now: number = Date.now(),
+): JiraSprintMetrics {
+  const start = sprint.startDate ? new Date(sprint.startDate).getTime() : now;
+  const isClosed = sprint.state === 'closed' && !!sprint.completeDate;
+  const close = isClosed ? new Date(sprint.completeDate!).getTime() - SPRINT_CLOSE_OFFSET_MS : now;
+
+  const metrics: JiraSprintMetrics = {
+    sprintId: sprint.id,
+    boardId,
+    name: sprint.name,
+    state: sprint.state,
+    goal: sprint.goal,
+    startDate: sprint.startDate,
+    endDate: sprint.endDate,
+    completeDate: sprint.completeDate,
+    estimationUnit: storyPointsField ? 'storyPoints' : 'issueCount',
+    committedPoints: 0,
+    completedPoints: 0,
+    addedPoints: 0,
+    removedPoints: 0,
+    estimateChangePoints: 0,
+    committedIssues: 0,
+    completedIssues: 0,
+    addedIssues: 0,
+    removedIssues: 0,
+    carryOverIssues: 0,
+    carryOverPoints: 0,
+    burndown: [],
+  };
+
+  for (const issue of issues) {
+    const atStart = isMemberAt(issue, sprint.id, start);
+    const atClose = isMemberAt(issue, sprint.id, close);
+    const startPoints = estimateAt(issue, storyPointsField, start);
+    const closePoints = estimateAt(issue, storyPointsField, close);
+
+    if (atStart) {
+      metrics.committedIssues++;
+      metrics.committedPoints += startPoints;
+    }
+    if (atStart && !atClose) {
+      metrics.removedIssues++;
+      metrics.removedPoints += startPoints;
+    }
+    if (!atStart && atClose) {
+      metrics.addedIssues++;
+      metrics.addedPoints += closePoints;
+    }
+    if (atStart && atClose) {
+      metrics.estimateChangePoints += closePoints - startPoints;
+    }
+    if (atClose) {
+      if (isDoneAt(issue, statusCategories, close)) {
+        metrics.completedIssues++;
+        metrics.completedPoints += closePoints;
+      } else if (isClosed) {
+        metrics.carryOverIssues++;
+        metrics.carryOverPoints += closePoints;
+      }
+    }
+  }
+
+  // One sample per day from start to close (or now for the active sprint), plus the closing state.
+  const burndown: JiraSprintBurndownPoint[] = [];
+  if (sprint.startDate) {
+    const samples: number[] = [];
+    for (let at = start; at < close; at += MS_PER_DAY) samples.push(at);
+    samples.push(close);
+    for (const at of samples) {
+      let remaining = 0;
+      let scope = 0;
+      for (const issue of issues) {
+        if (!isMemberAt(issue, sprint.id, at)) continue;
+        const points = estimateAt(issue, storyPointsField, at);
+        scope += points;
+        if (!isDoneAt(issue, statusCategories, at)) remaining += points;
+      }
+      burndown.push({ date: new Date(at).toISOString(), remaining, scope });
+    }
+  }
+  metrics.burndown = burndown;
+
+  return metrics;
+}
@@ -0,0 +1,122 @@
+// src/lib/migrations/0001_initial_schema.ts
+import type { Migration } from './types';
+
+// Baseline schema as it existed before versioned migrations. Uses IF NOT EXISTS so databases
+// created by the old ad-hoc getDb() setup can adopt the migration history without data loss.
+export const migration: Migration = {
+  id: 1,
+  name: 'initial_schema',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS teams (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE
+      );
+
+      CREATE TABLE IF NOT EXISTS api_keys (
+        teamId TEXT PRIMARY KEY,
+        geminiApiKey TEXT,
+        openAiApiKey TEXT,
+        claudeAiApiKey TEXT,
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS github_configs (
+        teamId TEXT PRIMARY KEY,
+        rootUrl TEXT,
+        accessToken TEXT,
+        selectedRepos TEXT, 
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS jira_configs (
+        teamId TEXT PRIMARY KEY,
+        projectName TEXT,
+        url TEXT,
+        username TEXT,
+        accessKey TEXT,
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS sonarqube_configs (
+        teamId TEXT PRIMARY KEY,
+        url TEXT,
+        accessKey TEXT,
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS boomerang_configs (
+        teamId TEXT PRIMARY KEY,
+        url TEXT,
+        accessKey TEXT,
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS team_members (
+        id TEXT PRIMARY KEY,
+        teamId TEXT NOT NULL,
+        technology TEXT,
+        band TEXT,
+        rate REAL,
+        numResources INTEGER,
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS github_team_metrics (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        teamId TEXT NOT NULL,
+        periodKey TEXT NOT NULL, 
+        data TEXT NOT NULL, 
+        lastRefreshed TEXT NOT NULL, 
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE,
+        UNIQUE(teamId, periodKey)
+      );
+      
+      CREATE TABLE IF NOT EXISTS jira_team_metrics (
+        teamId TEXT PRIMARY KEY,
+        totalIssues INTEGER DEFAULT 0,
+        issuesByType TEXT, 
+        issuesByAssignee TEXT, 
+        issuesByStatus TEXT, 
+        issuesByLabel TEXT, 
+        issuesByCategory TEXT, 
+        averageIssueAgeDays REAL DEFAULT 0,
+        lastRefreshed TEXT, 
+        info TEXT, 
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS sonarqube_team_metrics (
+        teamId TEXT PRIMARY KEY,
+        projectKey TEXT,
+        metricsData TEXT, 
+        lastRefreshed TEXT, 
+        info TEXT, 
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS application_db_config (
+        config_id TEXT PRIMARY KEY DEFAULT 'main_config',
+        dbType TEXT,
+        dbPath TEXT,
+        dbName TEXT,
+        lastUpdated TEXT
+      );
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      DROP TABLE IF EXISTS application_db_config;
+      DROP TABLE IF EXISTS sonarqube_team_metrics;
+      DROP TABLE IF EXISTS jira_team_metrics;
+      DROP TABLE IF EXISTS github_team_metrics;
+      DROP TABLE IF EXISTS team_members;
+      DROP TABLE IF EXISTS boomerang_configs;
+      DROP TABLE IF EXISTS sonarqube_configs;
+      DROP TABLE IF EXISTS jira_configs;
+      DROP TABLE IF EXISTS github_configs;
+      DROP TABLE IF EXISTS api_keys;
+      DROP TABLE IF EXISTS teams;
+    `);
+  },
+};
@@ -0,0 +1,45 @@
+// src/lib/migrations/0002_backfill_legacy_columns.ts
+import type { Migration } from './types';
+import { addColumnIfMissing, columnExists } from './helpers';
+
+// Replaces the PRAGMA table_info / ALTER TABLE checks that used to run on every getDb() call.
+// Only databases created by very old builds are missing these columns; on anything newer this is a no-op.
+export const migration: Migration = {
+  id: 2,
+  name: 'backfill_legacy_columns',
+  up: async (db) => {
+    await addColumnIfMissing(db, 'github_configs', 'accessToken', 'TEXT');
+    await addColumnIfMissing(db, 'github_configs', 'selectedRepos', 'TEXT');
+
+    await addColumnIfMissing(db, 'jira_configs', 'url', 'TEXT');
+    await addColumnIfMissing(db, 'jira_configs', 'username', 'TEXT');
+    await addColumnIfMissing(db, 'jira_configs', 'accessKey', 'TEXT');
+
+    await addColumnIfMissing(db, 'sonarqube_team_metrics', 'info', 'TEXT');
+    await addColumnIfMissing(db, 'sonarqube_team_metrics', 'projectKey', 'TEXT');
+    await addColumnIfMissing(db, 'sonarqube_team_metrics', 'metricsData', 'TEXT');
+
+    await addColumnIfMissing(db, 'jira_team_metrics', 'info', 'TEXT');
+
+    // periodKey is part of a UNIQUE constraint and cannot be added with ALTER TABLE. The table only
+    // caches data that the next GitHub refresh regenerates, so it is rebuilt rather than copied.
+    if (!(await columnExists(db, 'github_team_metrics', 'periodKey'))) {
+      await db.exec(`
+        DROP TABLE github_team_metrics;
+        CREATE TABLE github_team_metrics (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          teamId TEXT NOT NULL,
+          periodKey TEXT NOT NULL, 
+          data TEXT NOT NULL, 
+          lastRefreshed TEXT NOT NULL, 
+          FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE,
+          UNIQUE(teamId, periodKey)
+        );
+      `);
+      console.log("Recreated github_team_metrics table with periodKey column.");
+    }
+  },
+  down: async () => {
+    // Backfilled columns are part of the baseline schema in 0001; nothing to undo.
+  },
+};
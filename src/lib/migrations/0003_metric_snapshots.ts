@@ -0,0 +1,32 @@
+// src/lib/migrations/0003_metric_snapshots.ts
+import type { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+export const migration: Migration = {
+  id: 3,
+  name: 'metric_snapshots',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS metric_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        teamId TEXT NOT NULL,
+        source TEXT NOT NULL, 
+        snapshotKey TEXT NOT NULL, 
+        data TEXT NOT NULL, 
+        capturedAt TEXT NOT NULL, 
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_metric_snapshots_lookup
+        ON metric_snapshots (teamId, source, snapshotKey, capturedAt);
+    `);
+    await addColumnIfMissing(db, 'jira_team_metrics', 'openIssues', 'INTEGER');
+  },
+  down: async (db) => {
+    await db.exec(`
+      DROP INDEX IF EXISTS idx_metric_snapshots_lookup;
+      DROP TABLE IF EXISTS metric_snapshots;
+      ALTER TABLE jira_team_metrics DROP COLUMN openIssues;
+    `);
+  },
+};
@@ -0,0 +1,31 @@
+// src/lib/migrations/0004_encrypt_credentials.ts
+import type { Migration } from './types';
+import { decryptSecret, encryptSecret, isEncryptedSecret, transformSecretColumns, type SecretColumnGroup } from '../secrets';
+
+// Frozen copy of the secret columns that existed when this migration shipped. SECRET_COLUMNS keeps
+// growing with later config tables, which do not exist yet at this point in the migration history.
+const CREDENTIAL_COLUMNS: SecretColumnGroup[] = [
+  { table: 'api_keys', keyColumn: 'teamId', columns: ['geminiApiKey', 'openAiApiKey', 'claudeAiApiKey'] },
+  { table: 'github_configs', keyColumn: 'teamId', columns: ['accessToken'] },
+  { table: 'jira_configs', keyColumn: 'teamId', columns: ['accessKey'] },
+  { table: 'sonarqube_configs', keyColumn: 'teamId', columns: ['accessKey'] },
+  { table: 'boomerang_configs', keyColumn: 'teamId', columns: ['accessKey'] },
+];
+
+export const migration: Migration = {
+  id: 4,
+  name: 'encrypt_credentials',
+  up: async (db) => {
+    // encryptSecret throws when CREDENTIALS_MASTER_KEY is unset, so a database holding plaintext
+    // credentials refuses to start until a key is configured. Empty databases migrate without one.
+    const encrypted = await transformSecretColumns(db, CREDENTIAL_COLUMNS, stored =>
+      isEncryptedSecret(stored) ? stored : encryptSecret(stored)
+    );
+    if (encrypted > 0) {
+      console.log(`Encrypted ${encrypted} stored credential value(s).`);
+    }
+  },
+  down: async (db) => {
+    await transformSecretColumns(db, CREDENTIAL_COLUMNS, stored => decryptSecret(stored));
+  },
+};
@@ -0,0 +1,15 @@
+// src/lib/migrations/0005_jira_auth_mode.ts
+import type { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+// Existing rows were all created against Jira with username + API token, so they default to basic auth.
+export const migration: Migration = {
+  id: 5,
+  name: 'jira_auth_mode',
+  up: async (db) => {
+    await addColumnIfMissing(db, 'jira_configs', 'authMode', "TEXT NOT NULL DEFAULT 'basic'");
+  },
+  down: async (db) => {
+    await db.exec(`ALTER TABLE jira_configs DROP COLUMN authMode;`);
+  },
+};
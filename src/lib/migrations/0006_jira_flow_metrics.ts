@@ -0,0 +1,14 @@
+// src/lib/migrations/0006_jira_flow_metrics.ts
+import type { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+export const migration: Migration = {
+  id: 6,
+  name: 'jira_flow_metrics',
+  up: async (db) => {
+    await addColumnIfMissing(db, 'jira_team_metrics', 'flowMetrics', 'TEXT');
+  },
+  down: async (db) => {
+    await db.exec(`ALTER TABLE jira_team_metrics DROP COLUMN flowMetrics;`);
+  },
+};
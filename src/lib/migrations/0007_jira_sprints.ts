@@ -0,0 +1,33 @@
+// src/lib/migrations/0007_jira_sprints.ts
+import type { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+export const migration: Migration = {
+  id: 7,
+  name: 'jira_sprints',
+  up: async (db) => {
+    await addColumnIfMissing(db, 'jira_configs', 'storyPointsField', 'TEXT');
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS jira_sprint_metrics (
+        teamId TEXT NOT NULL,
+        sprintId INTEGER NOT NULL,
+        boardId INTEGER,
+        name TEXT,
+        state TEXT,
+        startDate TEXT,
+        endDate TEXT,
+        completeDate TEXT,
+        metricsData TEXT, 
+        lastRefreshed TEXT,
+        PRIMARY KEY (teamId, sprintId),
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      DROP TABLE IF EXISTS jira_sprint_metrics;
+      ALTER TABLE jira_configs DROP COLUMN storyPointsField;
+    `);
+  },
+};
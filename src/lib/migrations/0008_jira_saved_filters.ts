@@ -0,0 +1,75 @@
+// src/lib/migrations/0008_jira_saved_filters.ts
+import type { Migration } from './types';
+
+// jira_team_metrics was keyed by teamId alone. Saved filters store one row per (teamId, filterId), which needs a
+// new primary key, so the table is rebuilt and existing rows become the project-wide 'all' view.
+export const migration: Migration = {
+  id: 8,
+  name: 'jira_saved_filters',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS jira_filters (
+        id TEXT PRIMARY KEY,
+        teamId TEXT NOT NULL,
+        name TEXT NOT NULL,
+        jql TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE jira_team_metrics_new (
+        teamId TEXT NOT NULL,
+        filterId TEXT NOT NULL DEFAULT 'all',
+        totalIssues INTEGER DEFAULT 0,
+        issuesByType TEXT, 
+        issuesByAssignee TEXT, 
+        issuesByStatus TEXT, 
+        issuesByLabel TEXT, 
+        issuesByCategory TEXT, 
+        averageIssueAgeDays REAL DEFAULT 0,
+        openIssues INTEGER,
+        flowMetrics TEXT,
+        lastRefreshed TEXT, 
+        info TEXT, 
+        PRIMARY KEY (teamId, filterId),
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+
+      INSERT INTO jira_team_metrics_new
+        (teamId, filterId, totalIssues, issuesByType, issuesByAssignee, issuesByStatus, issuesByLabel, issuesByCategory, averageIssueAgeDays, openIssues, flowMetrics, lastRefreshed, info)
+      SELECT teamId, 'all', totalIssues, issuesByType, issuesByAssignee, issuesByStatus, issuesByLabel, issuesByCategory, averageIssueAgeDays, openIssues, flowMetrics, lastRefreshed, info
+      FROM jira_team_metrics;
+
+      DROP TABLE jira_team_metrics;
+      ALTER TABLE jira_team_metrics_new RENAME TO jira_team_metrics;
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      CREATE TABLE jira_team_metrics_old (
+        teamId TEXT PRIMARY KEY,
+        totalIssues INTEGER DEFAULT 0,
+        issuesByType TEXT, 
+        issuesByAssignee TEXT, 
+        issuesByStatus TEXT, 
+        issuesByLabel TEXT, 
+        issuesByCategory TEXT, 
+        averageIssueAgeDays REAL DEFAULT 0,
+        openIssues INTEGER,
+        flowMetrics TEXT,
+        lastRefreshed TEXT, 
+        info TEXT, 
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+
+      INSERT INTO jira_team_metrics_old
+        (teamId, totalIssues, issuesByType, issuesByAssignee, issuesByStatus, issuesByLabel, issuesByCategory, averageIssueAgeDays, openIssues, flowMetrics, lastRefreshed, info)
+      SELECT teamId, totalIssues, issuesByType, issuesByAssignee, issuesByStatus, issuesByLabel, issuesByCategory, averageIssueAgeDays, openIssues, flowMetrics, lastRefreshed, info
+      FROM jira_team_metrics WHERE filterId = 'all';
+
+      DROP TABLE jira_team_metrics;
+      ALTER TABLE jira_team_metrics_old RENAME TO jira_team_metrics;
+      DROP TABLE IF EXISTS jira_filters;
+    `);
+  },
+};
@@ -0,0 +1,31 @@
+// src/lib/migrations/0009_jira_multi_project.ts
+import type { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+// Teams can now map to several Jira projects. projectName is kept (as a readable, comma-separated list of the
+// configured projects) so older builds still find something; projects holds the JSON list of project scopes.
+export const migration: Migration = {
+  id: 9,
+  name: 'jira_multi_project',
+  up: async (db) => {
+    await addColumnIfMissing(db, 'jira_configs', 'projects', 'TEXT');
+    await addColumnIfMissing(db, 'jira_team_metrics', 'projectBreakdown', 'TEXT');
+
+    const rows = await db.all<{ teamId: string; projectName: string }[]>(
+      `SELECT teamId, projectName FROM jira_configs WHERE projects IS NULL AND projectName IS NOT NULL AND projectName != ''`
+    );
+    for (const row of rows) {
+      await db.run(
+        'UPDATE jira_configs SET projects = ? WHERE teamId = ?',
+        JSON.stringify([{ project: row.projectName, components: "" }]),
+        row.teamId
+      );
+    }
+  },
+  down: async (db) => {
+    await db.exec(`
+      ALTER TABLE jira_team_metrics DROP COLUMN projectBreakdown;
+      ALTER TABLE jira_configs DROP COLUMN projects;
+    `);
+  },
+};
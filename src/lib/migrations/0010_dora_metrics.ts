@@ -0,0 +1,32 @@
+// src/lib/migrations/0010_dora_metrics.ts
+import type { Migration } from './types';
+
+export const migration: Migration = {
+  id: 10,
+  name: 'dora_metrics',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS dora_configs (
+        teamId TEXT PRIMARY KEY,
+        deploymentSource TEXT NOT NULL DEFAULT 'auto',
+        productionEnvironment TEXT NOT NULL DEFAULT 'production',
+        failurePatterns TEXT,
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS dora_team_metrics (
+        teamId TEXT PRIMARY KEY,
+        metricsData TEXT,
+        lastRefreshed TEXT,
+        info TEXT,
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      DROP TABLE IF EXISTS dora_team_metrics;
+      DROP TABLE IF EXISTS dora_configs;
+    `);
+  },
+};
@@ -0,0 +1,27 @@
+// src/lib/migrations/0011_github_repo_sync.ts
+import type { Migration } from './types';
+
+export const migration: Migration = {
+  id: 11,
+  name: 'github_repo_sync',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS github_repo_sync_state (
+        teamId TEXT NOT NULL,
+        repoFullName TEXT NOT NULL,
+        lastCommitSha TEXT,
+        lastCommitDate TEXT,
+        commits TEXT,
+        lastCloneHead TEXT,
+        clonedTotalLines INTEGER,
+        clonedLinesByLanguage TEXT,
+        lastSyncedAt TEXT,
+        PRIMARY KEY (teamId, repoFullName),
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+    `);
+  },
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS github_repo_sync_state;');
+  },
+};
@@ -0,0 +1,39 @@
+// src/lib/migrations/0012_people_registry.ts
+import type { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+// One row per person on a team, plus every GitHub/git/Jira identity known to belong to them. An identity maps to
+// at most one person per team; reassigning it is a manual override of an earlier (possibly suggested) merge.
+export const migration: Migration = {
+  id: 12,
+  name: 'people_registry',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS people (
+        id TEXT PRIMARY KEY,
+        teamId TEXT NOT NULL,
+        displayName TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS person_identities (
+        teamId TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        value TEXT NOT NULL,
+        personId TEXT NOT NULL,
+        PRIMARY KEY (teamId, kind, value),
+        FOREIGN KEY(personId) REFERENCES people(id) ON DELETE CASCADE
+      );
+    `);
+    // Jira assignees keyed by account ID, so they can be resolved to people independently of display names.
+    await addColumnIfMissing(db, 'jira_team_metrics', 'assigneeIdentities', 'TEXT');
+  },
+  down: async (db) => {
+    await db.exec(`
+      ALTER TABLE jira_team_metrics DROP COLUMN assigneeIdentities;
+      DROP TABLE IF EXISTS person_identities;
+      DROP TABLE IF EXISTS people;
+    `);
+  },
+};
@@ -0,0 +1,65 @@
+// src/lib/migrations/0013_team_roster.ts
+import type { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+import { v4 as uuidv4 } from 'uuid';
+
+// Frozen copy of roster.ts UNKNOWN_START_DATE, so this migration keeps doing what it shipped with.
+const UNKNOWN_START_DATE = '1970-01-01';
+
+// team_members rows become named individuals. Old aggregate rows (N resources of one technology/band/rate) are
+// expanded into N members with placeholder names so headcount and cost stay the same; numResources is left at 1.
+// When they joined is unknown, so they count as on the team since always.
+export const migration: Migration = {
+  id: 13,
+  name: 'team_roster',
+  up: async (db) => {
+    await addColumnIfMissing(db, 'team_members', 'name', 'TEXT');
+    await addColumnIfMissing(db, 'team_members', 'role', 'TEXT');
+    await addColumnIfMissing(db, 'team_members', 'allocationPercent', 'INTEGER NOT NULL DEFAULT 100');
+    await addColumnIfMissing(db, 'team_members', 'startDate', 'TEXT');
+    await addColumnIfMissing(db, 'team_members', 'endDate', 'TEXT');
+    await addColumnIfMissing(db, 'team_members', 'personId', 'TEXT');
+
+    const rows = await db.all<{ id: string; teamId: string; technology: string; band: string; rate: number; numResources: number | null }[]>(
+      'SELECT id, teamId, technology, band, rate, numResources FROM team_members WHERE name IS NULL ORDER BY teamId, technology, band, rate'
+    );
+    // Placeholders are numbered across every row of the team that shares a technology and band, so names stay unique.
+    const totals = new Map<string, number>();
+    for (const row of rows) {
+      const key = `${row.teamId}|${row.technology} ${row.band}`;
+      totals.set(key, (totals.get(key) || 0) + Math.max(1, row.numResources || 1));
+    }
+    const numbered = new Map<string, number>();
+    const nextName = (teamId: string, baseName: string) => {
+      const key = `${teamId}|${baseName}`;
+      const n = (numbered.get(key) || 0) + 1;
+      numbered.set(key, n);
+      return totals.get(key)! > 1 ? `${baseName} #${n}` : baseName;
+    };
+    for (const row of rows) {
+      const count = Math.max(1, row.numResources || 1);
+      const baseName = `${row.technology} ${row.band}`;
+      await db.run(
+        `UPDATE team_members SET name = ?, role = 'Engineer', startDate = ?, numResources = 1 WHERE id = ?`,
+        nextName(row.teamId, baseName), UNKNOWN_START_DATE, row.id
+      );
+      for (let i = 2; i <= count; i++) {
+        await db.run(
+          `INSERT INTO team_members (id, teamId, technology, band, rate, numResources, name, role, allocationPercent, startDate)
+           VALUES (?, ?, ?, ?, ?, 1, ?, 'Engineer', 100, ?)`,
+          uuidv4(), row.teamId, row.technology, row.band, row.rate, nextName(row.teamId, baseName), UNKNOWN_START_DATE
+        );
+      }
+    }
+  },
+  down: async (db) => {
+    await db.exec(`
+      ALTER TABLE team_members DROP COLUMN personId;
+      ALTER TABLE team_members DROP COLUMN endDate;
+      ALTER TABLE team_members DROP COLUMN startDate;
+      ALTER TABLE team_members DROP COLUMN allocationPercent;
+      ALTER TABLE team_members DROP COLUMN role;
+      ALTER TABLE team_members DROP COLUMN name;
+    `);
+  },
+};
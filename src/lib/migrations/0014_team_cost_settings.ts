@@ -0,0 +1,22 @@
+// src/lib/migrations/0014_team_cost_settings.ts
+import type { Migration } from './types';
+
+export const migration: Migration = {
+  id: 14,
+  name: 'team_cost_settings',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS team_cost_settings (
+        teamId TEXT PRIMARY KEY,
+        rateUnit TEXT NOT NULL DEFAULT 'hourly',
+        hoursPerDay REAL NOT NULL DEFAULT 8,
+        workingDaysPerWeek INTEGER NOT NULL DEFAULT 5,
+        holidays TEXT,
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+    `);
+  },
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS team_cost_settings;');
+  },
+};
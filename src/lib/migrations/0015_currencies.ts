@@ -0,0 +1,43 @@
+// src/lib/migrations/0015_currencies.ts
+import type { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+// Rates were implicitly USD, which stays the default for existing members and the reporting currency.
+export const migration: Migration = {
+  id: 15,
+  name: 'currencies',
+  up: async (db) => {
+    await addColumnIfMissing(db, 'team_members', 'currency', "TEXT NOT NULL DEFAULT 'USD'");
+    await addColumnIfMissing(db, 'team_members', 'location', 'TEXT');
+    await addColumnIfMissing(db, 'team_cost_settings', 'reportingCurrency', "TEXT NOT NULL DEFAULT 'USD'");
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS exchange_rates (
+        id TEXT PRIMARY KEY,
+        currency TEXT NOT NULL,
+        effectiveDate TEXT NOT NULL,
+        unitsPerUsd REAL NOT NULL,
+        UNIQUE(currency, effectiveDate)
+      );
+
+      CREATE TABLE IF NOT EXISTS rate_cards (
+        id TEXT PRIMARY KEY,
+        location TEXT NOT NULL,
+        band TEXT NOT NULL,
+        currency TEXT NOT NULL,
+        rateUnit TEXT NOT NULL,
+        rate REAL NOT NULL,
+        UNIQUE(location, band)
+      );
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      DROP TABLE IF EXISTS rate_cards;
+      DROP TABLE IF EXISTS exchange_rates;
+      ALTER TABLE team_cost_settings DROP COLUMN reportingCurrency;
+      ALTER TABLE team_members DROP COLUMN location;
+      ALTER TABLE team_members DROP COLUMN currency;
+    `);
+  },
+};
@@ -0,0 +1,15 @@
+// src/lib/migrations/0016_team_archive.ts
+import type { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+// Archived teams keep their configuration and history but drop out of team selectors until restored.
+export const migration: Migration = {
+  id: 16,
+  name: 'team_archive',
+  up: async (db) => {
+    await addColumnIfMissing(db, 'teams', 'archivedAt', 'TEXT');
+  },
+  down: async (db) => {
+    await db.exec(`ALTER TABLE teams DROP COLUMN archivedAt;`);
+  },
+};
@@ -0,0 +1,41 @@
+// src/lib/migrations/0017_boomerang_runs.ts
+import type { Migration } from './types';
+
+// Pipeline runs are kept individually so a refresh only has to fetch runs since the last one; the computed
+// per-period metrics are stored alongside like the other sources.
+export const migration: Migration = {
+  id: 17,
+  name: 'boomerang_runs',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS boomerang_pipeline_runs (
+        teamId TEXT NOT NULL,
+        runId TEXT NOT NULL,
+        workflowId TEXT NOT NULL,
+        workflowName TEXT NOT NULL,
+        status TEXT NOT NULL,
+        trigger TEXT,
+        environment TEXT,
+        startedAt TEXT NOT NULL,
+        durationSeconds REAL,
+        PRIMARY KEY (teamId, runId),
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS idx_boomerang_pipeline_runs_started ON boomerang_pipeline_runs (teamId, startedAt);
+
+      CREATE TABLE IF NOT EXISTS boomerang_team_metrics (
+        teamId TEXT PRIMARY KEY,
+        metricsData TEXT,
+        lastRefreshed TEXT,
+        info TEXT,
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      DROP TABLE IF EXISTS boomerang_team_metrics;
+      DROP TABLE IF EXISTS boomerang_pipeline_runs;
+    `);
+  },
+};
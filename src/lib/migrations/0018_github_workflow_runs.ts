@@ -0,0 +1,16 @@
+// src/lib/migrations/0018_github_workflow_runs.ts
+import type { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+// GitHub Actions runs are cached per repo like commits, so each refresh only fetches runs (and their jobs) it
+// has not seen finish yet.
+export const migration: Migration = {
+  id: 18,
+  name: 'github_workflow_runs',
+  up: async (db) => {
+    await addColumnIfMissing(db, 'github_repo_sync_state', 'workflowRuns', 'TEXT');
+  },
+  down: async (db) => {
+    await db.exec(`ALTER TABLE github_repo_sync_state DROP COLUMN workflowRuns;`);
+  },
+};
@@ -0,0 +1,34 @@
+// src/lib/migrations/0019_jenkins.ts
+import type { Migration } from './types';
+
+// Jenkins keeps its own build history, so only the configuration and the computed per-period metrics are stored.
+export const migration: Migration = {
+  id: 19,
+  name: 'jenkins',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS jenkins_configs (
+        teamId TEXT PRIMARY KEY,
+        url TEXT NOT NULL,
+        username TEXT NOT NULL,
+        apiToken TEXT NOT NULL,
+        jobNames TEXT NOT NULL,
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS jenkins_team_metrics (
+        teamId TEXT PRIMARY KEY,
+        metricsData TEXT,
+        lastRefreshed TEXT,
+        info TEXT,
+        FOREIGN KEY(teamId) REFERENCES teams(id) ON DELETE CASCADE
+      );
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      DROP TABLE IF EXISTS jenkins_team_metrics;
+      DROP TABLE IF EXISTS jenkins_configs;
+    `);
+  },
+};
@@ -0,0 +1,15 @@
+// src/lib/migrations/0020_scm_provider.ts
+import type { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+// Source-control configs predate provider choice, so existing rows stay on GitHub.
+export const migration: Migration = {
+  id: 20,
+  name: 'scm_provider',
+  up: async (db) => {
+    await addColumnIfMissing(db, 'github_configs', 'provider', "TEXT NOT NULL DEFAULT 'github'");
+  },
+  down: async (db) => {
+    await db.exec(`ALTER TABLE github_configs DROP COLUMN provider;`);
+  },
+};
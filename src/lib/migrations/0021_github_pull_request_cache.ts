@@ -0,0 +1,16 @@
+// src/lib/migrations/0021_github_pull_request_cache.ts
+import type { Migration } from './types';
+import { addColumnIfMissing } from './helpers';
+
+// Pull requests are cached per repo like commits and workflow runs, so each refresh only fetches (with their details
+// and reviews) the ones updated since the last.
+export const migration: Migration = {
+  id: 21,
+  name: 'github_pull_request_cache',
+  up: async (db) => {
+    await addColumnIfMissing(db, 'github_repo_sync_state', 'pullRequests', 'TEXT');
+  },
+  down: async (db) => {
+    await db.exec(`ALTER TABLE github_repo_sync_state DROP COLUMN pullRequests;`);
+  },
+};
@@ -0,0 +1,14 @@
+// src/lib/migrations/helpers.ts
+import type { Database } from 'sqlite';
+
+export async function columnExists(db: Database, table: string, column: string): Promise<boolean> {
+  const cols = await db.all<{ name: string }[]>(`PRAGMA table_info(${table});`);
+  return cols.some(col => col.name === column);
+}
+
+export async function addColumnIfMissing(db: Database, table: string, column: string, definition: string): Promise<void> {
+  if (!(await columnExists(db, table, column))) {
+    await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+    console.log(`Added ${column} column to ${table} table.`);
+  }
+}
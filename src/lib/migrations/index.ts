@@ -0,0 +1,4 @@
+// src/lib/migrations/index.ts
+export type { Migration } from './types';
+export { MIGRATIONS } from './registry';
+export { applyPendingMigrations, getPendingMigrations, getAppliedMigrations, rollbackMigrations, type AppliedMigration } from './runner';
@@ -0,0 +1,48 @@
+// src/lib/migrations/registry.ts
+import type { Migration } from './types';
+import { migration as m0001 } from './0001_initial_schema';
+import { migration as m0002 } from './0002_backfill_legacy_columns';
+import { migration as m0003 } from './0003_metric_snapshots';
+import { migration as m0004 } from './0004_encrypt_credentials';
+import { migration as m0005 } from './0005_jira_auth_mode';
+import { migration as m0006 } from './0006_jira_flow_metrics';
+import { migration as m0007 } from './0007_jira_sprints';
+import { migration as m0008 } from './0008_jira_saved_filters';
+import { migration as m0009 } from './0009_jira_multi_project';
+import { migration as m0010 } from './0010_dora_metrics';
+import { migration as m0011 } from './0011_github_repo_sync';
+import { migration as m0012 } from './0012_people_registry';
+import { migration as m0013 } from './0013_team_roster';
+import { migration as m0014 } from './0014_team_cost_settings';
+import { migration as m0015 } from './0015_currencies';
+import { migration as m0016 } from './0016_team_archive';
+import { migration as m0017 } from './0017_boomerang_runs';
+import { migration as m0018 } from './0018_github_workflow_runs';
+import { migration as m0019 } from './0019_jenkins';
+import { migration as m0020 } from './0020_scm_provider';
+import { migration as m0021 } from './0021_github_pull_request_cache';
+
+// Append new migrations here, in id order. Never renumber or edit a migration that has shipped.
+export const MIGRATIONS: Migration[] = [
+  m0001,
+  m0002,
+  m0003,
+  m0004,
+  m0005,
+  m0006,
+  m0007,
+  m0008,
+  m0009,
+  m0010,
+  m0011,
+  m0012,
+  m0013,
+  m0014,
+  m0015,
+  m0016,
+  m0017,
+  m0018,
+  m0019,
+  m0020,
+  m0021,
+];
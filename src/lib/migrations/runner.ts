@@ -0,0 +1,82 @@
+// src/lib/migrations/runner.ts
+import type { Database } from 'sqlite';
+import type { Migration } from './types';
+import { MIGRATIONS } from './registry';
+
+export interface AppliedMigration {
+  id: number;
+  name: string;
+  appliedAt: string;
+}
+
+async function ensureMigrationsTable(db: Database): Promise<void> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      appliedAt TEXT NOT NULL
+    );
+  `);
+}
+
+function assertMigrationOrder(migrations: Migration[]): void {
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migration.id <= migrations[index - 1].id) {
+      throw new Error(`Migrations are out of order: ${migration.id}_${migration.name} is listed after ${migrations[index - 1].id}_${migrations[index - 1].name}.`);
+    }
+  });
+}
+
+async function runInTransaction(db: Database, label: string, work: () => Promise<void>): Promise<void> {
+  await db.exec('BEGIN');
+  try {
+    await work();
+    await db.exec('COMMIT');
+  } catch (error: any) {
+    await db.exec('ROLLBACK');
+    throw new Error(`Migration ${label} failed and was rolled back: ${error.message}`);
+  }
+}
+
+export async function getAppliedMigrations(db: Database): Promise<AppliedMigration[]> {
+  await ensureMigrationsTable(db);
+  return db.all<AppliedMigration[]>('SELECT id, name, appliedAt FROM schema_migrations ORDER BY id ASC');
+}
+
+export async function getPendingMigrations(db: Database, migrations: Migration[] = MIGRATIONS): Promise<Migration[]> {
+  assertMigrationOrder(migrations);
+  const appliedIds = new Set((await getAppliedMigrations(db)).map(m => m.id));
+  return migrations.filter(m => !appliedIds.has(m.id));
+}
+
+export async function applyPendingMigrations(db: Database, migrations: Migration[] = MIGRATIONS): Promise<Migration[]> {
+  const pending = await getPendingMigrations(db, migrations);
+  for (const migration of pending) {
+    const label = `${migration.id}_${migration.name}`;
+    await runInTransaction(db, label, async () => {
+      await migration.up(db);
+      await db.run('INSERT INTO schema_migrations (id, name, appliedAt) VALUES (?, ?, ?)', migration.id, migration.name, new Date().toISOString());
+    });
+    console.log(`Applied migration ${label}.`);
+  }
+  return pending;
+}
+
+export async function rollbackMigrations(db: Database, steps = 1, migrations: Migration[] = MIGRATIONS): Promise<Migration[]> {
+  const applied = (await getAppliedMigrations(db)).reverse().slice(0, steps);
+  const rolledBack: Migration[] = [];
+  for (const record of applied) {
+    const migration = migrations.find(m => m.id === record.id);
+    if (!migration) {
+      throw new Error(`Cannot roll back migration ${record.id}_${record.name}: it is not in the migration registry.`);
+    }
+    const label = `${migration.id}_${migration.name}`;
+    await runInTransaction(db, label, async () => {
+      await migration.down(db);
+      await db.run('DELETE FROM schema_migrations WHERE id = ?', migration.id);
+    });
+    console.log(`Rolled back migration ${label}.`);
+    rolledBack.push(migration);
+  }
+  return rolledBack;
+}
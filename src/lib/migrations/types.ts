@@ -0,0 +1,9 @@
+// src/lib/migrations/types.ts
+import type { Database } from 'sqlite';
+
+export interface Migration {
+  id: number; // Must match the numeric prefix of the migration file name
+  name: string;
+  up: (db: Database) => Promise<void>;
+  down: (db: Database) => Promise<void>;
+}
@@ -0,0 +1,90 @@
+// src/lib/roster.ts
+// Summarizes the team roster for the AI insights prompt: who is on the team today, how much of each person's time
+// the team gets (FTE = allocation / 100) and how that splits across roles, technologies and bands.
+import type { Person, TeamMember } from './db';
+import type { PersonIdentity } from './schemas';
+
+const MS_PER_MONTH = 1000 * 60 * 60 * 24 * 30.44;
+
+// Start date of members carried over from the old aggregate rows, whose joining date was never recorded: it puts
+// them on the team for all of the cost history.
+export const UNKNOWN_START_DATE = '1970-01-01';
+
+export interface TeamCompositionMember {
+  name: string;
+  role: string;
+  technology: string;
+  band: string;
+  rate: number;
+  currency: string;
+  location?: string;
+  allocationPercent: number;
+  startDate: string;
+  endDate?: string;
+  tenureMonths?: number; // Omitted when the start date is unknown.
+  identities: PersonIdentity[];
+}
+
+export interface TeamComposition {
+  asOf: string;
+  headcount: number;
+  fullTimeEquivalent: number;
+  fteByRole: Record<string, number>;
+  fteByTechnology: Record<string, number>;
+  fteByBand: Record<string, number>;
+  members: TeamCompositionMember[];
+  formerMembers: { name: string; role: string; endDate: string }[]; // Left the team within the last year.
+  upcomingMembers: { name: string; role: string; startDate: string }[];
+}
+
+export function isActiveMember(member: Pick<TeamMember, 'startDate' | 'endDate'>, asOf: string): boolean {
+  return member.startDate <= asOf && (!member.endDate || member.endDate >= asOf);
+}
+
+export function computeTeamComposition(members: TeamMember[], people: Person[], now: Date = new Date()): TeamComposition {
+  const asOf = now.toISOString().slice(0, 10);
+  const oneYearAgo = new Date(now.getTime() - 12 * MS_PER_MONTH).toISOString().slice(0, 10);
+  const peopleById = new Map(people.map(person => [person.id, person]));
+  const active = members.filter(member => isActiveMember(member, asOf));
+
+  const composition: TeamComposition = {
+    asOf,
+    headcount: active.length,
+    fullTimeEquivalent: 0,
+    fteByRole: {},
+    fteByTechnology: {},
+    fteByBand: {},
+    members: [],
+    formerMembers: members
+      .filter(member => member.endDate && member.endDate < asOf && member.endDate >= oneYearAgo)
+      .map(member => ({ name: member.name, role: member.role, endDate: member.endDate as string })),
+    upcomingMembers: members
+      .filter(member => member.startDate > asOf)
+      .map(member => ({ name: member.name, role: member.role, startDate: member.startDate })),
+  };
+
+  for (const member of active) {
+    const fte = member.allocationPercent / 100;
+    composition.fullTimeEquivalent += fte;
+    composition.fteByRole[member.role] = (composition.fteByRole[member.role] || 0) + fte;
+    composition.fteByTechnology[member.technology] = (composition.fteByTechnology[member.technology] || 0) + fte;
+    composition.fteByBand[member.band] = (composition.fteByBand[member.band] || 0) + fte;
+    composition.members.push({
+      name: member.name,
+      role: member.role,
+      technology: member.technology,
+      band: member.band,
+      rate: member.rate,
+      currency: member.currency,
+      location: member.location,
+      allocationPercent: member.allocationPercent,
+      startDate: member.startDate,
+      endDate: member.endDate,
+      tenureMonths: member.startDate === UNKNOWN_START_DATE
+        ? undefined
+        : Math.max(0, Math.floor((now.getTime() - new Date(member.startDate).getTime()) / MS_PER_MONTH)),
+      identities: (member.personId && peopleById.get(member.personId)?.identities) || [],
+    });
+  }
+  return composition;
+}
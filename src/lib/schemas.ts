@@ -1,6 +1,6 @@
 
 import { z } from 'zod';
-import { TECHNOLOGIES, BANDS, DB_TYPES } from './constants';
+import { TECHNOLOGIES, BANDS, ROLES, DB_TYPES, CURRENCIES, LOCATIONS, BASE_CURRENCY } from './constants';
 
 export const TeamSchema = z.object({
   name: z.string().min(1, "Team name is required."),
@@ -12,11 +12,13 @@ export const GithubRepoSchema = z.object({
   name: z.string(),
   url: z.string().url().optional(),
   fullName: z.string().optional(), // e.g., "owner/repo-name"
+  cloneUrl: z.string().url().optional(), // Set when the HTTPS clone URL can't be derived from `url`.
 });
 export type GithubRepoData = z.infer<typeof GithubRepoSchema>;
 
 export const GithubConfigSchema = z.object({
   teamId: z.string().min(1, "Team selection is required."),
+  provider: z.enum(["github", "gitlab", "bitbucket_server", "azure_devops"]).default("github"),
   rootUrl: z.string().url("Invalid URL format.").default("https://github.com/"),
   accessToken: z.string().optional(),
   selectedRepos: z.array(GithubRepoSchema).optional().default([]),
@@ -25,6 +27,11 @@ export type GithubConfigFormData = z.infer<typeof GithubConfigSchema>;
 
 export const TeamMemberSchema = z.object({
   teamId: z.string().min(1, "Team selection is required."),
+  id: z.string().optional(), // Set when editing an existing member.
+  name: z.string().trim().min(1, "Name is required."),
+  role: z.enum(ROLES as [string, ...string[]], {
+    errorMap: () => ({ message: "Please select a valid role." }),
+  }),
   technology: z.enum(TECHNOLOGIES as [string, ...string[]], {
     errorMap: () => ({ message: "Please select a valid technology." }),
   }),
@@ -35,20 +42,51 @@ export const TeamMemberSchema = z.object({
     (val) => parseFloat(String(val)),
     z.number().positive("Rate must be a positive number.")
   ),
-  numResources: z.preprocess(
+  currency: z.enum(CURRENCIES as [string, ...string[]], {
+    errorMap: () => ({ message: "Please select a valid currency." }),
+  }),
+  location: z.enum(LOCATIONS as [string, ...string[]]).optional(),
+  allocationPercent: z.preprocess(
     (val) => parseInt(String(val), 10),
-    z.number().int().positive("Number of resources must be a positive integer.")
+    z.number().int().min(1, "Allocation must be at least 1%.").max(100, "Allocation cannot exceed 100%.")
   ),
+  startDate: z.string().min(1, "Start date is required."), // yyyy-mm-dd
+  endDate: z.string().optional(), // Empty while the member is still on the team.
+  personId: z.string().optional(), // Link to the People registry, which holds their GitHub/Jira identities.
+}).refine(data => !data.endDate || data.endDate >= data.startDate, {
+  message: "End date cannot be before the start date.",
+  path: ["endDate"],
 });
 export type TeamMemberFormData = z.infer<typeof TeamMemberSchema>;
 
+export const JiraProjectScopeSchema = z.object({
+  project: z.string().trim().min(1, "Project name or key is required."),
+  components: z.string().optional(), // Comma-separated component names; empty means the whole project.
+});
+export type JiraProjectScope = z.infer<typeof JiraProjectScopeSchema>;
+
 export const JiraConfigSchema = z.object({
   teamId: z.string().min(1, "Team selection is required."),
-  projectName: z.string().min(1, "Project name or key is required."),
+  projects: z.array(JiraProjectScopeSchema).min(1, "Add at least one Jira project."),
+  url: z.string().url("Invalid URL format."),
+  authMode: z.enum(["basic", "bearer"]),
+  username: z.string().optional(),
   accessKey: z.string().min(1, "Jira API Token (Access Key) is required."),
+  storyPointsField: z.string().regex(/^customfield_\d+$/, "Use a custom field ID such as customfield_10016.").optional().or(z.literal("")),
+}).refine(data => data.authMode !== "basic" || !!data.username?.trim(), {
+  message: "Username (email) is required for username + API token authentication.",
+  path: ["username"],
 });
 export type JiraConfigFormData = z.infer<typeof JiraConfigSchema>;
 
+export const JiraFilterSchema = z.object({
+  teamId: z.string().min(1, "Team selection is required."),
+  id: z.string().optional(),
+  name: z.string().trim().min(1, "Filter name is required.").max(60, "Keep the filter name under 60 characters."),
+  jql: z.string().trim().min(1, "JQL is required."),
+});
+export type JiraFilterFormData = z.infer<typeof JiraFilterSchema>;
+
 export const SonarQubeConfigSchema = z.object({
   teamId: z.string().min(1, "Team selection is required."),
   url: z.string().url("Invalid URL format."),
@@ -63,6 +101,15 @@ export const BoomerangConfigSchema = z.object({
 });
 export type BoomerangConfigFormData = z.infer<typeof BoomerangConfigSchema>;
 
+export const JenkinsConfigSchema = z.object({
+  teamId: z.string().min(1, "Team selection is required."),
+  url: z.string().url("Invalid URL format."),
+  username: z.string().trim().min(1, "Username is required."),
+  apiToken: z.string().min(1, "API token is required."),
+  jobNames: z.string().trim().min(1, "Add at least one job."), // One job per line; folders as "folder/job".
+});
+export type JenkinsConfigFormData = z.infer<typeof JenkinsConfigSchema>;
+
 export const ApiKeysSchema = z.object({
   teamId: z.string().min(1, "Team selection is required."),
   geminiApiKey: z.string().optional(),
@@ -71,6 +118,90 @@ export const ApiKeysSchema = z.object({
 });
 export type ApiKeysFormData = z.infer<typeof ApiKeysSchema>;
 
+export const DoraConfigSchema = z.object({
+  teamId: z.string().min(1, "Team selection is required."),
+  deploymentSource: z.enum(["auto", "deployments", "releases", "tags"]),
+  productionEnvironment: z.string().trim().min(1, "Production environment name is required."),
+  // One case-insensitive regular expression per line, matched against commit messages and release/tag names.
+  failurePatterns: z.string().trim().min(1, "Add at least one revert/hotfix pattern.").refine(value => value.split("\n").every(line => {
+    try {
+      new RegExp(line.trim(), "i");
+      return true;
+    } catch {
+      return false;
+    }
+  }), "Each line must be a valid regular expression."),
+});
+export type DoraConfigFormData = z.infer<typeof DoraConfigSchema>;
+
+const RateUnitSchema = z.enum(["hourly", "daily", "monthly", "yearly"]);
+export type RateUnit = z.infer<typeof RateUnitSchema>;
+
+export const CostSettingsSchema = z.object({
+  teamId: z.string().min(1, "Team selection is required."),
+  reportingCurrency: z.enum(CURRENCIES as [string, ...string[]], {
+    errorMap: () => ({ message: "Please select a valid currency." }),
+  }),
+  rateUnit: RateUnitSchema,
+  hoursPerDay: z.preprocess(
+    (val) => parseFloat(String(val)),
+    z.number().positive("Hours per day must be positive.").max(24, "Hours per day cannot exceed 24.")
+  ),
+  workingDaysPerWeek: z.preprocess(
+    (val) => parseInt(String(val), 10),
+    z.number().int().min(1, "At least one working day per week.").max(7, "A week has seven days.")
+  ),
+  // One yyyy-mm-dd date per line; these days are excluded from working time.
+  holidays: z.string().trim().refine(value => value.split("\n").map(line => line.trim()).filter(Boolean).every(line =>
+    /^\d{4}-\d{2}-\d{2}$/.test(line) && !isNaN(new Date(line).getTime())
+  ), "Each line must be a date in YYYY-MM-DD format."),
+});
+export type CostSettingsFormData = z.infer<typeof CostSettingsSchema>;
+
+export const ExchangeRateSchema = z.object({
+  id: z.string().optional(), // Set when editing an existing rate.
+  currency: z.enum(CURRENCIES as [string, ...string[]]).refine(currency => currency !== BASE_CURRENCY, `${BASE_CURRENCY} is the base currency and always 1.`),
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Effective date is required."),
+  unitsPerUsd: z.preprocess(
+    (val) => parseFloat(String(val)),
+    z.number().positive("Exchange rate must be a positive number.")
+  ),
+});
+export type ExchangeRateFormData = z.infer<typeof ExchangeRateSchema>;
+
+export const RateCardSchema = z.object({
+  id: z.string().optional(), // Set when editing an existing rate card.
+  location: z.enum(LOCATIONS as [string, ...string[]], {
+    errorMap: () => ({ message: "Please select a valid location." }),
+  }),
+  band: z.enum(BANDS as [string, ...string[]], {
+    errorMap: () => ({ message: "Please select a valid band." }),
+  }),
+  currency: z.enum(CURRENCIES as [string, ...string[]], {
+    errorMap: () => ({ message: "Please select a valid currency." }),
+  }),
+  rateUnit: RateUnitSchema,
+  rate: z.preprocess(
+    (val) => parseFloat(String(val)),
+    z.number().positive("Rate must be a positive number.")
+  ),
+});
+export type RateCardFormData = z.infer<typeof RateCardSchema>;
+
+export const PersonIdentitySchema = z.object({
+  kind: z.enum(["github_login", "git_email", "git_name", "jira_account_id", "jira_display_name"]),
+  value: z.string().trim().min(1, "Identity value is required."),
+});
+export type PersonIdentity = z.infer<typeof PersonIdentitySchema>;
+export type IdentityKind = PersonIdentity["kind"];
+
+export const PersonSchema = z.object({
+  teamId: z.string().min(1, "Team selection is required."),
+  id: z.string().optional(), // Set when renaming an existing person.
+  displayName: z.string().trim().min(1, "Display name is required."),
+});
+export type PersonFormData = z.infer<typeof PersonSchema>;
+
 export const DbConfigSchema = z.object({
   dbType: z.enum(DB_TYPES as [string, ...string[]]).default("sqlite"),
   dbPath: z.string().min(1, "DB Path is required.").default("./data/mydatabase.sqlite3"),
@@ -90,3 +221,16 @@ export const PushToRepoSchema = z.object({
   accessToken: z.string().min(1, "Access token is required."),
 });
 export type PushToRepoFormData = z.infer<typeof PushToRepoSchema>;
+
+// Config as returned to the browser: secret fields hold SECRET_PLACEHOLDER (or "") and hasSecret says which are set.
+export type WithSecretFlags<T, K extends keyof T> = T & { hasSecret: Record<K, boolean> };
+
+export type SecretFieldId =
+  | "github.accessToken"
+  | "jira.accessKey"
+  | "sonarqube.accessKey"
+  | "boomerang.accessKey"
+  | "jenkins.apiToken"
+  | "apiKeys.geminiApiKey"
+  | "apiKeys.openAiApiKey"
+  | "apiKeys.claudeAiApiKey";
@@ -0,0 +1,67 @@
+// src/lib/scm-client.ts
+// Shared HTTP retry loop for the GitLab, Bitbucket Server and Azure DevOps REST clients. All three answer 429 (Azure
+// DevOps also 503) with Retry-After, GitLab sometimes only with RateLimit-Reset; short waits are honoured and
+// transient 5xx/network failures retried. When the wait would be too long it throws, so callers can record the fetch
+// as incomplete.
+
+const MAX_ATTEMPTS = 4;
+const MAX_RATE_LIMIT_WAIT_MS = 60 * 1000;
+const DEFAULT_RATE_LIMIT_WAIT_MS = 60 * 1000;
+const BASE_BACKOFF_MS = 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Null when the response isn't a rate limit.
+function rateLimitWaitMs(response: Response): number | null {
+  const retryAfter = response.headers.get('Retry-After');
+  if (response.status !== 429 && !(response.status === 503 && retryAfter)) return null;
+  if (retryAfter) return Number(retryAfter) * 1000;
+  const reset = response.headers.get('RateLimit-Reset');
+  return reset ? Math.max(0, Number(reset) * 1000 - Date.now()) + 1000 : DEFAULT_RATE_LIMIT_WAIT_MS;
+}
+
+export async function scmFetch(providerLabel: string, url: string, init?: RequestInit): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (networkError: any) {
+      if (attempt >= MAX_ATTEMPTS) throw networkError;
+      console.warn(`${providerLabel} request failed (${networkError.message}), attempt ${attempt} of ${MAX_ATTEMPTS}: ${url}`);
+      await sleep(BASE_BACKOFF_MS * 2 ** (attempt - 1));
+      continue;
+    }
+
+    const waitMs = rateLimitWaitMs(response);
+    if (waitMs !== null) {
+      if (attempt >= MAX_ATTEMPTS || waitMs > MAX_RATE_LIMIT_WAIT_MS) {
+        throw new Error(`${providerLabel} rate limited; retry after ${new Date(Date.now() + waitMs).toISOString()} (request: ${url}).`);
+      }
+      console.warn(`${providerLabel} rate limited; waiting ${Math.ceil(waitMs / 1000)}s before requesting ${url}.`);
+      await sleep(waitMs);
+      continue;
+    }
+
+    if (response.status >= 500 && attempt < MAX_ATTEMPTS) {
+      console.warn(`${providerLabel} returned ${response.status}, attempt ${attempt} of ${MAX_ATTEMPTS}: ${url}`);
+      await sleep(BASE_BACKOFF_MS * 2 ** (attempt - 1));
+      continue;
+    }
+    return response;
+  }
+}
+
+// Puts the token into an HTTPS clone URL, keeping a username the provider already embedded (Bitbucket Server and
+// Azure DevOps do); `defaultUser` is used otherwise.
+export function withCloneCredentials(cloneUrl: string, token: string, defaultUser: string): string {
+  if (!cloneUrl.startsWith('https://') || !token) return cloneUrl;
+  const url = new URL(cloneUrl);
+  url.username = url.username || defaultUser;
+  url.password = token;
+  return url.toString();
+}
+
+// Git echoes the clone URL in its errors; the credentials are masked before the text is logged or stored.
+export function redactCloneCredentials(text: string | undefined): string {
+  return (text || '').replace(/(https?:\/\/)[^\s/@]+@/g, '$1***@');
+}
@@ -0,0 +1,48 @@
+// src/lib/scm.ts
+// Source-control provider abstraction behind the code metrics. Each provider scans a team's repositories and
+// returns languages, tags, commits and pull/merge requests in the GitHub-shaped records the metrics are computed
+// from, so the dashboards render the same whichever provider a team uses.
+import type { GithubConfigFormData, GithubRepoData } from './schemas';
+import type { GithubCommitRecord } from './github-commits';
+import type { GithubPullRequestRecord } from './github-pulls';
+import type { GithubWorkflowRunRecord } from './github-workflows';
+import { createGithubProvider } from './github-provider';
+import { createGitlabProvider } from './gitlab-provider';
+import { createBitbucketServerProvider } from './bitbucket-server-provider';
+import { createAzureDevopsProvider } from './azure-devops-provider';
+
+export type ScmProviderId = GithubConfigFormData['provider'];
+
+export interface ScmTag {
+  name: string;
+  date: string; // ISO timestamp of the tagged commit.
+}
+
+export interface ScmProvider {
+  id: ScmProviderId;
+  label: string;
+  listRepos(): Promise<{ repos: GithubRepoData[]; source: string }>;
+  // Null when the provider doesn't report languages; cloned line counts still cover them.
+  fetchLanguageBytes: ((repoFullName: string) => Promise<Record<string, number>>) | null;
+  fetchLatestTags(repoFullName: string, limit: number): Promise<ScmTag[]>;
+  // Commits in `cachedOids` are already in the cache and may be left out, sparing their per-commit requests.
+  fetchCommitHistory(repoFullName: string, since: Date, cachedOids: ReadonlySet<string>): Promise<GithubCommitRecord[]>;
+  fetchPullRequests(repoFullName: string, since: Date): Promise<GithubPullRequestRecord[]>;
+  // Null when the provider has no CI run history to offer.
+  fetchWorkflowRuns: ((repoFullName: string, since: Date, cached: GithubWorkflowRunRecord[]) => Promise<GithubWorkflowRunRecord[]>) | null;
+  cloneUrl(repo: GithubRepoData): string | null;
+}
+
+export function createScmProvider(config: { provider?: ScmProviderId; rootUrl: string; accessToken: string }): ScmProvider {
+  switch (config.provider) {
+    case 'gitlab':
+      return createGitlabProvider(config.rootUrl, config.accessToken);
+    case 'bitbucket_server':
+      return createBitbucketServerProvider(config.rootUrl, config.accessToken);
+    case 'azure_devops':
+      return createAzureDevopsProvider(config.rootUrl, config.accessToken);
+    case 'github':
+    case undefined:
+      return createGithubProvider(config.rootUrl, config.accessToken);
+  }
+}
@@ -0,0 +1,145 @@
+// src/lib/secrets.ts
+// Envelope encryption for credentials stored in SQLite. Each value gets its own random data key
+// (AES-256-GCM); the data key is wrapped with the master key from CREDENTIALS_MASTER_KEY.
+// Stored format: enc:v1:<masterKeyId>:<wrappedDataKey>:<payload>, each part base64 of iv|tag|ciphertext.
+import crypto from 'crypto';
+import type { Database } from 'sqlite';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+export interface SecretColumnGroup {
+  table: string;
+  keyColumn: string;
+  columns: string[];
+}
+
+// Every column that holds a credential. Add new config tables here so key rotation covers them.
+export const SECRET_COLUMNS: SecretColumnGroup[] = [
+  { table: 'api_keys', keyColumn: 'teamId', columns: ['geminiApiKey', 'openAiApiKey', 'claudeAiApiKey'] },
+  { table: 'github_configs', keyColumn: 'teamId', columns: ['accessToken'] },
+  { table: 'jira_configs', keyColumn: 'teamId', columns: ['accessKey'] },
+  { table: 'sonarqube_configs', keyColumn: 'teamId', columns: ['accessKey'] },
+  { table: 'boomerang_configs', keyColumn: 'teamId', columns: ['accessKey'] },
+  { table: 'jenkins_configs', keyColumn: 'teamId', columns: ['apiToken'] },
+];
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function parseMasterKey(raw: string, envName: string): MasterKey {
+  const trimmed = raw.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`${envName} must be a 32-byte key encoded as base64 or hex. Generate one with "npm run db:rotate-key -- --generate".`);
+  }
+  const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+  return { id, key };
+}
+
+function getCurrentMasterKey(): MasterKey {
+  const raw = process.env.CREDENTIALS_MASTER_KEY;
+  if (!raw) {
+    throw new Error("CREDENTIALS_MASTER_KEY is not set. Credentials cannot be stored or read without a master key.");
+  }
+  return parseMasterKey(raw, 'CREDENTIALS_MASTER_KEY');
+}
+
+// The current key plus any retired keys listed (comma-separated) in CREDENTIALS_MASTER_KEY_PREVIOUS.
+function getKnownMasterKeys(): MasterKey[] {
+  const keys = [getCurrentMasterKey()];
+  const previous = process.env.CREDENTIALS_MASTER_KEY_PREVIOUS;
+  if (previous) {
+    for (const raw of previous.split(',').filter(Boolean)) {
+      keys.push(parseMasterKey(raw, 'CREDENTIALS_MASTER_KEY_PREVIOUS'));
+    }
+  }
+  return keys;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const raw = Buffer.from(sealed, 'base64');
+  const iv = raw.subarray(0, IV_LENGTH);
+  const tag = raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(raw.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+export function generateMasterKey(): string {
+  return crypto.randomBytes(KEY_LENGTH).toString('base64');
+}
+
+export function isEncryptedSecret(value: string | null | undefined): boolean {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export function encryptSecret(plaintext: string | null | undefined): string | null {
+  if (!plaintext) return null;
+  const master = getCurrentMasterKey();
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+  const wrappedKey = seal(master.key, dataKey);
+  const payload = seal(dataKey, Buffer.from(plaintext, 'utf-8'));
+  return `${ENCRYPTED_PREFIX}${master.id}:${wrappedKey}:${payload}`;
+}
+
+// Values written before encryption existed are returned unchanged so an un-migrated row still works.
+export function decryptSecret(stored: string | null | undefined): string {
+  if (!stored) return "";
+  if (!isEncryptedSecret(stored)) return stored;
+  const [keyId, wrappedKey, payload] = stored.slice(ENCRYPTED_PREFIX.length).split(':');
+  const master = getKnownMasterKeys().find(k => k.id === keyId);
+  if (!master) {
+    throw new Error(`Stored credential was encrypted with master key ${keyId}, which is not CREDENTIALS_MASTER_KEY or listed in CREDENTIALS_MASTER_KEY_PREVIOUS.`);
+  }
+  const dataKey = open(master.key, wrappedKey);
+  return open(dataKey, payload).toString('utf-8');
+}
+
+// Rewrites every non-empty value in the given columns. Callers wrap this in a transaction.
+export async function transformSecretColumns(
+  db: Database,
+  groups: SecretColumnGroup[],
+  transform: (stored: string) => string | null
+): Promise<number> {
+  let updated = 0;
+  for (const group of groups) {
+    const rows = await db.all<Record<string, string | null>[]>(
+      `SELECT ${[group.keyColumn, ...group.columns].join(', ')} FROM ${group.table}`
+    );
+    for (const row of rows) {
+      for (const column of group.columns) {
+        const stored = row[column];
+        if (!stored) continue;
+        const next = transform(stored);
+        if (next !== stored) {
+          await db.run(`UPDATE ${group.table} SET ${column} = ? WHERE ${group.keyColumn} = ?`, next, row[group.keyColumn]);
+          updated++;
+        }
+      }
+    }
+  }
+  return updated;
+}
+
+// Re-encrypts every stored credential (plaintext or encrypted under any known key) with the current master key.
+export async function reencryptAllSecrets(db: Database, groups: SecretColumnGroup[] = SECRET_COLUMNS): Promise<number> {
+  const current = getCurrentMasterKey();
+  return transformSecretColumns(db, groups, stored => {
+    if (isEncryptedSecret(stored) && stored.startsWith(`${ENCRYPTED_PREFIX}${current.id}:`)) {
+      return stored;
+    }
+    return encryptSecret(decryptSecret(stored));
+  });
+}
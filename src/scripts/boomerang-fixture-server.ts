@@ -0,0 +1,67 @@
+// src/scripts/boomerang-fixture-server.ts
+// Usage:
+//   npm run boomerang:fixtures [-- --port 4010]
+//
+// Serves recorded Boomerang Flow activity from fixtures/boomerang-activity.json on GET /api/v2/activity, paged and
+// filtered like the real API. Run dates are shifted so the newest recorded run started just now, keeping the
+// recording inside the metric periods. Point a team's Boomerang config at the printed URL and access key.
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import type { BoomerangApiActivity } from '@/lib/boomerang';
+
+const ACCESS_KEY = 'fixture-access-key';
+const FIXTURE_PATH = path.join(__dirname, 'fixtures', 'boomerang-activity.json');
+
+function loadActivity(): BoomerangApiActivity[] {
+  const recorded: BoomerangApiActivity[] = JSON.parse(fs.readFileSync(FIXTURE_PATH, 'utf8'));
+  const newest = Math.max(...recorded.map(activity => new Date(activity.creationDate).getTime()));
+  const shiftMs = Date.now() - newest;
+  return recorded
+    .map(activity => ({ ...activity, creationDate: new Date(new Date(activity.creationDate).getTime() + shiftMs).toISOString() }))
+    .sort((a, b) => b.creationDate.localeCompare(a.creationDate));
+}
+
+function send(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+function main() {
+  const portArg = process.argv.indexOf('--port');
+  const port = portArg >= 0 ? parseInt(process.argv[portArg + 1], 10) : 4010;
+  const activity = loadActivity();
+
+  const server = http.createServer((request, response) => {
+    const url = new URL(request.url || '/', `http://localhost:${port}`);
+    console.log(`${request.method} ${url.pathname}${url.search}`);
+    if (request.headers.authorization !== `Bearer ${ACCESS_KEY}`) {
+      send(response, 401, { error: 'Unauthorized' });
+      return;
+    }
+    if (request.method !== 'GET' || url.pathname !== '/api/v2/activity') {
+      send(response, 404, { error: 'Not found' });
+      return;
+    }
+
+    const page = parseInt(url.searchParams.get('page') || '0', 10);
+    const size = parseInt(url.searchParams.get('size') || '10', 10);
+    const fromDate = url.searchParams.get('fromDate');
+    const matching = fromDate
+      ? activity.filter(record => new Date(record.creationDate).getTime() >= Number(fromDate) * 1000)
+      : activity;
+    const totalPages = Math.ceil(matching.length / size);
+    send(response, 200, {
+      records: matching.slice(page * size, (page + 1) * size),
+      pageable: { number: page, size, totalElements: matching.length, totalPages, first: page === 0, last: page + 1 >= totalPages },
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`Boomerang fixture server: ${activity.length} recorded runs.`);
+    console.log(`  URL:        http://localhost:${port}`);
+    console.log(`  Access key: ${ACCESS_KEY}`);
+  });
+}
+
+main();
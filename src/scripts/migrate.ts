@@ -0,0 +1,59 @@
+// src/scripts/migrate.ts
+// Usage:
+//   npm run db:migrate              apply pending migrations
+//   npm run db:migrate:dry-run      print pending migrations without applying them
+//   npm run db:migrate:down [-- N]  roll back the last N applied migrations (default 1)
+import { config } from 'dotenv';
+config();
+
+import sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+import fs from 'fs';
+import path from 'path';
+import { DB_FILE_PATH } from '@/lib/db-path';
+import { applyPendingMigrations, getAppliedMigrations, getPendingMigrations, rollbackMigrations } from '@/lib/migrations';
+
+async function main() {
+  const [command = 'up', ...rest] = process.argv.slice(2);
+  const dryRun = rest.includes('--dry-run') || command === '--dry-run';
+
+  fs.mkdirSync(path.dirname(DB_FILE_PATH), { recursive: true });
+  const db = await open({ filename: DB_FILE_PATH, driver: sqlite3.Database });
+  await db.exec('PRAGMA foreign_keys = ON;');
+
+  try {
+    if (command === 'down') {
+      const steps = parseInt(rest.find(arg => /^\d+$/.test(arg)) || '1', 10);
+      const rolledBack = await rollbackMigrations(db, steps);
+      console.log(rolledBack.length > 0 ? `Rolled back ${rolledBack.length} migration(s).` : 'No applied migrations to roll back.');
+      return;
+    }
+
+    if (dryRun) {
+      const applied = await getAppliedMigrations(db);
+      const pending = await getPendingMigrations(db);
+      console.log(`Database: ${DB_FILE_PATH}`);
+      console.log(`Applied: ${applied.length}${applied.length > 0 ? ` (latest ${applied[applied.length - 1].id}_${applied[applied.length - 1].name})` : ''}`);
+      if (pending.length === 0) {
+        console.log('No pending migrations.');
+      } else {
+        console.log(`Pending (${pending.length}):`);
+        pending.forEach(m => console.log(`  ${m.id}_${m.name}`));
+      }
+      return;
+    }
+
+    if (command !== 'up') {
+      throw new Error(`Unknown command "${command}". Expected "up" or "down".`);
+    }
+    const applied = await applyPendingMigrations(db);
+    console.log(applied.length > 0 ? `Applied ${applied.length} migration(s).` : 'Database schema is up to date.');
+  } finally {
+    await db.close();
+  }
+}
+
+main().catch(error => {
+  console.error(error.message || error);
+  process.exit(1);
+});
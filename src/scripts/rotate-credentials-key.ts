@@ -0,0 +1,44 @@
+// src/scripts/rotate-credentials-key.ts
+// Usage:
+//   npm run db:rotate-key -- --generate   print a fresh master key
+//   npm run db:rotate-key                 re-encrypt every stored credential with CREDENTIALS_MASTER_KEY
+//
+// To rotate: set the new key as CREDENTIALS_MASTER_KEY, move the old one to
+// CREDENTIALS_MASTER_KEY_PREVIOUS, run this script, then drop CREDENTIALS_MASTER_KEY_PREVIOUS.
+import { config } from 'dotenv';
+config();
+
+import sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+import { DB_FILE_PATH } from '@/lib/db-path';
+import { applyPendingMigrations } from '@/lib/migrations';
+import { generateMasterKey, reencryptAllSecrets } from '@/lib/secrets';
+
+async function main() {
+  if (process.argv.includes('--generate')) {
+    console.log(generateMasterKey());
+    return;
+  }
+
+  const db = await open({ filename: DB_FILE_PATH, driver: sqlite3.Database });
+  await db.exec('PRAGMA foreign_keys = ON;');
+  try {
+    await applyPendingMigrations(db);
+    await db.exec('BEGIN');
+    try {
+      const updated = await reencryptAllSecrets(db);
+      await db.exec('COMMIT');
+      console.log(`Re-encrypted ${updated} credential value(s) with the current master key.`);
+    } catch (error) {
+      await db.exec('ROLLBACK');
+      throw error;
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+main().catch(error => {
+  console.error(error.message || error);
+  process.exit(1);
+});